@@ -0,0 +1,162 @@
+/**
+ * WIP Aging Analyzer
+ * How long each started ticket has sat in its current status, against how long
+ * the user's own tickets usually stay there
+ */
+
+import { AgingItem, StatusAge, WipAgingAnalysis } from '../models/analysis';
+import { IssueProgress, IssueWithMetrics } from '../models/issue';
+import { WorkflowStage } from '../models/workflow';
+import { getDataSource } from '../data/source';
+import { getCached, setCache } from '../data/cache';
+import { getUserSettings } from '../data/settings';
+import { getCacheTtlHours } from '../data/siteConfig';
+import { calculateConfidence, median, percentile } from '../utils/calculations';
+import { formatDuration } from '../utils/dateHelpers';
+
+// Older than this percentile of the user's past stays in the status counts as stuck
+export const STUCK_PERCENTILE = 85;
+
+// Fewest past stays in a status a distribution is drawn from
+const MIN_AGE_SAMPLES = 5;
+
+// Stuck tickets named individually in the recommendations
+const MAX_STUCK_CALLOUTS = 3;
+
+const HOUR_MS = 1000 * 60 * 60;
+
+/**
+ * Age the user's started, unfinished tickets
+ */
+export async function analyzeWipAging(accountId: string): Promise<WipAgingAnalysis> {
+  // Check cache; moves on the user's issues clear it
+  const cacheKey = { namespace: 'aging' as const, accountId };
+  const ttlHours = await getCacheTtlHours('aging');
+  const cached = await getCached<WipAgingAnalysis>(cacheKey, ttlHours);
+
+  if (cached) {
+    return cached;
+  }
+
+  const { lookbackDays } = await getUserSettings(accountId);
+  const [active, history] = await Promise.all([
+    getDataSource().getActiveIssueProgress(accountId),
+    getDataSource().getUserIssuesWithMetrics(accountId, lookbackDays)
+  ]);
+
+  const items: AgingItem[] = active
+    .filter(progress => isWorkInProgress(progress.stage))
+    .map(progress => ({
+      issueKey: progress.issue.key,
+      summary: progress.issue.summary,
+      issueType: progress.issue.issueType,
+      status: progress.issue.status,
+      stage: progress.stage,
+      ...measureStatusAge(progress, history)
+    }))
+    .sort((a, b) => overrun(b) - overrun(a) || b.hours - a.hours);
+
+  const dataPoints = history.filter(issue =>
+    issue.metrics.inProgressDuration > 0 || issue.metrics.reviewDuration > 0 || issue.metrics.testingDuration > 0
+  ).length;
+
+  const analysis: WipAgingAnalysis = {
+    accountId,
+    items,
+    stuckCount: items.filter(item => item.stuck).length,
+    recommendations: [],
+    confidence: calculateConfidence(dataPoints),
+    dataPoints,
+    lastUpdated: new Date()
+  };
+  analysis.recommendations = generateAgingRecommendations(analysis);
+
+  // Cache result
+  await setCache(cacheKey, analysis, ttlHours);
+
+  return analysis;
+}
+
+/**
+ * Started but not finished; queued work isn't aging yet
+ */
+export function isWorkInProgress(stage: WorkflowStage): boolean {
+  return stage === 'in_progress' || stage === 'review' || stage === 'testing';
+}
+
+/**
+ * Time since the issue entered its current status, against each of the user's
+ * stays in that status on other issues of the same type, or on all issues when
+ * the type has too few
+ */
+export function measureStatusAge(progress: IssueProgress, history: IssueWithMetrics[]): StatusAge {
+  const hours = (Date.now() - progress.statusEnteredAt.getTime()) / HOUR_MS;
+  const others = history.filter(past => past.key !== progress.issue.key);
+  const stayHours = (issues: IssueWithMetrics[]) => issues
+    .flatMap(past => past.metrics.statusStays[progress.issue.status] || [])
+    .filter(duration => duration > 0);
+
+  const sameType = stayHours(others.filter(past => past.issueType === progress.issue.issueType));
+  const all = stayHours(others);
+  const [basis, durations]: [StatusAge['basis'], number[]] = sameType.length >= MIN_AGE_SAMPLES
+    ? ['issueType', sameType]
+    : all.length >= MIN_AGE_SAMPLES ? ['all', all] : ['none', []];
+
+  if (basis === 'none') {
+    return { hours, basis, sampleSize: 0, stuck: false };
+  }
+
+  const p85Hours = percentile(durations, STUCK_PERCENTILE);
+  return {
+    hours,
+    basis,
+    sampleSize: durations.length,
+    p50Hours: median(durations),
+    p85Hours,
+    stuck: hours > p85Hours
+  };
+}
+
+// How far past its 85th percentile an item is; items without a norm sort last
+function overrun(item: StatusAge): number {
+  return item.p85Hours ? item.hours / item.p85Hours : 0;
+}
+
+/**
+ * Generate recommendations for the user's aging work
+ */
+function generateAgingRecommendations(analysis: WipAgingAnalysis): string[] {
+  const recommendations: string[] = [];
+  const { items, stuckCount } = analysis;
+
+  if (items.length === 0) {
+    recommendations.push('No tickets in progress');
+    return recommendations;
+  }
+
+  for (const item of items.filter(candidate => candidate.stuck).slice(0, MAX_STUCK_CALLOUTS)) {
+    const usual = item.basis === 'issueType' ? `your ${item.issueType}s` : 'your tickets';
+    recommendations.push(
+      `${item.issueKey} has been in ${item.status} for ${formatDuration(item.hours)}, longer than ` +
+      `${STUCK_PERCENTILE}% of ${usual} spend there - unblock it, split it or hand it over`
+    );
+  }
+
+  if (stuckCount > MAX_STUCK_CALLOUTS) {
+    recommendations.push(`${stuckCount - MAX_STUCK_CALLOUTS} more stalled tickets - finish or park some before starting new work`);
+  }
+
+  const unmeasured = items.filter(item => item.basis === 'none').length;
+  if (stuckCount === 0 && unmeasured < items.length) {
+    recommendations.push('Nothing has stalled - your tickets in progress are within your usual time in their status');
+  }
+
+  if (unmeasured > 0) {
+    recommendations.push(
+      `Not enough finished work yet to age ${unmeasured} ticket${unmeasured !== 1 ? 's' : ''} - ` +
+      `finish more to enable stuck-ticket detection`
+    );
+  }
+
+  return recommendations;
+}
@@ -4,62 +4,78 @@
  * F1 Theme: Engine Temperature Monitoring
  */
 
-import { BurnoutAnalysis, BurnoutRiskFactor } from '../models/analysis';
-import { getUserIssuesWithMetrics, getActiveIssues, getCompletedIssues } from '../data/jira/issues';
+import { BurnoutAnalysis, BurnoutRiskFactor, ContextSwitchingAnalysis } from '../models/analysis';
+import { UserActivity } from '../models/metrics';
+import { getDataSource } from '../data/source';
 import { getCached, setCache } from '../data/cache';
+import { getSnapshots, getSnapshotSeries, recordSnapshot, recordSnapshotIfMissing, toSnapshotDate } from '../data/snapshots';
+import { AnalysisSnapshot, SnapshotMetrics } from '../models/snapshot';
+import { UserSettings } from '../models/settings';
+import { getUserSettings, isWorkingTime } from '../data/settings';
+import { getCacheTtlHours, getMinDataPoints } from '../data/siteConfig';
 import { analyzeLoadPatterns } from './load';
 import { analyzeTimingPatterns } from './timing';
-import { getCurrentTimeZone } from '../utils/dateHelpers';
+import { analyzeContextSwitching, countFragmentedWeeks } from './contextSwitching';
+import { getCurrentTimeZone, getCurrentHour } from '../utils/dateHelpers';
+import { logger } from '../utils/logger';
+
+// Weeks covered by the trend arrays
+const TREND_WEEKS = 8;
+// Recorded days needed before a week's overload comes from history instead of an estimate
+const MIN_SNAPSHOT_DAYS_PER_WEEK = 3;
+const SCORE_HISTORY_DAYS = 90;
+// Issue history the analysis reads, if the user's lookback window allows
+const ANALYSIS_DAYS = 84;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+interface WeeklyHistory {
+  load: AnalysisSnapshot<'load'>[];
+  burnout: AnalysisSnapshot<'burnout'>[];
+}
 
 /**
  * Analyze burnout risk for a user
  */
 export async function analyzeBurnoutRisk(accountId: string): Promise<BurnoutAnalysis> {
-  console.log('🔥 ========================================');
-  console.log('🔥 analyzeBurnoutRisk CALLED');
-  console.log('🔥 accountId:', accountId);
-  console.log('🔥 ========================================');
-
-  // Check cache
+  // Check cache; issue events invalidate it when the user's work changes
   const cacheKey = { namespace: 'burnout' as const, accountId };
-  const cached = await getCached<BurnoutAnalysis>(cacheKey, 6); // 6 hour TTL
-
-  // TEMPORARILY DISABLE CACHE FOR DEBUGGING
-  /*
+  const ttlHours = await getCacheTtlHours('burnout');
+  const cached = await getCached<BurnoutAnalysis>(cacheKey, ttlHours);
   if (cached) {
-    console.log('⚠️ BURNOUT CACHE HIT - returning cached data');
-    console.log('Cached burnout score:', cached.burnoutScore);
+    await recordSnapshotIfMissing(accountId, 'burnout', cached, () => toSnapshot(cached));
     return cached;
   }
-  */
-  console.log('🚫 CACHE DISABLED FOR DEBUGGING');
-
-  // Fetch data for last 12 weeks
-  console.log('📊 Fetching issues with metrics for last 84 days...');
-  const issues = await getUserIssuesWithMetrics(accountId, 84); // 12 weeks = 84 days
-  console.log('📊 Issues returned from getUserIssuesWithMetrics:', issues.length);
-
-  if (issues.length < 5) {
-    console.log('❌ INSUFFICIENT DATA - returning default response with score 0');
-    console.log('Need at least 5 issues, have:', issues.length);
-    return createInsufficientDataResponse(accountId, issues.length);
-  }
 
-  console.log('✅ Sufficient data, proceeding with analysis...');
+  // Fetch data for last 12 weeks, capped by the user's lookback window
+  const settings = await getUserSettings(accountId);
+  const daysBack = Math.min(ANALYSIS_DAYS, settings.lookbackDays);
+  const issues = await getDataSource().getUserIssuesWithMetrics(accountId, daysBack);
+
+  const minDataPoints = await getMinDataPoints('burnout');
+  if (issues.length < minDataPoints) {
+    logger.debug('Burnout analysis skipped: insufficient data', { accountId, issues: issues.length, minDataPoints });
+    return createInsufficientDataResponse(accountId, issues.length, minDataPoints);
+  }
 
-  // Get load and timing analysis
+  // Get load, timing and context switching analysis
   const loadAnalysis = await analyzeLoadPatterns(accountId);
   const timingAnalysis = await analyzeTimingPatterns(accountId);
+  const focusAnalysis = await analyzeContextSwitching(accountId);
 
-  // Analyze weekly patterns
-  const weeklyData = analyzeWeeklyPatterns(issues, loadAnalysis, timingAnalysis);
+  // Analyze weekly patterns, from recorded history where we have it
+  const history: WeeklyHistory = {
+    load: await getSnapshots(accountId, 'load', TREND_WEEKS * 7),
+    burnout: await getSnapshots(accountId, 'burnout', TREND_WEEKS * 7 + 1)
+  };
+  // Same window as the focus analysis, so the activity is shared within an invocation
+  const activity = await getDataSource().getUserActivity(accountId, Math.min(TREND_WEEKS * 7, settings.lookbackDays));
+  const weeklyData = analyzeWeeklyPatterns(issues, activity, history, settings, timingAnalysis.timeZone);
 
   // Detect risk factors
-  const riskFactors = detectRiskFactors(weeklyData, loadAnalysis, timingAnalysis);
+  const riskFactors = detectRiskFactors(weeklyData, loadAnalysis, timingAnalysis, focusAnalysis, settings);
 
   // Debug: Ensure we have at least one factor for testing
   if (riskFactors.length === 0) {
-    console.log('⚠️ NO RISK FACTORS DETECTED - adding baseline monitoring factor');
     riskFactors.push({
       factor: 'sustained_overload',
       severity: 'low',
@@ -76,19 +92,20 @@ export async function analyzeBurnoutRisk(accountId: string): Promise<BurnoutAnal
   const riskLevel = determinRiskLevel(burnoutScore);
 
   // Debug logging
-  console.log('=== BURNOUT ANALYSIS DEBUG ===');
-  console.log('Issues analyzed:', issues.length);
-  console.log('Weekly overload data:', weeklyData.weeklyOverload);
-  console.log('Velocity trend:', weeklyData.velocityTrend);
-  console.log('Risk factors detected:', riskFactors.length);
-  console.log('Risk factors:', riskFactors.map(f => ({ factor: f.factor, severity: f.severity, impact: f.impact })));
-  console.log('Burnout score:', burnoutScore);
-  console.log('Risk level:', riskLevel);
-  console.log('==============================');
+  logger.debug('Burnout analysis', {
+    accountId,
+    daysBack,
+    issues: issues.length,
+    weeklyOverload: weeklyData.weeklyOverload,
+    velocityTrend: weeklyData.velocityTrend,
+    riskFactors: riskFactors.map(f => ({ factor: f.factor, severity: f.severity, impact: f.impact })),
+    burnoutScore,
+    riskLevel
+  });
 
   // Generate recommendations
-  const recommendations = generateBurnoutRecommendations(riskLevel, riskFactors, weeklyData);
-  const recoveryPlan = generateRecoveryPlan(riskLevel, riskFactors);
+  const recommendations = generateBurnoutRecommendations(riskLevel, riskFactors, weeklyData, settings.load);
+  const recoveryPlan = generateRecoveryPlan(riskLevel, riskFactors, settings.load);
 
   const analysis: BurnoutAnalysis = {
     accountId,
@@ -103,30 +120,56 @@ export async function analyzeBurnoutRisk(accountId: string): Promise<BurnoutAnal
     lastUpdated: new Date()
   };
 
+  await recordSnapshot(accountId, 'burnout', toSnapshot(analysis), analysis.confidence);
+  analysis.scoreHistory = await getSnapshotSeries(accountId, 'burnout', 'burnoutScore', SCORE_HISTORY_DAYS);
+
   // Cache result
-  await setCache(cacheKey, analysis, 6);
+  await setCache(cacheKey, analysis, ttlHours);
 
   return analysis;
 }
 
+function toSnapshot(analysis: BurnoutAnalysis): SnapshotMetrics['burnout'] {
+  const { velocityTrend, dangerHourWork } = analysis.trends;
+  return {
+    burnoutScore: analysis.burnoutScore,
+    riskLevel: analysis.riskLevel,
+    completedLastWeek: velocityTrend[velocityTrend.length - 1],
+    afterHoursShare: dangerHourWork[dangerHourWork.length - 1]
+  };
+}
+
 /**
  * Analyze weekly patterns for last 8 weeks
+ * Overload is the share of days the load snapshot recorded the user as over
+ * capacity; weeks without enough snapshots fall back to an estimate from
+ * created vs completed tickets. Velocity and after-hours work for past weeks
+ * come from the burnout snapshot taken as the week ended, so they keep what was
+ * seen at the time; the current week and weeks without one are computed from
+ * the user's issues and actions.
  */
 function analyzeWeeklyPatterns(
   issues: any[],
-  loadAnalysis: any,
-  timingAnalysis: any
+  activity: UserActivity,
+  history: WeeklyHistory,
+  settings: UserSettings,
+  timeZone: string
 ): {
   weeklyOverload: number[];
   dangerHourWork: number[];
   velocityTrend: number[];
 } {
-  const weeks = 8;
+  const weeks = TREND_WEEKS;
   const weeklyOverload: number[] = [];
   const dangerHourWork: number[] = [];
   const velocityTrend: number[] = [];
 
   const now = new Date();
+  const actionTimes = [
+    ...activity.transitions.map(transition => transition.timestamp),
+    ...activity.comments.map(comment => comment.created),
+    ...activity.commits.map(commit => commit.timestamp)
+  ];
 
   for (let i = 0; i < weeks; i++) {
     const weekEnd = new Date(now);
@@ -141,26 +184,38 @@ function analyzeWeeklyPatterns(
       return resolvedDate >= weekStart && resolvedDate < weekEnd;
     });
 
-    velocityTrend.unshift(weekIssues.length);
-
-    // Calculate overload estimate from creation/completion ratio
-    const createdInWeek = issues.filter(issue => {
-      const createdDate = new Date(issue.created);
-      return createdDate >= weekStart && createdDate < weekEnd;
-    }).length;
-
-    const completedInWeek = weekIssues.length;
-    const netChange = createdInWeek - completedInWeek;
-
-    // Estimate overload: if creating more than completing, likely overloaded
-    // Scale to 0-100 based on optimal range (5-9 tickets)
-    const overloadEstimate = netChange > 0 ? Math.min(100, (netChange / 9) * 100) : 0;
-    weeklyOverload.unshift(overloadEstimate);
+    // The current week is still running, so it's never read back from history
+    const reading = i > 0 ? findWeekEndReading(history.burnout, weekEnd) : undefined;
+
+    velocityTrend.unshift(reading?.metrics.completedLastWeek ?? weekIssues.length);
+
+    const weekSnapshots = history.load.filter(snapshot =>
+      snapshot.date >= toSnapshotDate(weekStart) && snapshot.date < toSnapshotDate(weekEnd)
+    );
+
+    if (weekSnapshots.length >= MIN_SNAPSHOT_DAYS_PER_WEEK) {
+      // Recorded: % of days the user was over capacity
+      const overloadedDays = weekSnapshots.filter(snapshot => snapshot.metrics.overloaded).length;
+      weeklyOverload.unshift((overloadedDays / weekSnapshots.length) * 100);
+    } else {
+      // Calculate overload estimate from creation/completion ratio
+      const createdInWeek = issues.filter(issue => {
+        const createdDate = new Date(issue.created);
+        return createdDate >= weekStart && createdDate < weekEnd;
+      }).length;
+
+      const completedInWeek = weekIssues.length;
+      const netChange = createdInWeek - completedInWeek;
+
+      // Estimate overload: if creating more than completing, likely overloaded
+      // Scale to 0-100 based on the top of the optimal range
+      const overloadEstimate = netChange > 0 ? Math.min(100, (netChange / settings.load.optimalMax) * 100) : 0;
+      weeklyOverload.unshift(overloadEstimate);
+    }
 
-    // Estimate danger hour work from velocity during those hours
-    // Since we don't have commit time data, keep at 0 for now
-    const dangerHourEstimate = 0;
-    dangerHourWork.unshift(dangerHourEstimate);
+    dangerHourWork.unshift(
+      reading?.metrics.afterHoursShare ?? measureAfterHoursShare(actionTimes, weekStart, weekEnd, settings, timeZone)
+    );
   }
 
   return {
@@ -170,13 +225,46 @@ function analyzeWeeklyPatterns(
   };
 }
 
+/**
+ * The burnout snapshot recorded as a week ended (on its last day or the day
+ * before), whose 7-day readings cover that week
+ */
+function findWeekEndReading(
+  snapshots: AnalysisSnapshot<'burnout'>[],
+  weekEnd: Date
+): AnalysisSnapshot<'burnout'> | undefined {
+  const days = [toSnapshotDate(weekEnd), toSnapshotDate(new Date(weekEnd.getTime() - DAY_MS))];
+  return snapshots.filter(snapshot => days.includes(snapshot.date)).pop();
+}
+
+/**
+ * Share (0-100) of the user's actions in a week that fell outside their working hours and days
+ */
+function measureAfterHoursShare(
+  actionTimes: Date[],
+  weekStart: Date,
+  weekEnd: Date,
+  settings: UserSettings,
+  timeZone: string
+): number {
+  const inWeek = actionTimes.filter(time => time >= weekStart && time < weekEnd);
+  if (inWeek.length === 0) {
+    return 0;
+  }
+
+  const afterHours = inWeek.filter(time => !isWorkingTime(settings, time, timeZone));
+  return (afterHours.length / inWeek.length) * 100;
+}
+
 /**
  * Detect burnout risk factors
  */
 function detectRiskFactors(
   weeklyData: any,
   loadAnalysis: any,
-  timingAnalysis: any
+  timingAnalysis: any,
+  focusAnalysis: ContextSwitchingAnalysis,
+  settings: UserSettings
 ): BurnoutRiskFactor[] {
   const factors: BurnoutRiskFactor[] = [];
 
@@ -215,7 +303,7 @@ function detectRiskFactors(
       weeksAffected: 1,
       impact: loadAnalysis.currentStatus === 'critical' ? 25 : 15
     });
-  } else if (loadAnalysis.currentLoad >= 7) {
+  } else if (loadAnalysis.currentLoad >= settings.load.optimalMax - 2) {
     // Add minor factor if consistently at upper end of optimal
     factors.push({
       factor: 'sustained_overload',
@@ -259,7 +347,7 @@ function detectRiskFactors(
 
   // Factor 4: Working during danger hours
   if (timingAnalysis.dangerZone) {
-    const currentHour = new Date().getHours();
+    const currentHour = getCurrentHour(timingAnalysis.timeZone);
     const inDangerZone = currentHour >= timingAnalysis.dangerZone.start &&
                          currentHour <= timingAnalysis.dangerZone.end;
 
@@ -286,6 +374,19 @@ function detectRiskFactors(
     });
   }
 
+  // Factor 6: Fragmented days from constant context switching
+  if (focusAnalysis.level === 'fragmented' || focusAnalysis.level === 'scattered') {
+    const scattered = focusAnalysis.level === 'scattered';
+    factors.push({
+      factor: 'context_switching',
+      severity: scattered ? 'high' : 'medium',
+      description: `Switching between ${focusAnalysis.daily.avgIssues.toFixed(1)} issues a day, ` +
+        `${focusAnalysis.daily.avgSwitches.toFixed(1)} switches on average`,
+      weeksAffected: countFragmentedWeeks(focusAnalysis),
+      impact: scattered ? 20 : 10
+    });
+  }
+
   return factors;
 }
 
@@ -318,7 +419,8 @@ function determinRiskLevel(score: number): 'healthy' | 'warning' | 'high' | 'cri
 function generateBurnoutRecommendations(
   riskLevel: string,
   factors: BurnoutRiskFactor[],
-  weeklyData: any
+  weeklyData: any,
+  load: UserSettings['load']
 ): string[] {
   const recommendations: string[] = [];
 
@@ -329,7 +431,7 @@ function generateBurnoutRecommendations(
     recommendations.push('   → Delegate or defer non-critical work');
   } else if (riskLevel === 'high') {
     recommendations.push('⚠️ HIGH BURNOUT RISK - Take preventive action');
-    recommendations.push('   → Reduce workload to optimal range (5-9 tickets)');
+    recommendations.push(`   → Reduce workload to optimal range (${load.optimalMin}-${load.optimalMax} tickets)`);
     recommendations.push('   → Protect your peak hours for deep work only');
     recommendations.push('   → Schedule recovery time this week');
   } else if (riskLevel === 'warning') {
@@ -354,6 +456,11 @@ function generateBurnoutRecommendations(
       recommendations.push('   → Focus on smaller, achievable tasks');
       recommendations.push('   → Consider pair programming for complex work');
     }
+    if (factor.factor === 'context_switching') {
+      recommendations.push('🔀 Constant context switching - your days are fragmented');
+      recommendations.push('   → Finish or park one ticket before starting the next');
+      recommendations.push('   → Batch reviews and small tasks into one block');
+    }
   });
 
   return recommendations;
@@ -364,7 +471,8 @@ function generateBurnoutRecommendations(
  */
 function generateRecoveryPlan(
   riskLevel: string,
-  factors: BurnoutRiskFactor[]
+  factors: BurnoutRiskFactor[],
+  load: UserSettings['load']
 ): string[] {
   if (riskLevel !== 'high' && riskLevel !== 'critical') {
     return [];
@@ -373,8 +481,8 @@ function generateRecoveryPlan(
   const plan: string[] = [];
 
   plan.push('🏥 RECOVERY PLAN:');
-  plan.push('Week 1: Reduce to 3-4 active tickets maximum');
-  plan.push('Week 2: Return to normal 5-9 ticket range');
+  plan.push(`Week 1: Reduce to ${Math.max(1, load.optimalMin - 1)} active tickets maximum`);
+  plan.push(`Week 2: Return to normal ${load.optimalMin}-${load.optimalMax} ticket range`);
   plan.push('Week 3: Monitor energy levels and adjust');
   plan.push('Ongoing: Protect peak hours, avoid danger zone work');
 
@@ -384,7 +492,11 @@ function generateRecoveryPlan(
 /**
  * Create response for insufficient data
  */
-function createInsufficientDataResponse(accountId: string, dataPoints: number): BurnoutAnalysis {
+function createInsufficientDataResponse(
+  accountId: string,
+  dataPoints: number,
+  minDataPoints: number
+): BurnoutAnalysis {
   return {
     accountId,
     burnoutScore: 0,
@@ -396,7 +508,7 @@ function createInsufficientDataResponse(accountId: string, dataPoints: number):
       velocityTrend: []
     },
     recommendations: [
-      `Need more data for burnout analysis (have ${dataPoints}, need 5+)`,
+      `Need more data for burnout analysis (have ${dataPoints}, need ${minDataPoints}+)`,
       'Complete more tickets over the next few weeks',
       'Monitor your workload and take regular breaks'
     ],
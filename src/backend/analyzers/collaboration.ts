@@ -1,15 +1,39 @@
 /**
  * Collaboration Intelligence Analyzer
- * Analyzes who the user works best with (simplified MVP version)
- *
- * Note: Full collaboration analysis requires PR/review data from Bitbucket.
- * This MVP version provides basic insights from Jira data.
+ * Analyzes who the user works best with, based on pull request review history
  */
 
-import { CollaborationAnalysis, ReviewerProfile } from '../models/analysis';
-import { getUserIssuesWithMetrics } from '../data/jira/issues';
+import {
+  CollaborationAnalysis,
+  ReviewerProfile,
+  ReviewerStats,
+  PairMetrics
+} from '../models/analysis';
+import { PullRequestWithMetrics } from '../models/commit';
+import { getDataSource } from '../data/source';
 import { getCached, setCache } from '../data/cache';
-import { calculateConfidence } from '../utils/calculations';
+import { getUserSettings } from '../data/settings';
+import { getCacheTtlHours, getMinDataPoints } from '../data/siteConfig';
+import { average, calculateConfidence } from '../utils/calculations';
+import { hoursBetween } from '../utils/dateHelpers';
+
+type FocusArea = 'reviewers' | 'pairs' | 'all';
+
+interface ReviewerAccumulator {
+  accountId: string;
+  displayName: string;
+  responseHours: number[];
+  approvals: number;
+  changesRequested: number;
+  comments: number;
+  reviews: number;
+}
+
+interface PartnerAccumulator {
+  accountId: string;
+  displayName: string;
+  pullRequests: PullRequestWithMetrics[];
+}
 
 /**
  * Analyze collaboration patterns for a user
@@ -18,35 +42,45 @@ export async function analyzeCollaborationPatterns(
   accountId: string,
   focusArea: string = 'all'
 ): Promise<CollaborationAnalysis> {
+  const focus = normalizeFocusArea(focusArea);
+
   // Check cache
-  const cacheKey = { namespace: 'collaboration' as const, accountId };
-  const cached = await getCached<CollaborationAnalysis>(cacheKey, 24);
+  const cacheKey = { namespace: 'collaboration' as const, accountId, suffix: focus };
+  const ttlHours = await getCacheTtlHours('collaboration');
+  const cached = await getCached<CollaborationAnalysis>(cacheKey, ttlHours, { staleWhileRevalidate: true });
 
   if (cached) {
     return cached;
   }
 
-  // Fetch user data
-  const userIssues = await getUserIssuesWithMetrics(accountId, 180);
+  if (!getDataSource().isReviewDataAvailable()) {
+    return createNotConfiguredResponse(accountId);
+  }
+
+  // Fetch review history
+  const { lookbackDays } = await getUserSettings(accountId);
+  const history = await getDataSource().getReviewHistory(accountId, lookbackDays);
+  const dataPoints = history.authored.length + history.reviewed.length;
+
+  const minDataPoints = await getMinDataPoints('collaboration');
+  if (dataPoints < minDataPoints) {
+    return createInsufficientDataResponse(accountId, dataPoints, minDataPoints);
+  }
+
+  let reviewerStats: Record<string, ReviewerStats> = {};
+  let bestReviewers: ReviewerProfile[] = [];
+  let pairEffectiveness: Record<string, PairMetrics> = {};
+
+  if (focus !== 'pairs') {
+    reviewerStats = calculateReviewerStats(history.authored);
+    bestReviewers = rankReviewers(reviewerStats, history.authored);
+  }
 
-  if (userIssues.length < 10) {
-    return createInsufficientDataResponse(accountId, userIssues.length);
+  if (focus !== 'reviewers') {
+    pairEffectiveness = calculatePairEffectiveness(history.accountId, history.authored, history.reviewed);
   }
 
-  // For MVP: Basic collaboration insights from Jira
-  // In future: Integrate with Bitbucket for PR review data
-  const bestReviewers: ReviewerProfile[] = [];
-  const reviewerStats = {};
-  const pairEffectiveness = {};
-
-  const recommendations = [
-    'Full collaboration analysis requires Bitbucket integration',
-    'Enable Bitbucket connection to see:',
-    '  • Best code reviewers for your PRs',
-    '  • Optimal pairing partners',
-    '  • Review speed patterns',
-    'For now, consider tracking manually who gives you the fastest, most helpful reviews'
-  ];
+  const recommendations = generateCollaborationRecommendations(bestReviewers, reviewerStats, pairEffectiveness, focus);
 
   const analysis: CollaborationAnalysis = {
     accountId,
@@ -54,30 +88,315 @@ export async function analyzeCollaborationPatterns(
     reviewerStats,
     pairEffectiveness,
     recommendations,
-    confidence: 'low',
-    dataPoints: userIssues.length,
+    confidence: calculateConfidence(dataPoints),
+    dataPoints,
     lastUpdated: new Date()
   };
 
   // Cache result
-  await setCache(cacheKey, analysis, 24);
+  await setCache(cacheKey, analysis, ttlHours);
 
   return analysis;
 }
 
+function normalizeFocusArea(focusArea: string): FocusArea {
+  const lower = (focusArea || 'all').toLowerCase();
+  return lower === 'reviewers' || lower === 'pairs' ? lower : 'all';
+}
+
+/**
+ * Aggregate how each reviewer treated the user's own pull requests
+ */
+function calculateReviewerStats(authored: PullRequestWithMetrics[]): Record<string, ReviewerStats> {
+  const accumulators = new Map<string, ReviewerAccumulator>();
+
+  for (const pr of authored) {
+    const actionsByReviewer = new Map<string, PullRequestWithMetrics['activity']>();
+
+    for (const event of pr.activity) {
+      if (event.type === 'update' || event.accountId === pr.authorAccountId) continue;
+      const actions = actionsByReviewer.get(event.accountId) || [];
+      actions.push(event);
+      actionsByReviewer.set(event.accountId, actions);
+    }
+
+    actionsByReviewer.forEach((actions, reviewerId) => {
+      let acc = accumulators.get(reviewerId);
+      if (!acc) {
+        acc = {
+          accountId: reviewerId,
+          displayName: actions[0].displayName,
+          responseHours: [],
+          approvals: 0,
+          changesRequested: 0,
+          comments: 0,
+          reviews: 0
+        };
+        accumulators.set(reviewerId, acc);
+      }
+
+      const firstAction = actions.reduce((first, a) => a.timestamp < first.timestamp ? a : first);
+      acc.responseHours.push(Math.max(0, hoursBetween(pr.created, firstAction.timestamp)));
+      acc.reviews++;
+      if (actions.some(a => a.type === 'approval')) acc.approvals++;
+      if (actions.some(a => a.type === 'changes_request')) acc.changesRequested++;
+      acc.comments += actions.filter(a => a.type === 'comment').length;
+    });
+  }
+
+  const stats: Record<string, ReviewerStats> = {};
+
+  accumulators.forEach((acc, reviewerId) => {
+    const changesRequestedRate = acc.changesRequested / acc.reviews;
+    const commentsPerReview = acc.comments / acc.reviews;
+
+    // Thoroughness: comment depth (up to 6 points) plus willingness to request changes (up to 4)
+    const thoroughnessScore = Math.min(6, commentsPerReview * 1.5) + changesRequestedRate * 4;
+
+    stats[reviewerId] = {
+      accountId: reviewerId,
+      displayName: acc.displayName,
+      totalReviews: acc.reviews,
+      avgReviewTimeHours: average(acc.responseHours),
+      approvalRate: acc.approvals / acc.reviews,
+      thoroughnessScore: Math.round(thoroughnessScore * 10) / 10
+    };
+  });
+
+  return stats;
+}
+
+/**
+ * Rank reviewers who have reviewed the user's work at least twice
+ */
+function rankReviewers(
+  reviewerStats: Record<string, ReviewerStats>,
+  authored: PullRequestWithMetrics[]
+): ReviewerProfile[] {
+  const profiles: ReviewerProfile[] = Object.values(reviewerStats)
+    .filter(stats => stats.totalReviews >= 2)
+    .map(stats => ({
+      accountId: stats.accountId,
+      displayName: stats.displayName,
+      avgReviewTimeDays: stats.avgReviewTimeHours / 24,
+      approvalRate: stats.approvalRate,
+      changesRequestedRate: calculateChangesRequestedRate(stats.accountId, authored),
+      totalReviews: stats.totalReviews,
+      rating: rateReviewSpeed(stats.avgReviewTimeHours)
+    }));
+
+  const ratingOrder = { excellent: 0, good: 1, average: 2, slow: 3 };
+
+  profiles.sort((a, b) => {
+    if (ratingOrder[a.rating] !== ratingOrder[b.rating]) {
+      return ratingOrder[a.rating] - ratingOrder[b.rating];
+    }
+    const thoroughnessDelta = reviewerStats[b.accountId].thoroughnessScore - reviewerStats[a.accountId].thoroughnessScore;
+    if (thoroughnessDelta !== 0) {
+      return thoroughnessDelta;
+    }
+    return a.avgReviewTimeDays - b.avgReviewTimeDays;
+  });
+
+  return profiles.slice(0, 5);
+}
+
+function calculateChangesRequestedRate(reviewerId: string, authored: PullRequestWithMetrics[]): number {
+  const reviewedPrs = authored.filter(pr =>
+    pr.activity.some(a => a.accountId === reviewerId && a.type !== 'update')
+  );
+  if (reviewedPrs.length === 0) return 0;
+
+  const withChanges = reviewedPrs.filter(pr =>
+    pr.activity.some(a => a.accountId === reviewerId && a.type === 'changes_request')
+  );
+  return withChanges.length / reviewedPrs.length;
+}
+
+function rateReviewSpeed(avgHours: number): ReviewerProfile['rating'] {
+  if (avgHours <= 4) return 'excellent';
+  if (avgHours <= 24) return 'good';
+  if (avgHours <= 48) return 'average';
+  return 'slow';
+}
+
+/**
+ * Compare pull requests shared with each partner against the user's baseline.
+ * A partner is someone who reviewed the user's PR, whose PR the user reviewed,
+ * or who co-reviewed a PR alongside the user.
+ */
+function calculatePairEffectiveness(
+  userAccountId: string,
+  authored: PullRequestWithMetrics[],
+  reviewed: PullRequestWithMetrics[]
+): Record<string, PairMetrics> {
+  const partners = new Map<string, PartnerAccumulator>();
+
+  const addPartner = (accountId: string, displayName: string, pr: PullRequestWithMetrics) => {
+    if (!accountId || accountId === userAccountId) return;
+    let acc = partners.get(accountId);
+    if (!acc) {
+      acc = { accountId, displayName, pullRequests: [] };
+      partners.set(accountId, acc);
+    }
+    if (!acc.pullRequests.some(p => p.id === pr.id && p.repository === pr.repository)) {
+      acc.pullRequests.push(pr);
+    }
+  };
+
+  for (const pr of authored) {
+    for (const event of pr.activity) {
+      if (event.type !== 'update') addPartner(event.accountId, event.displayName, pr);
+    }
+  }
+
+  for (const pr of reviewed) {
+    addPartner(pr.authorAccountId, pr.author, pr);
+    for (const event of pr.activity) {
+      if (event.type !== 'update' && event.accountId !== pr.authorAccountId) {
+        addPartner(event.accountId, event.displayName, pr);
+      }
+    }
+  }
+
+  const allPrs = [...authored, ...reviewed];
+  const baselineDuration = average(completedDurations(allPrs));
+  const baselineCleanRate = cleanApprovalRate(allPrs);
+
+  const pairs: Record<string, PairMetrics> = {};
+
+  partners.forEach((acc, partnerId) => {
+    if (acc.pullRequests.length < 2) return;
+
+    const sharedDuration = average(completedDurations(acc.pullRequests));
+    const sharedCleanRate = cleanApprovalRate(acc.pullRequests);
+
+    pairs[partnerId] = {
+      partnerAccountId: partnerId,
+      partnerName: acc.displayName,
+      speedMultiplier: baselineDuration > 0 && sharedDuration > 0 ? baselineDuration / sharedDuration : 1.0,
+      qualityMultiplier: baselineCleanRate > 0 ? sharedCleanRate / baselineCleanRate : 1.0,
+      collaborationCount: acc.pullRequests.length
+    };
+  });
+
+  return pairs;
+}
+
+function completedDurations(prs: PullRequestWithMetrics[]): number[] {
+  return prs
+    .filter(pr => pr.state === 'MERGED' && pr.metrics.reviewDurationHours > 0)
+    .map(pr => pr.metrics.reviewDurationHours);
+}
+
+/**
+ * Share of pull requests merged without anyone requesting changes
+ */
+function cleanApprovalRate(prs: PullRequestWithMetrics[]): number {
+  const merged = prs.filter(pr => pr.state === 'MERGED');
+  if (merged.length === 0) return 0;
+  return merged.filter(pr => !pr.metrics.changesRequested).length / merged.length;
+}
+
+/**
+ * Generate collaboration recommendations
+ */
+function generateCollaborationRecommendations(
+  bestReviewers: ReviewerProfile[],
+  reviewerStats: Record<string, ReviewerStats>,
+  pairEffectiveness: Record<string, PairMetrics>,
+  focus: FocusArea
+): string[] {
+  const recommendations: string[] = [];
+
+  if (focus !== 'pairs') {
+    if (bestReviewers.length > 0) {
+      const top = bestReviewers[0];
+      recommendations.push(
+        `Request reviews from ${top.displayName} - typically responds within ${formatHours(top.avgReviewTimeDays * 24)} across ${top.totalReviews} of your PRs`
+      );
+
+      const mostThorough = Object.values(reviewerStats)
+        .filter(s => s.totalReviews >= 2)
+        .sort((a, b) => b.thoroughnessScore - a.thoroughnessScore)[0];
+      if (mostThorough && mostThorough.accountId !== top.accountId) {
+        recommendations.push(
+          `For risky or complex changes, ask ${mostThorough.displayName} - the most thorough reviewer on your PRs`
+        );
+      }
+
+      const slow = bestReviewers.filter(r => r.rating === 'slow');
+      if (slow.length > 0) {
+        recommendations.push(
+          `Reviews from ${slow.map(r => r.displayName).join(', ')} take over 2 days - add a second reviewer when time matters`
+        );
+      }
+    } else {
+      recommendations.push('No reviewer has reviewed 2+ of your PRs yet - reviewer rankings will appear as history builds');
+    }
+  }
+
+  if (focus !== 'reviewers') {
+    const bestPair = Object.values(pairEffectiveness)
+      .filter(p => p.speedMultiplier > 1.1)
+      .sort((a, b) => b.speedMultiplier - a.speedMultiplier)[0];
+
+    if (bestPair) {
+      recommendations.push(
+        `Work moves ${((bestPair.speedMultiplier - 1) * 100).toFixed(0)}% faster when you collaborate with ${bestPair.partnerName} (${bestPair.collaborationCount} shared PRs)`
+      );
+    } else if (Object.keys(pairEffectiveness).length === 0) {
+      recommendations.push('Not enough shared pull requests yet to measure pairing effectiveness');
+    }
+  }
+
+  return recommendations;
+}
+
+function formatHours(hours: number): string {
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))} minutes`;
+  if (hours < 48) return `${Math.round(hours)} hours`;
+  return `${(hours / 24).toFixed(1)} days`;
+}
+
+/**
+ * Create response when Bitbucket is not connected
+ */
+function createNotConfiguredResponse(accountId: string): CollaborationAnalysis {
+  return {
+    accountId,
+    bestReviewers: [],
+    reviewerStats: {},
+    pairEffectiveness: {},
+    recommendations: [
+      'Full collaboration analysis requires Bitbucket integration',
+      'Ask your admin to connect Bitbucket to see:',
+      '  • Best code reviewers for your PRs',
+      '  • Optimal pairing partners',
+      '  • Review speed patterns'
+    ],
+    confidence: 'low',
+    dataPoints: 0,
+    lastUpdated: new Date()
+  };
+}
+
 /**
  * Create response for insufficient data
  */
-function createInsufficientDataResponse(accountId: string, dataPoints: number): CollaborationAnalysis {
+function createInsufficientDataResponse(
+  accountId: string,
+  dataPoints: number,
+  minDataPoints: number
+): CollaborationAnalysis {
   return {
     accountId,
     bestReviewers: [],
     reviewerStats: {},
     pairEffectiveness: {},
     recommendations: [
-      `Currently have ${dataPoints} data points, need at least 10 for collaboration analysis`,
-      'Collaboration analysis works best with Bitbucket integration',
-      'Complete more tickets and enable Bitbucket connection for insights'
+      `Currently have ${dataPoints} pull requests, need at least ${minDataPoints} for collaboration analysis`,
+      'Open and review more pull requests to build review history'
     ],
     confidence: 'low',
     dataPoints,
@@ -0,0 +1,366 @@
+/**
+ * Context Switching Analyzer
+ * How fragmented the user's days are: how many issues and projects they touch,
+ * how often they start new work before finishing what's in progress, and how
+ * long they stay on one issue
+ * F1 Theme: Clean laps vs pit-lane traffic
+ */
+
+import { ContextSwitchingAnalysis } from '../models/analysis';
+import { StatusTransition, UserActivity } from '../models/metrics';
+import { getDataSource } from '../data/source';
+import { getCached, setCache } from '../data/cache';
+import { getUserSettings } from '../data/settings';
+import { getCacheTtlHours, getMinDataPoints } from '../data/siteConfig';
+import { calculateConfidence, median } from '../utils/calculations';
+import { formatDuration, getLocalDate, hoursBetween } from '../utils/dateHelpers';
+import { logger } from '../utils/logger';
+
+// Weeks covered by the weekly trend, and the history read
+const TREND_WEEKS = 8;
+// A gap longer than this between two actions ends a focus streak
+const MAX_STREAK_GAP_HOURS = 2;
+// In-progress work the user hasn't touched in this long no longer counts as open
+const OPEN_WORK_DAYS = 14;
+// A typical focus streak this long counts as deep work
+const DEEP_FOCUS_HOURS = 2;
+
+// Daily rates at which each signal contributes its full weight
+const FRAGMENTED_AT = {
+  issuesPerDay: 6,
+  projectsPerDay: 3,
+  switchesPerDay: 10,
+  bouncesPerWeek: 5
+};
+
+// Share of the 0-100 fragmentation score each signal can contribute
+const SCORE_WEIGHTS = {
+  issues: 30,
+  projects: 10,
+  switches: 30,
+  bounces: 15,
+  streaks: 15
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+interface Touch {
+  issueKey: string;
+  timestamp: Date;
+}
+
+interface DayActivity {
+  firstAt: Date;
+  issues: Set<string>;
+  projects: Set<string>;
+  switches: number;
+}
+
+/**
+ * Analyze context switching for a user
+ * Built from the user's own actions (transitions, comments, commits), in their timezone.
+ */
+export async function analyzeContextSwitching(accountId: string): Promise<ContextSwitchingAnalysis> {
+  const timeZone = await getDataSource().getUserTimeZone(accountId);
+  const ttlHours = await getCacheTtlHours('focus');
+
+  // Check cache (recompute if the user's timezone changed since)
+  const cached = await getCached<ContextSwitchingAnalysis>(
+    { namespace: 'focus', accountId },
+    ttlHours,
+    { staleWhileRevalidate: true }
+  );
+  if (cached && cached.timeZone === timeZone) {
+    return cached;
+  }
+
+  const { lookbackDays } = await getUserSettings(accountId);
+  const daysBack = Math.min(TREND_WEEKS * 7, lookbackDays);
+  const activity = await getDataSource().getUserActivity(accountId, daysBack);
+
+  const touches = collectTouches(activity);
+  const days = groupByDay(touches, timeZone);
+
+  const minDataPoints = await getMinDataPoints('focus');
+  if (days.length < minDataPoints) {
+    logger.debug('Context switching analysis skipped: insufficient data', { accountId, activeDays: days.length, minDataPoints });
+    return createInsufficientDataResponse(accountId, days.length, minDataPoints, timeZone);
+  }
+
+  const bounces = countInProgressBounces(activity.transitions);
+  const streaks = measureFocusStreaks(touches);
+
+  const daily: ContextSwitchingAnalysis['daily'] = {
+    activeDays: days.length,
+    avgIssues: averageOf(days, day => day.issues.size),
+    avgProjects: averageOf(days, day => day.projects.size),
+    avgSwitches: averageOf(days, day => day.switches),
+    maxIssues: Math.max(...days.map(day => day.issues.size))
+  };
+  const inProgressBounces = {
+    total: bounces,
+    perWeek: bounces / (daysBack / 7)
+  };
+  const focusStreaks: ContextSwitchingAnalysis['focusStreaks'] = streaks.length > 0
+    ? { count: streaks.length, medianHours: median(streaks), longestHours: Math.max(...streaks) }
+    : { count: 0 };
+
+  const fragmentationScore = calculateFragmentationScore(daily, inProgressBounces.perWeek, focusStreaks.medianHours);
+
+  const analysis: ContextSwitchingAnalysis = {
+    accountId,
+    fragmentationScore,
+    level: determineLevel(fragmentationScore),
+    daily,
+    inProgressBounces,
+    focusStreaks,
+    weeklySwitches: analyzeWeeklySwitches(days),
+    timeZone,
+    recommendations: [],
+    confidence: calculateConfidence(days.length),
+    dataPoints: days.length,
+    lastUpdated: new Date()
+  };
+  analysis.recommendations = generateFocusRecommendations(analysis);
+
+  logger.debug('Context switching analysis', {
+    accountId,
+    activeDays: days.length,
+    fragmentationScore,
+    level: analysis.level,
+    avgIssues: daily.avgIssues,
+    avgSwitches: daily.avgSwitches,
+    bounces,
+    streaks: streaks.length
+  });
+
+  await setCache({ namespace: 'focus', accountId }, analysis, ttlHours);
+
+  return analysis;
+}
+
+/**
+ * Weeks in the trend where switching ran at half the fully fragmented rate or more
+ */
+export function countFragmentedWeeks(analysis: ContextSwitchingAnalysis): number {
+  return analysis.weeklySwitches.filter(switches => switches >= FRAGMENTED_AT.switchesPerDay / 2).length;
+}
+
+/**
+ * Every action the user took on an issue, oldest first
+ */
+function collectTouches(activity: UserActivity): Touch[] {
+  const touches: Touch[] = [
+    ...activity.transitions.map(transition => ({ issueKey: transition.issueKey, timestamp: transition.timestamp })),
+    ...activity.comments.map(comment => ({ issueKey: comment.issueKey, timestamp: comment.created })),
+    // A commit counts toward the first issue its message names
+    ...activity.commits.flatMap(commit =>
+      (commit.linkedIssues || []).slice(0, 1).map(issueKey => ({ issueKey, timestamp: commit.timestamp }))
+    )
+  ];
+  return touches.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+function projectOf(issueKey: string): string {
+  return issueKey.split('-')[0];
+}
+
+/**
+ * Group actions by the user's local day, counting moves from one issue to another
+ */
+function groupByDay(touches: Touch[], timeZone: string): DayActivity[] {
+  const days = new Map<string, DayActivity>();
+  let previous: Touch | undefined;
+  let previousDate: string | undefined;
+
+  for (const touch of touches) {
+    const date = getLocalDate(touch.timestamp, timeZone);
+    let day = days.get(date);
+    if (!day) {
+      day = { firstAt: touch.timestamp, issues: new Set(), projects: new Set(), switches: 0 };
+      days.set(date, day);
+    }
+    day.issues.add(touch.issueKey);
+    day.projects.add(projectOf(touch.issueKey));
+    if (previous && previousDate === date && previous.issueKey !== touch.issueKey) {
+      day.switches++;
+    }
+    previous = touch;
+    previousDate = date;
+  }
+
+  return Array.from(days.values());
+}
+
+/**
+ * Times the user started an issue while another they had started was still in
+ * progress. Work untouched for OPEN_WORK_DAYS is treated as parked, since moves
+ * made by other people aren't part of the user's activity.
+ */
+function countInProgressBounces(transitions: StatusTransition[]): number {
+  const open = new Map<string, Date>(); // issue key -> last moved by the user
+  let bounces = 0;
+
+  const sorted = [...transitions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  for (const transition of sorted) {
+    for (const [issueKey, movedAt] of open) {
+      if (transition.timestamp.getTime() - movedAt.getTime() > OPEN_WORK_DAYS * DAY_MS) {
+        open.delete(issueKey);
+      }
+    }
+
+    if (transition.toStage !== 'in_progress') {
+      open.delete(transition.issueKey);
+      continue;
+    }
+    if (!open.has(transition.issueKey) && open.size > 0) {
+      bounces++;
+    }
+    open.set(transition.issueKey, transition.timestamp);
+  }
+
+  return bounces;
+}
+
+/**
+ * Lengths in hours of runs of actions on one issue. A run ends where the user
+ * moves on to another issue, or at its last action when a break follows.
+ */
+function measureFocusStreaks(touches: Touch[]): number[] {
+  const streaks: number[] = [];
+  let start = 0;
+
+  for (let i = 1; i <= touches.length; i++) {
+    const last = touches[i - 1];
+    const next = touches[i];
+    const continuous = next !== undefined && hoursBetween(last.timestamp, next.timestamp) <= MAX_STREAK_GAP_HOURS;
+    if (continuous && next.issueKey === last.issueKey) {
+      continue;
+    }
+
+    const hours = hoursBetween(touches[start].timestamp, continuous ? next.timestamp : last.timestamp);
+    // A lone action says nothing about focus
+    if (hours > 0) {
+      streaks.push(hours);
+    }
+    start = i;
+  }
+
+  return streaks;
+}
+
+/**
+ * Switches per active day for each of the last TREND_WEEKS weeks, oldest first
+ */
+function analyzeWeeklySwitches(days: DayActivity[]): number[] {
+  const weekly: number[] = [];
+  const now = Date.now();
+
+  for (let i = 0; i < TREND_WEEKS; i++) {
+    const weekEnd = now - i * 7 * DAY_MS;
+    const weekStart = weekEnd - 7 * DAY_MS;
+    const weekDays = days.filter(day => day.firstAt.getTime() >= weekStart && day.firstAt.getTime() < weekEnd);
+    weekly.unshift(weekDays.length > 0 ? averageOf(weekDays, day => day.switches) : 0);
+  }
+
+  return weekly;
+}
+
+function averageOf(days: DayActivity[], value: (day: DayActivity) => number): number {
+  return days.reduce((sum, day) => sum + value(day), 0) / days.length;
+}
+
+/**
+ * Calculate the fragmentation score (0-100) from the weighted signals
+ */
+function calculateFragmentationScore(
+  daily: ContextSwitchingAnalysis['daily'],
+  bouncesPerWeek: number,
+  medianStreakHours?: number
+): number {
+  const scale = (value: number, full: number) => Math.max(0, Math.min(1, value / full));
+
+  const score =
+    SCORE_WEIGHTS.issues * scale(daily.avgIssues - 1, FRAGMENTED_AT.issuesPerDay - 1) +
+    SCORE_WEIGHTS.projects * scale(daily.avgProjects - 1, FRAGMENTED_AT.projectsPerDay - 1) +
+    SCORE_WEIGHTS.switches * scale(daily.avgSwitches, FRAGMENTED_AT.switchesPerDay) +
+    SCORE_WEIGHTS.bounces * scale(bouncesPerWeek, FRAGMENTED_AT.bouncesPerWeek) +
+    (medianStreakHours !== undefined ? SCORE_WEIGHTS.streaks * (1 - scale(medianStreakHours, DEEP_FOCUS_HOURS)) : 0);
+
+  return Math.round(score);
+}
+
+function determineLevel(score: number): ContextSwitchingAnalysis['level'] {
+  if (score >= 70) return 'scattered';
+  if (score >= 45) return 'fragmented';
+  if (score >= 25) return 'moderate';
+  return 'focused';
+}
+
+/**
+ * Generate focus recommendations
+ */
+function generateFocusRecommendations(analysis: ContextSwitchingAnalysis): string[] {
+  const recommendations: string[] = [];
+  const { daily, inProgressBounces, focusStreaks } = analysis;
+
+  if (daily.avgIssues >= FRAGMENTED_AT.issuesPerDay / 2) {
+    recommendations.push(
+      `You touch ${daily.avgIssues.toFixed(1)} issues on an average day - batch small tasks into one block`
+    );
+  }
+
+  if (daily.avgProjects >= 2) {
+    recommendations.push(
+      `Your days span ${daily.avgProjects.toFixed(1)} projects - try giving each project its own part of the week`
+    );
+  }
+
+  if (inProgressBounces.perWeek >= 1) {
+    recommendations.push(
+      `You start new work while other work is in progress ${inProgressBounces.perWeek.toFixed(1)} times a week - ` +
+      'finish or park one ticket before starting the next'
+    );
+  }
+
+  if (focusStreaks.medianHours !== undefined && focusStreaks.medianHours < DEEP_FOCUS_HOURS / 2) {
+    recommendations.push(
+      `Your typical focus streak is ${formatDuration(focusStreaks.medianHours)} - block out ` +
+      `${DEEP_FOCUS_HOURS} hours for a single ticket in your peak window`
+    );
+  }
+
+  if (recommendations.length === 0) {
+    recommendations.push('You mostly stay on one ticket at a time - keep protecting those long blocks');
+  }
+
+  return recommendations;
+}
+
+/**
+ * Create response for insufficient data
+ */
+function createInsufficientDataResponse(
+  accountId: string,
+  dataPoints: number,
+  minDataPoints: number,
+  timeZone: string
+): ContextSwitchingAnalysis {
+  return {
+    accountId,
+    fragmentationScore: 0,
+    level: 'focused',
+    daily: { activeDays: dataPoints, avgIssues: 0, avgProjects: 0, avgSwitches: 0, maxIssues: 0 },
+    inProgressBounces: { total: 0, perWeek: 0 },
+    focusStreaks: { count: 0 },
+    weeklySwitches: [],
+    timeZone,
+    recommendations: [
+      `Need more data for focus analysis (have ${dataPoints} active days, need ${minDataPoints}+)`,
+      'Keep working - transitions, comments and linked commits all count'
+    ],
+    confidence: 'low',
+    dataPoints,
+    lastUpdated: new Date()
+  };
+}
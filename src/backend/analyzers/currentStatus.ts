@@ -4,54 +4,74 @@
  */
 
 import { CurrentStatus } from '../models/analysis';
-import { getActiveIssues, getCompletedIssues } from '../data/jira/issues';
-import { getCached, setCache } from '../data/cache';
-import { STATUS_TTL_HOURS } from '../models/cache';
-import { getCurrentTimeZone } from '../utils/dateHelpers';
+import { JiraIssue } from '../models/issue';
+import { getDataSource } from '../data/source';
+import { getSprintDaysRemaining, getSprintElapsedFraction } from '../data/jira/sprints';
+import { isJiraDataUnavailable, describeDataUnavailable } from '../data/jira/errors';
+import { getCached, setCache, servedStaleData } from '../data/cache';
+import { getSnapshotSeries } from '../data/snapshots';
+import { getUserSettings, isWorkingTime } from '../data/settings';
+import { getCacheTtlHours } from '../data/siteConfig';
+import { UserSettings } from '../models/settings';
+import { getCurrentTimeZone, getCurrentHour } from '../utils/dateHelpers';
+import { logger } from '../utils/logger';
 import { analyzeTimingPatterns } from './timing';
 import { analyzeLoadPatterns } from './load';
 import { analyzeBurnoutRisk } from './burnout';
+import { analyzeContextSwitching } from './contextSwitching';
 import { analyzePitCrewPatterns } from './pitcrew';
 import { predictSprintCompletion } from './predictions';
+import { analyzeWipAging, STUCK_PERCENTILE } from './aging';
+import { analyzeFlowEfficiency } from './flow';
+
+// Days of recorded load shown in the load gauge sparkline
+const LOAD_HISTORY_DAYS = 30;
+// Sprint completion probability (0-1) below which a sprint risk alert is raised
+const SPRINT_RISK_PROBABILITY = 0.5;
+// Aging tickets listed on the stalled work card
+const AGING_ITEMS_SHOWN = 3;
 
 /**
  * Get current status for a user
  * If accountId is undefined, uses currentUser() in JQL queries
  */
 export async function getCurrentStatus(accountId?: string): Promise<CurrentStatus> {
-  console.log('========================================');
-  console.log('getCurrentStatus CALLED');
-  console.log('Input accountId:', accountId);
-  console.log('========================================');
+  logger.debug('getCurrentStatus called', { accountId });
 
   // Use a default ID for caching when accountId is not provided
   const cacheAccountId = accountId || 'currentUser';
-  console.log('Cache accountId:', cacheAccountId);
 
-  // TEMPORARILY DISABLED: Check cache with short TTL (15 minutes for real-time status)
-  // This forces fresh data fetch to test if JQL query works correctly
-  /*
+  // Short TTL (15 minutes); issue events invalidate it as soon as the user's work changes.
+  // Without a concrete account ID the key would be shared, so skip the cache.
   const cacheKey = { namespace: 'status' as const, accountId: cacheAccountId };
-  const cached = await getCached<CurrentStatus>(cacheKey, STATUS_TTL_HOURS);
-
-  if (cached) {
-    console.log('CACHE HIT - Returning cached status');
-    console.log('Cached data:', JSON.stringify(cached, null, 2));
-    return cached;
+  const ttlHours = await getCacheTtlHours('status');
+  if (accountId) {
+    const cached = await getCached<CurrentStatus>(cacheKey, ttlHours);
+    if (cached) {
+      return cached;
+    }
   }
-  */
 
-  console.log('CACHE DISABLED - Always fetching fresh data for debugging');
+  // Sections that fail because Jira is throttling or down are reported, not zeroed
+  let dataUnavailable: CurrentStatus['dataUnavailable'];
+  const recordUnavailable = (error: unknown) => {
+    if (!dataUnavailable && isJiraDataUnavailable(error)) {
+      dataUnavailable = describeDataUnavailable(error);
+    }
+  };
 
   // Get active tickets
-  console.log('Calling getActiveIssues with accountId:', accountId);
-  const activeIssues = await getActiveIssues(accountId);
-  console.log('Active issues returned:', activeIssues.length);
-  console.log('Active issues details:', JSON.stringify(activeIssues.map(i => ({
-    key: i.key,
-    status: i.status,
-    summary: i.summary
-  })), null, 2));
+  let activeIssues: JiraIssue[] = [];
+  try {
+    activeIssues = await getDataSource().getActiveIssues(accountId);
+  } catch (error) {
+    logger.error('Error getting active issues', { error });
+    recordUnavailable(error);
+  }
+  logger.debug('Active issues loaded', {
+    count: activeIssues.length,
+    issues: activeIssues.map(i => ({ key: i.key, status: i.status }))
+  });
   const activeTickets = activeIssues.length;
 
   // Get timing analysis
@@ -59,7 +79,7 @@ export async function getCurrentStatus(accountId?: string): Promise<CurrentStatu
   let timingData: CurrentStatus['timingData'] | undefined;
   try {
     const timingAnalysis = await analyzeTimingPatterns(cacheAccountId);
-    const currentHour = new Date().getHours();
+    const currentHour = getCurrentHour(timingAnalysis.timeZone);
     currentTimeZone = getCurrentTimeZone(
       currentHour,
       timingAnalysis.peakWindow.start,
@@ -70,6 +90,7 @@ export async function getCurrentStatus(accountId?: string): Promise<CurrentStatu
     // Store timing data for gauges
     timingData = {
       currentHour,
+      timeZone: timingAnalysis.timeZone,
       peakWindow: {
         start: timingAnalysis.peakWindow.start,
         end: timingAnalysis.peakWindow.end
@@ -80,7 +101,8 @@ export async function getCurrentStatus(accountId?: string): Promise<CurrentStatu
       } : undefined
     };
   } catch (error) {
-    console.error('Error getting timing analysis:', error);
+    logger.error('Error getting timing analysis', { error });
+    recordUnavailable(error);
   }
 
   // Get load analysis
@@ -94,30 +116,19 @@ export async function getCurrentStatus(accountId?: string): Promise<CurrentStatu
     loadData = {
       optimalMin: loadAnalysis.optimalRange.min,
       optimalMax: loadAnalysis.optimalRange.max,
-      currentLoad: loadAnalysis.currentLoad
+      currentLoad: loadAnalysis.currentLoad,
+      history: await getSnapshotSeries(cacheAccountId, 'load', 'currentLoad', LOAD_HISTORY_DAYS)
     };
   } catch (error) {
-    console.error('Error getting load analysis:', error);
+    logger.error('Error getting load analysis', { error });
+    recordUnavailable(error);
   }
 
   // Calculate velocity metrics
   let velocityData: CurrentStatus['velocityData'] | undefined;
   try {
-    console.log('========================================');
-    console.log('VELOCITY CALCULATION START');
-    console.log('========================================');
-
     // Get completed issues from last 30 days
-    const completedIssuesLast30Days = await getCompletedIssues(cacheAccountId, 30);
-
-    console.log('Completed issues (30 days):', completedIssuesLast30Days.length);
-    console.log('Sample issues:', completedIssuesLast30Days.slice(0, 3).map(i => ({
-      key: i.key,
-      status: i.status,
-      resolved: i.resolved,
-      updated: i.updated,
-      created: i.created
-    })));
+    const completedIssuesLast30Days = await getDataSource().getCompletedIssues(cacheAccountId, 30);
 
     const monthlyTotal = completedIssuesLast30Days.length;
 
@@ -126,32 +137,24 @@ export async function getCurrentStatus(accountId?: string): Promise<CurrentStatu
     const sevenDaysAgo = new Date();
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
-    console.log('Current time:', now.toISOString());
-    console.log('7 days ago:', sevenDaysAgo.toISOString());
-
     const completedInLast7Days = completedIssuesLast30Days.filter(issue => {
       // Use resolved date if available, otherwise fall back to updated date
       const resolvedDate = issue.resolved ? new Date(issue.resolved) : null;
       const updatedDate = issue.updated ? new Date(issue.updated) : null;
       const dateToUse = resolvedDate || updatedDate;
-
-      console.log(`Issue ${issue.key}:`, {
-        resolved: issue.resolved,
-        resolvedDate: resolvedDate?.toISOString(),
-        updated: issue.updated,
-        updatedDate: updatedDate?.toISOString(),
-        dateToUse: dateToUse?.toISOString(),
-        inLast7Days: dateToUse ? dateToUse >= sevenDaysAgo : false
-      });
-
       return dateToUse && dateToUse >= sevenDaysAgo;
     });
 
-    console.log('Issues completed in last 7 days:', completedInLast7Days.length);
-    console.log('7-day issues keys:', completedInLast7Days.map(i => i.key));
+    // Express velocity in story points when most completed work is estimated
+    const estimatedCount = completedIssuesLast30Days.filter(i => i.storyPoints !== undefined).length;
+    const unit: 'points' | 'tickets' =
+      monthlyTotal > 0 && estimatedCount / monthlyTotal >= 0.5 ? 'points' : 'tickets';
+    const sumPoints = (issues: typeof completedIssuesLast30Days) =>
+      issues.reduce((sum, i) => sum + (i.storyPoints || 0), 0);
 
-    const current = completedInLast7Days.length;
-    const weeklyAvg = monthlyTotal / 4.3; // 30 days / ~4.3 weeks
+    const monthlyAmount = unit === 'points' ? sumPoints(completedIssuesLast30Days) : monthlyTotal;
+    const current = unit === 'points' ? sumPoints(completedInLast7Days) : completedInLast7Days.length;
+    const weeklyAvg = monthlyAmount / 4.3; // 30 days / ~4.3 weeks
 
     // Determine status based on current week vs average
     let status: 'below' | 'on-pace' | 'above';
@@ -167,45 +170,66 @@ export async function getCurrentStatus(accountId?: string): Promise<CurrentStatu
     velocityData = {
       current,
       weeklyAvg: Math.round(weeklyAvg * 10) / 10, // Round to 1 decimal
-      monthlyTotal,
-      status
+      monthlyTotal: monthlyAmount,
+      status,
+      unit,
+      ticketsCurrent: completedInLast7Days.length,
+      ticketsMonthlyTotal: monthlyTotal
     };
 
-    console.log('========================================');
-    console.log('VELOCITY FINAL RESULT:');
-    console.log({
-      monthlyTotal,
+    logger.debug('Velocity calculated', {
+      unit,
+      completedLast30Days: monthlyTotal,
+      completedLast7Days: completedInLast7Days.length,
+      monthlyTotal: monthlyAmount,
       current,
       weeklyAvg: velocityData.weeklyAvg,
       status,
-      variance: Math.round(variance * 100) + '%'
+      variancePercent: Math.round(variance * 100)
     });
-    console.log('========================================');
   } catch (error) {
-    console.error('Error calculating velocity:', error);
-    console.error('Error stack:', error instanceof Error ? error.stack : 'No stack');
+    logger.error('Error calculating velocity', { error });
+    recordUnavailable(error);
   }
 
   // Get burnout analysis
   let burnoutData: CurrentStatus['burnoutData'] | undefined;
   try {
-    console.log('🔥 getCurrentStatus: Calling analyzeBurnoutRisk...');
     const burnoutAnalysis = await analyzeBurnoutRisk(cacheAccountId);
-    console.log('🔥 getCurrentStatus: Burnout analysis returned:', {
-      score: burnoutAnalysis.burnoutScore,
-      level: burnoutAnalysis.riskLevel,
-      factorsCount: burnoutAnalysis.riskFactors.length,
-      factors: burnoutAnalysis.riskFactors.map(f => ({ desc: f.description, impact: f.impact }))
-    });
     burnoutData = {
       burnoutScore: burnoutAnalysis.burnoutScore,
       riskLevel: burnoutAnalysis.riskLevel,
-      topRiskFactors: burnoutAnalysis.riskFactors.slice(0, 3).map(f => f.description)
+      topRiskFactors: burnoutAnalysis.riskFactors.slice(0, 3).map(f => f.description),
+      scoreHistory: burnoutAnalysis.scoreHistory
     };
-    console.log('🔥 getCurrentStatus: burnoutData prepared:', burnoutData);
+    logger.debug('Burnout analysis loaded', {
+      score: burnoutAnalysis.burnoutScore,
+      riskLevel: burnoutAnalysis.riskLevel,
+      factors: burnoutAnalysis.riskFactors.map(f => ({ factor: f.factor, impact: f.impact }))
+    });
   } catch (error) {
-    console.error('❌ Error getting burnout analysis:', error);
-    console.error('Error stack:', error instanceof Error ? error.stack : 'No stack');
+    logger.error('Error getting burnout analysis', { error });
+    recordUnavailable(error);
+  }
+
+  // Get context switching analysis
+  let focusData: CurrentStatus['focusData'] | undefined;
+  try {
+    const focusAnalysis = await analyzeContextSwitching(cacheAccountId);
+    // Without enough active days there is no trend to show
+    if (focusAnalysis.weeklySwitches.length > 0) {
+      focusData = {
+        fragmentationScore: focusAnalysis.fragmentationScore,
+        level: focusAnalysis.level,
+        avgIssuesPerDay: focusAnalysis.daily.avgIssues,
+        avgSwitchesPerDay: focusAnalysis.daily.avgSwitches,
+        medianFocusHours: focusAnalysis.focusStreaks.medianHours,
+        weeklySwitches: focusAnalysis.weeklySwitches
+      };
+    }
+  } catch (error) {
+    logger.error('Error getting context switching analysis', { error });
+    recordUnavailable(error);
   }
 
   // Get pit crew analysis
@@ -232,7 +256,8 @@ export async function getCurrentStatus(accountId?: string): Promise<CurrentStatu
       };
     }
   } catch (error) {
-    console.error('Error getting pit crew analysis:', error);
+    logger.error('Error getting pit crew analysis', { error });
+    recordUnavailable(error);
   }
 
   // Get sprint prediction
@@ -245,23 +270,84 @@ export async function getCurrentStatus(accountId?: string): Promise<CurrentStatu
       atRiskCount: prediction.predictions.atRiskTickets.length
     };
   } catch (error) {
-    console.error('Error getting sprint prediction:', error);
+    logger.error('Error getting sprint prediction', { error });
+    recordUnavailable(error);
+  }
+
+  // Get WIP aging
+  let agingData: CurrentStatus['agingData'] | undefined;
+  try {
+    const aging = await analyzeWipAging(cacheAccountId);
+    agingData = {
+      wipCount: aging.items.length,
+      stuckCount: aging.stuckCount,
+      oldest: aging.items.slice(0, AGING_ITEMS_SHOWN)
+    };
+  } catch (error) {
+    logger.error('Error getting WIP aging', { error });
+    recordUnavailable(error);
   }
 
-  // Calculate sprint progress (simplified - would need sprint API integration)
-  const sprintProgress = {
+  // Get flow efficiency
+  let flowData: CurrentStatus['flowData'] | undefined;
+  try {
+    const flow = await analyzeFlowEfficiency(cacheAccountId);
+    if (flow.overall.issueCount > 0) {
+      flowData = {
+        efficiency: flow.overall.efficiency,
+        issueCount: flow.overall.issueCount,
+        hours: flow.overall.hours,
+        biggestWait: flow.biggestWait
+      };
+    }
+  } catch (error) {
+    logger.error('Error getting flow efficiency', { error });
+    recordUnavailable(error);
+  }
+
+  // Calculate sprint progress from the user's current sprint
+  let sprintProgress: CurrentStatus['sprintProgress'] = {
     completed: 0,
     remaining: activeTickets,
     percentComplete: 0,
     onTrack: true
   };
+  try {
+    const scope = await getDataSource().getCurrentSprintScope(accountId);
+    if (scope) {
+      const percentComplete = scope.issues.length > 0
+        ? Math.round((scope.completed.length / scope.issues.length) * 100)
+        : 0;
+      // On track while completion keeps pace with elapsed sprint time (10% grace)
+      const elapsedPercent = getSprintElapsedFraction(scope.sprint) * 100;
+
+      sprintProgress = {
+        completed: scope.completed.length,
+        remaining: scope.remaining.length,
+        percentComplete,
+        onTrack: percentComplete + 10 >= elapsedPercent,
+        sprintId: scope.sprint.id,
+        sprintName: scope.sprint.name,
+        startDate: scope.sprint.startDate,
+        endDate: scope.sprint.endDate,
+        daysRemaining: getSprintDaysRemaining(scope.sprint),
+        committed: scope.committed.length,
+        addedMidSprint: scope.addedMidSprint.length,
+        completedPoints: scope.completedPoints,
+        totalPoints: scope.totalPoints
+      };
+    }
+  } catch (error) {
+    logger.error('Error getting sprint progress', { error });
+    recordUnavailable(error);
+  }
 
-  // Generate today's recommendations
-  const todayRecommendations = generateTodayRecommendations(
-    currentTimeZone,
-    loadStatus,
-    activeTickets
-  );
+  // Generate today's recommendations, led by the alerts the user asked for
+  const settings = await getUserSettings(cacheAccountId);
+  const todayRecommendations = [
+    ...generateAlerts(settings, timingData, burnoutData, sprintPredictionData),
+    ...generateTodayRecommendations(currentTimeZone, loadStatus, activeTickets, agingData)
+  ];
 
   const status: CurrentStatus = {
     accountId: cacheAccountId, // Use the cache key which is always a string
@@ -275,24 +361,66 @@ export async function getCurrentStatus(accountId?: string): Promise<CurrentStatu
     loadData,
     velocityData,
     burnoutData,
+    focusData,
     pitCrewData,
-    sprintPredictionData
+    sprintPredictionData,
+    agingData,
+    flowData,
+    dataUnavailable,
+    stale: servedStaleData() || undefined
   };
 
-  // TEMPORARILY DISABLED: Cache with short TTL
-  // await setCache(cacheKey, status, STATUS_TTL_HOURS);
+  // Partial or stale status is recomputed on the next read instead
+  if (accountId && !status.stale && !status.dataUnavailable) {
+    await setCache(cacheKey, status, ttlHours);
+  }
 
-  console.log('Returning fresh status (no cache write)');
   return status;
 }
 
+/**
+ * Alerts enabled in the user's notification settings
+ */
+function generateAlerts(
+  settings: UserSettings,
+  timingData: CurrentStatus['timingData'],
+  burnoutData: CurrentStatus['burnoutData'],
+  sprintPredictionData: CurrentStatus['sprintPredictionData']
+): string[] {
+  const alerts: string[] = [];
+  const { notifications } = settings;
+
+  if (notifications.burnoutAlerts && burnoutData &&
+      (burnoutData.riskLevel === 'high' || burnoutData.riskLevel === 'critical')) {
+    alerts.push(`🔥 BURNOUT ALERT: ${burnoutData.riskLevel} risk (score ${burnoutData.burnoutScore})`);
+    alerts.push('   → Review your burnout gauge and lighten your load where you can');
+  }
+
+  if (notifications.sprintRiskAlerts && sprintPredictionData &&
+      sprintPredictionData.completionProbability < SPRINT_RISK_PROBABILITY) {
+    const percent = Math.round(sprintPredictionData.completionProbability * 100);
+    alerts.push(`🏁 SPRINT RISK: ${percent}% chance of finishing your sprint work`);
+    alerts.push('   → Raise scope concerns with your team early');
+  }
+
+  if (notifications.afterHoursReminders && timingData &&
+      !isWorkingTime(settings, new Date(), timingData.timeZone)) {
+    const { start, end } = settings.workingHours;
+    alerts.push(`🌙 AFTER HOURS: Outside your working hours (${start}:00-${end}:00)`);
+    alerts.push('   → Wrap up and pick this up during your working time');
+  }
+
+  return alerts;
+}
+
 /**
  * Generate categorized recommendations for today
  */
 function generateTodayRecommendations(
   timeZone: 'peak' | 'normal' | 'danger',
   loadStatus: 'under' | 'optimal' | 'over' | 'critical',
-  activeTickets: number
+  activeTickets: number,
+  agingData: CurrentStatus['agingData']
 ): string[] {
   const recommendations: string[] = [];
 
@@ -339,6 +467,16 @@ function generateTodayRecommendations(
       break;
   }
 
+  // Stalled work before anything new
+  if (agingData && agingData.stuckCount > 0) {
+    const [oldest] = agingData.oldest;
+    recommendations.push(
+      `🧊 STALLED: ${agingData.stuckCount} ticket${agingData.stuckCount !== 1 ? 's' : ''} past your usual time in status`
+    );
+    recommendations.push(`   → ${oldest.issueKey} has sat in ${oldest.status} longer than ${STUCK_PERCENTILE}% of your tickets`);
+    recommendations.push('   → Unblock, split or hand over stalled work before starting more');
+  }
+
   // Active tickets guidance with context
   if (activeTickets === 0) {
     recommendations.push('📋 NEXT STEPS: No active work');
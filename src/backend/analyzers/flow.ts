@@ -0,0 +1,184 @@
+/**
+ * Flow Efficiency Analyzer
+ * Where the cycle time of the user's finished work goes: hands-on work, or
+ * waiting on review, QA, blockers and the queue
+ * F1 Theme: Time on track vs time in the pits
+ */
+
+import { FlowEfficiencyAnalysis, FlowGroup, WaitCategory } from '../models/analysis';
+import { IssueWithMetrics, TimeBreakdown } from '../models/issue';
+import { getDataSource } from '../data/source';
+import { getUserSettings } from '../data/settings';
+import { calculateConfidence } from '../utils/calculations';
+
+// Fewest issues an issue type or component is reported on
+const MIN_GROUP_ISSUES = 3;
+// Below this share of hands-on time, waiting is what slows delivery
+const LOW_EFFICIENCY = 0.4;
+// At or above this share, the work itself is what takes the time
+const HIGH_EFFICIENCY = 0.7;
+// How far below the user's overall efficiency a group has to be to be called out
+const GROUP_GAP = 0.15;
+
+const WAIT_CATEGORIES: WaitCategory[] = ['review', 'qa', 'blocked', 'queued'];
+
+const WAITS: Record<WaitCategory, { label: string; advice: string }> = {
+  review: {
+    label: 'waiting for review',
+    advice: 'line up a reviewer before opening the pull request and keep changes small'
+  },
+  qa: {
+    label: 'in QA',
+    advice: 'agree test cases with QA while you build so verification is quick'
+  },
+  blocked: {
+    label: 'blocked',
+    advice: 'raise blockers the day they appear and chase them daily'
+  },
+  queued: {
+    label: 'parked in to do',
+    advice: 'finish started tickets before pulling new ones'
+  }
+};
+
+/**
+ * Analyze flow efficiency across the user's completed issues
+ */
+export async function analyzeFlowEfficiency(accountId: string): Promise<FlowEfficiencyAnalysis> {
+  const { lookbackDays } = await getUserSettings(accountId);
+  const issues = await getDataSource().getUserIssuesWithMetrics(accountId, lookbackDays);
+  const completed = issues.filter(issue =>
+    issue.metrics.cycleTimeDays > 0 && totalHours(issue.metrics.timeBreakdown) > 0
+  );
+
+  const overall = summarizeFlow('All issues', completed);
+  const analysis: FlowEfficiencyAnalysis = {
+    accountId,
+    overall,
+    byIssueType: groupFlow(completed, issue => [issue.issueType]),
+    byComponent: groupFlow(completed, issue => issue.components),
+    biggestWait: findBiggestWait(overall.hours),
+    recommendations: [],
+    confidence: calculateConfidence(completed.length),
+    dataPoints: completed.length,
+    lastUpdated: new Date()
+  };
+  analysis.recommendations = generateFlowRecommendations(analysis);
+
+  return analysis;
+}
+
+/**
+ * Pool the time breakdowns of a set of issues
+ */
+export function summarizeFlow(label: string, issues: IssueWithMetrics[]): FlowGroup {
+  const hours: TimeBreakdown = { active: 0, review: 0, qa: 0, blocked: 0, queued: 0 };
+  for (const issue of issues) {
+    const breakdown = issue.metrics.timeBreakdown;
+    hours.active += breakdown.active;
+    hours.review += breakdown.review;
+    hours.qa += breakdown.qa;
+    hours.blocked += breakdown.blocked;
+    hours.queued += breakdown.queued;
+  }
+
+  return {
+    label,
+    issueCount: issues.length,
+    efficiency: flowEfficiency(hours) ?? 0,
+    hours
+  };
+}
+
+/**
+ * Active share of the recorded hours; undefined when none are recorded
+ */
+export function flowEfficiency(hours: TimeBreakdown): number | undefined {
+  const total = totalHours(hours);
+  return total > 0 ? hours.active / total : undefined;
+}
+
+/**
+ * The kind of waiting that took the most hours, if any
+ */
+export function findBiggestWait(hours: TimeBreakdown): WaitCategory | null {
+  const [biggest] = [...WAIT_CATEGORIES].sort((a, b) => hours[b] - hours[a]);
+  return hours[biggest] > 0 ? biggest : null;
+}
+
+/**
+ * How a kind of waiting reads in a sentence, e.g. "waiting for review"
+ */
+export function describeWait(wait: WaitCategory): string {
+  return WAITS[wait].label;
+}
+
+function totalHours(hours: TimeBreakdown): number {
+  return hours.active + hours.review + hours.qa + hours.blocked + hours.queued;
+}
+
+function groupFlow(issues: IssueWithMetrics[], labelsOf: (issue: IssueWithMetrics) => string[]): FlowGroup[] {
+  const groups = new Map<string, IssueWithMetrics[]>();
+  for (const issue of issues) {
+    for (const label of labelsOf(issue)) {
+      groups.set(label, [...(groups.get(label) || []), issue]);
+    }
+  }
+
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length >= MIN_GROUP_ISSUES)
+    .map(([label, members]) => summarizeFlow(label, members))
+    .sort((a, b) => b.issueCount - a.issueCount);
+}
+
+function formatShare(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+/**
+ * Generate recommendations from where the user's cycle time goes
+ */
+function generateFlowRecommendations(analysis: FlowEfficiencyAnalysis): string[] {
+  const recommendations: string[] = [];
+  const { overall, biggestWait } = analysis;
+
+  if (overall.issueCount === 0) {
+    recommendations.push('Finish a few started tickets to measure where your cycle time goes');
+    return recommendations;
+  }
+
+  const efficiency = formatShare(overall.efficiency);
+  const total = totalHours(overall.hours);
+  const wait = biggestWait
+    ? `${WAITS[biggestWait].label} (${formatShare(overall.hours[biggestWait] / total)})`
+    : '';
+
+  if (overall.efficiency < LOW_EFFICIENCY && biggestWait) {
+    recommendations.push(
+      `Only ${efficiency} of your cycle time is hands-on work - most of the rest is ${wait}. ` +
+      `Slow delivery comes from waiting, not the work: ${WAITS[biggestWait].advice}`
+    );
+  } else if (overall.efficiency >= HIGH_EFFICIENCY || !biggestWait) {
+    recommendations.push(
+      `${efficiency} of your cycle time is hands-on work - little is lost to waiting. ` +
+      `To ship sooner, split tickets smaller`
+    );
+  } else {
+    recommendations.push(
+      `${efficiency} of your cycle time is hands-on work; the biggest wait is ${wait} - ${WAITS[biggestWait].advice}`
+    );
+  }
+
+  const slowest = [...analysis.byIssueType, ...analysis.byComponent]
+    .filter(group => group.efficiency < overall.efficiency - GROUP_GAP)
+    .sort((a, b) => a.efficiency - b.efficiency)[0];
+  if (slowest) {
+    const groupWait = findBiggestWait(slowest.hours);
+    recommendations.push(
+      `${slowest.label} work is only ${formatShare(slowest.efficiency)} hands-on against your usual ${efficiency}` +
+      (groupWait ? ` - most of its wait is ${WAITS[groupWait].label}` : '')
+    );
+  }
+
+  return recommendations;
+}
@@ -0,0 +1,297 @@
+/**
+ * Issue Insights Analyzer
+ * Telemetry for one issue, measured against the user's own history with similar work
+ */
+
+import {
+  CompletionForecast,
+  CycleTimeStats,
+  IssueInsights,
+  ReviewerStats,
+  SuggestedReviewer,
+  TeamMateProfile
+} from '../models/analysis';
+import { IssueProgress, IssueWithMetrics, JiraIssue } from '../models/issue';
+import { getDataSource } from '../data/source';
+import { getCached, setCache } from '../data/cache';
+import { getUserSettings } from '../data/settings';
+import { getCacheTtlHours } from '../data/siteConfig';
+import { isJiraDataUnavailable } from '../data/jira/errors';
+import { analyzeTimingPatterns } from './timing';
+import { analyzeCollaborationPatterns } from './collaboration';
+import { analyzePitCrewPatterns } from './pitcrew';
+import { measureStatusAge, STUCK_PERCENTILE } from './aging';
+import { describeWait, findBiggestWait, flowEfficiency, summarizeFlow } from './flow';
+import { calculateConfidence, median, percentile } from '../utils/calculations';
+import { formatDuration, getCurrentHour } from '../utils/dateHelpers';
+import { formatHourRange } from '../utils/formatting';
+import { logger } from '../utils/logger';
+
+// Fewest comparable issues a forecast is drawn from
+const MIN_FORECAST_SAMPLES = 5;
+
+const MAX_REVIEWERS = 3;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Analyze one issue for the user viewing it
+ * Returns null when the issue isn't visible or is excluded by the user's settings.
+ * Cached per user and issue; moves on the user's own issues clear it straight away.
+ */
+export async function analyzeIssueInsights(
+  accountId: string,
+  issueKey: string
+): Promise<IssueInsights | null> {
+  const cacheKey = { namespace: 'issue' as const, accountId, suffix: issueKey };
+  const ttlHours = await getCacheTtlHours('issue');
+  const cached = await getCached<IssueInsights>(cacheKey, ttlHours);
+  if (cached) {
+    return cached;
+  }
+
+  const progress = await getDataSource().getIssueProgress(accountId, issueKey);
+  if (!progress) {
+    return null;
+  }
+
+  const { issue, stage } = progress;
+  const { lookbackDays } = await getUserSettings(accountId);
+  const history = (await getDataSource().getUserIssuesWithMetrics(accountId, lookbackDays))
+    .filter(past => past.key !== issue.key);
+  const completed = history.filter(past => past.metrics.cycleTimeDays > 0);
+
+  const [suggestedReviewers, timing] = await Promise.all([
+    suggestReviewers(accountId, issue, history),
+    analyzeIssueTiming(accountId, issue.issueType)
+  ]);
+
+  const cycleTime = {
+    issueType: summarizeCycleTimes(issue.issueType, completed.filter(past => past.issueType === issue.issueType)),
+    component: issue.components.length > 0
+      ? summarizeCycleTimes(issue.components.join(', '), completed.filter(past => sharesComponent(past, issue)))
+      : null
+  };
+  const forecast = stage === 'done' ? null : forecastCompletion(progress, completed);
+  const timeInStatus = measureStatusAge(progress, history);
+  const sameTypeFlow = summarizeFlow(issue.issueType, completed.filter(past => past.issueType === issue.issueType));
+  const flow = {
+    hours: issue.metrics.timeBreakdown,
+    efficiency: flowEfficiency(issue.metrics.timeBreakdown),
+    usualEfficiency: sameTypeFlow.issueCount >= MIN_FORECAST_SAMPLES ? sameTypeFlow.efficiency : undefined
+  };
+
+  const insights: IssueInsights = {
+    accountId,
+    issueKey: issue.key,
+    issueType: issue.issueType,
+    components: issue.components,
+    status: issue.status,
+    stage,
+    cycleTime,
+    forecast,
+    timeInStatus,
+    flow,
+    suggestedReviewers,
+    timing,
+    recommendations: [],
+    confidence: calculateConfidence(forecast ? forecast.sampleSize : completed.length),
+    dataPoints: completed.length,
+    lastUpdated: new Date()
+  };
+  insights.recommendations = generateIssueRecommendations(insights);
+
+  await setCache(cacheKey, insights, ttlHours);
+  return insights;
+}
+
+function sharesComponent(issue: JiraIssue, other: JiraIssue): boolean {
+  return issue.components.some(component => other.components.includes(component));
+}
+
+function summarizeCycleTimes(label: string, issues: IssueWithMetrics[]): CycleTimeStats | null {
+  if (issues.length === 0) {
+    return null;
+  }
+  const days = issues.map(issue => issue.metrics.cycleTimeDays);
+  return {
+    label,
+    count: days.length,
+    medianDays: median(days),
+    p85Days: percentile(days, 85)
+  };
+}
+
+/**
+ * Forecast completion from the cycle times of the most similar work that has
+ * enough history, counting only those that ran longer than this issue has so far
+ */
+function forecastCompletion(progress: IssueProgress, completed: IssueWithMetrics[]): CompletionForecast | null {
+  const { issue, startedAt } = progress;
+  const tiers: Array<[CompletionForecast['basis'], IssueWithMetrics[]]> = [
+    ['typeAndComponent', completed.filter(past => past.issueType === issue.issueType && sharesComponent(past, issue))],
+    ['issueType', completed.filter(past => past.issueType === issue.issueType)],
+    ['all', completed]
+  ];
+  const tier = tiers.find(([, issues]) => issues.length >= MIN_FORECAST_SAMPLES);
+  if (!tier) {
+    return null;
+  }
+
+  const [basis, comparable] = tier;
+  const now = Date.now();
+  const elapsedDays = startedAt ? (now - startedAt.getTime()) / DAY_MS : 0;
+  const cycleTimes = comparable.map(past => past.metrics.cycleTimeDays);
+  const longer = cycleTimes.filter(days => days > elapsedDays);
+  // Already running longer than all of them: it could land any time
+  const remaining = longer.length > 0 ? longer.map(days => days - elapsedDays) : [0];
+  const dateIn = (days: number) => new Date(now + days * DAY_MS);
+
+  return {
+    basis,
+    sampleSize: comparable.length,
+    startedAt,
+    elapsedDays,
+    expectedDate: dateIn(median(remaining)),
+    earliestDate: dateIn(percentile(remaining, 15)),
+    latestDate: dateIn(percentile(remaining, 85))
+  };
+}
+
+/**
+ * Teammates from the user's cached collaboration analyses, ranked by how much
+ * similar work (the issue's components, or its type when it has none) of the
+ * user's they've finished, then by how often they've reviewed the user's pull requests
+ */
+async function suggestReviewers(
+  accountId: string,
+  issue: JiraIssue,
+  history: IssueWithMetrics[]
+): Promise<SuggestedReviewer[]> {
+  const [teammates, reviewerStats] = await Promise.all([
+    analyzePitCrewPatterns(accountId)
+      .then(pitCrew => pitCrew.teammates)
+      .catch(error => {
+        if (isJiraDataUnavailable(error)) {
+          throw error;
+        }
+        logger.error('Error fetching teammates for reviewer suggestions', { issueKey: issue.key, error });
+        return [] as TeamMateProfile[];
+      }),
+    analyzeCollaborationPatterns(accountId, 'reviewers')
+      .then(collaboration => collaboration.reviewerStats)
+      .catch(error => {
+        if (isJiraDataUnavailable(error)) {
+          throw error;
+        }
+        logger.error('Error fetching review history for reviewer suggestions', { issueKey: issue.key, error });
+        return {} as Record<string, ReviewerStats>;
+      })
+  ]);
+
+  const isRelevant = (other: JiraIssue) => issue.components.length > 0
+    ? sharesComponent(other, issue)
+    : other.issueType === issue.issueType;
+  const isDone = (other: JiraIssue) => other.statusCategory === 'done' || Boolean(other.resolved);
+
+  // Work the user handed over or shared that a teammate went on to finish
+  const similarFinished = new Map<string, number>();
+  for (const other of history) {
+    if (other.assigneeAccountId && isDone(other) && isRelevant(other)) {
+      similarFinished.set(other.assigneeAccountId, (similarFinished.get(other.assigneeAccountId) ?? 0) + 1);
+    }
+  }
+
+  const candidates = new Map<string, SuggestedReviewer>();
+  for (const teammate of teammates) {
+    candidates.set(teammate.accountId, {
+      accountId: teammate.accountId,
+      displayName: teammate.displayName,
+      componentIssues: similarFinished.get(teammate.accountId) ?? 0,
+      reviewsForYou: reviewerStats[teammate.accountId]?.totalReviews ?? 0,
+      avgReviewTimeHours: reviewerStats[teammate.accountId]?.avgReviewTimeHours
+    });
+  }
+  for (const stats of Object.values(reviewerStats)) {
+    if (!candidates.has(stats.accountId)) {
+      candidates.set(stats.accountId, {
+        accountId: stats.accountId,
+        displayName: stats.displayName,
+        componentIssues: similarFinished.get(stats.accountId) ?? 0,
+        reviewsForYou: stats.totalReviews,
+        avgReviewTimeHours: stats.avgReviewTimeHours
+      });
+    }
+  }
+
+  return Array.from(candidates.values())
+    .filter(candidate => candidate.componentIssues > 0 || candidate.reviewsForYou > 0)
+    .sort((a, b) => b.componentIssues - a.componentIssues || b.reviewsForYou - a.reviewsForYou)
+    .slice(0, MAX_REVIEWERS);
+}
+
+/**
+ * The user's peak window for this issue type, or their overall one when the
+ * type has too little activity
+ */
+async function analyzeIssueTiming(accountId: string, issueType: string): Promise<IssueInsights['timing']> {
+  const { peakWindow: overallWindow, issueTypeWindows, timeZone } = await analyzeTimingPatterns(accountId);
+  const typeWindow = issueTypeWindows[issueType];
+  const peakWindow = typeWindow || overallWindow;
+  const currentHour = getCurrentHour(timeZone);
+
+  return {
+    basis: typeWindow ? 'issueType' : 'overall',
+    peakWindow,
+    inPeakWindow: currentHour >= peakWindow.start && currentHour < peakWindow.end,
+    currentHour,
+    timeZone
+  };
+}
+
+/**
+ * Generate recommendations for the issue
+ */
+function generateIssueRecommendations(insights: IssueInsights): string[] {
+  const recommendations: string[] = [];
+  const { cycleTime, timeInStatus, flow, timing, suggestedReviewers, stage, issueType } = insights;
+
+  if (timeInStatus.stuck) {
+    recommendations.push(
+      `In ${insights.status} for ${formatDuration(timeInStatus.hours)}, longer than ${STUCK_PERCENTILE}% of your ` +
+      `${timeInStatus.basis === 'issueType' ? issueType + 's' : 'tickets'} spend there - check whether it's blocked`
+    );
+  }
+
+  if (flow.efficiency !== undefined && flow.usualEfficiency !== undefined && flow.efficiency < flow.usualEfficiency) {
+    const wait = findBiggestWait(flow.hours);
+    if (wait) {
+      recommendations.push(
+        `${Math.round(flow.efficiency * 100)}% of this issue's time so far was hands-on, below your usual ` +
+        `${Math.round(flow.usualEfficiency * 100)}% for ${issueType}s - most of the wait was ${describeWait(wait)}`
+      );
+    }
+  }
+
+  if (cycleTime.component && cycleTime.issueType && cycleTime.component.medianDays > cycleTime.issueType.medianDays * 1.5) {
+    recommendations.push(
+      `${cycleTime.component.label} work usually takes you longer than other ${issueType}s - consider splitting it or pairing`
+    );
+  }
+
+  if (stage !== 'done') {
+    const scope = timing.basis === 'issueType' ? `${issueType} work` : 'work';
+    recommendations.push(timing.inPeakWindow
+      ? `You're in your peak window for ${scope} now - a good time to push this forward`
+      : `Your best hours for ${scope} are ${formatHourRange(timing.peakWindow.start, timing.peakWindow.end)}`);
+  }
+
+  if ((stage === 'in_progress' || stage === 'review') && suggestedReviewers.length > 0) {
+    const [top] = suggestedReviewers;
+    recommendations.push(top.componentIssues > 0
+      ? `Ask ${top.displayName} to review - they finished ${top.componentIssues} similar issue${top.componentIssues !== 1 ? 's' : ''} recently`
+      : `Ask ${top.displayName} to review - they reviewed ${top.reviewsForYou} of your pull requests`);
+  }
+
+  return recommendations;
+}
@@ -4,32 +4,43 @@
  */
 
 import { LoadAnalysis, LoadPoint } from '../models/analysis';
-import { getUserIssuesWithMetrics, countActiveTickets } from '../data/jira/issues';
+import { getDataSource } from '../data/source';
 import { getCached, setCache } from '../data/cache';
+import { recordSnapshot, recordSnapshotIfMissing } from '../data/snapshots';
+import { getUserSettings } from '../data/settings';
+import { getCacheTtlHours, getMinDataPoints } from '../data/siteConfig';
+import { UserSettings } from '../models/settings';
+import { SnapshotMetrics } from '../models/snapshot';
 import { average, calculateConfidence } from '../utils/calculations';
 
 /**
  * Analyze load patterns for a user
  */
 export async function analyzeLoadPatterns(accountId: string): Promise<LoadAnalysis> {
+  const settings = await getUserSettings(accountId);
+  const ttlHours = await getCacheTtlHours('load');
+
   // Check cache
   const cached = await getCached<LoadAnalysis>(
     { namespace: 'load', accountId },
-    24 // 24 hour TTL
+    ttlHours,
+    { staleWhileRevalidate: true }
   );
 
   if (cached) {
     // Update current load in real-time
-    cached.currentLoad = await countActiveTickets(accountId);
-    cached.currentStatus = determineLoadStatus(cached.currentLoad, cached.optimalRange);
+    cached.currentLoad = await getDataSource().countActiveTickets(accountId);
+    cached.currentStatus = determineLoadStatus(cached.currentLoad, settings.load);
+    await recordSnapshotIfMissing(accountId, 'load', cached, () => toSnapshot(cached));
     return cached;
   }
 
   // Fetch historical data
-  const issues = await getUserIssuesWithMetrics(accountId, 180);
+  const issues = await getDataSource().getUserIssuesWithMetrics(accountId, settings.lookbackDays);
 
-  if (issues.length < 10) {
-    return createInsufficientDataResponse(accountId, issues.length);
+  const minDataPoints = await getMinDataPoints('load');
+  if (issues.length < minDataPoints) {
+    return createInsufficientDataResponse(accountId, issues.length, minDataPoints, settings.load);
   }
 
   // Calculate concurrent load for each issue
@@ -42,11 +53,11 @@ export async function analyzeLoadPatterns(accountId: string): Promise<LoadAnalys
   const loadCurve = buildLoadCurve(issuesWithLoad);
 
   // Find optimal range
-  const optimalRange = findOptimalLoadRange(loadCurve);
+  const optimalRange = findOptimalLoadRange(settings.load);
 
   // Get current load
-  const currentLoad = await countActiveTickets(accountId);
-  const currentStatus = determineLoadStatus(currentLoad, optimalRange);
+  const currentLoad = await getDataSource().countActiveTickets(accountId);
+  const currentStatus = determineLoadStatus(currentLoad, settings.load);
 
   // Generate recommendations
   const recommendations = generateLoadRecommendations(
@@ -69,11 +80,21 @@ export async function analyzeLoadPatterns(accountId: string): Promise<LoadAnalys
   };
 
   // Cache result
-  await setCache({ namespace: 'load', accountId }, analysis, 24);
+  await setCache({ namespace: 'load', accountId }, analysis, ttlHours);
+  await recordSnapshot(accountId, 'load', toSnapshot(analysis), analysis.confidence);
 
   return analysis;
 }
 
+function toSnapshot(analysis: LoadAnalysis): SnapshotMetrics['load'] {
+  return {
+    optimalMin: analysis.optimalRange.min,
+    optimalMax: analysis.optimalRange.max,
+    currentLoad: analysis.currentLoad,
+    overloaded: analysis.currentStatus === 'over' || analysis.currentStatus === 'critical'
+  };
+}
+
 /**
  * Calculate how many concurrent tickets a user had when working on this issue
  */
@@ -152,34 +173,34 @@ function buildLoadCurve(issues: any[]): Record<number, LoadPoint> {
 }
 
 /**
- * Find optimal load range based on industry best practices for individual contributors
+ * Find optimal load range from the user's load settings
  */
-function findOptimalLoadRange(loadCurve: Record<number, LoadPoint>): { min: number; max: number } {
-  // Fixed optimal range based on research for individual contributors
-  // 5-9 concurrent tickets provides best balance of throughput and quality
-  return { min: 5, max: 9 };
+function findOptimalLoadRange(load: UserSettings['load']): { min: number; max: number } {
+  // Defaults to 5-9 concurrent tickets, the research-backed range for individual
+  // contributors; users can tune it to how they work
+  return { min: load.optimalMin, max: load.optimalMax };
 }
 
 /**
- * Determine current load status based on industry-standard zones
+ * Determine current load status from the user's load zones
  */
 function determineLoadStatus(
   currentLoad: number,
-  optimalRange: { min: number; max: number }
+  load: UserSettings['load']
 ): 'under' | 'optimal' | 'over' | 'critical' {
-  // Under: < 5 tickets
-  if (currentLoad < 5) {
+  // Under: below the optimal range
+  if (currentLoad < load.optimalMin) {
     return 'under';
   }
-  // Optimal: 5-9 tickets
-  else if (currentLoad >= 5 && currentLoad <= 9) {
+  // Optimal: within the range
+  else if (currentLoad <= load.optimalMax) {
     return 'optimal';
   }
-  // Over/Warning: 10-12 tickets
-  else if (currentLoad >= 10 && currentLoad <= 12) {
+  // Over/Warning: above the range, up to the critical threshold
+  else if (currentLoad <= load.criticalAbove) {
     return 'over';
   }
-  // Critical: 13+ tickets
+  // Critical: beyond the threshold
   else {
     return 'critical';
   }
@@ -253,17 +274,22 @@ function generateLoadRecommendations(
 /**
  * Create response for insufficient data
  */
-function createInsufficientDataResponse(accountId: string, dataPoints: number): LoadAnalysis {
+function createInsufficientDataResponse(
+  accountId: string,
+  dataPoints: number,
+  minDataPoints: number,
+  load: UserSettings['load']
+): LoadAnalysis {
   return {
     accountId,
-    optimalRange: { min: 5, max: 9 },
+    optimalRange: findOptimalLoadRange(load),
     loadCurve: {},
     currentLoad: 0,
     currentStatus: 'optimal',
     recommendations: [
-      `Currently have ${dataPoints} data points, need at least 10 for detailed load analysis`,
+      `Currently have ${dataPoints} data points, need at least ${minDataPoints} for detailed load analysis`,
       'Complete more tickets and check back in a week or two',
-      'General guidance: Most individual contributors perform best with 5-9 concurrent tickets'
+      `General guidance: Aim for ${load.optimalMin}-${load.optimalMax} concurrent tickets`
     ],
     confidence: 'low',
     dataPoints,
@@ -10,8 +10,12 @@ import {
   CollaborationEdge,
   ChemistryScore
 } from '../models/analysis';
-import { getUserIssuesWithMetrics } from '../data/jira/issues';
+import { SnapshotMetrics } from '../models/snapshot';
+import { getDataSource } from '../data/source';
 import { getCached, setCache } from '../data/cache';
+import { recordSnapshot, recordSnapshotIfMissing } from '../data/snapshots';
+import { getUserSettings } from '../data/settings';
+import { getCacheTtlHours, getMinDataPoints } from '../data/siteConfig';
 import { average } from '../utils/calculations';
 
 /**
@@ -20,17 +24,21 @@ import { average } from '../utils/calculations';
 export async function analyzePitCrewPatterns(accountId: string): Promise<PitCrewAnalysis> {
   // Check cache
   const cacheKey = { namespace: 'pitcrew' as const, accountId };
-  const cached = await getCached<PitCrewAnalysis>(cacheKey, 24); // 24 hour TTL
+  const ttlHours = await getCacheTtlHours('pitcrew');
+  const cached = await getCached<PitCrewAnalysis>(cacheKey, ttlHours, { staleWhileRevalidate: true });
 
   if (cached) {
+    await recordSnapshotIfMissing(accountId, 'pitcrew', cached, () => toSnapshot(cached));
     return cached;
   }
 
-  // Fetch user's issues from last 6 months
-  const userIssues = await getUserIssuesWithMetrics(accountId, 180);
+  // Fetch user's issues over their lookback window
+  const { lookbackDays } = await getUserSettings(accountId);
+  const userIssues = await getDataSource().getUserIssuesWithMetrics(accountId, lookbackDays);
 
-  if (userIssues.length < 10) {
-    return createInsufficientDataResponse(accountId, userIssues.length);
+  const minDataPoints = await getMinDataPoints('pitcrew');
+  if (userIssues.length < minDataPoints) {
+    return createInsufficientDataResponse(accountId, userIssues.length, minDataPoints);
   }
 
   // Extract collaboration data
@@ -64,11 +72,19 @@ export async function analyzePitCrewPatterns(accountId: string): Promise<PitCrew
   };
 
   // Cache result
-  await setCache(cacheKey, analysis, 24);
+  await setCache(cacheKey, analysis, ttlHours);
+  await recordSnapshot(accountId, 'pitcrew', toSnapshot(analysis), analysis.confidence);
 
   return analysis;
 }
 
+function toSnapshot(analysis: PitCrewAnalysis): SnapshotMetrics['pitcrew'] {
+  return {
+    totalCollaborations: analysis.teamMetrics.totalCollaborations,
+    avgCollaborationCycleTime: analysis.teamMetrics.avgCollaborationCycleTime
+  };
+}
+
 /**
  * Extract collaboration signals from issues
  */
@@ -303,7 +319,11 @@ function generatePitCrewRecommendations(
 /**
  * Create response for insufficient data
  */
-function createInsufficientDataResponse(accountId: string, dataPoints: number): PitCrewAnalysis {
+function createInsufficientDataResponse(
+  accountId: string,
+  dataPoints: number,
+  minDataPoints: number
+): PitCrewAnalysis {
   return {
     accountId,
     teammates: [],
@@ -314,7 +334,7 @@ function createInsufficientDataResponse(accountId: string, dataPoints: number):
       totalCollaborations: 0
     },
     recommendations: [
-      `Need more data for pit crew analysis (have ${dataPoints}, need 10+)`,
+      `Need more data for pit crew analysis (have ${dataPoints}, need ${minDataPoints}+)`,
       'Work with teammates on issues to build collaboration history',
       'Full analysis available after more team interactions'
     ],
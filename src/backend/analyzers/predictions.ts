@@ -5,30 +5,51 @@
  */
 
 import { SprintPrediction, TicketRisk, WhatIfScenario } from '../models/analysis';
-import { getActiveIssues, getUserIssuesWithMetrics } from '../data/jira/issues';
+import { JiraIssue } from '../models/issue';
+import { getDataSource } from '../data/source';
 import { getCached, setCache } from '../data/cache';
+import { getSprintDaysRemaining } from '../data/jira/sprints';
+import { getUserSettings } from '../data/settings';
+import { getCacheTtlHours, getMinDataPoints } from '../data/siteConfig';
 import { average } from '../utils/calculations';
 
+// Planning horizon when the user has no active sprint
+const DEFAULT_HORIZON_DAYS = 10;
+// Cycle time history the simulation samples, if the user's lookback window allows
+const HISTORY_DAYS = 90;
+
 /**
  * Predict sprint completion using Monte Carlo simulation
+ * Uses the given sprint, or the user's soonest-ending active sprint.
+ * Without a sprint, forecasts open tickets over horizonWeeks (default 10 days).
  */
-export async function predictSprintCompletion(accountId: string): Promise<SprintPrediction> {
+export async function predictSprintCompletion(
+  accountId: string,
+  sprintId?: string,
+  horizonWeeks?: number
+): Promise<SprintPrediction> {
   // Check cache
-  const cacheKey = { namespace: 'predictions' as const, accountId };
-  const cached = await getCached<SprintPrediction>(cacheKey, 1); // 1 hour TTL
+  const suffix = [sprintId, horizonWeeks ? `${horizonWeeks}w` : undefined].filter(Boolean).join(':');
+  const cacheKey = { namespace: 'predictions' as const, accountId, suffix: suffix || undefined };
+  const ttlHours = await getCacheTtlHours('predictions');
+  const cached = await getCached<SprintPrediction>(cacheKey, ttlHours);
 
   if (cached) {
     return cached;
   }
 
-  // Get active tickets (current "sprint")
-  const activeTickets = await getActiveIssues(accountId);
+  const scope = await getDataSource().getCurrentSprintScope(accountId, sprintId);
+
+  // Remaining work: the user's unfinished sprint issues, or all active tickets without a sprint
+  const activeTickets = scope ? scope.remaining : await getDataSource().getActiveIssues(accountId);
 
   // Get historical data for cycle time predictions
-  const historicalIssues = await getUserIssuesWithMetrics(accountId, 90);
+  const { lookbackDays } = await getUserSettings(accountId);
+  const historicalIssues = await getDataSource().getUserIssuesWithMetrics(accountId, Math.min(HISTORY_DAYS, lookbackDays));
 
-  if (historicalIssues.length < 5) {
-    return createInsufficientDataResponse(accountId, historicalIssues.length);
+  const minDataPoints = await getMinDataPoints('predictions');
+  if (historicalIssues.length < minDataPoints) {
+    return createInsufficientDataResponse(accountId, historicalIssues.length, minDataPoints);
   }
 
   // Calculate historical cycle times
@@ -37,7 +58,7 @@ export async function predictSprintCompletion(accountId: string): Promise<Sprint
     .map(i => i.metrics.cycleTimeDays);
 
   if (cycleTimes.length === 0) {
-    return createInsufficientDataResponse(accountId, 0);
+    return createInsufficientDataResponse(accountId, 0, minDataPoints);
   }
 
   // Calculate current velocity (tickets per week)
@@ -51,8 +72,8 @@ export async function predictSprintCompletion(accountId: string): Promise<Sprint
 
   const currentVelocity = recentCompletions.length;
 
-  // Estimate days remaining (assuming 2-week sprint)
-  const daysRemaining = 10; // Simplified - would calculate from actual sprint dates
+  const horizonDays = horizonWeeks ? horizonWeeks * 7 : DEFAULT_HORIZON_DAYS;
+  const daysRemaining = scope ? getSprintDaysRemaining(scope.sprint) : horizonDays;
 
   // Run Monte Carlo simulation
   const simResults = runMonteCarloSimulation(
@@ -80,9 +101,17 @@ export async function predictSprintCompletion(accountId: string): Promise<Sprint
     daysRemaining
   );
 
+  if (!scope) {
+    recommendations.push(`ℹ️ No active sprint found - forecasting your open tickets over the next ${horizonDays} days`);
+  } else if (scope.addedMidSprint.length > 0) {
+    recommendations.push(`📥 SCOPE CHANGE: ${scope.addedMidSprint.length} ticket(s) added after the sprint started`);
+    recommendations.push(`   → Committed at start: ${scope.committed.length}, now ${scope.issues.length} in total`);
+  }
+
   const prediction: SprintPrediction = {
     accountId,
-    sprintName: 'Current Sprint',
+    sprintId: scope?.sprint.id,
+    sprintName: scope?.sprint.name,
     predictions: {
       completionProbability: simResults.completionProbability,
       expectedTicketsCompleted: simResults.expectedCompleted,
@@ -90,12 +119,20 @@ export async function predictSprintCompletion(accountId: string): Promise<Sprint
       atRiskTickets
     },
     currentState: {
-      totalTickets: activeTickets.length,
-      completedTickets: 0, // Would track from sprint start
+      totalTickets: scope ? scope.issues.length : activeTickets.length,
+      completedTickets: scope ? scope.completed.length : 0,
       remainingTickets: activeTickets.length,
       daysRemaining,
       currentVelocity
     },
+    sprint: scope ? {
+      startDate: scope.sprint.startDate,
+      endDate: scope.sprint.endDate,
+      committedTickets: scope.committed.length,
+      addedMidSprint: scope.addedMidSprint.length,
+      completedPoints: scope.completedPoints,
+      totalPoints: scope.totalPoints
+    } : undefined,
     whatIfScenarios,
     recommendations,
     confidence: historicalIssues.length > 30 ? 'high' : historicalIssues.length > 15 ? 'medium' : 'low',
@@ -103,7 +140,7 @@ export async function predictSprintCompletion(accountId: string): Promise<Sprint
   };
 
   // Cache result
-  await setCache(cacheKey, prediction, 1);
+  await setCache(cacheKey, prediction, ttlHours);
 
   return prediction;
 }
@@ -169,7 +206,7 @@ function runMonteCarloSimulation(
  * Identify tickets at risk of not completing
  */
 function identifyAtRiskTickets(
-  activeTickets: any[],
+  activeTickets: JiraIssue[],
   historicalCycleTimes: number[],
   daysRemaining: number
 ): TicketRisk[] {
@@ -307,7 +344,11 @@ function generatePredictionRecommendations(
 /**
  * Create response for insufficient data
  */
-function createInsufficientDataResponse(accountId: string, dataPoints: number): SprintPrediction {
+function createInsufficientDataResponse(
+  accountId: string,
+  dataPoints: number,
+  minDataPoints: number
+): SprintPrediction {
   return {
     accountId,
     predictions: {
@@ -325,7 +366,7 @@ function createInsufficientDataResponse(accountId: string, dataPoints: number):
     },
     whatIfScenarios: [],
     recommendations: [
-      `Need more data for sprint predictions (have ${dataPoints}, need 5+)`,
+      `Need more data for sprint predictions (have ${dataPoints}, need ${minDataPoints}+)`,
       'Complete more tickets to build historical data',
       'Predictions improve with more completed work'
     ],
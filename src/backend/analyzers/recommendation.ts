@@ -7,7 +7,11 @@ import { Recommendation, RecommendationContext } from '../models/analysis';
 import { analyzeTimingPatterns } from './timing';
 import { analyzeLoadPatterns } from './load';
 import { analyzeStrengthPatterns } from './strengths';
+import { analyzeCollaborationPatterns } from './collaboration';
 import { getCurrentStatus } from './currentStatus';
+import { isJiraDataUnavailable, describeDataUnavailable, JiraDataUnavailableError } from '../data/jira/errors';
+import { getCurrentHour } from '../utils/dateHelpers';
+import { logger } from '../utils/logger';
 
 /**
  * Get personalized recommendation based on context
@@ -109,7 +113,7 @@ async function getTicketSelectionRecommendation(
     }
 
     // Timing consideration
-    const currentHour = new Date().getHours();
+    const currentHour = getCurrentHour(timing.timeZone);
     if (currentHour >= timing.peakWindow.start && currentHour < timing.peakWindow.end) {
       recommendations.push({
         type: 'timing',
@@ -122,7 +126,10 @@ async function getTicketSelectionRecommendation(
 
     return recommendations;
   } catch (error) {
-    console.error('Error generating ticket selection recommendation:', error);
+    logger.error('Error generating ticket selection recommendation', { error });
+    if (isJiraDataUnavailable(error)) {
+      return [createDataUnavailableRecommendation(error)];
+    }
     return [{
       type: 'general',
       priority: 'low',
@@ -142,7 +149,7 @@ async function getTimingRecommendation(
 ): Promise<Recommendation[]> {
   try {
     const timing = await analyzeTimingPatterns(accountId);
-    const currentHour = new Date().getHours();
+    const currentHour = getCurrentHour(timing.timeZone);
 
     const recommendations: Recommendation[] = [];
 
@@ -179,7 +186,10 @@ async function getTimingRecommendation(
 
     return recommendations;
   } catch (error) {
-    console.error('Error generating timing recommendation:', error);
+    logger.error('Error generating timing recommendation', { error });
+    if (isJiraDataUnavailable(error)) {
+      return [createDataUnavailableRecommendation(error)];
+    }
     return [{
       type: 'general',
       priority: 'low',
@@ -213,7 +223,10 @@ async function getWorkloadRecommendation(
 
     return recommendations;
   } catch (error) {
-    console.error('Error generating workload recommendation:', error);
+    logger.error('Error generating workload recommendation', { error });
+    if (isJiraDataUnavailable(error)) {
+      return [createDataUnavailableRecommendation(error)];
+    }
     return [{
       type: 'general',
       priority: 'low',
@@ -231,19 +244,56 @@ async function getReviewerRecommendation(
   accountId: string,
   context: RecommendationContext
 ): Promise<Recommendation[]> {
-  // Simplified for MVP - full implementation requires Bitbucket integration
-  return [{
-    type: 'reviewer',
-    priority: 'low',
-    message: 'Reviewer recommendations require Bitbucket integration',
-    reasoning: 'Enable Bitbucket connection to analyze review patterns',
-    actionable: true,
-    actions: [
-      'Consider who has given you helpful, timely reviews in the past',
-      'Look for reviewers familiar with this component',
-      'Check who is available and not overloaded'
-    ]
-  }];
+  try {
+    const collaboration = await analyzeCollaborationPatterns(accountId, 'reviewers');
+
+    if (collaboration.bestReviewers.length === 0) {
+      return [{
+        type: 'reviewer',
+        priority: 'low',
+        message: collaboration.recommendations[0] || 'Not enough review history yet',
+        reasoning: 'Reviewer rankings need pull requests reviewed by the same person at least twice',
+        actionable: true,
+        actions: [
+          'Consider who has given you helpful, timely reviews in the past',
+          'Look for reviewers familiar with this component',
+          'Check who is available and not overloaded'
+        ]
+      }];
+    }
+
+    const [top, ...others] = collaboration.bestReviewers;
+    const topStats = collaboration.reviewerStats[top.accountId];
+
+    return [{
+      type: 'reviewer',
+      priority: 'medium',
+      message: `Ask ${top.displayName} to review`,
+      reasoning: `${top.displayName} reviewed ${top.totalReviews} of your PRs, responding in ${(top.avgReviewTimeDays * 24).toFixed(1)} hours on average` +
+        (topStats ? ` (thoroughness ${topStats.thoroughnessScore.toFixed(1)}/10)` : ''),
+      actionable: true,
+      actions: [
+        ...others.slice(0, 2).map(r => `Backup reviewer: ${r.displayName} (${r.rating})`),
+        ...collaboration.recommendations.slice(1)
+      ]
+    }];
+  } catch (error) {
+    logger.error('Error generating reviewer recommendation', { error });
+    if (isJiraDataUnavailable(error)) {
+      return [createDataUnavailableRecommendation(error)];
+    }
+    return [{
+      type: 'reviewer',
+      priority: 'low',
+      message: 'Unable to analyze review history right now',
+      reasoning: 'Bitbucket review data could not be loaded',
+      actionable: true,
+      actions: [
+        'Consider who has given you helpful, timely reviews in the past',
+        'Look for reviewers familiar with this component'
+      ]
+    }];
+  }
 }
 
 /**
@@ -265,7 +315,10 @@ async function getGeneralRecommendation(
       actions: status.todayRecommendations.slice(1)
     }];
   } catch (error) {
-    console.error('Error generating general recommendation:', error);
+    logger.error('Error generating general recommendation', { error });
+    if (isJiraDataUnavailable(error)) {
+      return [createDataUnavailableRecommendation(error)];
+    }
     return [{
       type: 'general',
       priority: 'low',
@@ -275,3 +328,16 @@ async function getGeneralRecommendation(
     }];
   }
 }
+
+/**
+ * Recommendation returned when Jira is rate limiting or unavailable
+ */
+function createDataUnavailableRecommendation(error: JiraDataUnavailableError): Recommendation {
+  return {
+    type: 'general',
+    priority: 'low',
+    message: 'Data temporarily unavailable',
+    reasoning: describeDataUnavailable(error).message,
+    actionable: false
+  };
+}
@@ -4,10 +4,16 @@
  */
 
 import { StrengthAnalysis, StrengthMetric, ComponentStrength } from '../models/analysis';
-import { getUserIssuesWithMetrics, getTeamIssues } from '../data/jira/issues';
+import { SnapshotMetrics } from '../models/snapshot';
+import { getDataSource } from '../data/source';
+import { isJiraDataUnavailable } from '../data/jira/errors';
 import { getCached, setCache } from '../data/cache';
+import { recordSnapshot, recordSnapshotIfMissing } from '../data/snapshots';
+import { getUserSettings } from '../data/settings';
+import { getCacheTtlHours, getMinDataPoints } from '../data/siteConfig';
 import { average, calculateDelta, calculateConfidence, groupBy } from '../utils/calculations';
 import { summarizeExpertise } from '../utils/formatting';
+import { logger } from '../utils/logger';
 
 /**
  * Analyze strength patterns for a user
@@ -18,24 +24,28 @@ export async function analyzeStrengthPatterns(
 ): Promise<StrengthAnalysis> {
   // Check cache
   const cacheKey = { namespace: 'strengths' as const, accountId };
-  const cached = await getCached<StrengthAnalysis>(cacheKey, 24);
+  const ttlHours = await getCacheTtlHours('strengths');
+  const cached = await getCached<StrengthAnalysis>(cacheKey, ttlHours, { staleWhileRevalidate: true });
 
   if (cached) {
+    await recordSnapshotIfMissing(accountId, 'strengths', cached, () => toSnapshot(cached));
     return cached;
   }
 
   // Fetch user data
-  const userIssues = await getUserIssuesWithMetrics(accountId, 180);
+  const { lookbackDays } = await getUserSettings(accountId);
+  const userIssues = await getDataSource().getUserIssuesWithMetrics(accountId, lookbackDays);
 
-  if (userIssues.length < 10) {
-    return createInsufficientDataResponse(accountId, userIssues.length);
+  const minDataPoints = await getMinDataPoints('strengths');
+  if (userIssues.length < minDataPoints) {
+    return createInsufficientDataResponse(accountId, userIssues.length, minDataPoints);
   }
 
   // Analyze by ticket type
-  const ticketTypes = await analyzeByTicketType(userIssues, accountId, compareToTeam);
+  const ticketTypes = await analyzeByTicketType(userIssues, accountId, compareToTeam, lookbackDays);
 
   // Analyze by component
-  const components = await analyzeByComponent(userIssues, accountId, compareToTeam);
+  const components = await analyzeByComponent(userIssues, accountId, compareToTeam, lookbackDays);
 
   // Generate recommendations
   const recommendations = generateStrengthRecommendations(ticketTypes, components);
@@ -51,18 +61,27 @@ export async function analyzeStrengthPatterns(
   };
 
   // Cache result
-  await setCache(cacheKey, analysis, 24);
+  await setCache(cacheKey, analysis, ttlHours);
+  await recordSnapshot(accountId, 'strengths', toSnapshot(analysis), analysis.confidence);
 
   return analysis;
 }
 
+function toSnapshot(analysis: StrengthAnalysis): SnapshotMetrics['strengths'] {
+  return {
+    expertComponents: Object.values(analysis.components).filter(c => c.expertise === 'expert').length,
+    strongestType: Object.values(analysis.ticketTypes).sort((a, b) => a.delta - b.delta)[0]?.type
+  };
+}
+
 /**
  * Analyze performance by ticket type
  */
 async function analyzeByTicketType(
   userIssues: any[],
   accountId: string,
-  compareToTeam: boolean
+  compareToTeam: boolean,
+  lookbackDays: number
 ): Promise<Record<string, StrengthMetric>> {
   // Group by issue type
   const typeGroups = groupBy(userIssues, 'issueType');
@@ -87,7 +106,7 @@ async function analyzeByTicketType(
     if (compareToTeam && issues.length > 0) {
       const projectKeys = [...new Set(issues.map((i: any) => i.project))];
       try {
-        const teamIssues = await getTeamIssues(projectKeys, 180);
+        const teamIssues = await getDataSource().getTeamIssues(projectKeys, lookbackDays);
         const teamTypeIssues = teamIssues.filter(i => i.issueType === type);
 
         if (teamTypeIssues.length > 5) {
@@ -109,7 +128,10 @@ async function analyzeByTicketType(
           }
         }
       } catch (error) {
-        console.error('Error fetching team data:', error);
+        if (isJiraDataUnavailable(error)) {
+          throw error;
+        }
+        logger.error('Error fetching team data', { error });
       }
     }
 
@@ -132,7 +154,8 @@ async function analyzeByTicketType(
 async function analyzeByComponent(
   userIssues: any[],
   accountId: string,
-  compareToTeam: boolean
+  compareToTeam: boolean,
+  lookbackDays: number
 ): Promise<Record<string, ComponentStrength>> {
   // Flatten components (issues can have multiple components)
   const issuesByComponent: Record<string, any[]> = {};
@@ -172,7 +195,7 @@ async function analyzeByComponent(
     if (compareToTeam && issues.length > 0) {
       const projectKeys = [...new Set(issues.map((i: any) => i.project))];
       try {
-        const teamIssues = await getTeamIssues(projectKeys, 180);
+        const teamIssues = await getDataSource().getTeamIssues(projectKeys, lookbackDays);
         const teamComponentIssues = teamIssues.filter(i =>
           i.components && i.components.includes(component)
         );
@@ -193,7 +216,10 @@ async function analyzeByComponent(
           }
         }
       } catch (error) {
-        console.error('Error fetching team component data:', error);
+        if (isJiraDataUnavailable(error)) {
+          throw error;
+        }
+        logger.error('Error fetching team component data', { error });
       }
     }
 
@@ -294,13 +320,17 @@ function generateStrengthRecommendations(
 /**
  * Create response for insufficient data
  */
-function createInsufficientDataResponse(accountId: string, dataPoints: number): StrengthAnalysis {
+function createInsufficientDataResponse(
+  accountId: string,
+  dataPoints: number,
+  minDataPoints: number
+): StrengthAnalysis {
   return {
     accountId,
     ticketTypes: {},
     components: {},
     recommendations: [
-      `Currently have ${dataPoints} data points, need at least 10 for strength analysis`,
+      `Currently have ${dataPoints} data points, need at least ${minDataPoints} for strength analysis`,
       'Complete more tickets across different types and components',
       'Check back in a few weeks for personalized insights'
     ],
@@ -0,0 +1,280 @@
+/**
+ * Team Analyzer
+ * Aggregate-only view of a project's team for leads
+ * F1 Theme: Constructor Standings
+ *
+ * Built from the daily snapshots team members' own analyses already recorded;
+ * nothing is computed for anyone who hasn't used the app, and only members with
+ * active consent are counted. Every section reports
+ * counts per bucket, never per person. Buckets with fewer than minBucketSize
+ * members are suppressed, along with a second bucket when one suppressed count
+ * could otherwise be worked out from the total.
+ */
+
+import {
+  BucketDistribution,
+  TeamAnalysis,
+  TeamBurnoutBucket,
+  TeamCollaborationBucket,
+  TeamLoadBucket
+} from '../models/team';
+import { AnalysisSnapshot } from '../models/snapshot';
+import { getDataSource } from '../data/source';
+import { getLatestSnapshot } from '../data/snapshots';
+import { hasActiveConsent } from '../data/consent';
+import { getSprintDaysRemaining } from '../data/jira/sprints';
+import { isJiraDataUnavailable } from '../data/jira/errors';
+import { getSiteConfig } from '../data/siteConfig';
+import { average } from '../utils/calculations';
+import { logger } from '../utils/logger';
+
+// Team members are everyone assigned project work in this window
+const TEAM_LOOKBACK_DAYS = 90;
+// Older snapshots don't describe the member's current state
+const SNAPSHOT_MAX_AGE_DAYS = 7;
+// Daily throughput history sampled by the sprint simulation
+const THROUGHPUT_DAYS = 42;
+const SIMULATION_ITERATIONS = 1000;
+// Collaborations per 180 days at which a member counts as a hub
+const HUB_COLLABORATIONS = 10;
+
+/**
+ * Analyze a project's team. The bucket size defaults to the site configuration's.
+ */
+export async function analyzeTeam(projectKey: string, minBucketSize?: number): Promise<TeamAnalysis> {
+  minBucketSize ??= (await getSiteConfig()).team.minBucketSize;
+  const teamIssues = await getDataSource().getTeamIssues([projectKey], TEAM_LOOKBACK_DAYS);
+  const members = Array.from(new Set(teamIssues.map(issue => issue.assigneeAccountId).filter(Boolean)));
+
+  const analysis: TeamAnalysis = {
+    projectKey,
+    minBucketSize,
+    teamSize: members.length,
+    recommendations: [],
+    lastUpdated: new Date()
+  };
+
+  if (members.length < minBucketSize) {
+    analysis.tooSmall = true;
+    analysis.recommendations.push(
+      `👥 Team view needs at least ${minBucketSize} people assigned work in the last ${TEAM_LOOKBACK_DAYS} days`
+    );
+    return analysis;
+  }
+
+  // Paused members keep their history, but it isn't shared in aggregates
+  const consented = await Promise.all(members.map(hasActiveConsent));
+  const reporting = members.filter((_, index) => consented[index]);
+
+  const [loadSnapshots, burnoutSnapshots, pitCrewSnapshots] = await Promise.all([
+    getLatestSnapshots(reporting, 'load'),
+    getLatestSnapshots(reporting, 'burnout'),
+    getLatestSnapshots(reporting, 'pitcrew')
+  ]);
+
+  analysis.load = distribute<TeamLoadBucket>(
+    loadSnapshots.map(snapshot => {
+      const { currentLoad, optimalMin, overloaded } = snapshot.metrics;
+      return overloaded ? 'over' : currentLoad < optimalMin ? 'under' : 'optimal';
+    }),
+    ['under', 'optimal', 'over'],
+    minBucketSize
+  );
+
+  const burnout = distribute<TeamBurnoutBucket>(
+    burnoutSnapshots.map(snapshot => snapshot.metrics.riskLevel),
+    ['healthy', 'warning', 'high', 'critical'],
+    minBucketSize
+  );
+  if (burnout) {
+    analysis.burnout = {
+      ...burnout,
+      averageScore: Math.round(average(burnoutSnapshots.map(snapshot => snapshot.metrics.burnoutScore)))
+    };
+  }
+
+  const collaboration = distribute<TeamCollaborationBucket>(
+    pitCrewSnapshots.map(snapshot => {
+      const collaborations = snapshot.metrics.totalCollaborations;
+      return collaborations === 0 ? 'isolated' : collaborations >= HUB_COLLABORATIONS ? 'hub' : 'connected';
+    }),
+    ['isolated', 'connected', 'hub'],
+    minBucketSize
+  );
+  if (collaboration) {
+    const cycleTimes = pitCrewSnapshots
+      .map(snapshot => snapshot.metrics.avgCollaborationCycleTime)
+      .filter(days => days > 0);
+    analysis.collaboration = {
+      ...collaboration,
+      avgCollaborationCycleTime: cycleTimes.length >= minBucketSize
+        ? Math.round(average(cycleTimes) * 10) / 10
+        : null
+    };
+  }
+
+  try {
+    analysis.sprint = await analyzeTeamSprint(projectKey, teamIssues.map(issue => issue.resolved));
+  } catch (error) {
+    if (isJiraDataUnavailable(error)) {
+      throw error;
+    }
+    logger.error('Error analyzing team sprint', { projectKey, error });
+  }
+
+  analysis.recommendations = generateTeamRecommendations(analysis);
+  return analysis;
+}
+
+/**
+ * Forecast the project's active sprint from the team's daily throughput
+ */
+async function analyzeTeamSprint(
+  projectKey: string,
+  resolvedDates: Array<Date | undefined>
+): Promise<TeamAnalysis['sprint']> {
+  const scope = await getDataSource().getProjectSprintScope(projectKey);
+  if (!scope) {
+    return undefined;
+  }
+
+  const daysRemaining = getSprintDaysRemaining(scope.sprint);
+  const remaining = scope.remaining.length;
+  const dailyThroughput = countDailyCompletions(resolvedDates, THROUGHPUT_DAYS);
+
+  let finished = 0;
+  const completedBySprintEnd: number[] = [];
+  for (let i = 0; i < SIMULATION_ITERATIONS; i++) {
+    let done = 0;
+    for (let day = 0; day < daysRemaining; day++) {
+      done += dailyThroughput[Math.floor(Math.random() * dailyThroughput.length)];
+    }
+    if (done >= remaining) {
+      finished++;
+    }
+    completedBySprintEnd.push(Math.min(done, remaining));
+  }
+
+  return {
+    sprintId: scope.sprint.id,
+    sprintName: scope.sprint.name,
+    endDate: scope.sprint.endDate,
+    daysRemaining,
+    totalTickets: scope.issues.length,
+    completedTickets: scope.completed.length,
+    addedMidSprint: scope.addedMidSprint.length,
+    completedPoints: scope.completedPoints,
+    totalPoints: scope.totalPoints,
+    completionProbability: remaining === 0 ? 1 : finished / SIMULATION_ITERATIONS,
+    expectedCompleted: scope.completed.length + Math.round(average(completedBySprintEnd))
+  };
+}
+
+/**
+ * Each member's most recent snapshot, skipping members without recent data
+ */
+async function getLatestSnapshots<A extends 'load' | 'burnout' | 'pitcrew'>(
+  members: string[],
+  analysis: A
+): Promise<AnalysisSnapshot<A>[]> {
+  const snapshots = await Promise.all(
+    members.map(accountId => getLatestSnapshot(accountId, analysis, SNAPSHOT_MAX_AGE_DAYS))
+  );
+  return snapshots.filter((snapshot): snapshot is AnalysisSnapshot<A> => snapshot !== null);
+}
+
+/**
+ * Count members per bucket with small-count suppression. Undefined when fewer
+ * than minBucketSize members have data at all.
+ */
+function distribute<B extends string>(
+  values: B[],
+  bucketNames: B[],
+  minBucketSize: number
+): BucketDistribution<B> | undefined {
+  if (values.length < minBucketSize) {
+    return undefined;
+  }
+
+  const counts = {} as Record<B, number>;
+  bucketNames.forEach(name => { counts[name] = 0; });
+  values.forEach(value => { counts[value]++; });
+
+  const suppressed = new Set(bucketNames.filter(name => counts[name] > 0 && counts[name] < minBucketSize));
+
+  // One hidden count plus the total would give it away; hide the next smallest too
+  if (suppressed.size === 1) {
+    const [nextSmallest] = bucketNames
+      .filter(name => !suppressed.has(name) && counts[name] > 0)
+      .sort((a, b) => counts[a] - counts[b]);
+    if (nextSmallest) {
+      suppressed.add(nextSmallest);
+    }
+  }
+
+  const buckets = {} as Record<B, number | null>;
+  bucketNames.forEach(name => { buckets[name] = suppressed.has(name) ? null : counts[name]; });
+
+  return { buckets, membersReported: values.length };
+}
+
+/**
+ * Tickets completed on each of the last `days` days, including days with none
+ */
+function countDailyCompletions(resolvedDates: Array<Date | undefined>, days: number): number[] {
+  const counts = new Array(days).fill(0);
+  const now = Date.now();
+
+  for (const resolved of resolvedDates) {
+    if (!resolved) continue;
+    const daysAgo = Math.floor((now - new Date(resolved).getTime()) / (24 * 60 * 60 * 1000));
+    if (daysAgo >= 0 && daysAgo < days) {
+      counts[daysAgo]++;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Team-level advice; only refers to buckets that were reported
+ */
+function generateTeamRecommendations(analysis: TeamAnalysis): string[] {
+  const recommendations: string[] = [];
+  const { load, burnout, collaboration, sprint } = analysis;
+
+  const overloaded = load?.buckets.over;
+  if (overloaded) {
+    recommendations.push(`📊 ${overloaded} people are above their optimal load`);
+    recommendations.push('   → Rebalance work or trim scope before adding more');
+  }
+
+  const atRisk = (burnout?.buckets.high ?? 0) + (burnout?.buckets.critical ?? 0);
+  if (burnout && atRisk > 0) {
+    recommendations.push(`🔥 ${atRisk} people show high or critical burnout signals`);
+    recommendations.push('   → Protect focus time and talk about sustainable pace as a team');
+  }
+
+  const isolated = collaboration?.buckets.isolated;
+  if (isolated) {
+    recommendations.push(`🤝 ${isolated} people had no collaborations recently`);
+    recommendations.push('   → Consider pairing or rotating reviewers');
+  }
+
+  if (sprint) {
+    const percent = Math.round(sprint.completionProbability * 100);
+    recommendations.push(`🏁 ${percent}% chance of finishing ${sprint.sprintName} at current team pace`);
+    if (percent < 50) {
+      recommendations.push('   → Agree on what to descope now rather than at the end');
+    }
+    if (sprint.addedMidSprint > 0) {
+      recommendations.push(`📥 ${sprint.addedMidSprint} tickets were added after the sprint started`);
+    }
+  }
+
+  if (recommendations.length === 0) {
+    recommendations.push('✅ Not enough shared data yet for team recommendations');
+  }
+
+  return recommendations;
+}
@@ -4,44 +4,73 @@
  */
 
 import { TimingAnalysis, DayPattern } from '../models/analysis';
-import { HourlyActivity, ActivityEvent } from '../models/metrics';
-import { getUserIssuesWithMetrics } from '../data/jira/issues';
+import { HourlyActivity, ActivityEvent, UserActivity } from '../models/metrics';
+import { IssueWithMetrics } from '../models/issue';
+import { PullRequestWithMetrics } from '../models/commit';
+import { SnapshotMetrics } from '../models/snapshot';
+import { getDataSource } from '../data/source';
 import { getCached, setCache } from '../data/cache';
+import { recordSnapshot, recordSnapshotIfMissing } from '../data/snapshots';
+import { getUserSettings } from '../data/settings';
+import { getCacheTtlHours, getMinDataPoints } from '../data/siteConfig';
 import { getHourOfDay, getDayOfWeek, getTimeRange } from '../utils/dateHelpers';
 import { average, calculateConfidence, groupBy } from '../utils/calculations';
 
+// Quality (0-10) for activity with nothing to judge it by
+const NEUTRAL_QUALITY = 5;
+
+// Hours with fewer activities are too thin to call peak or danger
+const SIGNIFICANT_HOUR_VOLUME = 5;
+
 /**
  * Analyze timing patterns for a user
+ * Built from the user's own actions (transitions, comments, commits, reviews), so bulk
+ * edits and automation don't count. Hours and days are bucketed in the user's own
+ * timezone, not the runtime's (UTC). Without a time range, the user's lookback window applies.
  */
 export async function analyzeTimingPatterns(
   accountId: string,
-  timeRange: string = '6months'
+  timeRange?: string
 ): Promise<TimingAnalysis> {
-  // Check cache
+  const timeZone = await getDataSource().getUserTimeZone(accountId);
+  const ttlHours = await getCacheTtlHours('timing');
+
+  // Check cache (recompute if the user's timezone changed since)
   const cached = await getCached<TimingAnalysis>(
     { namespace: 'timing', accountId },
-    24 // 24 hour TTL
+    ttlHours,
+    { staleWhileRevalidate: true }
   );
 
-  if (cached) {
+  if (cached && cached.timeZone === timeZone) {
+    await recordSnapshotIfMissing(accountId, 'timing', cached, () => toSnapshot(cached));
     return cached;
   }
 
   // Fetch data
-  const { start, end } = getTimeRange(timeRange);
-  const daysBack = Math.floor((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-  const issues = await getUserIssuesWithMetrics(accountId, daysBack);
+  let daysBack: number;
+  if (timeRange) {
+    const { start, end } = getTimeRange(timeRange);
+    daysBack = Math.floor((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
+  } else {
+    daysBack = (await getUserSettings(accountId)).lookbackDays;
+  }
+  const activity = await getDataSource().getUserActivity(accountId, daysBack);
+  const issues = activity.issues;
+  const events = buildActivityEvents(activity);
 
-  if (issues.length < 10) {
+  const minDataPoints = await getMinDataPoints('timing');
+  if (issues.length < minDataPoints || events.length < minDataPoints) {
     // Insufficient data
-    return createInsufficientDataResponse(accountId, issues.length);
+    return createInsufficientDataResponse(accountId, issues.length, minDataPoints, timeZone);
   }
 
   // Analyze patterns
-  const hourlyActivity = groupByHour(issues);
-  const dayPatterns = analyzeDayPatterns(issues);
+  const hourlyActivity = groupByHour(events, timeZone);
+  const dayPatterns = analyzeDayPatterns(events, issues, timeZone);
   const peakWindow = findPeakWindow(hourlyActivity);
   const dangerZone = findDangerZone(hourlyActivity);
+  const issueTypeWindows = findIssueTypePeakWindows(activity, timeZone, minDataPoints);
 
   const recommendations = generateTimingRecommendations(peakWindow, dangerZone, dayPatterns);
 
@@ -49,7 +78,10 @@ export async function analyzeTimingPatterns(
     accountId,
     peakWindow,
     dangerZone,
+    issueTypeWindows,
     dayPatterns,
+    hourlyQuality: hourlyActivity.map(({ hour, qualityScore, volume }) => ({ hour, qualityScore, volume })),
+    timeZone,
     recommendations,
     confidence: calculateConfidence(issues.length),
     dataPoints: issues.length,
@@ -57,45 +89,146 @@ export async function analyzeTimingPatterns(
   };
 
   // Cache result
-  await setCache({ namespace: 'timing', accountId }, analysis, 24);
+  await setCache({ namespace: 'timing', accountId }, analysis, ttlHours);
+  await recordSnapshot(accountId, 'timing', toSnapshot(analysis), analysis.confidence);
 
   return analysis;
 }
 
+function toSnapshot(analysis: TimingAnalysis): SnapshotMetrics['timing'] {
+  return {
+    peakStart: analysis.peakWindow.start,
+    peakEnd: analysis.peakWindow.end,
+    dangerStart: analysis.dangerZone?.start,
+    dangerEnd: analysis.dangerZone?.end
+  };
+}
+
 /**
- * Group activities by hour of day
+ * Find the user's peak window for each issue type, from their own actions on issues of that type
+ * Types with too little activity to tell are left out, so callers fall back to the
+ * overall peak window.
  */
-function groupByHour(issues: any[]): HourlyActivity[] {
-  const hourlyBuckets: Map<number, ActivityEvent[]> = new Map();
+function findIssueTypePeakWindows(
+  activity: UserActivity,
+  timeZone: string,
+  minDataPoints: number
+): Record<string, TimingAnalysis['peakWindow']> {
+  const windows: Record<string, TimingAnalysis['peakWindow']> = {};
+
+  for (const [issueType, issues] of Object.entries(groupBy(activity.issues, 'issueType'))) {
+    const keys = new Set(issues.map(issue => issue.key));
+    const isLinked = (linkedIssues?: string[]) => (linkedIssues || []).some(key => keys.has(key));
+
+    const events = buildActivityEvents({
+      ...activity,
+      issues,
+      transitions: activity.transitions.filter(transition => keys.has(transition.issueKey)),
+      comments: activity.comments.filter(comment => keys.has(comment.issueKey)),
+      commits: activity.commits.filter(commit => isLinked(commit.linkedIssues)),
+      pullRequests: {
+        authored: activity.pullRequests.authored.filter(pr => isLinked(pr.linkedIssues)),
+        reviewed: activity.pullRequests.reviewed.filter(pr => isLinked(pr.linkedIssues))
+      }
+    });
 
-  // Initialize all hours
-  for (let hour = 0; hour < 24; hour++) {
-    hourlyBuckets.set(hour, []);
+    const hourlyActivity = groupByHour(events, timeZone);
+    if (events.length >= minDataPoints && hourlyActivity.some(h => h.volume >= SIGNIFICANT_HOUR_VOLUME)) {
+      windows[issueType] = findPeakWindow(hourlyActivity);
+    }
   }
 
-  // Group issue activities by hour
-  for (const issue of issues) {
-    // Updated timestamp
-    const updateHour = getHourOfDay(issue.updated);
-    hourlyBuckets.get(updateHour)?.push({
+  return windows;
+}
+
+/**
+ * Turn the user's actions into activity events, each weighted by the quality
+ * of the issue or pull request it belongs to
+ */
+function buildActivityEvents(activity: UserActivity): ActivityEvent[] {
+  const issueQuality = new Map<string, number>(
+    activity.issues.map(issue => [issue.key, calculateIssueQuality(issue)])
+  );
+  const qualityOfIssue = (issueKey: string) => issueQuality.get(issueKey) ?? NEUTRAL_QUALITY;
+  const qualityOfPullRequest = (pr: PullRequestWithMetrics) => {
+    const linked = (pr.linkedIssues || []).filter(key => issueQuality.has(key));
+    return linked.length > 0
+      ? average(linked.map(qualityOfIssue))
+      : calculatePullRequestQuality(pr);
+  };
+
+  const events: ActivityEvent[] = [];
+
+  for (const transition of activity.transitions) {
+    events.push({
       type: 'issue_update',
-      timestamp: issue.updated,
-      quality: calculateIssueQuality(issue),
-      metadata: { issueKey: issue.key }
+      timestamp: transition.timestamp,
+      quality: qualityOfIssue(transition.issueKey),
+      metadata: { issueKey: transition.issueKey, from: transition.fromValue, to: transition.toValue }
     });
+  }
 
-    // Resolved timestamp
-    if (issue.resolved) {
-      const resolveHour = getHourOfDay(issue.resolved);
-      hourlyBuckets.get(resolveHour)?.push({
-        type: 'issue_update',
-        timestamp: issue.resolved,
-        quality: calculateIssueQuality(issue),
-        metadata: { issueKey: issue.key, resolved: true }
-      });
+  for (const comment of activity.comments) {
+    events.push({
+      type: 'comment',
+      timestamp: comment.created,
+      quality: qualityOfIssue(comment.issueKey),
+      metadata: { issueKey: comment.issueKey }
+    });
+  }
+
+  // Merge commits record integration, not authored work
+  for (const commit of activity.commits.filter(c => !c.isMergeCommit)) {
+    const linked = (commit.linkedIssues || []).filter(key => issueQuality.has(key));
+    events.push({
+      type: 'commit',
+      timestamp: commit.timestamp,
+      quality: linked.length > 0 ? average(linked.map(qualityOfIssue)) : NEUTRAL_QUALITY,
+      metadata: { hash: commit.hash, repository: commit.repository, issueKeys: linked }
+    });
+  }
+
+  for (const pr of activity.pullRequests.authored) {
+    events.push({
+      type: 'pr_created',
+      timestamp: pr.created,
+      quality: qualityOfPullRequest(pr),
+      metadata: { prId: pr.id, repository: pr.repository }
+    });
+  }
+
+  for (const pr of activity.pullRequests.reviewed) {
+    const quality = qualityOfPullRequest(pr);
+    for (const entry of pr.activity) {
+      if (entry.accountId === activity.accountId && entry.type !== 'update') {
+        events.push({
+          type: 'pr_reviewed',
+          timestamp: entry.timestamp,
+          quality,
+          metadata: { prId: pr.id, repository: pr.repository, action: entry.type }
+        });
+      }
     }
   }
 
+  return events;
+}
+
+/**
+ * Group activities by hour of day in the user's timezone
+ */
+function groupByHour(events: ActivityEvent[], timeZone: string): HourlyActivity[] {
+  const hourlyBuckets: Map<number, ActivityEvent[]> = new Map();
+
+  // Initialize all hours
+  for (let hour = 0; hour < 24; hour++) {
+    hourlyBuckets.set(hour, []);
+  }
+
+  for (const event of events) {
+    hourlyBuckets.get(getHourOfDay(event.timestamp, timeZone))?.push(event);
+  }
+
   // Calculate quality scores
   const hourlyActivity: HourlyActivity[] = [];
   for (let hour = 0; hour < 24; hour++) {
@@ -115,7 +248,7 @@ function groupByHour(issues: any[]): HourlyActivity[] {
  * Calculate quality score for an issue
  */
 function calculateIssueQuality(issue: any): number {
-  if (!issue.metrics) return 5;
+  if (!issue.metrics) return NEUTRAL_QUALITY;
 
   const { wasReopened, hadDefect, numberOfRevisions } = issue.metrics;
 
@@ -127,11 +260,22 @@ function calculateIssueQuality(issue: any): number {
   return Math.max(0, score);
 }
 
+/**
+ * Calculate quality score for a pull request not linked to a known issue
+ */
+function calculatePullRequestQuality(pr: PullRequestWithMetrics): number {
+  let score = 10;
+  if (pr.metrics.changesRequested) score -= 2;
+  score -= Math.max(0, pr.metrics.numberOfReviewCycles - 1);
+
+  return Math.max(0, score);
+}
+
 /**
  * Calculate average quality for activities in an hour
  */
 function calculateHourQuality(activities: ActivityEvent[]): number {
-  if (activities.length === 0) return 5; // neutral score
+  if (activities.length === 0) return NEUTRAL_QUALITY;
 
   const qualities = activities.map(a => a.quality);
   return average(qualities);
@@ -141,8 +285,8 @@ function calculateHourQuality(activities: ActivityEvent[]): number {
  * Find peak productivity window
  */
 function findPeakWindow(hourlyActivity: HourlyActivity[]): TimingAnalysis['peakWindow'] {
-  // Filter to hours with sufficient volume (at least 5 activities)
-  const significantHours = hourlyActivity.filter(h => h.volume >= 5);
+  // Filter to hours with sufficient volume
+  const significantHours = hourlyActivity.filter(h => h.volume >= SIGNIFICANT_HOUR_VOLUME);
 
   if (significantHours.length === 0) {
     // Default to mid-morning
@@ -180,7 +324,7 @@ function findPeakWindow(hourlyActivity: HourlyActivity[]): TimingAnalysis['peakW
  */
 function findDangerZone(hourlyActivity: HourlyActivity[]): TimingAnalysis['dangerZone'] | undefined {
   // Filter to hours with sufficient volume
-  const significantHours = hourlyActivity.filter(h => h.volume >= 5);
+  const significantHours = hourlyActivity.filter(h => h.volume >= SIGNIFICANT_HOUR_VOLUME);
 
   if (significantHours.length === 0) {
     return undefined;
@@ -215,30 +359,39 @@ function findDangerZone(hourlyActivity: HourlyActivity[]): TimingAnalysis['dange
 /**
  * Analyze day-of-week patterns
  */
-function analyzeDayPatterns(issues: any[]): Record<string, DayPattern> {
-  // Group issues by day of week
-  const dayGroups: Record<string, any[]> = {};
-  for (const issue of issues) {
-    const day = getDayOfWeek(issue.updated);
+function analyzeDayPatterns(
+  events: ActivityEvent[],
+  issues: IssueWithMetrics[],
+  timeZone: string
+): Record<string, DayPattern> {
+  // Group events by day of week
+  const dayGroups: Record<string, ActivityEvent[]> = {};
+  for (const event of events) {
+    const day = getDayOfWeek(event.timestamp, timeZone);
     if (!dayGroups[day]) {
       dayGroups[day] = [];
     }
-    dayGroups[day].push(issue);
+    dayGroups[day].push(event);
   }
 
+  const issuesByKey = new Map(issues.map(issue => [issue.key, issue]));
   const patterns: Record<string, DayPattern> = {};
 
-  for (const [day, dayIssues] of Object.entries(dayGroups)) {
-    const qualities = dayIssues.map(calculateIssueQuality);
-    const cycleTimes = dayIssues
-      .filter((i: any) => i.metrics && i.metrics.cycleTimeDays > 0)
-      .map((i: any) => i.metrics.cycleTimeDays);
+  for (const [day, dayEvents] of Object.entries(dayGroups)) {
+    // Speed comes from the issues worked on that day
+    const dayIssueKeys = new Set(
+      dayEvents.map(e => e.metadata?.issueKey).filter((key): key is string => Boolean(key))
+    );
+    const cycleTimes = Array.from(dayIssueKeys)
+      .map(key => issuesByKey.get(key))
+      .filter((i): i is IssueWithMetrics => Boolean(i && i.metrics && i.metrics.cycleTimeDays > 0))
+      .map(i => i.metrics.cycleTimeDays);
 
     patterns[day] = {
       dayOfWeek: day as any,
-      quality: average(qualities),
+      quality: average(dayEvents.map(e => e.quality)),
       speed: cycleTimes.length > 0 ? 1 / average(cycleTimes) : 0,
-      volume: dayIssues.length
+      volume: dayEvents.length
     };
   }
 
@@ -282,18 +435,26 @@ function generateTimingRecommendations(
 /**
  * Create response for insufficient data
  */
-function createInsufficientDataResponse(accountId: string, dataPoints: number): TimingAnalysis {
+function createInsufficientDataResponse(
+  accountId: string,
+  dataPoints: number,
+  minDataPoints: number,
+  timeZone: string
+): TimingAnalysis {
   return {
     accountId,
     peakWindow: {
       start: 10,
       end: 12,
       qualityMultiplier: 1.0,
-      description: 'Insufficient data - need at least 10 completed tickets'
+      description: `Insufficient data - need at least ${minDataPoints} completed tickets`
     },
+    issueTypeWindows: {},
     dayPatterns: {},
+    hourlyQuality: [],
+    timeZone,
     recommendations: [
-      `Currently have ${dataPoints} data points, need at least 10 for timing analysis`,
+      `Currently have ${dataPoints} data points, need at least ${minDataPoints} for timing analysis`,
       'Complete more tickets and check back in a week or two'
     ],
     confidence: 'low',
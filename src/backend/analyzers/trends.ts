@@ -4,32 +4,42 @@
  */
 
 import { TrendAnalysis, TrendData, PeriodMetrics } from '../models/analysis';
-import { getUserIssuesWithMetrics } from '../data/jira/issues';
+import { SnapshotMetrics } from '../models/snapshot';
+import { getDataSource } from '../data/source';
 import { getCached, setCache } from '../data/cache';
+import { recordSnapshot, recordSnapshotIfMissing } from '../data/snapshots';
+import { getUserSettings } from '../data/settings';
+import { getCacheTtlHours, getMinDataPoints } from '../data/siteConfig';
 import { average, calculateConfidence } from '../utils/calculations';
 import { getDayOfWeek } from '../utils/dateHelpers';
 
 /**
- * Analyze performance trends for a user
+ * Analyze performance trends for a user, over their lookback window unless months is given
  */
 export async function analyzeTrends(
   accountId: string,
-  months: number = 6
+  months?: number
 ): Promise<TrendAnalysis> {
   // Check cache
   const cacheKey = { namespace: 'trends' as const, accountId };
-  const cached = await getCached<TrendAnalysis>(cacheKey, 24);
+  const ttlHours = await getCacheTtlHours('trends');
+  const cached = await getCached<TrendAnalysis>(cacheKey, ttlHours, { staleWhileRevalidate: true });
 
   if (cached) {
+    await recordSnapshotIfMissing(accountId, 'trends', cached, () => toSnapshot(cached));
     return cached;
   }
 
   // Fetch historical data
+  if (!months) {
+    months = Math.round((await getUserSettings(accountId)).lookbackDays / 30);
+  }
   const daysBack = months * 30;
-  const userIssues = await getUserIssuesWithMetrics(accountId, daysBack);
+  const userIssues = await getDataSource().getUserIssuesWithMetrics(accountId, daysBack);
 
-  if (userIssues.length < 10) {
-    return createInsufficientDataResponse(accountId, userIssues.length, months);
+  const minDataPoints = await getMinDataPoints('trends');
+  if (userIssues.length < minDataPoints) {
+    return createInsufficientDataResponse(accountId, userIssues.length, minDataPoints, months);
   }
 
   // Group by month
@@ -63,11 +73,21 @@ export async function analyzeTrends(
   };
 
   // Cache result
-  await setCache(cacheKey, analysis, 24);
+  await setCache(cacheKey, analysis, ttlHours);
+  await recordSnapshot(accountId, 'trends', toSnapshot(analysis), analysis.confidence);
 
   return analysis;
 }
 
+function toSnapshot(analysis: TrendAnalysis): SnapshotMetrics['trends'] {
+  return {
+    issuesCompleted: analysis.periodComparison.current.issuesCompleted,
+    storyPoints: analysis.periodComparison.current.storyPoints,
+    avgCycleTime: analysis.periodComparison.current.avgCycleTime,
+    qualityScore: analysis.periodComparison.current.qualityScore
+  };
+}
+
 /**
  * Group issues by month
  */
@@ -327,7 +347,12 @@ function generateTrendRecommendations(
 /**
  * Create response for insufficient data
  */
-function createInsufficientDataResponse(accountId: string, dataPoints: number, months: number): TrendAnalysis {
+function createInsufficientDataResponse(
+  accountId: string,
+  dataPoints: number,
+  minDataPoints: number,
+  months: number
+): TrendAnalysis {
   return {
     accountId,
     velocityTrend: [],
@@ -339,7 +364,7 @@ function createInsufficientDataResponse(accountId: string, dataPoints: number, m
       delta: {}
     },
     recommendations: [
-      `Currently have ${dataPoints} data points, need at least 10 for trend analysis`,
+      `Currently have ${dataPoints} data points, need at least ${minDataPoints} for trend analysis`,
       `Trend analysis requires ${months} months of history`,
       'Complete more tickets and check back later for insights'
     ],
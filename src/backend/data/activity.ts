@@ -0,0 +1,62 @@
+/**
+ * User Activity Data Layer
+ * Collects the actions a user took themselves across Jira and Bitbucket
+ */
+
+import { getUserIssuesWithMetrics } from './jira/issues';
+import { getStoredIssuesSince, ISSUE_STORE_DAYS } from './issueStore';
+import { getIssueChangelogs } from './jira/metrics';
+import { getIssueComments } from './jira/comments';
+import { resolveAccountId } from './jira/users';
+import { getWorkflowMappings } from './jira/workflow';
+import { getUserCommits } from './bitbucket/commits';
+import { getUserReviewHistory, isBitbucketConfigured } from './bitbucket/pullRequests';
+import { UserActivity } from '../models/metrics';
+import { getStatusStage } from '../models/workflow';
+import { getDaysAgo } from '../utils/dateHelpers';
+
+/**
+ * Get the user's own status transitions (with the stage each moved into) and comments
+ * on their issues, plus their commits and pull request activity when Bitbucket is configured.
+ * Issues come from the user's issue store; only changelogs and comments are fetched live.
+ */
+export async function getUserActivity(accountId?: string, daysBack: number = ISSUE_STORE_DAYS): Promise<UserActivity> {
+  const userId = await resolveAccountId(accountId);
+  const since = getDaysAgo(daysBack);
+  // The store only reaches back ISSUE_STORE_DAYS
+  const issues = daysBack > ISSUE_STORE_DAYS
+    ? await getUserIssuesWithMetrics(userId, daysBack)
+    : await getStoredIssuesSince(userId, daysBack);
+
+  const [changelogs, comments, workflows] = await Promise.all([
+    getIssueChangelogs(issues),
+    getIssueComments(issues.map(issue => issue.key)),
+    getWorkflowMappings(issues.map(issue => issue.project))
+  ]);
+  const workflowOf = new Map(issues.map(issue => [issue.key, workflows.get(issue.project)]));
+
+  const activity: UserActivity = {
+    accountId: userId,
+    issues,
+    transitions: Array.from(changelogs.values())
+      .flat()
+      .filter(change => change.field === 'status' && change.authorAccountId === userId && change.timestamp >= since)
+      .map(change => ({ ...change, toStage: getStatusStage(workflowOf.get(change.issueKey), change.toValue) })),
+    comments: Array.from(comments.values())
+      .flat()
+      .filter(comment => comment.authorAccountId === userId && comment.created >= since),
+    commits: [],
+    pullRequests: { authored: [], reviewed: [] }
+  };
+
+  if (isBitbucketConfigured()) {
+    const [commits, reviewHistory] = await Promise.all([
+      getUserCommits(userId, daysBack),
+      getUserReviewHistory(userId, daysBack)
+    ]);
+    activity.commits = commits;
+    activity.pullRequests = { authored: reviewHistory.authored, reviewed: reviewHistory.reviewed };
+  }
+
+  return activity;
+}
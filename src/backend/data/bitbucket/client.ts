@@ -1,53 +1,472 @@
 /**
  * Bitbucket API Client
- * Client for Bitbucket REST API (simplified for MVP)
+ * Client for Bitbucket Cloud REST API 2.0
  *
- * Note: Full Bitbucket integration requires proper OAuth setup.
- * For MVP, we'll focus on Jira data which is more readily available.
- * This module provides the structure for future enhancement.
+ * Configured through Forge environment variables:
+ * - BITBUCKET_ACCESS_TOKEN, or BITBUCKET_USERNAME + BITBUCKET_APP_PASSWORD
+ * - BITBUCKET_WORKSPACE and BITBUCKET_REPOSITORIES (comma separated) to analyze
+ * - BITBUCKET_API_BASE_URL to point at a local stand-in serving recorded payloads
  */
 
+import { fetch as forgeFetch } from '@forge/api';
+import { Commit, PullRequest, PullRequestActivity, Reviewer } from '../../models/commit';
+import { getDaysAgo } from '../../utils/dateHelpers';
+
+const DEFAULT_BASE_URL = 'https://api.bitbucket.org/2.0';
+const PAGE_LENGTH = 50;
+
+export interface BitbucketResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  json(): Promise<any>;
+  text(): Promise<string>;
+}
+
+export type BitbucketFetch = (
+  url: string,
+  init: { method: string; headers: Record<string, string> }
+) => Promise<BitbucketResponse>;
+
+export interface BitbucketClientOptions {
+  baseUrl?: string;
+  accessToken?: string;
+  username?: string;
+  appPassword?: string;
+  fetch?: BitbucketFetch;
+}
+
+export interface BitbucketRepository {
+  workspace: string;
+  repository: string;
+}
+
+export interface PullRequestQueryOptions {
+  daysBack?: number;
+  includeCommitCounts?: boolean;
+}
+
 export class BitbucketClient {
+  private readonly options: BitbucketClientOptions;
+
+  constructor(options: BitbucketClientOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Whether credentials and at least one repository are configured
+   */
+  isConfigured(): boolean {
+    return Boolean(this.getAuthorizationHeader()) && this.getConfiguredRepositories().length > 0;
+  }
+
+  /**
+   * Repositories listed in BITBUCKET_REPOSITORIES, scoped to BITBUCKET_WORKSPACE
+   * Entries may also be given as "workspace/repository"
+   */
+  getConfiguredRepositories(): BitbucketRepository[] {
+    const defaultWorkspace = process.env.BITBUCKET_WORKSPACE || '';
+    const entries = (process.env.BITBUCKET_REPOSITORIES || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(entry => entry.length > 0);
+
+    return entries
+      .map(entry => {
+        const [workspace, repository] = entry.includes('/')
+          ? entry.split('/', 2)
+          : [defaultWorkspace, entry];
+        return { workspace, repository };
+      })
+      .filter(repo => repo.workspace && repo.repository);
+  }
+
   /**
-   * Get commits for a user in a repository
-   * Note: Requires Bitbucket Cloud API access
+   * Get commits authored by a user in a repository
+   * The user is matched by Atlassian account ID, nickname or email address
    */
   async getUserCommits(
     workspace: string,
     repository: string,
     username: string,
-    daysBack: number = 180
-  ): Promise<any[]> {
-    // TODO: Implement when Bitbucket integration is configured
-    console.log('Bitbucket integration not yet configured');
-    return [];
+    daysBack: number = 180,
+    includeDiffStats: boolean = false
+  ): Promise<Commit[]> {
+    const cutoff = getDaysAgo(daysBack);
+    const commits: Commit[] = [];
+
+    // Commits are returned newest first, so stop paging once past the cutoff
+    let url: string | undefined =
+      `${this.getBaseUrl()}/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(repository)}/commits?pagelen=${PAGE_LENGTH}`;
+
+    while (url) {
+      const page: any = await this.request(url);
+      let reachedCutoff = false;
+
+      for (const raw of page.values || []) {
+        const timestamp = new Date(raw.date);
+        if (timestamp < cutoff) {
+          reachedCutoff = true;
+          break;
+        }
+        if (matchesCommitAuthor(raw, username)) {
+          commits.push(parseCommit(raw, `${workspace}/${repository}`));
+        }
+      }
+
+      url = reachedCutoff ? undefined : page.next;
+    }
+
+    if (includeDiffStats) {
+      for (const commit of commits) {
+        const stats = await this.getCommitDiffStats(workspace, repository, commit.hash);
+        commit.filesChanged = stats.filesChanged;
+        commit.linesAdded = stats.linesAdded;
+        commit.linesDeleted = stats.linesDeleted;
+      }
+    }
+
+    return commits;
   }
 
   /**
-   * Get pull requests for a user
+   * Get pull requests authored by a user
    */
   async getUserPullRequests(
     workspace: string,
     repository: string,
-    username: string
-  ): Promise<any[]> {
-    // TODO: Implement when Bitbucket integration is configured
-    console.log('Bitbucket integration not yet configured');
-    return [];
+    username: string,
+    options: PullRequestQueryOptions = {}
+  ): Promise<PullRequest[]> {
+    return this.queryPullRequests(workspace, repository, `author.account_id="${username}"`, options);
   }
 
   /**
-   * Get pull request reviews
+   * Get pull requests where a user was added as a reviewer
+   */
+  async getPullRequestsReviewedBy(
+    workspace: string,
+    repository: string,
+    username: string,
+    options: PullRequestQueryOptions = {}
+  ): Promise<PullRequest[]> {
+    return this.queryPullRequests(workspace, repository, `reviewers.account_id="${username}"`, options);
+  }
+
+  /**
+   * Get pull request reviews, one entry per reviewer who acted on the PR
    */
   async getPullRequestReviews(
     workspace: string,
     repository: string,
     prId: number
-  ): Promise<any[]> {
-    // TODO: Implement when Bitbucket integration is configured
-    console.log('Bitbucket integration not yet configured');
-    return [];
+  ): Promise<Reviewer[]> {
+    const activity = await this.getPullRequestActivity(workspace, repository, prId);
+    const reviewers = new Map<string, Reviewer>();
+
+    for (const event of activity) {
+      if (event.type === 'update') continue;
+
+      let reviewer = reviewers.get(event.accountId);
+      if (!reviewer) {
+        reviewer = {
+          accountId: event.accountId,
+          displayName: event.displayName,
+          approved: false,
+          changesRequested: false,
+          commented: false,
+          reviewedAt: event.timestamp
+        };
+        reviewers.set(event.accountId, reviewer);
+      }
+
+      if (event.type === 'approval') reviewer.approved = true;
+      if (event.type === 'changes_request') reviewer.changesRequested = true;
+      if (event.type === 'comment') reviewer.commented = true;
+    }
+
+    return [...reviewers.values()];
   }
+
+  /**
+   * Get the chronological activity stream of a pull request
+   */
+  async getPullRequestActivity(
+    workspace: string,
+    repository: string,
+    prId: number
+  ): Promise<PullRequestActivity[]> {
+    const url =
+      `${this.getBaseUrl()}/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(repository)}/pullrequests/${prId}/activity?pagelen=${PAGE_LENGTH}`;
+    const values = await this.paginate(url);
+
+    return values
+      .map(parseActivity)
+      .filter((event): event is PullRequestActivity => event !== null)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  /**
+   * Sum file and line changes for a single commit
+   */
+  private async getCommitDiffStats(
+    workspace: string,
+    repository: string,
+    hash: string
+  ): Promise<{ filesChanged: number; linesAdded: number; linesDeleted: number }> {
+    const url =
+      `${this.getBaseUrl()}/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(repository)}/diffstat/${hash}?pagelen=${PAGE_LENGTH}`;
+    const files = await this.paginate(url);
+
+    return {
+      filesChanged: files.length,
+      linesAdded: files.reduce((sum, f) => sum + (f.lines_added || 0), 0),
+      linesDeleted: files.reduce((sum, f) => sum + (f.lines_removed || 0), 0)
+    };
+  }
+
+  /**
+   * Run a BBQL pull request query across all states
+   */
+  private async queryPullRequests(
+    workspace: string,
+    repository: string,
+    filter: string,
+    options: PullRequestQueryOptions
+  ): Promise<PullRequest[]> {
+    const { daysBack = 180, includeCommitCounts = false } = options;
+    const since = getDaysAgo(daysBack).toISOString();
+    const query = encodeURIComponent(`${filter} AND updated_on >= ${since}`);
+    const states = ['OPEN', 'MERGED', 'DECLINED', 'SUPERSEDED'].map(s => `state=${s}`).join('&');
+
+    // Participants are not part of the default list representation
+    const url =
+      `${this.getBaseUrl()}/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(repository)}/pullrequests` +
+      `?${states}&q=${query}&sort=-updated_on&pagelen=${PAGE_LENGTH}&fields=%2Bvalues.participants`;
+
+    const values = await this.paginate(url);
+    const pullRequests = values.map(raw => parsePullRequest(raw, `${workspace}/${repository}`));
+
+    if (includeCommitCounts) {
+      for (const pr of pullRequests) {
+        const commitsUrl =
+          `${this.getBaseUrl()}/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(repository)}/pullrequests/${pr.id}/commits?pagelen=${PAGE_LENGTH}`;
+        pr.commitsCount = (await this.paginate(commitsUrl)).length;
+      }
+    }
+
+    return pullRequests;
+  }
+
+  /**
+   * Follow `next` links and collect every value of a paged collection
+   */
+  private async paginate(url: string): Promise<any[]> {
+    const values: any[] = [];
+    let nextUrl: string | undefined = url;
+
+    while (nextUrl) {
+      const page: any = await this.request(nextUrl);
+      values.push(...(page.values || []));
+      nextUrl = page.next;
+    }
+
+    return values;
+  }
+
+  private async request(url: string): Promise<any> {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    const authorization = this.getAuthorizationHeader();
+    if (authorization) {
+      headers['Authorization'] = authorization;
+    }
+
+    const fetchImpl: BitbucketFetch = this.options.fetch || (forgeFetch as unknown as BitbucketFetch);
+    const response = await fetchImpl(url, { method: 'GET', headers });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`Bitbucket API error: ${response.status} ${response.statusText} - ${errorBody}`);
+    }
+
+    return await response.json();
+  }
+
+  private getBaseUrl(): string {
+    return (this.options.baseUrl || process.env.BITBUCKET_API_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, '');
+  }
+
+  private getAuthorizationHeader(): string | undefined {
+    const accessToken = this.options.accessToken || process.env.BITBUCKET_ACCESS_TOKEN;
+    if (accessToken) {
+      return `Bearer ${accessToken}`;
+    }
+
+    const username = this.options.username || process.env.BITBUCKET_USERNAME;
+    const appPassword = this.options.appPassword || process.env.BITBUCKET_APP_PASSWORD;
+    if (username && appPassword) {
+      return `Basic ${Buffer.from(`${username}:${appPassword}`).toString('base64')}`;
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a raw commit was authored by the given user
+ */
+export function matchesCommitAuthor(raw: any, username: string): boolean {
+  const author = raw.author || {};
+  const user = author.user || {};
+  const needle = username.toLowerCase();
+
+  return (
+    user.account_id === username ||
+    user.uuid === username ||
+    (user.nickname || '').toLowerCase() === needle ||
+    parseEmail(author.raw).toLowerCase() === needle
+  );
+}
+
+/**
+ * Parse raw Bitbucket commit into Commit model
+ */
+export function parseCommit(raw: any, repository: string): Commit {
+  const message: string = raw.message || '';
+  const author = raw.author || {};
+
+  return {
+    hash: raw.hash,
+    author: author.user?.display_name || parseName(author.raw),
+    authorEmail: parseEmail(author.raw),
+    timestamp: new Date(raw.date),
+    message,
+    repository,
+    filesChanged: 0,
+    linesAdded: 0,
+    linesDeleted: 0,
+    isFixCommit: /\b(fix(es|ed)?|hotfix|bug|revert)\b/i.test(message),
+    isMergeCommit: (raw.parents || []).length > 1,
+    linkedIssues: extractIssueKeys(message)
+  };
+}
+
+/**
+ * Parse raw Bitbucket pull request into PullRequest model
+ */
+export function parsePullRequest(raw: any, repository: string): PullRequest {
+  const state: PullRequest['state'] = raw.state || 'OPEN';
+  const updated = new Date(raw.updated_on);
+  const authorAccountId = raw.author?.account_id || '';
+
+  const reviewers: Reviewer[] = (raw.participants || [])
+    .filter((p: any) => p.user?.account_id && p.user.account_id !== authorAccountId)
+    .filter((p: any) => p.role === 'REVIEWER' || p.approved || p.state || p.participated_on)
+    .map((p: any) => ({
+      accountId: p.user.account_id,
+      displayName: p.user.display_name || 'Unknown',
+      approved: Boolean(p.approved),
+      changesRequested: p.state === 'changes_requested',
+      commented: Boolean(p.participated_on),
+      reviewedAt: p.participated_on ? new Date(p.participated_on) : undefined
+    }));
+
+  return {
+    id: raw.id,
+    title: raw.title || '',
+    description: raw.description || undefined,
+    author: raw.author?.display_name || 'Unknown',
+    authorAccountId,
+    created: new Date(raw.created_on),
+    updated,
+    // Approximate until withClosingDate reads the closing update from the activity
+    merged: state === 'MERGED' ? updated : undefined,
+    closed: state === 'DECLINED' || state === 'SUPERSEDED' ? updated : undefined,
+    state,
+    reviewers,
+    repository,
+    sourceBranch: raw.source?.branch?.name || '',
+    destinationBranch: raw.destination?.branch?.name || '',
+    commitsCount: 0,
+    linkedIssues: extractIssueKeys(`${raw.title || ''} ${raw.source?.branch?.name || ''}`)
+  };
+}
+
+/**
+ * Date a merged or closed pull request from the update entry that closed it.
+ * updated_on moves with every comment or approval after the merge, so it is
+ * kept only when the activity has no such entry.
+ */
+export function withClosingDate(pr: PullRequest, activity: PullRequestActivity[]): PullRequest {
+  if (pr.state === 'OPEN') {
+    return pr;
+  }
+  const closing = activity
+    .filter(event => event.type === 'update' && event.state === pr.state)
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0];
+  if (!closing) {
+    return pr;
+  }
+  return pr.state === 'MERGED'
+    ? { ...pr, merged: closing.timestamp }
+    : { ...pr, closed: closing.timestamp };
+}
+
+/**
+ * Parse a raw activity entry; returns null for entry kinds we do not track
+ */
+export function parseActivity(raw: any): PullRequestActivity | null {
+  if (raw.approval) {
+    return buildActivity('approval', raw.approval.user, raw.approval.date);
+  }
+  if (raw.changes_request) {
+    return buildActivity('changes_request', raw.changes_request.user, raw.changes_request.date);
+  }
+  if (raw.comment) {
+    return buildActivity('comment', raw.comment.user, raw.comment.created_on);
+  }
+  if (raw.update) {
+    const activity = buildActivity('update', raw.update.author, raw.update.date);
+    if (activity) {
+      activity.state = raw.update.state;
+    }
+    return activity;
+  }
+  return null;
+}
+
+function buildActivity(
+  type: PullRequestActivity['type'],
+  user: any,
+  date: string | undefined
+): PullRequestActivity | null {
+  if (!user?.account_id || !date) {
+    return null;
+  }
+
+  return {
+    type,
+    accountId: user.account_id,
+    displayName: user.display_name || 'Unknown',
+    timestamp: new Date(date)
+  };
+}
+
+/**
+ * Extract Jira issue keys (e.g. "DT-123") from free text
+ */
+function extractIssueKeys(text: string): string[] {
+  const matches = text.match(/\b[A-Z][A-Z0-9]+-\d+\b/g) || [];
+  return [...new Set(matches)];
+}
+
+function parseEmail(rawAuthor: string | undefined): string {
+  const match = (rawAuthor || '').match(/<([^>]+)>/);
+  return match ? match[1] : '';
+}
+
+function parseName(rawAuthor: string | undefined): string {
+  return (rawAuthor || 'Unknown').replace(/<[^>]*>/, '').trim() || 'Unknown';
 }
 
 // Singleton instance
@@ -0,0 +1,35 @@
+/**
+ * Bitbucket Commits Data Layer
+ * Functions for fetching a user's commits across configured repositories
+ */
+
+import { bitbucketClient } from './client';
+import { Commit } from '../../models/commit';
+import { resolveAccountId } from '../jira/users';
+import { logger } from '../../utils/logger';
+
+/**
+ * Get the commits a user authored in every configured repository
+ */
+export async function getUserCommits(
+  accountId?: string,
+  daysBack: number = 180
+): Promise<Commit[]> {
+  const resolvedAccountId = await resolveAccountId(accountId);
+  const commits: Commit[] = [];
+
+  for (const repo of bitbucketClient.getConfiguredRepositories()) {
+    try {
+      commits.push(...await bitbucketClient.getUserCommits(
+        repo.workspace,
+        repo.repository,
+        resolvedAccountId,
+        daysBack
+      ));
+    } catch (error) {
+      logger.error('Error fetching commits', { workspace: repo.workspace, repository: repo.repository, error });
+    }
+  }
+
+  return commits.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
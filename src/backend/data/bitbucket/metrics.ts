@@ -0,0 +1,129 @@
+/**
+ * Bitbucket Metrics Calculation
+ * Calculate review metrics from pull request activity
+ */
+
+import { bitbucketClient } from './client';
+import { PullRequest, PullRequestActivity, PullRequestMetrics } from '../../models/commit';
+import { hoursBetween } from '../../utils/dateHelpers';
+import { logger } from '../../utils/logger';
+
+/**
+ * Calculate review metrics for a specific pull request
+ */
+export async function calculatePullRequestMetrics(
+  workspace: string,
+  repository: string,
+  pr: PullRequest
+): Promise<PullRequestMetrics> {
+  try {
+    const activity = await bitbucketClient.getPullRequestActivity(workspace, repository, pr.id);
+    return computePullRequestMetrics(pr, activity);
+  } catch (error) {
+    logger.error('Error calculating pull request metrics', { pullRequestId: pr.id, error });
+    throw error;
+  }
+}
+
+/**
+ * Compute review metrics from an already fetched activity stream
+ */
+export function computePullRequestMetrics(
+  pr: PullRequest,
+  activity: PullRequestActivity[]
+): PullRequestMetrics {
+  const reviewActions = getReviewActions(pr, activity);
+  const firstReview = reviewActions[0];
+
+  const timeToFirstReviewHours = firstReview
+    ? hoursBetween(pr.created, firstReview.timestamp)
+    : 0;
+
+  const { fastestReviewer, slowestReviewer } = findReviewerExtremes(pr, reviewActions);
+
+  return {
+    prId: pr.id,
+    reviewDurationHours: calculateReviewDuration(pr, activity),
+    timeToFirstReviewHours,
+    numberOfReviewCycles: countReviewCycles(pr, activity),
+    approved: reviewActions.some(a => a.type === 'approval') || pr.reviewers.some(r => r.approved),
+    changesRequested: reviewActions.some(a => a.type === 'changes_request') ||
+      pr.reviewers.some(r => r.changesRequested),
+    fastestReviewer,
+    slowestReviewer
+  };
+}
+
+/**
+ * Review actions (approve, request changes, comment) by anyone but the author
+ */
+function getReviewActions(pr: PullRequest, activity: PullRequestActivity[]): PullRequestActivity[] {
+  return activity
+    .filter(a => a.type !== 'update' && a.accountId !== pr.authorAccountId)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Calculate hours from PR creation until it was merged or closed (or now if open)
+ */
+function calculateReviewDuration(pr: PullRequest, activity: PullRequestActivity[]): number {
+  const closingUpdate = activity.find(
+    a => a.type === 'update' && (a.state === 'MERGED' || a.state === 'DECLINED' || a.state === 'SUPERSEDED')
+  );
+
+  const end = closingUpdate?.timestamp || pr.merged || pr.closed || new Date();
+  return Math.max(0, hoursBetween(pr.created, end));
+}
+
+/**
+ * Count review rounds: a round opens when a reviewer responds and closes
+ * when the author pushes another update in response
+ */
+function countReviewCycles(pr: PullRequest, activity: PullRequestActivity[]): number {
+  let cycles = 0;
+  let awaitingReview = true;
+
+  const events = [...activity].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  for (const event of events) {
+    if (event.type === 'update') {
+      if (event.accountId === pr.authorAccountId && event.state === 'OPEN' && !awaitingReview) {
+        awaitingReview = true;
+      }
+    } else if (event.accountId !== pr.authorAccountId && awaitingReview) {
+      cycles++;
+      awaitingReview = false;
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Find the reviewers with the shortest and longest time to first response
+ */
+function findReviewerExtremes(
+  pr: PullRequest,
+  reviewActions: PullRequestActivity[]
+): { fastestReviewer?: string; slowestReviewer?: string } {
+  const firstResponse = new Map<string, { displayName: string; hours: number }>();
+
+  for (const action of reviewActions) {
+    if (!firstResponse.has(action.accountId)) {
+      firstResponse.set(action.accountId, {
+        displayName: action.displayName,
+        hours: hoursBetween(pr.created, action.timestamp)
+      });
+    }
+  }
+
+  const responses = [...firstResponse.values()].sort((a, b) => a.hours - b.hours);
+  if (responses.length === 0) {
+    return {};
+  }
+
+  return {
+    fastestReviewer: responses[0].displayName,
+    slowestReviewer: responses.length > 1 ? responses[responses.length - 1].displayName : undefined
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Bitbucket Pull Requests Data Layer
+ * Functions for fetching pull requests with review activity across configured repositories
+ */
+
+import { bitbucketClient, BitbucketRepository, withClosingDate } from './client';
+import { computePullRequestMetrics } from './metrics';
+import { PullRequest, PullRequestWithMetrics } from '../../models/commit';
+import { resolveAccountId } from '../jira/users';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import { logger } from '../../utils/logger';
+
+// Activity requests in flight per repository
+const ACTIVITY_CONCURRENCY = 4;
+
+export interface ReviewHistory {
+  accountId: string;
+  authored: PullRequestWithMetrics[];
+  reviewed: PullRequestWithMetrics[];
+}
+
+/**
+ * Whether Bitbucket data can be fetched at all
+ */
+export function isBitbucketConfigured(): boolean {
+  return bitbucketClient.isConfigured();
+}
+
+/**
+ * Get the pull requests a user authored and reviewed, with activity and metrics
+ */
+export async function getUserReviewHistory(
+  accountId?: string,
+  daysBack: number = 180
+): Promise<ReviewHistory> {
+  const resolvedAccountId = await resolveAccountId(accountId);
+  const repositories = bitbucketClient.getConfiguredRepositories();
+
+  const authored: PullRequestWithMetrics[] = [];
+  const reviewed: PullRequestWithMetrics[] = [];
+
+  for (const repo of repositories) {
+    try {
+      const [authoredPrs, reviewedPrs] = await Promise.all([
+        bitbucketClient.getUserPullRequests(repo.workspace, repo.repository, resolvedAccountId, { daysBack }),
+        bitbucketClient.getPullRequestsReviewedBy(repo.workspace, repo.repository, resolvedAccountId, { daysBack })
+      ]);
+
+      authored.push(...await withMetrics(repo, authoredPrs));
+      reviewed.push(...await withMetrics(repo, reviewedPrs));
+    } catch (error) {
+      logger.error('Error fetching pull requests', { workspace: repo.workspace, repository: repo.repository, error });
+    }
+  }
+
+  return { accountId: resolvedAccountId, authored, reviewed };
+}
+
+/**
+ * Attach activity and review metrics to each pull request
+ */
+async function withMetrics(
+  repo: BitbucketRepository,
+  pullRequests: PullRequest[]
+): Promise<PullRequestWithMetrics[]> {
+  return mapWithConcurrency(pullRequests, ACTIVITY_CONCURRENCY, async pr => {
+    try {
+      const activity = await bitbucketClient.getPullRequestActivity(repo.workspace, repo.repository, pr.id);
+      const dated = withClosingDate(pr, activity);
+      return {
+        ...dated,
+        activity,
+        metrics: computePullRequestMetrics(dated, activity)
+      };
+    } catch (error) {
+      logger.error('Error fetching pull request activity', { pullRequestId: pr.id, error });
+      return {
+        ...pr,
+        activity: [],
+        metrics: computePullRequestMetrics(pr, [])
+      };
+    }
+  });
+}
@@ -1,18 +1,74 @@
 /**
  * Cache Layer
  * Wrapper for Forge Storage API with TTL and versioning
+ *
+ * Reads can opt into stale-while-revalidate: an expired entry is returned at once
+ * (and the invocation flagged as having served stale data) while a refresh runs
+ * on the cache-refresh async event queue. A short-lived storage lock per key
+ * stops concurrent invocations (e.g. dashboard and issue panel) from recomputing
+ * the same entry at the same time. Forge storage has no atomic writes, so the
+ * lock is best-effort.
+ *
+ * Entries also record the site configuration version they were computed under;
+ * an admin saving new defaults makes older entries miss.
  */
 
 import { storage } from '@forge/api';
-import { CacheEntry, CacheKey, buildCacheKey, CACHE_VERSION, DEFAULT_TTL_HOURS } from '../models/cache';
+import { Queue } from '@forge/events';
+import {
+  CacheEntry,
+  CacheKey,
+  buildCacheKey,
+  buildUserCachePrefix,
+  CACHE_VERSION,
+  DEFAULT_TTL_HOURS
+} from '../models/cache';
+import { getInvocationMemo, onInvocationEnd } from '../utils/invocation';
+import { deleteStorageByPrefix } from './storageScan';
+import { getSiteConfig } from './siteConfig';
+import { logger } from '../utils/logger';
+
+export const CACHE_REFRESH_QUEUE = 'cache-refresh';
+
+const LOCK_PREFIX = 'lock:';
+// A refresh or fill that hasn't written its entry by then is assumed to have died
+const LOCK_TTL_MS = 2 * 60 * 1000;
+// How long a cold read waits for another invocation that is already computing the entry
+const FILL_WAIT_MS = 8000;
+const FILL_POLL_MS = 500;
+// Entries older than this are too stale to serve, even while revalidating
+const MAX_STALE_HOURS = 7 * 24;
+
+const refreshQueue = new Queue({ key: CACHE_REFRESH_QUEUE });
+
+export interface CacheReadOptions {
+  // Serve an expired entry immediately and refresh it in the background
+  staleWhileRevalidate?: boolean;
+}
+
+interface CacheLock {
+  acquiredAt: Date;
+}
 
 export async function getCached<T>(
   key: CacheKey,
-  ttlHours: number = DEFAULT_TTL_HOURS
+  ttlHours: number = DEFAULT_TTL_HOURS,
+  options: CacheReadOptions = {}
 ): Promise<T | null> {
   try {
     const cacheKey = buildCacheKey(key);
-    const entry = await storage.get(cacheKey) as CacheEntry<T> | undefined;
+
+    let entry = await storage.get(cacheKey) as CacheEntry<T> | undefined;
+
+    // Background jobs recompute entries written before they started
+    const bypassSince = getInvocationMemo<number>('cache-bypass').get(cacheKey);
+    if (bypassSince !== undefined && (!entry || new Date(entry.lastUpdated).getTime() < bypassSince)) {
+      return null;
+    }
+
+    if (!entry && options.staleWhileRevalidate) {
+      entry = await waitForConcurrentFill<T>(cacheKey);
+    }
 
     if (!entry) {
       return null;
@@ -20,11 +76,18 @@ export async function getCached<T>(
 
     // Check version compatibility
     if (entry.version !== CACHE_VERSION) {
-      console.log(`Cache version mismatch for ${cacheKey}. Invalidating.`);
+      logger.debug('Cache version mismatch; invalidating', { cacheKey, version: entry.version });
       await storage.delete(cacheKey);
       return null;
     }
 
+    // Computed under an older site configuration; recompute with the admin's current values
+    const { version: configVersion } = await getSiteConfig();
+    if ((entry.configVersion ?? 0) !== configVersion) {
+      logger.debug('Cache predates site configuration; recomputing', { cacheKey, configVersion });
+      return null;
+    }
+
     // Check TTL
     const now = new Date().getTime();
     const lastUpdated = new Date(entry.lastUpdated).getTime();
@@ -32,18 +95,121 @@ export async function getCached<T>(
     const maxAge = ttlHours * 60 * 60 * 1000;
 
     if (age > maxAge) {
-      console.log(`Cache expired for ${cacheKey}. Age: ${age}ms, Max: ${maxAge}ms`);
+      if (options.staleWhileRevalidate && age <= MAX_STALE_HOURS * 60 * 60 * 1000) {
+        logger.debug('Cache stale; serving and refreshing', { cacheKey, ageMs: age, maxAgeMs: maxAge });
+        getInvocationMemo<boolean>('cache-stale').set(cacheKey, true);
+        await requestRefresh(key);
+        return entry.data;
+      }
+
+      logger.debug('Cache expired', { cacheKey, ageMs: age, maxAgeMs: maxAge });
       return null;
     }
 
-    console.log(`Cache hit for ${cacheKey}`);
+    logger.debug('Cache hit', { cacheKey });
     return entry.data;
   } catch (error) {
-    console.error('Error reading from cache:', error);
+    logger.error('Error reading from cache', { error });
     return null;
   }
 }
 
+/**
+ * Whether any read in the current invocation was answered with a stale entry
+ */
+export function servedStaleData(): boolean {
+  return getInvocationMemo<boolean>('cache-stale').size > 0;
+}
+
+/**
+ * Make reads of this key in the current invocation miss until it is rewritten,
+ * so the analyzer recomputes it once and later reads use the fresh entry
+ */
+export function bypassCacheForInvocation(key: CacheKey): void {
+  getInvocationMemo<number>('cache-bypass').set(buildCacheKey(key), Date.now());
+}
+
+/**
+ * Drop the refresh lock for a key, e.g. after a refresh failed
+ */
+export async function releaseCacheLock(key: CacheKey): Promise<void> {
+  await storage.delete(`${LOCK_PREFIX}${buildCacheKey(key)}`);
+}
+
+/**
+ * Queue a background refresh unless one is already pending for this key
+ */
+async function requestRefresh(key: CacheKey): Promise<void> {
+  const cacheKey = buildCacheKey(key);
+  const requested = getInvocationMemo<boolean>('cache-refresh-requested');
+  if (requested.has(cacheKey)) {
+    return;
+  }
+  requested.set(cacheKey, true);
+
+  if (!(await acquireLock(cacheKey))) {
+    logger.debug('Refresh already pending', { cacheKey });
+    return;
+  }
+
+  try {
+    await refreshQueue.push({
+      namespace: key.namespace,
+      accountId: key.accountId,
+      ...(key.suffix ? { suffix: key.suffix } : {})
+    });
+    logger.info('Queued background refresh', { cacheKey });
+  } catch (error) {
+    logger.error('Error queueing refresh', { cacheKey, error });
+    await storage.delete(`${LOCK_PREFIX}${cacheKey}`);
+  }
+}
+
+/**
+ * On a cold miss, wait briefly if another invocation is already computing the entry.
+ * Otherwise take the lock; setCache releases it, or the end of the invocation
+ * if the caller never writes (e.g. insufficient data).
+ */
+async function waitForConcurrentFill<T>(cacheKey: string): Promise<CacheEntry<T> | undefined> {
+  if (await acquireLock(cacheKey)) {
+    onInvocationEnd(() => storage.delete(`${LOCK_PREFIX}${cacheKey}`));
+    return undefined;
+  }
+
+  const deadline = Date.now() + FILL_WAIT_MS;
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, FILL_POLL_MS));
+    const entry = await storage.get(cacheKey) as CacheEntry<T> | undefined;
+    if (entry) {
+      return entry;
+    }
+  }
+
+  logger.warn('Timed out waiting for concurrent fill', { cacheKey });
+  return undefined;
+}
+
+/**
+ * Take the lock for a key unless someone else holds a live one.
+ * Locks taken earlier in this invocation count as ours.
+ */
+async function acquireLock(cacheKey: string): Promise<boolean> {
+  const lockKey = `${LOCK_PREFIX}${cacheKey}`;
+  const owned = getInvocationMemo<boolean>('cache-locks');
+  if (owned.has(lockKey)) {
+    return true;
+  }
+
+  const lock = await storage.get(lockKey) as CacheLock | undefined;
+  if (lock && Date.now() - new Date(lock.acquiredAt).getTime() < LOCK_TTL_MS) {
+    return false;
+  }
+
+  await storage.set(lockKey, { acquiredAt: new Date() } as CacheLock);
+  owned.set(lockKey, true);
+  return true;
+}
+
 export async function setCache<T>(
   key: CacheKey,
   data: T,
@@ -55,13 +221,15 @@ export async function setCache<T>(
       data,
       lastUpdated: new Date(),
       ttlHours,
-      version: CACHE_VERSION
+      version: CACHE_VERSION,
+      configVersion: (await getSiteConfig()).version
     };
 
     await storage.set(cacheKey, entry);
-    console.log(`Cache set for ${cacheKey} with TTL ${ttlHours}h`);
+    await storage.delete(`${LOCK_PREFIX}${cacheKey}`);
+    logger.debug('Cache set', { cacheKey, ttlHours });
   } catch (error) {
-    console.error('Error writing to cache:', error);
+    logger.error('Error writing to cache', { error });
     throw error;
   }
 }
@@ -70,38 +238,54 @@ export async function invalidateCache(key: CacheKey): Promise<void> {
   try {
     const cacheKey = buildCacheKey(key);
     await storage.delete(cacheKey);
-    console.log(`Cache invalidated for ${cacheKey}`);
+    logger.debug('Cache invalidated', { cacheKey });
+  } catch (error) {
+    logger.error('Error invalidating cache', { error });
+  }
+}
+
+/**
+ * Invalidate a user's entries in a namespace, including every suffixed entry
+ * (e.g. predictions per sprint)
+ */
+export async function invalidateCacheNamespace(
+  accountId: string,
+  namespace: CacheKey['namespace']
+): Promise<void> {
+  try {
+    const cacheKey = buildCacheKey({ namespace, accountId });
+    await storage.delete(cacheKey);
+    await deleteStorageByPrefix(`${cacheKey}:`);
+    logger.debug('Cache invalidated by prefix', { prefix: cacheKey });
   } catch (error) {
-    console.error('Error invalidating cache:', error);
+    logger.error('Error invalidating cache namespace', { error });
   }
 }
 
+/**
+ * Invalidate every cached analysis for a user, whatever its namespace or suffix
+ */
 export async function invalidateAllUserCache(accountId: string): Promise<void> {
   try {
-    const namespaces: CacheKey['namespace'][] = [
-      'timing',
-      'strengths',
-      'collaboration',
-      'load',
-      'trends',
-      'status',
-      'burnout',
-      'pitcrew',
-      'predictions'
-    ];
-
-    await Promise.all(
-      namespaces.map(namespace =>
-        invalidateCache({ namespace, accountId })
-      )
-    );
-
-    console.log(`All caches invalidated for user ${accountId}`);
+    await deleteUserCache(accountId);
+    logger.info('All caches invalidated for user', { accountId });
   } catch (error) {
-    console.error('Error invalidating all user caches:', error);
+    logger.error('Error invalidating all user caches', { error });
   }
 }
 
+/**
+ * Delete every cache entry and refresh lock for a user, returning how many keys were deleted
+ */
+export async function deleteUserCache(accountId: string): Promise<number> {
+  const userPrefix = buildUserCachePrefix(accountId);
+  const [entries, locks] = await Promise.all([
+    deleteStorageByPrefix(userPrefix),
+    deleteStorageByPrefix(`${LOCK_PREFIX}${userPrefix}`)
+  ]);
+  return entries + locks;
+}
+
 export async function getCacheMetadata(key: CacheKey): Promise<{
   exists: boolean;
   age?: number;
@@ -127,7 +311,7 @@ export async function getCacheMetadata(key: CacheKey): Promise<{
       version: entry.version
     };
   } catch (error) {
-    console.error('Error reading cache metadata:', error);
+    logger.error('Error reading cache metadata', { error });
     return null;
   }
 }
@@ -0,0 +1,140 @@
+/**
+ * Consent Store
+ * Each user's consent record under `consent:{accountId}`
+ *
+ * Nothing is analyzed or stored for a user until they agree to the current
+ * CONSENT_VERSION. Pausing keeps the record (and existing data) but stops new
+ * analyses; deleting the user's data removes the record too, so they are asked
+ * again next time.
+ */
+
+import { storage } from '@forge/api';
+import { ConsentRecord, ConsentStatus } from '../models/consent';
+import { listStorageEntries } from './storageScan';
+import { getInvocationMemo, memoizeForInvocation } from '../utils/invocation';
+
+// Bump when what the app collects changes; everyone is asked to agree again
+export const CONSENT_VERSION = '1';
+
+const CONSENT_PREFIX = 'consent:';
+
+/**
+ * Thrown when an analysis is requested for a user who hasn't consented or has paused telemetry
+ */
+export class ConsentRequiredError extends Error {
+  readonly paused: boolean;
+
+  constructor(paused: boolean) {
+    super(paused
+      ? 'Telemetry is paused. Resume it from the Driver Telemetry dashboard to get new insights.'
+      : 'Driver Telemetry needs your consent before analyzing your work. Open the Driver Telemetry dashboard to review and agree.');
+    this.name = 'ConsentRequiredError';
+    this.paused = paused;
+  }
+}
+
+export function isConsentRequired(error: unknown): error is ConsentRequiredError {
+  return error instanceof ConsentRequiredError;
+}
+
+/**
+ * A user's consent record, if they have one
+ */
+export async function getConsentRecord(accountId: string): Promise<ConsentRecord | null> {
+  return memoizeForInvocation('consent', accountId, async () => {
+    const record = await storage.get(`${CONSENT_PREFIX}${accountId}`) as ConsentRecord | undefined;
+    return record || null;
+  });
+}
+
+/**
+ * A user's consent as the UI shows it
+ */
+export async function getConsentStatus(accountId: string): Promise<ConsentStatus> {
+  const record = await getConsentRecord(accountId);
+  const consented = Boolean(record && record.version === CONSENT_VERSION);
+  const paused = Boolean(record?.paused);
+  return {
+    currentVersion: CONSENT_VERSION,
+    record,
+    consented,
+    paused,
+    active: consented && !paused
+  };
+}
+
+/**
+ * Whether analyses may run for a user
+ */
+export async function hasActiveConsent(accountId: string): Promise<boolean> {
+  return (await getConsentStatus(accountId)).active;
+}
+
+/**
+ * Throw ConsentRequiredError unless analyses may run for the user
+ */
+export async function requireActiveConsent(accountId: string): Promise<void> {
+  const status = await getConsentStatus(accountId);
+  if (!status.active) {
+    throw new ConsentRequiredError(status.consented && status.paused);
+  }
+}
+
+/**
+ * Record the user's agreement to the current version. Agreeing also resumes telemetry.
+ */
+export async function recordConsent(accountId: string): Promise<ConsentRecord> {
+  const now = new Date();
+  const record: ConsentRecord = {
+    accountId,
+    version: CONSENT_VERSION,
+    consentedAt: now,
+    paused: false,
+    updatedAt: now
+  };
+  await saveRecord(record);
+  return record;
+}
+
+/**
+ * Pause or resume telemetry for a user who has consented
+ */
+export async function setTelemetryPaused(accountId: string, paused: boolean): Promise<ConsentRecord> {
+  const record = await getConsentRecord(accountId);
+  if (!record || record.version !== CONSENT_VERSION) {
+    throw new ConsentRequiredError(false);
+  }
+
+  const now = new Date();
+  const updated: ConsentRecord = {
+    ...record,
+    paused,
+    pausedAt: paused ? now : undefined,
+    updatedAt: now
+  };
+  await saveRecord(updated);
+  return updated;
+}
+
+/**
+ * Remove a user's consent record, returning how many keys were deleted
+ */
+export async function deleteConsentRecord(accountId: string): Promise<number> {
+  const existed = Boolean(await storage.get(`${CONSENT_PREFIX}${accountId}`));
+  await storage.delete(`${CONSENT_PREFIX}${accountId}`);
+  getInvocationMemo('consent').delete(accountId);
+  return existed ? 1 : 0;
+}
+
+/**
+ * Every stored consent record, e.g. for personal data reporting
+ */
+export async function listConsentRecords(): Promise<ConsentRecord[]> {
+  const entries = await listStorageEntries<ConsentRecord>(CONSENT_PREFIX);
+  return entries.map(entry => entry.value);
+}
+
+async function saveRecord(record: ConsentRecord): Promise<void> {
+  await storage.set(`${CONSENT_PREFIX}${record.accountId}`, record);
+  getInvocationMemo<Promise<ConsentRecord | null>>('consent').set(record.accountId, Promise.resolve(record));
+}
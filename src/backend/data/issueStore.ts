@@ -0,0 +1,280 @@
+/**
+ * Issue Store
+ * Per-user store of normalized issues with metrics, kept current by Jira issue and
+ * sprint events (handlers/issueSync.ts) instead of refetching months of issues
+ * for every analysis
+ *
+ * Keys:
+ * - `issues:{accountId}:{issueKey}`: one IssueWithMetrics per issue the user was assigned
+ * - `issues-owners:{issueKey}:{accountId}`: index of whose stores hold an issue
+ * - `issues-meta:{accountId}`: when the store was backfilled, and under which schema
+ *
+ * A user's store is backfilled from JQL on first read, when ISSUE_STORE_SCHEMA
+ * changes, and after admins change how metrics are derived (workflow mapping,
+ * story point field), which bumps the site-wide generation. The owners index
+ * has one key per owner, so concurrent writers never overwrite each other.
+ *
+ * Events can be missed, so a daily reconcile (handlers/issueSync.ts) fetches the
+ * issues updated since each store's last sync, and backfills stores again once
+ * their backfill is ISSUE_STORE_REBACKFILL_DAYS old, dropping issues events never removed.
+ */
+
+import { storage } from '@forge/api';
+import { IssueWithMetrics } from '../models/issue';
+import { BACKFILL_MAX_ISSUES, getUserIssuesForBackfill, getUserIssuesUpdatedSince } from './jira/issues';
+import { resolveAccountId } from './jira/users';
+import { getWorkflowMappings } from './jira/workflow';
+import { listStorageEntries, deleteStorageByPrefix } from './storageScan';
+import { getStatusStage } from '../models/workflow';
+import { getDaysAgo } from '../utils/dateHelpers';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { getInvocationMemo, memoizeForInvocation } from '../utils/invocation';
+import { logger } from '../utils/logger';
+
+export const ISSUE_STORE_SCHEMA = '4';
+// History kept at backfill; analyses read at most this far back
+export const ISSUE_STORE_DAYS = 180;
+// Age at which the reconcile replaces a store instead of syncing recent changes
+export const ISSUE_STORE_REBACKFILL_DAYS = 7;
+
+const ISSUE_PREFIX = 'issues:';
+const OWNERS_PREFIX = 'issues-owners:';
+const META_PREFIX = 'issues-meta:';
+const GENERATION_KEY = 'issues-generation';
+const WRITE_CONCURRENCY = 10;
+
+interface IssueStoreMeta {
+  accountId: string;
+  schema: string;
+  generation: number;
+  backfilledAt: Date;
+  syncedAt?: Date; // last reconcile; backfilledAt until the first one
+  issueCount: number;
+  truncated?: boolean; // more issues matched than BACKFILL_MAX_ISSUES
+}
+
+export interface IssueStoreReconcileResult {
+  mode: 'backfill' | 'sync';
+  issues: number; // issues written
+}
+
+/**
+ * Whether a user's store is backfilled and current. Events only update ready stores.
+ */
+export async function isIssueStoreReady(accountId: string): Promise<boolean> {
+  const [meta, generation] = await Promise.all([
+    storage.get(`${META_PREFIX}${accountId}`) as Promise<IssueStoreMeta | undefined>,
+    getStoreGeneration()
+  ]);
+  return Boolean(meta && meta.schema === ISSUE_STORE_SCHEMA && meta.generation === generation);
+}
+
+/**
+ * Every stored issue for a user, backfilling the store first if needed.
+ * Read once per invocation and shared by the analyzers.
+ */
+export async function getStoredIssues(accountId?: string): Promise<IssueWithMetrics[]> {
+  const resolvedId = await resolveAccountId(accountId);
+
+  return memoizeForInvocation('issue-store', resolvedId, async () => {
+    if (!(await isIssueStoreReady(resolvedId))) {
+      return backfillIssueStore(resolvedId);
+    }
+
+    const entries = await listStorageEntries<IssueWithMetrics>(`${ISSUE_PREFIX}${resolvedId}:`);
+    return entries.map(entry => reviveIssue(entry.value));
+  });
+}
+
+/**
+ * Stored issues updated in the last `daysBack` days, most recently updated first
+ * (the order the JQL queries return)
+ */
+export async function getStoredIssuesSince(accountId: string | undefined, daysBack: number): Promise<IssueWithMetrics[]> {
+  const since = getDaysAgo(daysBack).getTime();
+  const issues = await getStoredIssues(accountId);
+  return issues
+    .filter(issue => issue.updated.getTime() >= since)
+    .sort((a, b) => b.updated.getTime() - a.updated.getTime());
+}
+
+/**
+ * Stored issues currently assigned to the user, split by whether their
+ * workflow mapping treats the status as done
+ */
+export async function getStoredAssignedIssues(
+  accountId?: string
+): Promise<{ active: IssueWithMetrics[]; done: IssueWithMetrics[] }> {
+  const resolvedId = await resolveAccountId(accountId);
+  const issues = (await getStoredIssues(resolvedId))
+    .filter(issue => issue.assigneeAccountId === resolvedId)
+    .sort((a, b) => b.updated.getTime() - a.updated.getTime());
+  const workflows = await getWorkflowMappings(issues.map(issue => issue.project));
+
+  const active: IssueWithMetrics[] = [];
+  const done: IssueWithMetrics[] = [];
+  for (const issue of issues) {
+    const stage = getStatusStage(workflows.get(issue.project), issue.status);
+    (stage === 'done' ? done : active).push(issue);
+  }
+  return { active, done };
+}
+
+/**
+ * Replace a user's store with a fresh fetch (runs as whoever the invocation runs as)
+ */
+export async function backfillIssueStore(accountId: string): Promise<IssueWithMetrics[]> {
+  logger.info('Backfilling issue store', { accountId });
+  const [{ issues, truncated }, generation] = await Promise.all([
+    getUserIssuesForBackfill(ISSUE_STORE_DAYS),
+    getStoreGeneration()
+  ]);
+  if (truncated) {
+    logger.warn('Issue store backfill truncated; oldest issues left out', { accountId, limit: BACKFILL_MAX_ISSUES });
+  }
+
+  // Issues no longer returned leave the owners index too, so events stop writing them back
+  const storePrefix = `${ISSUE_PREFIX}${accountId}:`;
+  const fetched = new Set(issues.map(issue => issue.key));
+  const dropped = (await listStorageEntries<IssueWithMetrics>(storePrefix))
+    .map(entry => entry.key.slice(storePrefix.length))
+    .filter(issueKey => !fetched.has(issueKey));
+  await mapWithConcurrency(dropped, WRITE_CONCURRENCY, issueKey => Promise.all([
+    storage.delete(`${storePrefix}${issueKey}`),
+    storage.delete(`${OWNERS_PREFIX}${issueKey}:${accountId}`)
+  ]));
+  await mapWithConcurrency(issues, WRITE_CONCURRENCY, issue => writeIssue(accountId, issue));
+
+  const meta: IssueStoreMeta = {
+    accountId,
+    schema: ISSUE_STORE_SCHEMA,
+    generation,
+    backfilledAt: new Date(),
+    issueCount: issues.length,
+    truncated
+  };
+  await storage.set(`${META_PREFIX}${accountId}`, meta);
+
+  logger.info('Issue store backfilled', { accountId, issues: issues.length });
+  return issues;
+}
+
+/**
+ * Catch a user's store up with Jira (runs as whoever the invocation runs as).
+ * Stores that aren't current or were backfilled ISSUE_STORE_REBACKFILL_DAYS ago
+ * are backfilled again; others get the issues updated since their last sync.
+ */
+export async function reconcileIssueStore(accountId: string): Promise<IssueStoreReconcileResult> {
+  const startedAt = new Date();
+  const meta = await storage.get(`${META_PREFIX}${accountId}`) as IssueStoreMeta | undefined;
+
+  if (!meta || !(await isIssueStoreReady(accountId)) ||
+      new Date(meta.backfilledAt) < getDaysAgo(ISSUE_STORE_REBACKFILL_DAYS)) {
+    const issues = await backfillIssueStore(accountId);
+    return { mode: 'backfill', issues: issues.length };
+  }
+
+  // JQL compares whole days; start the day before to cover time zone differences
+  const since = new Date(meta.syncedAt || meta.backfilledAt);
+  since.setDate(since.getDate() - 1);
+  const issues = await getUserIssuesUpdatedSince(since);
+
+  await mapWithConcurrency(issues, WRITE_CONCURRENCY, issue => writeIssue(accountId, issue));
+  await storage.set(`${META_PREFIX}${accountId}`, { ...meta, syncedAt: startedAt });
+  getInvocationMemo('issue-store').delete(accountId);
+
+  logger.info('Issue store reconciled', { accountId, issues: issues.length });
+  return { mode: 'sync', issues: issues.length };
+}
+
+/**
+ * Insert or update an issue in a user's store
+ */
+export async function upsertStoredIssue(accountId: string, issue: IssueWithMetrics): Promise<void> {
+  await writeIssue(accountId, issue);
+  getInvocationMemo('issue-store').delete(accountId);
+}
+
+/**
+ * Remove an issue from every store that holds it, returning the affected account IDs
+ */
+export async function removeStoredIssue(issueKey: string): Promise<string[]> {
+  const owners = await getIssueOwners(issueKey);
+  await Promise.all(owners.map(accountId => storage.delete(`${ISSUE_PREFIX}${accountId}:${issueKey}`)));
+  await deleteStorageByPrefix(`${OWNERS_PREFIX}${issueKey}:`);
+
+  const memo = getInvocationMemo('issue-store');
+  owners.forEach(accountId => memo.delete(accountId));
+  return owners;
+}
+
+/**
+ * Delete a user's store, its metadata and their entries in the owners index,
+ * returning how many keys were deleted
+ */
+export async function deleteIssueStore(accountId: string): Promise<number> {
+  // Drop the metadata first so issue events stop writing to the store
+  const meta = await storage.get(`${META_PREFIX}${accountId}`);
+  await storage.delete(`${META_PREFIX}${accountId}`);
+
+  const entries = await listStorageEntries<IssueWithMetrics>(`${ISSUE_PREFIX}${accountId}:`);
+  await mapWithConcurrency(entries, WRITE_CONCURRENCY, entry => storage.delete(entry.key));
+
+  // Scan the whole index: it can hold issues that have since left the store
+  const ownerships = (await listStorageEntries<string>(OWNERS_PREFIX))
+    .filter(entry => entry.value === accountId);
+  await mapWithConcurrency(ownerships, WRITE_CONCURRENCY, entry => storage.delete(entry.key));
+
+  getInvocationMemo('issue-store').delete(accountId);
+  return (meta ? 1 : 0) + entries.length + ownerships.length;
+}
+
+/**
+ * Account IDs with a backfilled store (current or not), e.g. for personal data reporting
+ */
+export async function listIssueStoreAccounts(): Promise<Array<{ accountId: string; backfilledAt: Date }>> {
+  const entries = await listStorageEntries<IssueStoreMeta>(META_PREFIX);
+  return entries.map(entry => ({ accountId: entry.value.accountId, backfilledAt: entry.value.backfilledAt }));
+}
+
+/**
+ * Account IDs whose stores hold an issue
+ */
+export async function getIssueOwners(issueKey: string): Promise<string[]> {
+  const entries = await listStorageEntries<string>(`${OWNERS_PREFIX}${issueKey}:`);
+  return entries.map(entry => entry.value);
+}
+
+/**
+ * Make every store backfill again on its next read, e.g. after an admin changes
+ * the workflow mapping or story point field that stored metrics were derived with
+ */
+export async function invalidateIssueStores(): Promise<void> {
+  await storage.set(GENERATION_KEY, (await getStoreGeneration()) + 1);
+}
+
+async function writeIssue(accountId: string, issue: IssueWithMetrics): Promise<void> {
+  await Promise.all([
+    storage.set(`${ISSUE_PREFIX}${accountId}:${issue.key}`, issue),
+    storage.set(`${OWNERS_PREFIX}${issue.key}:${accountId}`, accountId)
+  ]);
+}
+
+async function getStoreGeneration(): Promise<number> {
+  return memoizeForInvocation('issue-store-generation', 'site', async () =>
+    (await storage.get(GENERATION_KEY) as number | undefined) || 0
+  );
+}
+
+// Storage returns JSON, so dates come back as strings
+function reviveIssue(stored: IssueWithMetrics): IssueWithMetrics {
+  const revived: IssueWithMetrics = {
+    ...stored,
+    created: new Date(stored.created),
+    updated: new Date(stored.updated)
+  };
+  if (stored.resolved) {
+    revived.resolved = new Date(stored.resolved);
+  }
+  return revived;
+}
@@ -3,7 +3,40 @@
  * Authenticated API client for Jira REST API v3
  */
 
-import api, { route } from '@forge/api';
+import api, { route, APIResponse, FetchOptions, Route } from '@forge/api';
+import { getInvocationMemo, memoizeForInvocation } from '../../utils/invocation';
+import { JiraRateLimitedError, JiraUnavailableError } from './errors';
+import { isActingAsApp } from './principal';
+import { logger } from '../../utils/logger';
+
+const CHANGELOG_PAGE_SIZE = 100;
+const BULK_CHANGELOG_MAX_ISSUES = 1000;
+
+// Fields every issue search needs; estimation fields are discovered per site (see estimation.ts)
+export const ISSUE_FIELDS = [
+  'summary',
+  'issuetype',
+  'status',
+  'assignee',
+  'created',
+  'updated',
+  'resolved',
+  'resolutiondate',
+  'components',
+  'labels',
+  'priority',
+  'project'
+];
+
+// Retry policy: Forge invocations time out after 25s, so waits stay short
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+const MAX_RETRY_AFTER_SECONDS = 10;
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+// Maximum Jira requests (including retries) per function invocation
+const DEFAULT_REQUEST_BUDGET = 250;
 
 export interface JiraApiResponse<T> {
   data: T;
@@ -18,6 +51,12 @@ export class JiraClient {
    * MIGRATED TO NEW API: /rest/api/3/search/jql (CHANGE-2046)
    */
   async searchIssues(jql: string, fields?: string[], maxResults: number = 100): Promise<any[]> {
+    // Several analyzers run the same query within one invocation; share the result
+    const memoKey = JSON.stringify({ jql, fields, maxResults });
+    return memoizeForInvocation('jira-search', memoKey, () => this.fetchSearchResults(jql, fields, maxResults));
+  }
+
+  private async fetchSearchResults(jql: string, fields: string[] | undefined, maxResults: number): Promise<any[]> {
     const allIssues: any[] = [];
     let nextPageToken: string | undefined = undefined;
     const batchSize = Math.min(maxResults, 5000); // New API max is 5000 per request
@@ -26,22 +65,8 @@ export class JiraClient {
       const body: any = {
         jql,
         maxResults: batchSize,
-        fields: fields || [
-          'summary',
-          'issuetype',
-          'status',
-          'assignee',
-          'created',
-          'updated',
-          'resolved',
-          'resolutiondate',
-          'customfield_10016', // Story points (may vary)
-          'components',
-          'labels',
-          'priority',
-          'project'
-        ]
-        // Note: expand parameter removed - changelog fetched separately via getIssueChangelog()
+        fields: fields || ISSUE_FIELDS
+        // Note: expand parameter removed - changelogs are fetched in bulk via getBulkChangelogs()
       };
 
       // Add nextPageToken for pagination (undefined for first request)
@@ -49,11 +74,7 @@ export class JiraClient {
         body.nextPageToken = nextPageToken;
       }
 
-      console.log('=== JIRA API REQUEST ===');
-      console.log('URL: /rest/api/3/search/jql');
-      console.log('Body:', JSON.stringify(body, null, 2));
-
-      const response = await api.asUser().requestJira(route`/rest/api/3/search/jql`, {
+      const response = await this.request(route`/rest/api/3/search/jql`, {
         method: 'POST',
         headers: {
           'Accept': 'application/json',
@@ -62,14 +83,16 @@ export class JiraClient {
         body: JSON.stringify(body)
       });
 
-      console.log('=== JIRA API RESPONSE ===');
-      console.log('Status:', response.status, response.statusText);
-      console.log('Headers:', JSON.stringify([...response.headers.entries()], null, 2));
+      logger.debug('Jira search', {
+        jql,
+        page: Boolean(nextPageToken),
+        maxResults: batchSize,
+        status: response.status
+      });
 
       if (!response.ok) {
-        // Log the full error response body
         const errorBody = await response.text();
-        console.error('Error response body:', errorBody);
+        logger.error('Jira search failed', { status: response.status, errorBody });
         throw new Error(`Jira API error: ${response.status} ${response.statusText} - ${errorBody}`);
       }
 
@@ -88,31 +111,96 @@ export class JiraClient {
   }
 
   /**
-   * Get issue changelog
+   * Get the full changelog for an issue, following pagination
+   * Returns the same shape as a single page: { values: [...] }
    */
   async getIssueChangelog(issueKey: string): Promise<any> {
-    const response = await api.asUser().requestJira(
-      route`/rest/api/3/issue/${issueKey}/changelog`,
-      {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json'
+    const values: any[] = [];
+    let startAt = 0;
+
+    while (true) {
+      const response = await this.request(
+        route`/rest/api/3/issue/${issueKey}/changelog?startAt=${startAt}&maxResults=${CHANGELOG_PAGE_SIZE}`,
+        {
+          method: 'GET',
+          headers: {
+            'Accept': 'application/json'
+          }
         }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch changelog for ${issueKey}: ${response.status}`);
       }
-    );
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch changelog for ${issueKey}: ${response.status}`);
+      const result = await response.json();
+      const page: any[] = result.values || [];
+      values.push(...page);
+
+      if (result.isLast !== false || page.length === 0) {
+        break;
+      }
+
+      startAt += page.length;
     }
 
-    return await response.json();
+    return { values };
+  }
+
+  /**
+   * Get changelogs for many issues at once via the bulk changelog endpoint
+   * Returns change histories keyed by issue ID. Accepts at most 1000 issues per call.
+   */
+  async getBulkChangelogs(issueIds: string[]): Promise<Map<string, any[]>> {
+    if (issueIds.length > BULK_CHANGELOG_MAX_ISSUES) {
+      throw new Error(`Bulk changelog accepts at most ${BULK_CHANGELOG_MAX_ISSUES} issues, got ${issueIds.length}`);
+    }
+
+    const histories = new Map<string, any[]>();
+    let nextPageToken: string | undefined = undefined;
+
+    do {
+      const body: any = {
+        issueIdsOrKeys: issueIds,
+        maxResults: 1000
+      };
+      if (nextPageToken) {
+        body.nextPageToken = nextPageToken;
+      }
+
+      const response = await this.request(route`/rest/api/3/changelog/bulkfetch`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new Error(`Failed to bulk fetch changelogs: ${response.status} ${response.statusText} - ${errorBody}`);
+      }
+
+      const result = await response.json();
+      for (const entry of result.issueChangeLogs || []) {
+        const issueId = String(entry.issueId);
+        const existing = histories.get(issueId) || [];
+        existing.push(...(entry.changeHistories || []));
+        histories.set(issueId, existing);
+      }
+
+      nextPageToken = result.nextPageToken || undefined;
+    } while (nextPageToken);
+
+    return histories;
   }
 
   /**
    * Get current user information
    */
   async getCurrentUser(): Promise<any> {
-    const response = await api.asUser().requestJira(route`/rest/api/3/myself`, {
+    const response = await this.request(route`/rest/api/3/myself`, {
       method: 'GET',
       headers: {
         'Accept': 'application/json'
@@ -130,7 +218,7 @@ export class JiraClient {
    * Get user by account ID
    */
   async getUser(accountId: string): Promise<any> {
-    const response = await api.asUser().requestJira(
+    const response = await this.request(
       route`/rest/api/3/user?accountId=${accountId}`,
       {
         method: 'GET',
@@ -147,11 +235,139 @@ export class JiraClient {
     return await response.json();
   }
 
+  /**
+   * Get the statuses used by each issue type in a project, with their status categories
+   */
+  async getProjectStatuses(projectKey: string): Promise<any[]> {
+    const response = await this.request(
+      route`/rest/api/3/project/${projectKey}/statuses`,
+      {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json'
+        }
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch statuses for project ${projectKey}: ${response.status}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Get every status on the site, across all workflows
+   */
+  async getStatuses(): Promise<any[]> {
+    const response = await this.request(route`/rest/api/3/status`, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch statuses: ${response.status}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Check which of the given permissions the current user holds, optionally within a project
+   */
+  async getMyPermissions(permissions: string[], projectKey?: string): Promise<Record<string, boolean>> {
+    const permissionList = permissions.join(',');
+    const path = projectKey
+      ? route`/rest/api/3/mypermissions?permissions=${permissionList}&projectKey=${projectKey}`
+      : route`/rest/api/3/mypermissions?permissions=${permissionList}`;
+
+    const response = await this.request(path, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch permissions: ${response.status}`);
+    }
+
+    const result = await response.json();
+    const granted: Record<string, boolean> = {};
+    for (const permission of permissions) {
+      granted[permission] = result.permissions?.[permission]?.havePermission === true;
+    }
+    return granted;
+  }
+
+  /**
+   * Get all system and custom fields on the site
+   */
+  async getFields(): Promise<any[]> {
+    const response = await this.request(route`/rest/api/3/field`, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch fields: ${response.status}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Get the agile boards that include a project
+   */
+  async getBoardsForProject(projectKey: string): Promise<any[]> {
+    const response = await this.request(
+      route`/rest/agile/1.0/board?projectKeyOrId=${projectKey}&maxResults=50`,
+      {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json'
+        }
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch boards for project ${projectKey}: ${response.status}`);
+    }
+
+    const result = await response.json();
+    return result.values || [];
+  }
+
+  /**
+   * Get a board's configuration, including its estimation field
+   */
+  async getBoardConfiguration(boardId: string): Promise<any> {
+    const response = await this.request(
+      route`/rest/agile/1.0/board/${boardId}/configuration`,
+      {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json'
+        }
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch configuration for board ${boardId}: ${response.status}`);
+    }
+
+    return await response.json();
+  }
+
   /**
    * Get sprint information
    */
   async getSprint(sprintId: string): Promise<any> {
-    const response = await api.asUser().requestJira(
+    const response = await this.request(
       route`/rest/agile/1.0/sprint/${sprintId}`,
       {
         method: 'GET',
@@ -169,16 +385,18 @@ export class JiraClient {
   }
 
   /**
-   * Get all sprints for a board
+   * Get all sprints for a board, optionally filtered by state (e.g. "active")
    */
-  async getSprintsForBoard(boardId: string): Promise<any[]> {
+  async getSprintsForBoard(boardId: string, state?: 'active' | 'closed' | 'future'): Promise<any[]> {
     const allSprints: any[] = [];
     let startAt = 0;
     const maxResults = 50;
 
     while (true) {
-      const response = await api.asUser().requestJira(
-        route`/rest/agile/1.0/board/${boardId}/sprint?startAt=${startAt}&maxResults=${maxResults}`,
+      const response = await this.request(
+        state
+          ? route`/rest/agile/1.0/board/${boardId}/sprint?state=${state}&startAt=${startAt}&maxResults=${maxResults}`
+          : route`/rest/agile/1.0/board/${boardId}/sprint?startAt=${startAt}&maxResults=${maxResults}`,
         {
           method: 'GET',
           headers: {
@@ -203,6 +421,102 @@ export class JiraClient {
 
     return allSprints;
   }
+
+  /**
+   * Send a request to Jira with rate-limit handling.
+   * Honours Retry-After on 429/503, retries transient failures with jittered
+   * exponential backoff, and charges every attempt to the invocation budget.
+   * Non-retryable responses are returned for the caller to handle.
+   */
+  private async request(path: Route, init: FetchOptions): Promise<APIResponse> {
+    for (let attempt = 1; ; attempt++) {
+      consumeRequestBudget();
+
+      let response: APIResponse;
+      try {
+        // Background jobs have no user context and run as the app (see principal.ts)
+        const requester = isActingAsApp() ? api.asApp() : api.asUser();
+        response = await requester.requestJira(path, init);
+      } catch (error) {
+        if (attempt >= MAX_ATTEMPTS) {
+          const message = error instanceof Error ? error.message : String(error);
+          throw new JiraUnavailableError(`Jira request failed after ${attempt} attempts: ${message}`);
+        }
+        await sleep(backoffDelayMs(attempt));
+        continue;
+      }
+
+      if (!RETRYABLE_STATUSES.includes(response.status)) {
+        return response;
+      }
+
+      const retryAfterSeconds = parseRetryAfter(response.headers.get('Retry-After'));
+      const waitTooLong = retryAfterSeconds !== undefined && retryAfterSeconds > MAX_RETRY_AFTER_SECONDS;
+
+      if (attempt >= MAX_ATTEMPTS || waitTooLong) {
+        if (response.status === 429) {
+          throw new JiraRateLimitedError(
+            `Jira rate limit hit after ${attempt} attempts`,
+            retryAfterSeconds
+          );
+        }
+        throw new JiraUnavailableError(
+          `Jira unavailable after ${attempt} attempts: ${response.status} ${response.statusText}`,
+          response.status,
+          retryAfterSeconds
+        );
+      }
+
+      await sleep(retryAfterSeconds !== undefined ? retryAfterSeconds * 1000 : backoffDelayMs(attempt));
+    }
+  }
+}
+
+/**
+ * Charge one request to the current invocation's budget
+ */
+function consumeRequestBudget(): void {
+  const budget = Number(process.env.JIRA_REQUEST_BUDGET) || DEFAULT_REQUEST_BUDGET;
+  const usage = getInvocationMemo<number>('jira-request-budget');
+  const used = (usage.get('used') || 0) + 1;
+  usage.set('used', used);
+
+  if (used > budget) {
+    throw new JiraRateLimitedError(`Jira request budget of ${budget} exhausted for this invocation`);
+  }
+}
+
+/**
+ * Parse a Retry-After header given as delta-seconds or an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function backoffDelayMs(attempt: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * Math.pow(2, attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
 }
 
 // Singleton instance
@@ -0,0 +1,56 @@
+/**
+ * Jira Comments Data Layer
+ * Fetches issue comments in bulk through the search API instead of one request per issue
+ */
+
+import { jiraClient } from './client';
+import { isJiraDataUnavailable } from './errors';
+import { IssueComment } from '../../models/issue';
+import { chunk } from '../../utils/concurrency';
+import { logger } from '../../utils/logger';
+
+const COMMENT_SEARCH_BATCH = 100;
+
+/**
+ * Get comments for several issues, keyed by issue key
+ */
+export async function getIssueComments(issueKeys: string[]): Promise<Map<string, IssueComment[]>> {
+  const comments = new Map<string, IssueComment[]>();
+  const uniqueKeys = Array.from(new Set(issueKeys.filter(Boolean)));
+
+  for (const batch of chunk(uniqueKeys, COMMENT_SEARCH_BATCH)) {
+    try {
+      const rawIssues = await jiraClient.searchIssues(
+        `key in (${batch.join(', ')}) ORDER BY key ASC`,
+        ['comment'],
+        batch.length
+      );
+
+      for (const raw of rawIssues) {
+        comments.set(raw.key, parseComments(raw.key, raw.fields?.comment));
+      }
+    } catch (error) {
+      if (isJiraDataUnavailable(error)) {
+        throw error;
+      }
+      logger.error('Error fetching issue comments', { error });
+    }
+  }
+
+  return comments;
+}
+
+/**
+ * Parse a raw comment page ({ comments: [...] }) into IssueComment models
+ */
+export function parseComments(issueKey: string, data: any): IssueComment[] {
+  return (data?.comments || [])
+    .map((raw: any) => ({
+      id: String(raw.id),
+      issueKey,
+      author: raw.author?.displayName || 'Unknown',
+      authorAccountId: raw.author?.accountId || '',
+      created: new Date(raw.created)
+    }))
+    .sort((a: IssueComment, b: IssueComment) => a.created.getTime() - b.created.getTime());
+}
@@ -0,0 +1,60 @@
+/**
+ * Jira API Errors
+ * Typed failures that mean "data temporarily unavailable", not "no data"
+ */
+
+/**
+ * Jira rejected the request with 429 (or our own per-invocation request budget ran out)
+ */
+export class JiraRateLimitedError extends Error {
+  readonly retryAfterSeconds?: number;
+
+  constructor(message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'JiraRateLimitedError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Jira kept failing with a transient error (503, other 5xx, network) after retries
+ */
+export class JiraUnavailableError extends Error {
+  readonly status?: number;
+  readonly retryAfterSeconds?: number;
+
+  constructor(message: string, status?: number, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'JiraUnavailableError';
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export type JiraDataUnavailableError = JiraRateLimitedError | JiraUnavailableError;
+
+/**
+ * True when an error means Jira data could not be fetched right now.
+ * Callers should propagate these instead of falling back to empty results.
+ */
+export function isJiraDataUnavailable(error: unknown): error is JiraDataUnavailableError {
+  return error instanceof JiraRateLimitedError || error instanceof JiraUnavailableError;
+}
+
+/**
+ * Describe an unavailable-data error for API responses and the dashboard
+ */
+export function describeDataUnavailable(error: JiraDataUnavailableError): {
+  reason: 'rate_limited' | 'unavailable';
+  message: string;
+  retryAfterSeconds?: number;
+} {
+  const rateLimited = error instanceof JiraRateLimitedError;
+  return {
+    reason: rateLimited ? 'rate_limited' : 'unavailable',
+    message: rateLimited
+      ? 'Jira data is temporarily unavailable because of API rate limits. Try again in a few minutes.'
+      : 'Jira data is temporarily unavailable. Try again in a few minutes.',
+    retryAfterSeconds: error.retryAfterSeconds
+  };
+}
@@ -0,0 +1,262 @@
+/**
+ * Jira Estimation Field Discovery
+ * Finds the custom field(s) that hold story points, per project
+ *
+ * Resolution order for a project:
+ * 1. Admin override
+ * 2. The estimation field configured on the project's agile boards
+ * 3. The site default a Jira admin chose on the admin page
+ * 4. Site-wide story point fields found via the fields API
+ *    ("Story Points" for company-managed, "Story point estimate" for team-managed)
+ */
+
+import { storage, startsWith } from '@forge/api';
+import { jiraClient } from './client';
+import { isJiraDataUnavailable } from './errors';
+import {
+  EstimationField,
+  EstimationOverride,
+  ProjectEstimation,
+  DEFAULT_STORY_POINT_FIELDS
+} from '../../models/estimation';
+import { memoizeForInvocation } from '../../utils/invocation';
+import { getSiteConfig } from '../siteConfig';
+import { logger } from '../../utils/logger';
+
+const SITE_FIELDS_KEY = 'estimation:site-fields';
+const PROJECT_PREFIX = 'estimation:project:';
+const OVERRIDE_PREFIX = 'config:estimation:';
+const DISCOVERY_TTL_HOURS = 24;
+
+const STORY_POINT_FIELD_NAMES = ['story points', 'story point estimate'];
+const STORY_POINT_FIELD_TYPES = ['com.pyxis.greenhopper.jira:jsw-story-points'];
+
+interface Stored<T> {
+  value: T;
+  lastUpdated: Date;
+}
+
+/**
+ * Every field that may hold story points on this site, for requesting in issue searches
+ */
+export async function getEstimationFieldCandidates(): Promise<string[]> {
+  return memoizeForInvocation('estimation', 'candidates', async () => {
+    const [siteFields, overrides, boardFields, siteConfig] = await Promise.all([
+      getSiteStoryPointFields(),
+      listEstimationOverrides(),
+      listDiscoveredBoardFields(),
+      getSiteConfig()
+    ]);
+
+    const fieldIds = [
+      ...overrides.map(o => o.fieldId),
+      ...boardFields,
+      ...(siteConfig.storyPointFieldId ? [siteConfig.storyPointFieldId] : []),
+      ...siteFields.map(f => f.fieldId)
+    ];
+
+    return fieldIds.length > 0 ? Array.from(new Set(fieldIds)) : DEFAULT_STORY_POINT_FIELDS;
+  });
+}
+
+/**
+ * Resolve the estimation field(s) for a project
+ */
+export async function getProjectEstimation(projectKey: string): Promise<ProjectEstimation> {
+  return memoizeForInvocation('estimation', `project:${projectKey}`, async () => {
+    const override = await getEstimationOverride(projectKey);
+    if (override) {
+      return {
+        projectKey,
+        source: 'admin',
+        fieldIds: [override.fieldId],
+        updatedAt: new Date(override.updatedAt)
+      };
+    }
+
+    const boardFields = await getBoardEstimationFields(projectKey);
+    if (boardFields.length > 0) {
+      return { projectKey, source: 'board', fieldIds: boardFields, updatedAt: new Date() };
+    }
+
+    const { storyPointFieldId, updatedAt } = await getSiteConfig();
+    if (storyPointFieldId) {
+      return {
+        projectKey,
+        source: 'site-default',
+        fieldIds: [storyPointFieldId],
+        updatedAt: new Date(updatedAt || Date.now())
+      };
+    }
+
+    return {
+      projectKey,
+      source: 'site',
+      fieldIds: await getEstimationFieldCandidates(),
+      updatedAt: new Date()
+    };
+  });
+}
+
+/**
+ * Resolve estimation fields for several projects, keyed by project key
+ */
+export async function getProjectEstimations(projectKeys: string[]): Promise<Map<string, ProjectEstimation>> {
+  const uniqueKeys = Array.from(new Set(projectKeys.filter(Boolean)));
+  const estimations = await Promise.all(uniqueKeys.map(getProjectEstimation));
+  return new Map(estimations.map(estimation => [estimation.projectKey, estimation]));
+}
+
+/**
+ * Story point fields available on the site, for an admin to choose from
+ */
+export async function getSiteStoryPointFields(): Promise<EstimationField[]> {
+  return readThrough<EstimationField[]>(SITE_FIELDS_KEY, async () => {
+    const fields = await jiraClient.getFields();
+    return fields
+      .filter(field =>
+        field.custom &&
+        (STORY_POINT_FIELD_NAMES.includes(String(field.name).toLowerCase()) ||
+          STORY_POINT_FIELD_TYPES.includes(field.schema?.custom))
+      )
+      .map(field => ({ fieldId: field.id, name: field.name }));
+  }, []);
+}
+
+/**
+ * Get the admin override for a project, if any
+ */
+export async function getEstimationOverride(projectKey: string): Promise<EstimationOverride | null> {
+  const override = await storage.get(`${OVERRIDE_PREFIX}${projectKey}`) as EstimationOverride | undefined;
+  return override || null;
+}
+
+/**
+ * Pin a project's story points to a specific numeric field
+ */
+export async function setEstimationOverride(
+  projectKey: string,
+  fieldId: string,
+  updatedBy: string
+): Promise<EstimationOverride> {
+  const fields = await jiraClient.getFields();
+  const field = fields.find(f => f.id === fieldId);
+  if (!field) {
+    throw new Error(`Field ${fieldId} does not exist`);
+  }
+  if (field.schema?.type !== 'number') {
+    throw new Error(`Field ${fieldId} (${field.name}) is not a number field`);
+  }
+
+  const override: EstimationOverride = {
+    projectKey,
+    fieldId,
+    updatedBy,
+    updatedAt: new Date()
+  };
+
+  await storage.set(`${OVERRIDE_PREFIX}${projectKey}`, override);
+  return override;
+}
+
+/**
+ * Remove a project's override, reverting to discovery
+ */
+export async function clearEstimationOverride(projectKey: string): Promise<void> {
+  await storage.delete(`${OVERRIDE_PREFIX}${projectKey}`);
+}
+
+/**
+ * Remove a user's account ID from the overrides they saved, returning how many changed
+ */
+export async function forgetEstimationOverrideAuthor(accountId: string): Promise<number> {
+  const overrides = await listByPrefix<EstimationOverride>(OVERRIDE_PREFIX);
+  const authored = overrides.filter(override => override.updatedBy === accountId);
+  await Promise.all(authored.map(({ updatedBy, ...override }) =>
+    storage.set(`${OVERRIDE_PREFIX}${override.projectKey}`, override)
+  ));
+  return authored.length;
+}
+
+/**
+ * Read story points from a raw issue, trying fields in preference order
+ */
+export function extractStoryPoints(rawFields: any, fieldIds: string[]): number | undefined {
+  for (const fieldId of fieldIds) {
+    const value = rawFields?.[fieldId];
+    if (typeof value === 'number' && !isNaN(value)) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+async function listEstimationOverrides(): Promise<EstimationOverride[]> {
+  return listByPrefix<EstimationOverride>(OVERRIDE_PREFIX);
+}
+
+/**
+ * Board estimation fields already discovered for any project
+ */
+async function listDiscoveredBoardFields(): Promise<string[]> {
+  const stored = await listByPrefix<Stored<string[]>>(PROJECT_PREFIX);
+  return stored.flatMap(entry => entry.value || []);
+}
+
+async function listByPrefix<T>(prefix: string): Promise<T[]> {
+  const values: T[] = [];
+  let cursor: string | undefined;
+
+  do {
+    let query = storage.query().where('key', startsWith(prefix)).limit(100);
+    if (cursor) {
+      query = query.cursor(cursor);
+    }
+    const page = await query.getMany();
+    values.push(...page.results.map(result => result.value as T));
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return values;
+}
+
+/**
+ * Estimation fields configured on the project's boards (boards estimating by field only)
+ */
+async function getBoardEstimationFields(projectKey: string): Promise<string[]> {
+  return readThrough<string[]>(`${PROJECT_PREFIX}${projectKey}`, async () => {
+    const boards = await jiraClient.getBoardsForProject(projectKey);
+    const configurations = await Promise.all(
+      boards.map(board => jiraClient.getBoardConfiguration(String(board.id)))
+    );
+
+    const fieldIds = configurations
+      .filter(config => config.estimation?.type === 'field' && config.estimation.field?.fieldId)
+      .map(config => config.estimation.field.fieldId as string);
+
+    return Array.from(new Set(fieldIds));
+  }, []);
+}
+
+/**
+ * Storage-backed cache for discovery results. Falls back when discovery fails
+ * for reasons other than rate limiting (e.g. Jira Software not installed).
+ */
+async function readThrough<T>(key: string, load: () => Promise<T>, fallback: T): Promise<T> {
+  const stored = await storage.get(key) as Stored<T> | undefined;
+  if (stored && Date.now() - new Date(stored.lastUpdated).getTime() < DISCOVERY_TTL_HOURS * 60 * 60 * 1000) {
+    return stored.value;
+  }
+
+  try {
+    const value = await load();
+    await storage.set(key, { value, lastUpdated: new Date() } as Stored<T>);
+    return value;
+  } catch (error) {
+    if (isJiraDataUnavailable(error)) {
+      throw error;
+    }
+    logger.error('Error discovering estimation fields', { key, error });
+    return stored ? stored.value : fallback;
+  }
+}
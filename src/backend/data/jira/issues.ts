@@ -3,14 +3,24 @@
  * Functions for fetching and processing Jira issues
  */
 
-import { jiraClient } from './client';
-import { JiraIssue, IssueWithMetrics, IssueMetrics } from '../../models/issue';
+import { jiraClient, ISSUE_FIELDS } from './client';
+import { JiraIssue, IssueWithMetrics, IssueMetrics, IssueProgress } from '../../models/issue';
 import { getDaysAgo } from '../../utils/dateHelpers';
-import { calculateIssueMetrics } from './metrics';
+import { chunk } from '../../utils/concurrency';
+import { computeIssueMetrics, computeIssueProgress, getIssueChangelogs } from './metrics';
+import { isJiraDataUnavailable } from './errors';
+import { buildDoneStatusJql, getWorkflowMappings } from './workflow';
+import { extractStoryPoints, getEstimationFieldCandidates, getProjectEstimations } from './estimation';
+import { DEFAULT_STORY_POINT_FIELDS } from '../../models/estimation';
+import { userJql } from './principal';
+import { logger } from '../../utils/logger';
+
+// Cap on one user's issue store, bounding the changelog fetch of a backfill
+export const BACKFILL_MAX_ISSUES = 1000;
 
 /**
  * Get all issues assigned to current user within a time range
- * Always uses currentUser() to avoid account ID parsing issues
+ * Uses currentUser() (see userJql) to avoid account ID parsing issues
  */
 export async function getUserIssues(
   accountId?: string,
@@ -19,16 +29,19 @@ export async function getUserIssues(
   const startDate = getDaysAgo(daysBack);
   const startDateStr = startDate.toISOString().split('T')[0];
 
-  // ALWAYS use currentUser() - account IDs with colons cause JQL parsing errors
-  const jql = `assignee was currentUser() AND updated >= "${startDateStr}" ORDER BY updated DESC`;
+  // currentUser() unless acting as the app - unquoted account IDs with colons break JQL
+  const jql = `assignee was ${userJql()} AND updated >= "${startDateStr}" ORDER BY updated DESC`;
 
   try {
-    console.log('getUserIssues JQL:', jql);
-    const rawIssues = await jiraClient.searchIssues(jql, undefined, 1000);
-    console.log(`getUserIssues found ${rawIssues.length} issues`);
-    return rawIssues.map(parseJiraIssue);
+    const issues = await searchIssuesWithEstimates(jql, 1000);
+    logger.debug('getUserIssues', { jql, count: issues.length });
+    return issues;
   } catch (error) {
-    console.error('Error fetching user issues:', error);
+    logger.error('Error fetching user issues', { error });
+    // Rate limits and outages must not masquerade as "no issues"
+    if (isJiraDataUnavailable(error)) {
+      throw error;
+    }
     // Return empty array instead of throwing to allow dashboard to show partial data
     return [];
   }
@@ -36,54 +49,22 @@ export async function getUserIssues(
 
 /**
  * Get currently active issues for current user
- * Always uses currentUser() to avoid account ID parsing issues with colons
+ * Uses currentUser() (see userJql) to avoid account ID parsing issues with colons
  */
 export async function getActiveIssues(accountId?: string): Promise<JiraIssue[]> {
-  console.log('========================================');
-  console.log('getActiveIssues CALLED');
-  console.log('Using currentUser() for query (ignoring accountId parameter)');
-
-  // Get active (In Progress + To Do) tickets only, excluding Done
-  const jql = `assignee = currentUser() AND status NOT IN (Done, Closed, Resolved) ORDER BY updated DESC`;
-
-  console.log('Constructed JQL Query (Active only):', jql);
-  console.log('Note: Excludes Done/Closed/Resolved to show only active work');
-
   try {
-    console.log('Calling jiraClient.searchIssues...');
-    const rawIssues = await jiraClient.searchIssues(jql, undefined, 100);
-
-    console.log('========================================');
-    console.log('RAW JIRA RESPONSE');
-    console.log('Total issues returned:', rawIssues.length);
-    console.log('Raw issue data (first 3):', JSON.stringify(rawIssues.slice(0, 3).map(i => ({
-      key: i.key,
-      status: i.fields?.status,
-      assignee: i.fields?.assignee,
-      summary: i.fields?.summary
-    })), null, 2));
-    console.log('========================================');
-
-    const parsedIssues = rawIssues.map(parseJiraIssue);
-
-    console.log('========================================');
-    console.log('PARSED ISSUES');
-    console.log('Total parsed:', parsedIssues.length);
-    console.log('Parsed details:', JSON.stringify(parsedIssues.map(i => ({
-      key: i.key,
-      status: i.status,
-      assignee: i.assignee,
-      summary: i.summary
-    })), null, 2));
-    console.log('========================================');
+    // Get active (In Progress + To Do) tickets only, excluding anything the workflow mapping treats as done
+    const doneClause = await buildDoneStatusJql();
+    const jql = `assignee = ${userJql()} AND NOT ${doneClause} ORDER BY updated DESC`;
+    const parsedIssues = await searchIssuesWithEstimates(jql, 100);
+    logger.debug('getActiveIssues', { jql, count: parsedIssues.length });
 
     return parsedIssues;
   } catch (error) {
-    console.error('========================================');
-    console.error('ERROR in getActiveIssues:', error);
-    console.error('Error message:', error instanceof Error ? error.message : String(error));
-    console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace');
-    console.error('========================================');
+    logger.error('Error fetching active issues', { error });
+    if (isJiraDataUnavailable(error)) {
+      throw error;
+    }
     // Return empty array instead of throwing to allow dashboard to show partial data
     return [];
   }
@@ -91,7 +72,7 @@ export async function getActiveIssues(accountId?: string): Promise<JiraIssue[]>
 
 /**
  * Get completed issues for current user within a time range
- * Always uses currentUser() to avoid account ID parsing issues
+ * Uses currentUser() (see userJql) to avoid account ID parsing issues
  */
 export async function getCompletedIssues(
   accountId?: string,
@@ -100,41 +81,20 @@ export async function getCompletedIssues(
   const startDate = getDaysAgo(daysBack);
   const startDateStr = startDate.toISOString().split('T')[0];
 
-  // ALWAYS use currentUser() - account IDs with colons cause JQL parsing errors
-  // Use updated field instead of resolved since resolved might not be set consistently
-  const jql = `assignee = currentUser() AND status IN (Done, Closed, Resolved) AND updated >= "${startDateStr}" ORDER BY updated DESC`;
-
   try {
-    console.log('========================================');
-    console.log('getCompletedIssues CALLED');
-    console.log('Days back:', daysBack);
-    console.log('Start date:', startDateStr);
-    console.log('JQL:', jql);
-    console.log('========================================');
-
-    const rawIssues = await jiraClient.searchIssues(jql, undefined, 1000);
-
-    console.log(`getCompletedIssues found ${rawIssues.length} issues`);
-
-    // Log sample of raw issues to see what fields are available
-    if (rawIssues.length > 0) {
-      console.log('Sample raw issue fields:', {
-        key: rawIssues[0].key,
-        created: rawIssues[0].fields.created,
-        updated: rawIssues[0].fields.updated,
-        resolved: rawIssues[0].fields.resolved,
-        resolutiondate: rawIssues[0].fields.resolutiondate,
-        status: rawIssues[0].fields.status?.name
-      });
-    }
-
-    const parsed = rawIssues.map(parseJiraIssue);
-
-    console.log('Sample parsed issue:', parsed[0]);
+    // currentUser() unless acting as the app - unquoted account IDs with colons break JQL
+    // Use updated field instead of resolved since resolved might not be set consistently
+    const doneClause = await buildDoneStatusJql();
+    const jql = `assignee = ${userJql()} AND ${doneClause} AND updated >= "${startDateStr}" ORDER BY updated DESC`;
+    const parsed = await searchIssuesWithEstimates(jql, 1000);
+    logger.debug('getCompletedIssues', { jql, daysBack, count: parsed.length });
 
     return parsed;
   } catch (error) {
-    console.error('Error fetching completed issues:', error);
+    logger.error('Error fetching completed issues', { error });
+    if (isJiraDataUnavailable(error)) {
+      throw error;
+    }
     // Return empty array instead of throwing to allow dashboard to show partial data
     return [];
   }
@@ -148,28 +108,99 @@ export async function getUserIssuesWithMetrics(
   daysBack: number = 180
 ): Promise<IssueWithMetrics[]> {
   const issues = await getUserIssues(accountId, daysBack);
+  return attachMetrics(issues);
+}
+
+/**
+ * Everything the issue store needs for a user: issues they were assigned in the
+ * time range, plus their active issues however long untouched. At most
+ * BACKFILL_MAX_ISSUES, most recently updated first; truncated says whether more matched.
+ */
+export async function getUserIssuesForBackfill(
+  daysBack: number
+): Promise<{ issues: IssueWithMetrics[]; truncated: boolean }> {
+  const startDateStr = getDaysAgo(daysBack).toISOString().split('T')[0];
+  const doneClause = await buildDoneStatusJql();
+  const jql = `assignee was ${userJql()} AND ` +
+    `(updated >= "${startDateStr}" OR (assignee = ${userJql()} AND NOT ${doneClause})) ORDER BY updated DESC`;
+
+  // One extra result tells a full history from a cut-off one
+  const issues = await searchIssuesWithEstimates(jql, BACKFILL_MAX_ISSUES + 1);
+  const truncated = issues.length > BACKFILL_MAX_ISSUES;
+  logger.debug('getUserIssuesForBackfill', { jql, count: issues.length, truncated });
+  return { issues: await attachMetrics(issues.slice(0, BACKFILL_MAX_ISSUES)), truncated };
+}
+
+/**
+ * Issues the user was ever assigned that changed on or after a day, for
+ * reconciling the issue store with changes its events missed
+ */
+export async function getUserIssuesUpdatedSince(since: Date): Promise<IssueWithMetrics[]> {
+  const sinceStr = since.toISOString().split('T')[0];
+  const jql = `assignee was ${userJql()} AND updated >= "${sinceStr}" ORDER BY updated DESC`;
 
-  // Fetch metrics for each issue
-  const issuesWithMetrics = await Promise.all(
-    issues.map(async (issue) => {
-      try {
-        const metrics = await calculateIssueMetrics(issue.key);
-        return {
-          ...issue,
-          metrics
-        } as IssueWithMetrics;
-      } catch (error) {
-        console.error(`Error calculating metrics for ${issue.key}:`, error);
-        // Return issue with default metrics
-        return {
-          ...issue,
-          metrics: createDefaultMetrics(issue.key)
-        } as IssueWithMetrics;
-      }
-    })
+  const issues = await searchIssuesWithEstimates(jql, BACKFILL_MAX_ISSUES);
+  logger.debug('getUserIssuesUpdatedSince', { jql, count: issues.length });
+  return attachMetrics(issues);
+}
+
+/**
+ * Get specific issues with metrics; issues that are gone or not visible are omitted
+ */
+export async function getIssuesWithMetricsByKeys(issueKeys: string[]): Promise<IssueWithMetrics[]> {
+  const issues: JiraIssue[] = [];
+  for (const keys of chunk(issueKeys, 100)) {
+    issues.push(...await searchIssuesWithEstimates(`key in (${keys.join(', ')})`, keys.length));
+  }
+  return attachMetrics(issues);
+}
+
+/**
+ * Get one issue with its metrics and where it stands; null when it's gone or not visible
+ */
+export async function getIssueProgress(issueKey: string): Promise<IssueProgress | null> {
+  const [issue] = await getIssuesWithMetricsByKeys([issueKey]);
+  if (!issue) {
+    return null;
+  }
+  const [progress] = await getIssuesProgress([issue]);
+  return progress;
+}
+
+/**
+ * Work out where each issue stands from its changelog
+ * Changelogs and workflow mappings are memoized, so issues whose metrics were just
+ * computed cost no extra requests.
+ */
+export async function getIssuesProgress(issues: IssueWithMetrics[]): Promise<IssueProgress[]> {
+  const [changelogs, workflows] = await Promise.all([
+    getIssueChangelogs(issues),
+    getWorkflowMappings(issues.map(issue => issue.project))
+  ]);
+  return issues.map(issue =>
+    computeIssueProgress(issue, changelogs.get(issue.key) || [], workflows.get(issue.project))
   );
+}
 
-  return issuesWithMetrics;
+/**
+ * Compute metrics for issues from their changelogs
+ */
+async function attachMetrics(issues: JiraIssue[]): Promise<IssueWithMetrics[]> {
+  // One bulk changelog fetch for all issues instead of a request per issue
+  const [changelogs, workflows] = await Promise.all([
+    getIssueChangelogs(issues),
+    getWorkflowMappings(issues.map(issue => issue.project))
+  ]);
+
+  return issues.map(issue => {
+    const changelog = changelogs.get(issue.key);
+    return {
+      ...issue,
+      metrics: changelog
+        ? computeIssueMetrics(issue.key, changelog, workflows.get(issue.project))
+        : createDefaultMetrics(issue.key)
+    };
+  });
 }
 
 /**
@@ -190,14 +221,71 @@ export async function getTeamIssues(
   const jql = `(${projectFilter}) AND updated >= "${startDateStr}" ORDER BY updated DESC`;
 
   try {
-    const rawIssues = await jiraClient.searchIssues(jql, undefined, 5000);
-    return rawIssues.map(parseJiraIssue);
+    return await searchIssuesWithEstimates(jql, 5000);
   } catch (error) {
-    console.error('Error fetching team issues:', error);
+    logger.error('Error fetching team issues', { error, projectKeys });
     throw error;
   }
 }
 
+/**
+ * Get the current user's issues in open sprints (active or future)
+ */
+export async function getOpenSprintIssues(accountId?: string): Promise<JiraIssue[]> {
+  const jql = `assignee = ${userJql()} AND sprint in openSprints() ORDER BY updated DESC`;
+
+  try {
+    return await searchIssuesWithEstimates(jql, 500);
+  } catch (error) {
+    logger.error('Error fetching open sprint issues', { error });
+    if (isJiraDataUnavailable(error)) {
+      throw error;
+    }
+    return [];
+  }
+}
+
+/**
+ * Get the current user's issues in a specific sprint
+ */
+export async function getSprintIssues(sprintId: string): Promise<JiraIssue[]> {
+  if (!/^\d+$/.test(sprintId)) {
+    throw new Error(`Invalid sprint ID: ${sprintId}`);
+  }
+
+  const jql = `sprint = ${sprintId} AND assignee = ${userJql()} ORDER BY rank ASC`;
+  return await searchIssuesWithEstimates(jql, 500);
+}
+
+/**
+ * Every issue of a project in a sprint, whoever it's assigned to
+ */
+export async function getProjectSprintIssues(sprintId: string, projectKey: string): Promise<JiraIssue[]> {
+  if (!/^\d+$/.test(sprintId)) {
+    throw new Error(`Invalid sprint ID: ${sprintId}`);
+  }
+
+  const jql = `sprint = ${sprintId} AND project = "${projectKey.replace(/"/g, '\\"')}" ORDER BY rank ASC`;
+  return await searchIssuesWithEstimates(jql, 1000);
+}
+
+/**
+ * Keys and assignees of every issue in a sprint, whoever they're assigned to
+ */
+export async function getSprintIssueAssignees(
+  sprintId: string
+): Promise<Array<{ key: string; assigneeAccountId: string }>> {
+  if (!/^\d+$/.test(sprintId)) {
+    throw new Error(`Invalid sprint ID: ${sprintId}`);
+  }
+
+  const rawIssues = await jiraClient.searchIssues(`sprint = ${sprintId}`, ['assignee'], 1000);
+  return rawIssues.map(raw => ({
+    key: raw.key,
+    assigneeAccountId: raw.fields?.assignee?.accountId || ''
+  }));
+}
+
 /**
  * Count active tickets for a user
  */
@@ -206,11 +294,38 @@ export async function countActiveTickets(accountId?: string): Promise<number> {
   return activeIssues.length;
 }
 
+/**
+ * Search issues, requesting every known estimation field and reading story points
+ * from the field each issue's project actually uses
+ */
+async function searchIssuesWithEstimates(jql: string, maxResults: number): Promise<JiraIssue[]> {
+  const candidates = await getEstimationFieldCandidates();
+  let rawIssues = await jiraClient.searchIssues(jql, [...ISSUE_FIELDS, ...candidates], maxResults);
+
+  const estimations = await getProjectEstimations(rawIssues.map(raw => raw.fields?.project?.key));
+
+  // A project seen for the first time may estimate in a field we did not request yet
+  const missingFields = Array.from(estimations.values())
+    .flatMap(estimation => estimation.fieldIds)
+    .filter(fieldId => !candidates.includes(fieldId));
+  if (missingFields.length > 0) {
+    const fields = [...ISSUE_FIELDS, ...candidates, ...Array.from(new Set(missingFields))];
+    rawIssues = await jiraClient.searchIssues(jql, fields, maxResults);
+  }
+
+  return rawIssues.map(raw =>
+    parseJiraIssue(raw, estimations.get(raw.fields?.project?.key)?.fieldIds || candidates)
+  );
+}
+
 /**
  * Parse raw Jira API response into JiraIssue model
+ * storyPointFields lists the custom fields to read story points from, in preference order
  */
-function parseJiraIssue(raw: any): JiraIssue {
+export function parseJiraIssue(raw: any, storyPointFields: string[] = DEFAULT_STORY_POINT_FIELDS): JiraIssue {
   const fields = raw.fields;
+  // Jira returns the resolution date as resolutiondate; resolved is only a JQL alias
+  const resolved = fields.resolutiondate || fields.resolved;
 
   return {
     id: raw.id,
@@ -218,12 +333,13 @@ function parseJiraIssue(raw: any): JiraIssue {
     summary: fields.summary || '',
     issueType: fields.issuetype?.name || 'Unknown',
     status: fields.status?.name || 'Unknown',
+    statusCategory: fields.status?.statusCategory?.key || undefined,
     assignee: fields.assignee?.displayName || 'Unassigned',
     assigneeAccountId: fields.assignee?.accountId || '',
     created: new Date(fields.created),
     updated: new Date(fields.updated),
-    resolved: fields.resolved ? new Date(fields.resolved) : undefined,
-    storyPoints: fields.customfield_10016 || undefined,
+    resolved: resolved ? new Date(resolved) : undefined,
+    storyPoints: extractStoryPoints(fields, storyPointFields),
     components: fields.components?.map((c: any) => c.name) || [],
     labels: fields.labels || [],
     priority: fields.priority?.name || undefined,
@@ -235,13 +351,16 @@ function parseJiraIssue(raw: any): JiraIssue {
 /**
  * Create default metrics when calculation fails
  */
-function createDefaultMetrics(issueKey: string): IssueMetrics {
+export function createDefaultMetrics(issueKey: string): IssueMetrics {
   return {
     issueKey,
     cycleTimeDays: 0,
     leadTimeDays: 0,
     inProgressDuration: 0,
     reviewDuration: 0,
+    testingDuration: 0,
+    timeBreakdown: { active: 0, review: 0, qa: 0, blocked: 0, queued: 0 },
+    statusStays: {},
     wasReopened: false,
     hadDefect: false,
     numberOfRevisions: 0
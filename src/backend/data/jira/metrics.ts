@@ -4,45 +4,183 @@
  */
 
 import { jiraClient } from './client';
-import { IssueMetrics, IssueChangelog } from '../../models/issue';
+import { isJiraDataUnavailable } from './errors';
+import { getWorkflowMapping } from './workflow';
+import { JiraIssue, IssueMetrics, IssueChangelog, IssueProgress, IssueWithMetrics, TimeBreakdown } from '../../models/issue';
+import { WorkflowMapping, WorkflowStage, getStatusStage, isBlockedStatus } from '../../models/workflow';
 import { daysBetween, hoursBetween } from '../../utils/dateHelpers';
+import { getInvocationMemo, memoizeForInvocation } from '../../utils/invocation';
+import { chunk, mapWithConcurrency } from '../../utils/concurrency';
+import { logger } from '../../utils/logger';
+
+const CHANGELOG_MEMO = 'jira-changelog';
+const BULK_CHUNK_SIZE = 1000;
+const BULK_CONCURRENCY = 2;
+const PER_ISSUE_CONCURRENCY = 5;
+// Jira's flag field; set to "Impediment" while flagged, cleared when unflagged
+const FLAGGED_FIELD = 'flagged';
+
+type StageResolver = (statusName: string) => WorkflowStage;
 
 /**
  * Calculate metrics for a specific issue
  */
 export async function calculateIssueMetrics(issueKey: string): Promise<IssueMetrics> {
   try {
-    const changelogData = await jiraClient.getIssueChangelog(issueKey);
-    const changelogs = parseChangelogs(issueKey, changelogData);
-
-    const cycleTimeDays = calculateCycleTime(changelogs);
-    const leadTimeDays = calculateLeadTime(changelogs);
-    const inProgressDuration = calculateInProgressTime(changelogs);
-    const reviewDuration = calculateReviewTime(changelogs);
-    const wasReopened = checkIfReopened(changelogs);
-    const hadDefect = checkIfHadDefect(changelogs);
-    const numberOfRevisions = countRevisions(changelogs);
-
-    return {
+    const changelogs = await memoizeForInvocation<IssueChangelog[] | null>(
+      CHANGELOG_MEMO,
       issueKey,
-      cycleTimeDays,
-      leadTimeDays,
-      inProgressDuration,
-      reviewDuration,
-      wasReopened,
-      hadDefect,
-      numberOfRevisions
-    };
+      () => fetchIssueChangelog(issueKey)
+    );
+    if (!changelogs) {
+      throw new Error(`Changelog unavailable for ${issueKey}`);
+    }
+    const workflow = await getWorkflowMapping(issueKey.split('-')[0]);
+    return computeIssueMetrics(issueKey, changelogs, workflow);
   } catch (error) {
-    console.error(`Error calculating metrics for ${issueKey}:`, error);
+    logger.error('Error calculating issue metrics', { issueKey, error });
     throw error;
   }
 }
 
+/**
+ * Get parsed changelogs for many issues, keyed by issue key.
+ * Uses the bulk changelog endpoint, falls back to per-issue requests with bounded
+ * concurrency, and memoizes per invocation so analyzers share fetched history.
+ * Issues whose changelog could not be fetched are absent from the result.
+ */
+export async function getIssueChangelogs(
+  issues: Pick<JiraIssue, 'id' | 'key'>[]
+): Promise<Map<string, IssueChangelog[]>> {
+  const memo = getInvocationMemo<Promise<IssueChangelog[] | null>>(CHANGELOG_MEMO);
+  const missing = issues.filter(issue => !memo.has(issue.key));
+
+  if (missing.length > 0) {
+    const batch = fetchChangelogsInBulk(missing);
+    for (const issue of missing) {
+      memo.set(issue.key, batch.then(result => result.get(issue.key) || null));
+    }
+  }
+
+  const result = new Map<string, IssueChangelog[]>();
+  await Promise.all(issues.map(async issue => {
+    const changelogs = await memo.get(issue.key);
+    if (changelogs) {
+      result.set(issue.key, changelogs);
+    }
+  }));
+
+  return result;
+}
+
+async function fetchChangelogsInBulk(
+  issues: Pick<JiraIssue, 'id' | 'key'>[]
+): Promise<Map<string, IssueChangelog[]>> {
+  const result = new Map<string, IssueChangelog[]>();
+
+  await mapWithConcurrency(chunk(issues, BULK_CHUNK_SIZE), BULK_CONCURRENCY, async batch => {
+    try {
+      const histories = await jiraClient.getBulkChangelogs(batch.map(issue => issue.id));
+      for (const issue of batch) {
+        result.set(issue.key, parseChangelogs(issue.key, { values: histories.get(issue.id) || [] }));
+      }
+    } catch (error) {
+      // Falling back would only multiply requests against a throttled or failing site
+      if (isJiraDataUnavailable(error)) {
+        throw error;
+      }
+      logger.warn('Bulk changelog fetch failed; falling back to per-issue requests', { error });
+      await mapWithConcurrency(batch, PER_ISSUE_CONCURRENCY, async issue => {
+        try {
+          result.set(issue.key, await fetchIssueChangelog(issue.key));
+        } catch (issueError) {
+          if (isJiraDataUnavailable(issueError)) {
+            throw issueError;
+          }
+          logger.error('Error fetching changelog', { issueKey: issue.key, error: issueError });
+        }
+      });
+    }
+  });
+
+  return result;
+}
+
+async function fetchIssueChangelog(issueKey: string): Promise<IssueChangelog[]> {
+  const changelogData = await jiraClient.getIssueChangelog(issueKey);
+  return parseChangelogs(issueKey, changelogData);
+}
+
+/**
+ * Compute metrics from an already parsed changelog
+ * Status names are interpreted through the project's workflow mapping when given
+ */
+export function computeIssueMetrics(
+  issueKey: string,
+  changelogs: IssueChangelog[],
+  workflow?: WorkflowMapping
+): IssueMetrics {
+  const stageOf: StageResolver = statusName => getStatusStage(workflow, statusName);
+
+  const cycleTimeDays = calculateCycleTime(changelogs, stageOf);
+  const leadTimeDays = calculateLeadTime(changelogs, stageOf);
+  const inProgressDuration = calculateTimeInStage(changelogs, stageOf, 'in_progress');
+  const reviewDuration = calculateTimeInStage(changelogs, stageOf, 'review');
+  const testingDuration = calculateTimeInStage(changelogs, stageOf, 'testing');
+  const timeBreakdown = calculateTimeBreakdown(changelogs, stageOf);
+  const statusStays = calculateStatusStays(changelogs);
+  const wasReopened = checkIfReopened(changelogs, stageOf);
+  const hadDefect = checkIfHadDefect(changelogs);
+  const numberOfRevisions = countRevisions(changelogs, stageOf);
+
+  return {
+    issueKey,
+    cycleTimeDays,
+    leadTimeDays,
+    inProgressDuration,
+    reviewDuration,
+    testingDuration,
+    timeBreakdown,
+    statusStays,
+    wasReopened,
+    hadDefect,
+    numberOfRevisions
+  };
+}
+
+/**
+ * Work out where an issue stands from its changelog
+ */
+export function computeIssueProgress(
+  issue: IssueWithMetrics,
+  changelogs: IssueChangelog[],
+  workflow?: WorkflowMapping
+): IssueProgress {
+  const stageOf: StageResolver = statusName => getStatusStage(workflow, statusName);
+  const stage = stageOf(issue.status);
+  let statusEnteredAt = issue.created;
+  let startedAt: Date | undefined;
+
+  for (const change of changelogs) {
+    if (change.field !== 'status') {
+      continue;
+    }
+    const toStage = stageOf(change.toValue);
+    if (toStage === 'in_progress' && !startedAt) {
+      startedAt = change.timestamp;
+    }
+    if (change.toValue === issue.status) {
+      statusEnteredAt = change.timestamp;
+    }
+  }
+
+  return { issue, stage, statusEnteredAt, startedAt };
+}
+
 /**
  * Parse raw changelog data into structured changelogs
  */
-function parseChangelogs(issueKey: string, data: any): IssueChangelog[] {
+export function parseChangelogs(issueKey: string, data: any): IssueChangelog[] {
   if (!data.values) {
     return [];
   }
@@ -59,7 +197,9 @@ function parseChangelogs(issueKey: string, data: any): IssueChangelog[] {
         authorAccountId: history.author?.accountId || '',
         field: item.field,
         fromValue: item.fromString || '',
-        toValue: item.toString || ''
+        toValue: item.toString || '',
+        fromId: item.from || undefined,
+        toId: item.to || undefined
       });
     }
   }
@@ -68,17 +208,15 @@ function parseChangelogs(issueKey: string, data: any): IssueChangelog[] {
 }
 
 /**
- * Calculate cycle time: time from "In Progress" to "Done"
+ * Calculate cycle time: time from first entering an in-progress status to done
  */
-function calculateCycleTime(changelogs: IssueChangelog[]): number {
+function calculateCycleTime(changelogs: IssueChangelog[], stageOf: StageResolver): number {
   const inProgressChange = changelogs.find(
-    c => c.field === 'status' &&
-    (c.toValue === 'In Progress' || c.toValue === 'In Development')
+    c => c.field === 'status' && stageOf(c.toValue) === 'in_progress'
   );
 
   const doneChange = changelogs.find(
-    c => c.field === 'status' &&
-    (c.toValue === 'Done' || c.toValue === 'Closed' || c.toValue === 'Resolved')
+    c => c.field === 'status' && stageOf(c.toValue) === 'done'
   );
 
   if (!inProgressChange || !doneChange) {
@@ -91,15 +229,14 @@ function calculateCycleTime(changelogs: IssueChangelog[]): number {
 /**
  * Calculate lead time: time from creation to done
  */
-function calculateLeadTime(changelogs: IssueChangelog[]): number {
+function calculateLeadTime(changelogs: IssueChangelog[], stageOf: StageResolver): number {
   if (changelogs.length === 0) {
     return 0;
   }
 
   const firstChange = changelogs[0];
   const doneChange = changelogs.find(
-    c => c.field === 'status' &&
-    (c.toValue === 'Done' || c.toValue === 'Closed' || c.toValue === 'Resolved')
+    c => c.field === 'status' && stageOf(c.toValue) === 'done'
   );
 
   if (!doneChange) {
@@ -110,19 +247,24 @@ function calculateLeadTime(changelogs: IssueChangelog[]): number {
 }
 
 /**
- * Calculate time spent in "In Progress" state
+ * Calculate hours spent in statuses of the given stage.
+ * Moving between two statuses of the same stage does not restart the clock.
  */
-function calculateInProgressTime(changelogs: IssueChangelog[]): number {
+function calculateTimeInStage(
+  changelogs: IssueChangelog[],
+  stageOf: StageResolver,
+  stage: WorkflowStage
+): number {
   let totalTime = 0;
-  let inProgressStart: Date | null = null;
+  let stageStart: Date | null = null;
 
   for (const change of changelogs) {
     if (change.field === 'status') {
-      if (change.toValue === 'In Progress' || change.toValue === 'In Development') {
-        inProgressStart = change.timestamp;
-      } else if (inProgressStart) {
-        totalTime += hoursBetween(inProgressStart, change.timestamp);
-        inProgressStart = null;
+      if (stageOf(change.toValue) === stage) {
+        stageStart = stageStart || change.timestamp;
+      } else if (stageStart) {
+        totalTime += hoursBetween(stageStart, change.timestamp);
+        stageStart = null;
       }
     }
   }
@@ -131,37 +273,94 @@ function calculateInProgressTime(changelogs: IssueChangelog[]): number {
 }
 
 /**
- * Calculate time spent in review states
+ * Hours of each stay in a status the issue has since left, by status. The stay
+ * before the first status change isn't counted; the changelog doesn't say when it began.
  */
-function calculateReviewTime(changelogs: IssueChangelog[]): number {
-  let totalTime = 0;
-  let reviewStart: Date | null = null;
+function calculateStatusStays(changelogs: IssueChangelog[]): Record<string, number[]> {
+  const stays: Record<string, number[]> = {};
+  let status = '';
+  let since: Date | null = null;
 
   for (const change of changelogs) {
-    if (change.field === 'status') {
-      if (change.toValue === 'In Review' || change.toValue === 'Code Review') {
-        reviewStart = change.timestamp;
-      } else if (reviewStart) {
-        totalTime += hoursBetween(reviewStart, change.timestamp);
-        reviewStart = null;
-      }
+    if (change.field !== 'status') {
+      continue;
+    }
+    if (since) {
+      (stays[status] ||= []).push(hoursBetween(since, change.timestamp));
     }
+    status = change.toValue;
+    since = change.timestamp;
   }
 
-  return totalTime;
+  return stays;
+}
+
+/**
+ * Split the cycle, from first entering an in-progress status to the first done
+ * after it, into hours per kind of status. Flag changes are replayed from the
+ * start of the changelog so an issue flagged before it was started counts as blocked.
+ */
+function calculateTimeBreakdown(changelogs: IssueChangelog[], stageOf: StageResolver): TimeBreakdown {
+  const breakdown: TimeBreakdown = { active: 0, review: 0, qa: 0, blocked: 0, queued: 0 };
+  let status = '';
+  let flagged = false;
+  let since: Date | null = null;
+
+  for (const change of changelogs) {
+    const isFlagChange = change.field.toLowerCase() === FLAGGED_FIELD;
+    if (change.field !== 'status' && !isFlagChange) {
+      continue;
+    }
+
+    if (since) {
+      breakdown[categorizeStatus(status, flagged, stageOf)] += hoursBetween(since, change.timestamp);
+      since = change.timestamp;
+    }
+
+    if (isFlagChange) {
+      flagged = change.toValue !== '';
+      continue;
+    }
+
+    status = change.toValue;
+    const stage = stageOf(status);
+    if (!since && stage === 'in_progress') {
+      since = change.timestamp;
+    } else if (since && stage === 'done') {
+      break;
+    }
+  }
+
+  return breakdown;
+}
+
+function categorizeStatus(status: string, flagged: boolean, stageOf: StageResolver): keyof TimeBreakdown {
+  if (flagged || isBlockedStatus(status)) {
+    return 'blocked';
+  }
+  switch (stageOf(status)) {
+    case 'review':
+      return 'review';
+    case 'testing':
+      return 'qa';
+    case 'todo':
+      return 'queued';
+    default:
+      return 'active';
+  }
 }
 
 /**
  * Check if issue was reopened after being closed
  */
-function checkIfReopened(changelogs: IssueChangelog[]): boolean {
+function checkIfReopened(changelogs: IssueChangelog[], stageOf: StageResolver): boolean {
   let wasClosed = false;
 
   for (const change of changelogs) {
     if (change.field === 'status') {
-      if (change.toValue === 'Done' || change.toValue === 'Closed' || change.toValue === 'Resolved') {
+      if (stageOf(change.toValue) === 'done') {
         wasClosed = true;
-      } else if (wasClosed && (change.toValue === 'Open' || change.toValue === 'Reopened' || change.toValue === 'In Progress')) {
+      } else if (wasClosed) {
         return true;
       }
     }
@@ -190,17 +389,18 @@ function checkIfHadDefect(changelogs: IssueChangelog[]): boolean {
 }
 
 /**
- * Count number of times issue went back to "In Progress" from review/testing
+ * Count number of times issue went back to an in-progress status from review/testing
  */
-function countRevisions(changelogs: IssueChangelog[]): number {
+function countRevisions(changelogs: IssueChangelog[], stageOf: StageResolver): number {
   let revisions = 0;
   let wasInReview = false;
 
   for (const change of changelogs) {
     if (change.field === 'status') {
-      if (change.toValue === 'In Review' || change.toValue === 'Code Review' || change.toValue === 'Testing') {
+      const stage = stageOf(change.toValue);
+      if (stage === 'review' || stage === 'testing') {
         wasInReview = true;
-      } else if (wasInReview && (change.toValue === 'In Progress' || change.toValue === 'In Development')) {
+      } else if (wasInReview && stage === 'in_progress') {
         revisions++;
         wasInReview = false;
       }
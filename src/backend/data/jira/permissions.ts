@@ -0,0 +1,22 @@
+/**
+ * Jira Permissions
+ * Checks for actions restricted to Jira or project administrators
+ */
+
+import { jiraClient } from './client';
+
+/**
+ * True when the current user is a Jira admin or administers the given project
+ */
+export async function canAdministerProject(projectKey: string): Promise<boolean> {
+  const granted = await jiraClient.getMyPermissions(['ADMINISTER', 'ADMINISTER_PROJECTS'], projectKey);
+  return granted.ADMINISTER || granted.ADMINISTER_PROJECTS;
+}
+
+/**
+ * True when the current user is a Jira admin
+ */
+export async function isJiraAdmin(): Promise<boolean> {
+  const granted = await jiraClient.getMyPermissions(['ADMINISTER']);
+  return granted.ADMINISTER;
+}
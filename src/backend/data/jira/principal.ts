@@ -0,0 +1,56 @@
+/**
+ * Jira Request Principal
+ * Who Jira requests run as: the calling user (default), or the app in background
+ * jobs that have no user context (scheduled and product triggers), optionally on
+ * behalf of a specific user
+ */
+
+import { getInvocationMemo } from '../../utils/invocation';
+
+/**
+ * Run the rest of the invocation as the app on behalf of a user.
+ * JQL written for currentUser() then targets that user's account ID instead.
+ */
+export function actAsAppForUser(accountId: string): void {
+  const principal = getInvocationMemo<string>('jira-principal');
+  principal.set('app', 'true');
+  principal.set('app-for', accountId);
+}
+
+/**
+ * Run the rest of the invocation as the app, for work that isn't about one user
+ * (e.g. syncing an issue from a product event). User-relative JQL is unavailable.
+ */
+export function actAsApp(): void {
+  getInvocationMemo<string>('jira-principal').set('app', 'true');
+}
+
+/**
+ * Whether Jira requests run as the app rather than the calling user
+ */
+export function isActingAsApp(): boolean {
+  return getInvocationMemo<string>('jira-principal').has('app');
+}
+
+/**
+ * The user the app is acting for, or undefined when requests run as the calling user
+ */
+export function getAppActingUser(): string | undefined {
+  return getInvocationMemo<string>('jira-principal').get('app-for');
+}
+
+/**
+ * JQL operand for "the user": currentUser() for user requests, the quoted
+ * account ID when acting as the app (account IDs contain colons, so must be quoted)
+ */
+export function userJql(): string {
+  const accountId = getAppActingUser();
+  if (accountId) {
+    return `"${accountId.replace(/"/g, '\\"')}"`;
+  }
+  // currentUser() would be the app itself
+  if (isActingAsApp()) {
+    throw new Error('User-relative JQL needs a user when acting as the app');
+  }
+  return 'currentUser()';
+}
@@ -0,0 +1,234 @@
+/**
+ * Jira Sprints Data Layer
+ * Resolves the user's active sprints from their boards and measures sprint scope
+ */
+
+import { jiraClient } from './client';
+import { isJiraDataUnavailable } from './errors';
+import { getOpenSprintIssues, getProjectSprintIssues, getSprintIssues } from './issues';
+import { getIssueChangelogs } from './metrics';
+import { getWorkflowMappings } from './workflow';
+import { JiraIssue, IssueChangelog, SprintData, SprintScope } from '../../models/issue';
+import { WorkflowMapping, getStatusStage } from '../../models/workflow';
+import { memoizeForInvocation } from '../../utils/invocation';
+import { logger } from '../../utils/logger';
+
+/**
+ * Get active sprints on the boards of projects where the user has open sprint work,
+ * ordered by end date (soonest first)
+ */
+export async function getActiveSprints(accountId?: string): Promise<SprintData[]> {
+  return memoizeForInvocation('sprints', `active:${accountId || 'currentUser'}`, async () => {
+    const issues = await getOpenSprintIssues(accountId);
+    const projectKeys = Array.from(new Set(issues.map(issue => issue.project).filter(Boolean)));
+    return getActiveSprintsForProjects(projectKeys);
+  });
+}
+
+/**
+ * Get active sprints on the boards of the given projects, ordered by end date (soonest first)
+ */
+export async function getActiveSprintsForProjects(projectKeys: string[]): Promise<SprintData[]> {
+  return memoizeForInvocation('sprints', `projects:${[...projectKeys].sort().join(',')}`, async () => {
+    const boardLists = await Promise.all(projectKeys.map(async projectKey => {
+      try {
+        return await jiraClient.getBoardsForProject(projectKey);
+      } catch (error) {
+        if (isJiraDataUnavailable(error)) {
+          throw error;
+        }
+        logger.error('Error fetching boards', { projectKey, error });
+        return [];
+      }
+    }));
+
+    // Kanban boards have no sprints
+    const boardIds = Array.from(new Set(
+      boardLists.flat().filter(board => board.type !== 'kanban').map(board => String(board.id))
+    ));
+
+    const sprintLists = await Promise.all(boardIds.map(async boardId => {
+      try {
+        const rawSprints = await jiraClient.getSprintsForBoard(boardId, 'active');
+        return rawSprints.map(raw => parseSprint(raw, boardId));
+      } catch (error) {
+        if (isJiraDataUnavailable(error)) {
+          throw error;
+        }
+        logger.error('Error fetching active sprints', { boardId, error });
+        return [];
+      }
+    }));
+
+    const sprints = new Map<string, SprintData>();
+    for (const sprint of sprintLists.flat()) {
+      sprints.set(sprint.id, sprint);
+    }
+
+    return Array.from(sprints.values()).sort((a, b) =>
+      (a.endDate?.getTime() ?? Infinity) - (b.endDate?.getTime() ?? Infinity)
+    );
+  });
+}
+
+/**
+ * Measure the user's scope in a sprint: completed vs remaining, committed vs added mid-sprint
+ */
+export async function getSprintScope(sprintId: string): Promise<SprintScope> {
+  return memoizeForInvocation('sprints', `scope:${sprintId}`, async () => {
+    const [rawSprint, issues] = await Promise.all([
+      jiraClient.getSprint(sprintId),
+      getSprintIssues(sprintId)
+    ]);
+    const sprint = parseSprint(rawSprint);
+
+    const [workflows, changelogs] = await Promise.all([
+      getWorkflowMappings(issues.map(issue => issue.project)),
+      getIssueChangelogs(issues)
+    ]);
+
+    return buildSprintScope(sprint, issues, changelogs, workflows);
+  });
+}
+
+/**
+ * Split a sprint's issues by completion and by commitment
+ */
+export function buildSprintScope(
+  sprint: SprintData,
+  issues: JiraIssue[],
+  changelogs: Map<string, IssueChangelog[]>,
+  workflows: Map<string, WorkflowMapping> = new Map()
+): SprintScope {
+  const isDone = (issue: JiraIssue) =>
+    getStatusStage(workflows.get(issue.project), issue.status) === 'done';
+  const wasAdded = (issue: JiraIssue) =>
+    wasAddedMidSprint(issue, sprint, changelogs.get(issue.key) || []);
+
+  const completed = issues.filter(isDone);
+
+  return {
+    sprint,
+    issues,
+    completed,
+    remaining: issues.filter(issue => !isDone(issue)),
+    committed: issues.filter(issue => !wasAdded(issue)),
+    addedMidSprint: issues.filter(wasAdded),
+    completedPoints: sumPoints(completed),
+    totalPoints: sumPoints(issues)
+  };
+}
+
+/**
+ * Measure a project's whole share of its soonest-ending active sprint, across all
+ * assignees. Null when the project has no active sprint with issues.
+ */
+export async function getProjectSprintScope(projectKey: string): Promise<SprintScope | null> {
+  const sprints = await getActiveSprintsForProjects([projectKey]);
+
+  for (const sprint of sprints) {
+    const issues = await getProjectSprintIssues(sprint.id, projectKey);
+    if (issues.length === 0) {
+      continue;
+    }
+
+    const [workflows, changelogs] = await Promise.all([
+      getWorkflowMappings([projectKey]),
+      getIssueChangelogs(issues)
+    ]);
+    return buildSprintScope(sprint, issues, changelogs, workflows);
+  }
+
+  return null;
+}
+
+/**
+ * Get the sprint the user is working in: the given sprint, or the soonest-ending
+ * active sprint that contains any of their issues. Null when they have none.
+ */
+export async function getCurrentSprintScope(accountId?: string, sprintId?: string): Promise<SprintScope | null> {
+  if (sprintId) {
+    return getSprintScope(sprintId);
+  }
+
+  const sprints = await getActiveSprints(accountId);
+  for (const sprint of sprints) {
+    const scope = await getSprintScope(sprint.id);
+    if (scope.issues.length > 0) {
+      return scope;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Days from now until the sprint ends (0 once it is overdue)
+ */
+export function getSprintDaysRemaining(sprint: SprintData, now: Date = new Date()): number {
+  if (!sprint.endDate) {
+    return 0;
+  }
+  const msRemaining = sprint.endDate.getTime() - now.getTime();
+  return Math.max(0, Math.ceil(msRemaining / (1000 * 60 * 60 * 24)));
+}
+
+/**
+ * Fraction of the sprint's duration that has elapsed (0-1)
+ */
+export function getSprintElapsedFraction(sprint: SprintData, now: Date = new Date()): number {
+  if (!sprint.startDate || !sprint.endDate) {
+    return 0;
+  }
+  const total = sprint.endDate.getTime() - sprint.startDate.getTime();
+  if (total <= 0) {
+    return 1;
+  }
+  return Math.min(1, Math.max(0, (now.getTime() - sprint.startDate.getTime()) / total));
+}
+
+/**
+ * An issue was added mid-sprint if the change that put it into this sprint happened
+ * after the sprint started, or it was created directly in the running sprint
+ */
+function wasAddedMidSprint(issue: JiraIssue, sprint: SprintData, changelogs: IssueChangelog[]): boolean {
+  if (!sprint.startDate) {
+    return false;
+  }
+
+  const additions = changelogs.filter(change =>
+    change.field === 'Sprint' &&
+    parseSprintIds(change.toId).includes(sprint.id) &&
+    !parseSprintIds(change.fromId).includes(sprint.id)
+  );
+
+  if (additions.length > 0) {
+    return additions[additions.length - 1].timestamp > sprint.startDate;
+  }
+
+  return issue.created > sprint.startDate;
+}
+
+function parseSprintIds(value?: string): string[] {
+  return value ? value.split(',').map(id => id.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Parse a raw Agile API sprint payload
+ */
+export function parseSprint(raw: any, boardId?: string): SprintData {
+  return {
+    id: String(raw.id),
+    name: raw.name,
+    state: raw.state,
+    startDate: raw.startDate ? new Date(raw.startDate) : undefined,
+    endDate: raw.endDate ? new Date(raw.endDate) : undefined,
+    completeDate: raw.completeDate ? new Date(raw.completeDate) : undefined,
+    goal: raw.goal || undefined,
+    boardId: raw.originBoardId ? String(raw.originBoardId) : boardId
+  };
+}
+
+function sumPoints(issues: JiraIssue[]): number {
+  return issues.reduce((sum, issue) => sum + (issue.storyPoints || 0), 0);
+}
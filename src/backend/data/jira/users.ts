@@ -0,0 +1,55 @@
+/**
+ * Jira Users Data Layer
+ * Functions for resolving user identity and profile settings
+ */
+
+import { jiraClient } from './client';
+import { isJiraDataUnavailable } from './errors';
+import { getAppActingUser } from './principal';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '../../utils/dateHelpers';
+import { memoizeForInvocation } from '../../utils/invocation';
+import { logger } from '../../utils/logger';
+
+/**
+ * Resolve the Atlassian account ID to use for cross-product lookups
+ * Falls back to the current user when no concrete ID is available
+ */
+export async function resolveAccountId(accountId?: string): Promise<string> {
+  if (accountId && accountId !== 'currentUser') {
+    return accountId;
+  }
+
+  // Acting as the app, /myself would return the app's own user
+  const actingFor = getAppActingUser();
+  if (actingFor) {
+    return actingFor;
+  }
+
+  const user = await jiraClient.getCurrentUser();
+  return user.accountId;
+}
+
+/**
+ * Get the IANA timezone from the user's Jira profile, falling back to UTC
+ */
+export async function getUserTimeZone(accountId?: string): Promise<string> {
+  return memoizeForInvocation('user-timezone', accountId || 'currentUser', async () => {
+    try {
+      const targetId = accountId && accountId !== 'currentUser' ? accountId : getAppActingUser();
+      const user = targetId
+        ? await jiraClient.getUser(targetId)
+        : await jiraClient.getCurrentUser();
+
+      if (user?.timeZone && isValidTimeZone(user.timeZone)) {
+        return user.timeZone as string;
+      }
+    } catch (error) {
+      if (isJiraDataUnavailable(error)) {
+        throw error;
+      }
+      logger.error('Error fetching user timezone', { error });
+    }
+
+    return DEFAULT_TIME_ZONE;
+  });
+}
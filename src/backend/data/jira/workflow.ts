@@ -0,0 +1,243 @@
+/**
+ * Jira Workflow Mapping
+ * Resolves which of a project's statuses mean "in progress", "review", "testing" and "done"
+ *
+ * Default mapping comes from Jira status categories (To Do / In Progress / Done),
+ * refined by name for review and testing statuses. A Jira admin can remap statuses
+ * site-wide on the admin page, and project admins can override any status per project.
+ */
+
+import { storage, startsWith } from '@forge/api';
+import { jiraClient } from './client';
+import { isJiraDataUnavailable } from './errors';
+import {
+  WorkflowMapping,
+  WorkflowOverride,
+  WorkflowStage,
+  WORKFLOW_STAGES,
+  stageFromCategory
+} from '../../models/workflow';
+import { memoizeForInvocation } from '../../utils/invocation';
+import { getSiteConfig } from '../siteConfig';
+import { logger } from '../../utils/logger';
+
+const MAPPING_PREFIX = 'workflow:';
+const OVERRIDE_PREFIX = 'config:workflow:';
+const MAPPING_TTL_HOURS = 24;
+
+interface StoredMapping {
+  mapping: WorkflowMapping;
+  lastUpdated: Date;
+}
+
+/**
+ * Get the effective workflow mapping for a project
+ */
+export async function getWorkflowMapping(projectKey: string): Promise<WorkflowMapping> {
+  return memoizeForInvocation('workflow-mapping', projectKey, async () => {
+    const [categories, override, siteConfig] = await Promise.all([
+      getCategoryMapping(projectKey),
+      getWorkflowOverride(projectKey),
+      getSiteConfig()
+    ]);
+
+    const base: WorkflowMapping = Object.keys(siteConfig.workflowStatuses).length > 0
+      ? {
+          projectKey,
+          source: 'site',
+          statuses: { ...categories.statuses, ...siteConfig.workflowStatuses },
+          updatedAt: new Date(siteConfig.updatedAt || categories.updatedAt)
+        }
+      : categories;
+
+    if (!override) {
+      return base;
+    }
+
+    return {
+      projectKey,
+      source: 'admin',
+      statuses: { ...base.statuses, ...normalizeStatuses(override.statuses) },
+      updatedAt: new Date(override.updatedAt)
+    };
+  });
+}
+
+/**
+ * Get workflow mappings for several projects, keyed by project key
+ */
+export async function getWorkflowMappings(projectKeys: string[]): Promise<Map<string, WorkflowMapping>> {
+  const uniqueKeys = Array.from(new Set(projectKeys.filter(Boolean)));
+  const mappings = await Promise.all(uniqueKeys.map(getWorkflowMapping));
+  return new Map(mappings.map(mapping => [mapping.projectKey, mapping]));
+}
+
+/**
+ * Get the admin override for a project, if any
+ */
+export async function getWorkflowOverride(projectKey: string): Promise<WorkflowOverride | null> {
+  const override = await storage.get(`${OVERRIDE_PREFIX}${projectKey}`) as WorkflowOverride | undefined;
+  return override || null;
+}
+
+/**
+ * Save an admin override. Throws if a status is mapped to an unknown stage.
+ */
+export async function setWorkflowOverride(
+  projectKey: string,
+  statuses: Record<string, string>,
+  updatedBy: string
+): Promise<WorkflowOverride> {
+  const invalid = Object.entries(statuses).filter(
+    ([, stage]) => !WORKFLOW_STAGES.includes(stage as WorkflowStage)
+  );
+  if (invalid.length > 0) {
+    throw new Error(
+      `Invalid workflow stage for ${invalid.map(([name]) => `"${name}"`).join(', ')}. ` +
+      `Expected one of: ${WORKFLOW_STAGES.join(', ')}`
+    );
+  }
+
+  const override: WorkflowOverride = {
+    projectKey,
+    statuses: normalizeStatuses(statuses as Record<string, WorkflowStage>),
+    updatedBy,
+    updatedAt: new Date()
+  };
+
+  await storage.set(`${OVERRIDE_PREFIX}${projectKey}`, override);
+  return override;
+}
+
+/**
+ * Remove an admin override, reverting the project to category-based mapping
+ */
+export async function clearWorkflowOverride(projectKey: string): Promise<void> {
+  await storage.delete(`${OVERRIDE_PREFIX}${projectKey}`);
+}
+
+/**
+ * Remove a user's account ID from the overrides they saved, returning how many changed
+ */
+export async function forgetWorkflowOverrideAuthor(accountId: string): Promise<number> {
+  const authored = (await listWorkflowOverrides()).filter(override => override.updatedBy === accountId);
+  await Promise.all(authored.map(({ updatedBy, ...override }) =>
+    storage.set(`${OVERRIDE_PREFIX}${override.projectKey}`, override)
+  ));
+  return authored.length;
+}
+
+/**
+ * List every project that has an admin override
+ */
+export async function listWorkflowOverrides(): Promise<WorkflowOverride[]> {
+  return memoizeForInvocation('workflow-overrides', 'all', async () => {
+    const overrides: WorkflowOverride[] = [];
+    let cursor: string | undefined;
+
+    do {
+      let query = storage.query().where('key', startsWith(OVERRIDE_PREFIX)).limit(100);
+      if (cursor) {
+        query = query.cursor(cursor);
+      }
+      const page = await query.getMany();
+      overrides.push(...page.results.map(result => result.value as WorkflowOverride));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return overrides;
+  });
+}
+
+/**
+ * JQL clause matching issues in a "done" status, honouring admin overrides.
+ * Projects without an override use Jira's Done status category, adjusted by
+ * the site-wide status mapping.
+ */
+export async function buildDoneStatusJql(): Promise<string> {
+  const [overrides, siteConfig] = await Promise.all([listWorkflowOverrides(), getSiteConfig()]);
+  const siteStatuses = Object.entries(siteConfig.workflowStatuses);
+  if (overrides.length === 0 && siteStatuses.length === 0) {
+    return 'statusCategory = Done';
+  }
+
+  const overriddenKeys = overrides.map(o => o.projectKey);
+  const mappings = await getWorkflowMappings(overriddenKeys);
+
+  const notOverridden = overriddenKeys.length > 0
+    ? ` AND project NOT IN (${overriddenKeys.map(quoteJql).join(', ')})`
+    : '';
+  const siteDone = siteStatuses.filter(([, stage]) => stage === 'done').map(([name]) => name);
+  const siteNotDone = siteStatuses.filter(([, stage]) => stage !== 'done').map(([name]) => name);
+
+  const clauses = [
+    `(statusCategory = Done${siteNotDone.length > 0 ? ` AND status NOT IN (${siteNotDone.map(quoteJql).join(', ')})` : ''}${notOverridden})`
+  ];
+  if (siteDone.length > 0) {
+    clauses.push(`(status IN (${siteDone.map(quoteJql).join(', ')})${notOverridden})`);
+  }
+
+  mappings.forEach(mapping => {
+    const doneStatuses = Object.entries(mapping.statuses)
+      .filter(([, stage]) => stage === 'done')
+      .map(([name]) => name);
+    if (doneStatuses.length > 0) {
+      clauses.push(
+        `(project = ${quoteJql(mapping.projectKey)} AND status IN (${doneStatuses.map(quoteJql).join(', ')}))`
+      );
+    }
+  });
+
+  return `(${clauses.join(' OR ')})`;
+}
+
+/**
+ * Category-based mapping, cached in storage since workflows rarely change
+ */
+async function getCategoryMapping(projectKey: string): Promise<WorkflowMapping> {
+  const cacheKey = `${MAPPING_PREFIX}${projectKey}`;
+  const stored = await storage.get(cacheKey) as StoredMapping | undefined;
+
+  if (stored && Date.now() - new Date(stored.lastUpdated).getTime() < MAPPING_TTL_HOURS * 60 * 60 * 1000) {
+    return stored.mapping;
+  }
+
+  try {
+    const issueTypes = await jiraClient.getProjectStatuses(projectKey);
+    const statuses: Record<string, WorkflowStage> = {};
+
+    for (const issueType of issueTypes) {
+      for (const status of issueType.statuses || []) {
+        statuses[status.name.toLowerCase()] = stageFromCategory(status.statusCategory?.key, status.name);
+      }
+    }
+
+    const mapping: WorkflowMapping = {
+      projectKey,
+      source: 'categories',
+      statuses,
+      updatedAt: new Date()
+    };
+
+    await storage.set(cacheKey, { mapping, lastUpdated: new Date() } as StoredMapping);
+    return mapping;
+  } catch (error) {
+    if (isJiraDataUnavailable(error)) {
+      throw error;
+    }
+    logger.error('Error loading workflow statuses; falling back to status names', { projectKey, error });
+    return { projectKey, source: 'default', statuses: {}, updatedAt: new Date() };
+  }
+}
+
+function normalizeStatuses(statuses: Record<string, WorkflowStage>): Record<string, WorkflowStage> {
+  const normalized: Record<string, WorkflowStage> = {};
+  for (const [name, stage] of Object.entries(statuses)) {
+    normalized[name.trim().toLowerCase()] = stage;
+  }
+  return normalized;
+}
+
+function quoteJql(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
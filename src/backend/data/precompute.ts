@@ -0,0 +1,143 @@
+/**
+ * Precompute Store
+ * Storage for nightly precompute opt-ins, runs and per-user results
+ */
+
+import { storage } from '@forge/api';
+import { listStorageEntries, deleteStorageByPrefix } from './storageScan';
+import {
+  PrecomputeOptIn,
+  PrecomputeProgress,
+  PrecomputeRun,
+  PrecomputeUserResult
+} from '../models/precompute';
+
+const OPT_IN_PREFIX = 'precompute:optin:';
+const RUN_PREFIX = 'precompute:run:';
+const RESULT_PREFIX = 'precompute:result:';
+const LATEST_RUN_KEY = 'precompute:latest-run';
+
+/**
+ * Whether a user has opted in to nightly precompute
+ */
+export async function isPrecomputeOptedIn(accountId: string): Promise<boolean> {
+  return Boolean(await storage.get(`${OPT_IN_PREFIX}${accountId}`));
+}
+
+/**
+ * Opt a user in to (or out of) nightly precompute
+ */
+export async function setPrecomputeOptIn(accountId: string, enabled: boolean): Promise<void> {
+  if (enabled) {
+    await storage.set(`${OPT_IN_PREFIX}${accountId}`, { accountId, optedInAt: new Date() } as PrecomputeOptIn);
+  } else {
+    await storage.delete(`${OPT_IN_PREFIX}${accountId}`);
+  }
+}
+
+/**
+ * Account IDs of every opted-in user
+ */
+export async function listPrecomputeUsers(): Promise<string[]> {
+  const optIns = await listPrecomputeOptIns();
+  return optIns.map(optIn => optIn.accountId);
+}
+
+/**
+ * Every opt-in record
+ */
+export async function listPrecomputeOptIns(): Promise<PrecomputeOptIn[]> {
+  return listByPrefix<PrecomputeOptIn>(OPT_IN_PREFIX);
+}
+
+/**
+ * Delete a user's opt-in and their results in every stored run,
+ * returning how many keys were deleted
+ */
+export async function deletePrecomputeData(accountId: string): Promise<number> {
+  const optedIn = await isPrecomputeOptedIn(accountId);
+  await storage.delete(`${OPT_IN_PREFIX}${accountId}`);
+
+  const results = (await listStorageEntries<PrecomputeUserResult>(RESULT_PREFIX))
+    .filter(entry => entry.value.accountId === accountId);
+  await Promise.all(results.map(entry => storage.delete(entry.key)));
+
+  return (optedIn ? 1 : 0) + results.length;
+}
+
+/**
+ * Record a new run as the latest, dropping the previous run's results
+ */
+export async function startPrecomputeRun(run: PrecomputeRun): Promise<void> {
+  const previousRunId = await storage.get(LATEST_RUN_KEY) as string | undefined;
+
+  await storage.set(`${RUN_PREFIX}${run.runId}`, run);
+  await storage.set(LATEST_RUN_KEY, run.runId);
+
+  if (previousRunId && previousRunId !== run.runId) {
+    await deleteStorageByPrefix(`${RESULT_PREFIX}${previousRunId}:`);
+    await storage.delete(`${RUN_PREFIX}${previousRunId}`);
+  }
+}
+
+/**
+ * Attach the async event job IDs once batches are pushed
+ */
+export async function updatePrecomputeRun(run: PrecomputeRun): Promise<void> {
+  await storage.set(`${RUN_PREFIX}${run.runId}`, run);
+}
+
+/**
+ * Store one user's outcome. Each user has their own key, so concurrent
+ * consumers never overwrite each other's progress.
+ */
+export async function recordPrecomputeResult(result: PrecomputeUserResult): Promise<void> {
+  await storage.set(`${RESULT_PREFIX}${result.runId}:${result.accountId}`, result);
+}
+
+/**
+ * A user's outcome in the latest run, if they have one
+ */
+export async function getLatestPrecomputeResult(accountId: string): Promise<PrecomputeUserResult | null> {
+  const runId = await storage.get(LATEST_RUN_KEY) as string | undefined;
+  if (!runId) {
+    return null;
+  }
+  const result = await storage.get(`${RESULT_PREFIX}${runId}:${accountId}`) as PrecomputeUserResult | undefined;
+  return result || null;
+}
+
+/**
+ * Progress of the latest run (null before the first run)
+ */
+export async function getPrecomputeProgress(): Promise<PrecomputeProgress | null> {
+  const runId = await storage.get(LATEST_RUN_KEY) as string | undefined;
+  if (!runId) {
+    return null;
+  }
+
+  const run = await storage.get(`${RUN_PREFIX}${runId}`) as PrecomputeRun | undefined;
+  if (!run) {
+    return null;
+  }
+
+  const results = await listByPrefix<PrecomputeUserResult>(`${RESULT_PREFIX}${runId}:`);
+  const count = (status: PrecomputeUserResult['status']) => results.filter(r => r.status === status).length;
+  const pending = Math.max(0, run.totalUsers - results.length);
+
+  return {
+    run,
+    succeeded: count('succeeded'),
+    partial: count('partial'),
+    failed: count('failed'),
+    pending,
+    finishedAt: pending === 0 && results.length > 0
+      ? new Date(Math.max(...results.map(r => new Date(r.finishedAt).getTime())))
+      : undefined
+  };
+}
+
+async function listByPrefix<T>(prefix: string): Promise<T[]> {
+  const entries = await listStorageEntries<T>(prefix);
+  return entries.map(entry => entry.value);
+}
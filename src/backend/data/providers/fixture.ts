@@ -0,0 +1,354 @@
+/**
+ * Fixture Data Source
+ * Offline provider that serves recorded Jira and Bitbucket payloads from JSON files
+ *
+ * Directory layout (raw API payloads, exactly as recorded):
+ * - issues.json        Array of issues from /rest/api/3/search/jql (or { "issues": [...] })
+ * - changelogs.json    { "<issueKey>": <response of /rest/api/3/issue/{key}/changelog> }
+ * - sprints.json       Optional. Array of /rest/agile/1.0/sprint/{id} payloads, each with an "issueKeys" array
+ * - comments.json      Optional. { "<issueKey>": <response of /rest/api/3/issue/{key}/comment> }
+ * - commits.json       Optional. { "<workspace>/<repo>": [<raw commits from /repositories/{ws}/{repo}/commits>] }
+ * - pullRequests.json  Optional. { "<workspace>/<repo>": { "pullrequests": [...], "activity": { "<prId>": [...] } } }
+ * - meta.json          Optional. { "accountId": "...", "recordedAt": "<ISO date>", "storyPointFields": ["customfield_10028"],
+ *                                "timeZone": "Europe/Berlin" }
+ *
+ * When meta.json has recordedAt, every timestamp is shifted so the recording
+ * appears to have been captured just now, keeping daysBack windows meaningful.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TelemetryDataSource } from '../source';
+import { JiraIssue, IssueWithMetrics, IssueChangelog, IssueComment, IssueProgress, SprintData, SprintScope } from '../../models/issue';
+import { Commit, PullRequest, PullRequestActivity, PullRequestWithMetrics } from '../../models/commit';
+import { UserActivity } from '../../models/metrics';
+import { parseJiraIssue, createDefaultMetrics } from '../jira/issues';
+import { parseChangelogs, computeIssueMetrics, computeIssueProgress } from '../jira/metrics';
+import { buildSprintScope, parseSprint } from '../jira/sprints';
+import { parseComments } from '../jira/comments';
+import { parsePullRequest, parseActivity, parseCommit, matchesCommitAuthor, withClosingDate } from '../bitbucket/client';
+import { computePullRequestMetrics } from '../bitbucket/metrics';
+import { ReviewHistory } from '../bitbucket/pullRequests';
+import { getDaysAgo, isValidTimeZone, DEFAULT_TIME_ZONE } from '../../utils/dateHelpers';
+import { inferStageFromName } from '../../models/workflow';
+
+interface FixtureMeta {
+  accountId?: string;
+  recordedAt?: string;
+  storyPointFields?: string[];
+  timeZone?: string;
+}
+
+export class FixtureDataSource implements TelemetryDataSource {
+  readonly name = 'fixture';
+
+  private readonly directory: string;
+  private loaded = false;
+  private meta: FixtureMeta = {};
+  private shiftMs = 0;
+  private issues: JiraIssue[] = [];
+  private changelogs = new Map<string, IssueChangelog[]>();
+  private pullRequests: PullRequestWithMetrics[] = [];
+  private sprints: Array<{ sprint: SprintData; issueKeys: string[] }> = [];
+  private comments = new Map<string, IssueComment[]>();
+  private commits: Array<{ commit: Commit; raw: any }> = [];
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async getUserIssues(accountId?: string, daysBack: number = 180): Promise<JiraIssue[]> {
+    this.load();
+    const since = getDaysAgo(daysBack);
+    return this.issues.filter(issue =>
+      this.wasAssignedTo(issue, accountId) && issue.updated >= since
+    );
+  }
+
+  async getUserIssuesWithMetrics(accountId?: string, daysBack: number = 180): Promise<IssueWithMetrics[]> {
+    const issues = await this.getUserIssues(accountId, daysBack);
+    return issues.map(issue => {
+      const changelog = this.changelogs.get(issue.key);
+      return {
+        ...issue,
+        metrics: changelog ? computeIssueMetrics(issue.key, changelog) : createDefaultMetrics(issue.key)
+      };
+    });
+  }
+
+  async getActiveIssues(accountId?: string): Promise<JiraIssue[]> {
+    this.load();
+    return this.issues.filter(issue =>
+      this.isAssignedTo(issue, accountId) && !isDone(issue)
+    );
+  }
+
+  async getCompletedIssues(accountId?: string, daysBack: number = 180): Promise<JiraIssue[]> {
+    this.load();
+    const since = getDaysAgo(daysBack);
+    return this.issues.filter(issue =>
+      this.isAssignedTo(issue, accountId) && isDone(issue) && issue.updated >= since
+    );
+  }
+
+  async getTeamIssues(projectKeys: string[], daysBack: number = 180): Promise<JiraIssue[]> {
+    this.load();
+    const since = getDaysAgo(daysBack);
+    return this.issues.filter(issue => projectKeys.includes(issue.project) && issue.updated >= since);
+  }
+
+  async getIssueProgress(_accountId: string | undefined, issueKey: string): Promise<IssueProgress | null> {
+    this.load();
+    const issue = this.issues.find(candidate => candidate.key === issueKey);
+    if (!issue) {
+      return null;
+    }
+    const changelog = this.changelogs.get(issue.key);
+    return computeIssueProgress(
+      { ...issue, metrics: changelog ? computeIssueMetrics(issue.key, changelog) : createDefaultMetrics(issue.key) },
+      changelog || []
+    );
+  }
+
+  async getActiveIssueProgress(accountId?: string): Promise<IssueProgress[]> {
+    const issues = await this.getActiveIssues(accountId);
+    return issues.map(issue => {
+      const changelog = this.changelogs.get(issue.key);
+      return computeIssueProgress(
+        { ...issue, metrics: changelog ? computeIssueMetrics(issue.key, changelog) : createDefaultMetrics(issue.key) },
+        changelog || []
+      );
+    });
+  }
+
+  async countActiveTickets(accountId?: string): Promise<number> {
+    return (await this.getActiveIssues(accountId)).length;
+  }
+
+  async getCurrentSprintScope(accountId?: string, sprintId?: string): Promise<SprintScope | null> {
+    this.load();
+    const candidates = sprintId
+      ? this.sprints.filter(s => s.sprint.id === sprintId)
+      : this.sprints.filter(s => s.sprint.state === 'active');
+
+    for (const { sprint, issueKeys } of candidates) {
+      const issues = this.issues.filter(issue =>
+        issueKeys.includes(issue.key) && this.isAssignedTo(issue, accountId)
+      );
+      if (issues.length > 0 || sprintId) {
+        return buildSprintScope(sprint, issues, this.changelogs);
+      }
+    }
+
+    return null;
+  }
+
+  async getProjectSprintScope(projectKey: string): Promise<SprintScope | null> {
+    this.load();
+    for (const { sprint, issueKeys } of this.sprints.filter(s => s.sprint.state === 'active')) {
+      const issues = this.issues.filter(issue => issueKeys.includes(issue.key) && issue.project === projectKey);
+      if (issues.length > 0) {
+        return buildSprintScope(sprint, issues, this.changelogs);
+      }
+    }
+
+    return null;
+  }
+
+  async getUserTimeZone(): Promise<string> {
+    this.load();
+    const timeZone = this.meta.timeZone;
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+  }
+
+  async getUserActivity(accountId?: string, daysBack: number = 180): Promise<UserActivity> {
+    const issues = await this.getUserIssuesWithMetrics(accountId, daysBack);
+    const userId = this.resolveUser(accountId) || '';
+    const since = getDaysAgo(daysBack);
+    const reviewHistory = await this.getReviewHistory(accountId, daysBack);
+
+    return {
+      accountId: userId,
+      issues,
+      transitions: issues
+        .flatMap(issue => this.changelogs.get(issue.key) || [])
+        .filter(change => change.field === 'status' && change.authorAccountId === userId && change.timestamp >= since)
+        .map(change => ({ ...change, toStage: inferStageFromName(change.toValue) })),
+      comments: issues
+        .flatMap(issue => this.comments.get(issue.key) || [])
+        .filter(comment => comment.authorAccountId === userId && comment.created >= since),
+      commits: this.commits
+        .filter(({ commit, raw }) => commit.timestamp >= since && matchesCommitAuthor(raw, userId))
+        .map(({ commit }) => commit),
+      pullRequests: { authored: reviewHistory.authored, reviewed: reviewHistory.reviewed }
+    };
+  }
+
+  isReviewDataAvailable(): boolean {
+    this.load();
+    return this.pullRequests.length > 0;
+  }
+
+  async getReviewHistory(accountId?: string, daysBack: number = 180): Promise<ReviewHistory> {
+    this.load();
+    const userId = this.resolveUser(accountId) || '';
+    const since = getDaysAgo(daysBack);
+    const recent = this.pullRequests.filter(pr => pr.updated >= since);
+
+    return {
+      accountId: userId,
+      authored: recent.filter(pr => pr.authorAccountId === userId),
+      reviewed: recent.filter(pr =>
+        pr.authorAccountId !== userId && pr.reviewers.some(r => r.accountId === userId)
+      )
+    };
+  }
+
+  /**
+   * Read and parse every fixture file once
+   */
+  private load(): void {
+    if (this.loaded) {
+      return;
+    }
+
+    this.meta = this.readJson<FixtureMeta>('meta.json') || {};
+    this.shiftMs = this.meta.recordedAt
+      ? Date.now() - new Date(this.meta.recordedAt).getTime()
+      : 0;
+
+    const rawIssues = this.readJson<any>('issues.json') || [];
+    const issueList: any[] = Array.isArray(rawIssues) ? rawIssues : rawIssues.issues || [];
+    this.issues = issueList.map(raw => this.shiftIssue(parseJiraIssue(raw, this.meta.storyPointFields)));
+
+    const rawChangelogs = this.readJson<Record<string, any>>('changelogs.json') || {};
+    for (const [issueKey, data] of Object.entries(rawChangelogs)) {
+      this.changelogs.set(
+        issueKey,
+        parseChangelogs(issueKey, data).map(c => ({ ...c, timestamp: this.shift(c.timestamp) }))
+      );
+    }
+
+    const rawSprints = this.readJson<any[]>('sprints.json') || [];
+    this.sprints = rawSprints.map(raw => {
+      const sprint = parseSprint(raw);
+      return {
+        sprint: {
+          ...sprint,
+          startDate: sprint.startDate ? this.shift(sprint.startDate) : undefined,
+          endDate: sprint.endDate ? this.shift(sprint.endDate) : undefined,
+          completeDate: sprint.completeDate ? this.shift(sprint.completeDate) : undefined
+        },
+        issueKeys: raw.issueKeys || []
+      };
+    });
+
+    const rawComments = this.readJson<Record<string, any>>('comments.json') || {};
+    for (const [issueKey, data] of Object.entries(rawComments)) {
+      this.comments.set(
+        issueKey,
+        parseComments(issueKey, data).map(c => ({ ...c, created: this.shift(c.created) }))
+      );
+    }
+
+    const rawCommits = this.readJson<Record<string, any[]>>('commits.json') || {};
+    for (const [repository, commits] of Object.entries(rawCommits)) {
+      for (const raw of commits) {
+        const commit = parseCommit(raw, repository);
+        this.commits.push({ commit: { ...commit, timestamp: this.shift(commit.timestamp) }, raw });
+      }
+    }
+
+    const rawPullRequests = this.readJson<Record<string, any>>('pullRequests.json') || {};
+    for (const [repository, data] of Object.entries(rawPullRequests)) {
+      for (const raw of data.pullrequests || []) {
+        const parsed = this.shiftPullRequest(parsePullRequest(raw, repository));
+        const rawActivity: any[] = data.activity?.[String(parsed.id)] || [];
+        const activity = rawActivity
+          .map(parseActivity)
+          .filter((event): event is PullRequestActivity => event !== null)
+          .map(event => ({ ...event, timestamp: this.shift(event.timestamp) }))
+          .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        const pr = withClosingDate(parsed, activity);
+
+        this.pullRequests.push({
+          ...pr,
+          activity,
+          metrics: computePullRequestMetrics(pr, activity)
+        });
+      }
+    }
+
+    this.loaded = true;
+  }
+
+  private readJson<T>(fileName: string): T | null {
+    const filePath = path.join(this.directory, fileName);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+  }
+
+  private resolveUser(accountId?: string): string | undefined {
+    if (accountId && accountId !== 'currentUser') {
+      return accountId;
+    }
+    return this.meta.accountId;
+  }
+
+  private isAssignedTo(issue: JiraIssue, accountId?: string): boolean {
+    const userId = this.resolveUser(accountId);
+    return !userId || issue.assigneeAccountId === userId;
+  }
+
+  /**
+   * Mirrors `assignee was currentUser()`: current assignee or any past assignment
+   */
+  private wasAssignedTo(issue: JiraIssue, accountId?: string): boolean {
+    if (this.isAssignedTo(issue, accountId)) {
+      return true;
+    }
+    const userId = this.resolveUser(accountId);
+    const changelog = this.changelogs.get(issue.key) || [];
+    return changelog.some(c =>
+      c.field === 'assignee' && (c.toId === userId || c.fromId === userId)
+    );
+  }
+
+  private shift(date: Date): Date {
+    return this.shiftMs === 0 ? date : new Date(date.getTime() + this.shiftMs);
+  }
+
+  private shiftIssue(issue: JiraIssue): JiraIssue {
+    return {
+      ...issue,
+      created: this.shift(issue.created),
+      updated: this.shift(issue.updated),
+      resolved: issue.resolved ? this.shift(issue.resolved) : undefined
+    };
+  }
+
+  private shiftPullRequest(pr: PullRequest): PullRequest {
+    return {
+      ...pr,
+      created: this.shift(pr.created),
+      updated: this.shift(pr.updated),
+      merged: pr.merged ? this.shift(pr.merged) : undefined,
+      closed: pr.closed ? this.shift(pr.closed) : undefined,
+      reviewers: pr.reviewers.map(r => ({
+        ...r,
+        reviewedAt: r.reviewedAt ? this.shift(r.reviewedAt) : undefined
+      }))
+    };
+  }
+}
+
+/**
+ * Recorded issues carry their status category; fall back to the status name
+ */
+function isDone(issue: JiraIssue): boolean {
+  return issue.statusCategory
+    ? issue.statusCategory === 'done'
+    : inferStageFromName(issue.status) === 'done';
+}
@@ -0,0 +1,104 @@
+/**
+ * Jira Data Source
+ * Live provider backed by the Jira REST API and Bitbucket Cloud through Forge
+ *
+ * Issue reads come from the event-maintained issue store (data/issueStore.ts);
+ * only look-backs longer than the store keeps go to JQL.
+ */
+
+import { TelemetryDataSource } from '../source';
+import { JiraIssue, IssueWithMetrics, IssueProgress, SprintScope } from '../../models/issue';
+import { UserActivity } from '../../models/metrics';
+import {
+  getUserIssues,
+  getUserIssuesWithMetrics,
+  getCompletedIssues,
+  getTeamIssues,
+  getIssueProgress,
+  getIssuesProgress
+} from '../jira/issues';
+import { getCurrentSprintScope, getProjectSprintScope } from '../jira/sprints';
+import {
+  getStoredAssignedIssues,
+  getStoredIssuesSince,
+  ISSUE_STORE_DAYS
+} from '../issueStore';
+import { getUserTimeZone } from '../jira/users';
+import { getUserActivity } from '../activity';
+import { getDaysAgo } from '../../utils/dateHelpers';
+import { getUserReviewHistory, isBitbucketConfigured, ReviewHistory } from '../bitbucket/pullRequests';
+
+export class JiraDataSource implements TelemetryDataSource {
+  readonly name = 'jira';
+
+  getUserIssues(accountId?: string, daysBack: number = ISSUE_STORE_DAYS): Promise<JiraIssue[]> {
+    if (daysBack > ISSUE_STORE_DAYS) {
+      return getUserIssues(accountId, daysBack);
+    }
+    return getStoredIssuesSince(accountId, daysBack);
+  }
+
+  getUserIssuesWithMetrics(accountId?: string, daysBack: number = ISSUE_STORE_DAYS): Promise<IssueWithMetrics[]> {
+    if (daysBack > ISSUE_STORE_DAYS) {
+      return getUserIssuesWithMetrics(accountId, daysBack);
+    }
+    return getStoredIssuesSince(accountId, daysBack);
+  }
+
+  async getActiveIssues(accountId?: string): Promise<JiraIssue[]> {
+    const { active } = await getStoredAssignedIssues(accountId);
+    return active;
+  }
+
+  async getCompletedIssues(accountId?: string, daysBack: number = ISSUE_STORE_DAYS): Promise<JiraIssue[]> {
+    if (daysBack > ISSUE_STORE_DAYS) {
+      return getCompletedIssues(accountId, daysBack);
+    }
+    const since = getDaysAgo(daysBack).getTime();
+    const { done } = await getStoredAssignedIssues(accountId);
+    return done.filter(issue => issue.updated.getTime() >= since);
+  }
+
+  getTeamIssues(projectKeys: string[], daysBack?: number): Promise<JiraIssue[]> {
+    return getTeamIssues(projectKeys, daysBack);
+  }
+
+  // Read live: the store only holds the user's own issues, and the panel can be on anyone's
+  getIssueProgress(_accountId: string | undefined, issueKey: string): Promise<IssueProgress | null> {
+    return getIssueProgress(issueKey);
+  }
+
+  async getActiveIssueProgress(accountId?: string): Promise<IssueProgress[]> {
+    const { active } = await getStoredAssignedIssues(accountId);
+    return getIssuesProgress(active);
+  }
+
+  async countActiveTickets(accountId?: string): Promise<number> {
+    const { active } = await getStoredAssignedIssues(accountId);
+    return active.length;
+  }
+
+  getCurrentSprintScope(accountId?: string, sprintId?: string): Promise<SprintScope | null> {
+    return getCurrentSprintScope(accountId, sprintId);
+  }
+
+  getProjectSprintScope(projectKey: string): Promise<SprintScope | null> {
+    return getProjectSprintScope(projectKey);
+  }
+
+  getUserTimeZone(accountId?: string): Promise<string> {
+    return getUserTimeZone(accountId);
+  }
+
+  getUserActivity(accountId?: string, daysBack?: number): Promise<UserActivity> {
+    return getUserActivity(accountId, daysBack);
+  }
+
+  isReviewDataAvailable(): boolean {
+    return isBitbucketConfigured();
+  }
+
+  getReviewHistory(accountId?: string, daysBack?: number): Promise<ReviewHistory> {
+    return getUserReviewHistory(accountId, daysBack);
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Settings-Scoped Data Source
+ * Wraps the active provider so every analyzer sees the user's data as their
+ * settings describe it: excluded projects and issue types removed, and the
+ * timezone override in place of the Jira profile's. Projects outside the site's
+ * configured scope are removed for everyone.
+ *
+ * Team reads only apply the site scope, and sprint scopes are left whole: one
+ * member's exclusions don't change what the team or the sprint committed to.
+ */
+
+import { TelemetryDataSource } from '../source';
+import { JiraIssue, IssueWithMetrics, IssueProgress, SprintScope } from '../../models/issue';
+import { UserActivity } from '../../models/metrics';
+import { UserSettings } from '../../models/settings';
+import { SiteConfig } from '../../models/siteConfig';
+import { getUserSettings, isExcludedIssue } from '../settings';
+import { getSiteConfig, isProjectInScope } from '../siteConfig';
+import { ReviewHistory } from '../bitbucket/pullRequests';
+
+export class ScopedDataSource implements TelemetryDataSource {
+  constructor(private readonly inner: TelemetryDataSource) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  async getUserIssues(accountId?: string, daysBack?: number): Promise<JiraIssue[]> {
+    const [issues, scope] = await Promise.all([
+      this.inner.getUserIssues(accountId, daysBack),
+      getScope(accountId)
+    ]);
+    return excludeIssues(issues, scope);
+  }
+
+  async getUserIssuesWithMetrics(accountId?: string, daysBack?: number): Promise<IssueWithMetrics[]> {
+    const [issues, scope] = await Promise.all([
+      this.inner.getUserIssuesWithMetrics(accountId, daysBack),
+      getScope(accountId)
+    ]);
+    return excludeIssues(issues, scope);
+  }
+
+  async getActiveIssues(accountId?: string): Promise<JiraIssue[]> {
+    const [issues, scope] = await Promise.all([
+      this.inner.getActiveIssues(accountId),
+      getScope(accountId)
+    ]);
+    return excludeIssues(issues, scope);
+  }
+
+  async getCompletedIssues(accountId?: string, daysBack?: number): Promise<JiraIssue[]> {
+    const [issues, scope] = await Promise.all([
+      this.inner.getCompletedIssues(accountId, daysBack),
+      getScope(accountId)
+    ]);
+    return excludeIssues(issues, scope);
+  }
+
+  async getTeamIssues(projectKeys: string[], daysBack?: number): Promise<JiraIssue[]> {
+    const siteConfig = await getSiteConfig();
+    const inScope = projectKeys.filter(key => isProjectInScope(key, siteConfig));
+    return inScope.length > 0 ? this.inner.getTeamIssues(inScope, daysBack) : [];
+  }
+
+  async getIssueProgress(accountId: string | undefined, issueKey: string): Promise<IssueProgress | null> {
+    const [progress, scope] = await Promise.all([
+      this.inner.getIssueProgress(accountId, issueKey),
+      getScope(accountId)
+    ]);
+    return progress && !isOutOfScope(progress.issue, scope) ? progress : null;
+  }
+
+  async getActiveIssueProgress(accountId?: string): Promise<IssueProgress[]> {
+    const [progress, scope] = await Promise.all([
+      this.inner.getActiveIssueProgress(accountId),
+      getScope(accountId)
+    ]);
+    return hasExclusions(scope) ? progress.filter(item => !isOutOfScope(item.issue, scope)) : progress;
+  }
+
+  async countActiveTickets(accountId?: string): Promise<number> {
+    if (!hasExclusions(await getScope(accountId))) {
+      return this.inner.countActiveTickets(accountId);
+    }
+    const active = await this.getActiveIssues(accountId);
+    return active.length;
+  }
+
+  getCurrentSprintScope(accountId?: string, sprintId?: string): Promise<SprintScope | null> {
+    return this.inner.getCurrentSprintScope(accountId, sprintId);
+  }
+
+  getProjectSprintScope(projectKey: string): Promise<SprintScope | null> {
+    return this.inner.getProjectSprintScope(projectKey);
+  }
+
+  async getUserTimeZone(accountId?: string): Promise<string> {
+    const settings = await getUserSettings(accountId);
+    return settings.timeZoneOverride ?? this.inner.getUserTimeZone(accountId);
+  }
+
+  async getUserActivity(accountId?: string, daysBack?: number): Promise<UserActivity> {
+    const [activity, scope] = await Promise.all([
+      this.inner.getUserActivity(accountId, daysBack),
+      getScope(accountId)
+    ]);
+    if (!hasExclusions(scope)) {
+      return activity;
+    }
+
+    // Transitions and comments only carry the issue key, whose prefix is the project
+    const excludedKeys = new Set(
+      activity.issues.filter(issue => isOutOfScope(issue, scope)).map(issue => issue.key)
+    );
+    const isExcludedKey = (issueKey: string) =>
+      excludedKeys.has(issueKey) || isOutOfScope({ project: issueKey.split('-')[0], issueType: '' }, scope);
+
+    return {
+      ...activity,
+      issues: activity.issues.filter(issue => !excludedKeys.has(issue.key)),
+      transitions: activity.transitions.filter(change => !isExcludedKey(change.issueKey)),
+      comments: activity.comments.filter(comment => !isExcludedKey(comment.issueKey))
+    };
+  }
+
+  isReviewDataAvailable(): boolean {
+    return this.inner.isReviewDataAvailable();
+  }
+
+  getReviewHistory(accountId?: string, daysBack?: number): Promise<ReviewHistory> {
+    return this.inner.getReviewHistory(accountId, daysBack);
+  }
+}
+
+interface Scope {
+  settings: UserSettings;
+  siteConfig: SiteConfig;
+}
+
+async function getScope(accountId?: string): Promise<Scope> {
+  const [settings, siteConfig] = await Promise.all([getUserSettings(accountId), getSiteConfig()]);
+  return { settings, siteConfig };
+}
+
+function hasExclusions({ settings, siteConfig }: Scope): boolean {
+  return settings.excludedProjects.length > 0 ||
+    settings.excludedIssueTypes.length > 0 ||
+    siteConfig.projectsInScope.length > 0;
+}
+
+function isOutOfScope(issue: Pick<JiraIssue, 'project' | 'issueType'>, { settings, siteConfig }: Scope): boolean {
+  return !isProjectInScope(issue.project, siteConfig) || isExcludedIssue(issue, settings);
+}
+
+function excludeIssues<T extends JiraIssue>(issues: T[], scope: Scope): T[] {
+  if (!hasExclusions(scope)) {
+    return issues;
+  }
+  return issues.filter(issue => !isOutOfScope(issue, scope));
+}
@@ -0,0 +1,193 @@
+/**
+ * Settings Store
+ * Each user's preferences under `settings:{accountId}`, merged over the defaults
+ *
+ * Stored settings are merged over the defaults on read, so preferences added
+ * later pick up their defaults without a migration. Changing settings
+ * invalidates the user's cached analyses, which were computed with the old values.
+ */
+
+import { storage } from '@forge/api';
+import {
+  DASHBOARD_GAUGES,
+  DEFAULT_USER_SETTINGS,
+  UserSettings,
+  UserSettingsUpdate
+} from '../models/settings';
+import { JiraIssue } from '../models/issue';
+import { resolveAccountId } from './jira/users';
+import { ISSUE_STORE_DAYS } from './issueStore';
+import { invalidateAllUserCache } from './cache';
+import { getDayIndex, getHourOfDay, isValidTimeZone } from '../utils/dateHelpers';
+import { getInvocationMemo, memoizeForInvocation } from '../utils/invocation';
+
+const SETTINGS_PREFIX = 'settings:';
+
+export const MIN_LOOKBACK_DAYS = 30;
+// Analyses read from the issue store, which keeps this much history
+export const MAX_LOOKBACK_DAYS = ISSUE_STORE_DAYS;
+const MAX_EXCLUSIONS = 50;
+const MIN_REFRESH_SECONDS = 15;
+const MAX_REFRESH_SECONDS = 3600;
+// Settings merged field by field, whose fields are checked like top-level ones
+const NESTED_SETTINGS = ['workingHours', 'load', 'notifications'] as const;
+
+/**
+ * A user's settings, with defaults for anything they haven't set
+ */
+export async function getUserSettings(accountId?: string): Promise<UserSettings> {
+  const resolvedId = await resolveAccountId(accountId);
+
+  return memoizeForInvocation('user-settings', resolvedId, async () => {
+    const stored = await storage.get(`${SETTINGS_PREFIX}${resolvedId}`) as UserSettingsUpdate | undefined;
+    return mergeSettings(DEFAULT_USER_SETTINGS, stored || {});
+  });
+}
+
+/**
+ * Validate and save a partial update. Throws listing every invalid field.
+ */
+export async function updateUserSettings(accountId: string, update: UserSettingsUpdate): Promise<UserSettings> {
+  const unknownFields = [
+    ...Object.keys(update).filter(field => !(field in DEFAULT_USER_SETTINGS)),
+    ...NESTED_SETTINGS.flatMap(group => Object.keys(update[group] || {})
+      .filter(field => !(field in DEFAULT_USER_SETTINGS[group]))
+      .map(field => `${group}.${field}`))
+  ];
+  if (unknownFields.length > 0) {
+    throw new Error(`Unknown settings: ${unknownFields.join(', ')}`);
+  }
+
+  const current = await getUserSettings(accountId);
+  const merged = mergeSettings(current, normalizeUpdate(update));
+
+  const errors = validateSettings(merged);
+  if (errors.length > 0) {
+    throw new Error(`Invalid settings: ${errors.join('; ')}`);
+  }
+
+  const settings: UserSettings = { ...merged, updatedAt: new Date() };
+  await storage.set(`${SETTINGS_PREFIX}${accountId}`, settings);
+  getInvocationMemo<Promise<UserSettings>>('user-settings').set(accountId, Promise.resolve(settings));
+
+  await invalidateAllUserCache(accountId);
+  return settings;
+}
+
+/**
+ * Remove a user's settings, returning how many keys were deleted
+ */
+export async function deleteUserSettings(accountId: string): Promise<number> {
+  const existed = Boolean(await storage.get(`${SETTINGS_PREFIX}${accountId}`));
+  await storage.delete(`${SETTINGS_PREFIX}${accountId}`);
+  getInvocationMemo('user-settings').delete(accountId);
+  return existed ? 1 : 0;
+}
+
+/**
+ * Whether an issue falls in a project or issue type the user excluded
+ */
+export function isExcludedIssue(issue: Pick<JiraIssue, 'project' | 'issueType'>, settings: UserSettings): boolean {
+  const issueType = (issue.issueType || '').toLowerCase();
+  return settings.excludedProjects.includes(issue.project) ||
+    settings.excludedIssueTypes.some(type => type.toLowerCase() === issueType);
+}
+
+/**
+ * Whether a moment falls in the user's working hours and days, in their timezone
+ */
+export function isWorkingTime(settings: UserSettings, date: Date, timeZone: string): boolean {
+  const { start, end } = settings.workingHours;
+  const hour = getHourOfDay(date, timeZone);
+  return settings.workingDays.includes(getDayIndex(date, timeZone)) && hour >= start && hour < end;
+}
+
+function mergeSettings(base: UserSettings, update: UserSettingsUpdate): UserSettings {
+  return {
+    ...base,
+    ...update,
+    workingHours: { ...base.workingHours, ...update.workingHours },
+    load: { ...base.load, ...update.load },
+    notifications: { ...base.notifications, ...update.notifications }
+  };
+}
+
+// Tidy user input before validation: trim, dedupe, upper-case project keys
+function normalizeUpdate(update: UserSettingsUpdate): UserSettingsUpdate {
+  const normalized: UserSettingsUpdate = { ...update };
+  const cleanList = (values: unknown) => Array.isArray(values)
+    ? Array.from(new Set(values.map(value => String(value).trim()).filter(Boolean)))
+    : values as string[];
+
+  if ('excludedProjects' in update) {
+    normalized.excludedProjects = cleanList(update.excludedProjects)?.map(key => key.toUpperCase());
+  }
+  if ('excludedIssueTypes' in update) {
+    normalized.excludedIssueTypes = cleanList(update.excludedIssueTypes);
+  }
+  if ('hiddenGauges' in update) {
+    normalized.hiddenGauges = cleanList(update.hiddenGauges) as UserSettings['hiddenGauges'];
+  }
+  if ('workingDays' in update && Array.isArray(update.workingDays)) {
+    normalized.workingDays = Array.from(new Set(update.workingDays)).sort((a, b) => a - b);
+  }
+  if (update.timeZoneOverride === '') {
+    normalized.timeZoneOverride = null;
+  }
+  return normalized;
+}
+
+function validateSettings(settings: UserSettings): string[] {
+  const errors: string[] = [];
+  const isWholeNumber = (value: unknown, min: number, max: number) =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+  if (!isWholeNumber(settings.lookbackDays, MIN_LOOKBACK_DAYS, MAX_LOOKBACK_DAYS)) {
+    errors.push(`lookbackDays must be a whole number from ${MIN_LOOKBACK_DAYS} to ${MAX_LOOKBACK_DAYS}`);
+  }
+
+  const { start, end } = settings.workingHours;
+  if (!isWholeNumber(start, 0, 23) || !isWholeNumber(end, 1, 24) || start >= end) {
+    errors.push('workingHours must be whole hours with 0 <= start < end <= 24');
+  }
+
+  if (!Array.isArray(settings.workingDays) || settings.workingDays.length === 0 ||
+      !settings.workingDays.every(day => isWholeNumber(day, 0, 6))) {
+    errors.push('workingDays must list at least one day from 0 (Sunday) to 6 (Saturday)');
+  }
+
+  if (settings.timeZoneOverride !== null &&
+      (typeof settings.timeZoneOverride !== 'string' || !isValidTimeZone(settings.timeZoneOverride))) {
+    errors.push('timeZoneOverride must be an IANA timezone such as "Europe/Berlin", or null');
+  }
+
+  if (!Array.isArray(settings.excludedProjects) || settings.excludedProjects.length > MAX_EXCLUSIONS ||
+      !settings.excludedProjects.every(key => /^[A-Z][A-Z0-9_]{0,49}$/.test(key))) {
+    errors.push(`excludedProjects must be up to ${MAX_EXCLUSIONS} Jira project keys`);
+  }
+
+  if (!Array.isArray(settings.excludedIssueTypes) || settings.excludedIssueTypes.length > MAX_EXCLUSIONS ||
+      !settings.excludedIssueTypes.every(type => type.length <= 60)) {
+    errors.push(`excludedIssueTypes must be up to ${MAX_EXCLUSIONS} issue type names`);
+  }
+
+  const { optimalMin, optimalMax, criticalAbove } = settings.load;
+  if (!isWholeNumber(optimalMin, 1, 50) || !isWholeNumber(optimalMax, 1, 50) || !isWholeNumber(criticalAbove, 1, 100) ||
+      optimalMin > optimalMax || criticalAbove <= optimalMax) {
+    errors.push('load must be whole tickets with optimalMin <= optimalMax < criticalAbove');
+  }
+
+  if (!Array.isArray(settings.hiddenGauges) || !settings.hiddenGauges.every(gauge => DASHBOARD_GAUGES.includes(gauge))) {
+    errors.push(`hiddenGauges must only contain: ${DASHBOARD_GAUGES.join(', ')}`);
+  }
+
+  if (!isWholeNumber(settings.refreshIntervalSeconds, MIN_REFRESH_SECONDS, MAX_REFRESH_SECONDS)) {
+    errors.push(`refreshIntervalSeconds must be a whole number from ${MIN_REFRESH_SECONDS} to ${MAX_REFRESH_SECONDS}`);
+  }
+
+  if (!Object.values(settings.notifications).every(value => typeof value === 'boolean')) {
+    errors.push('notifications must be true or false');
+  }
+
+  return errors;
+}
@@ -0,0 +1,317 @@
+/**
+ * Site Configuration Store
+ * Site-wide defaults under `config:site`, with each saved version kept under
+ * `config:site-history:{version}`
+ *
+ * Saves are optimistic: an update names the version it was edited from and is
+ * rejected if another admin saved in between. Cache entries record the version
+ * they were computed under, so a save takes effect on the next read.
+ *
+ * Debug logging is switched separately under `config:logging` and turns itself
+ * off after a day.
+ */
+
+import { storage } from '@forge/api';
+import {
+  DEFAULT_SITE_CONFIG,
+  LoggingConfig,
+  SiteConfig,
+  SiteConfigUpdate,
+  SiteConfigVersion,
+  ThresholdAnalysis
+} from '../models/siteConfig';
+import { CacheKey } from '../models/cache';
+import { WORKFLOW_STAGES, WorkflowStage } from '../models/workflow';
+import { jiraClient } from './jira/client';
+import { listStorageEntries } from './storageScan';
+import { getInvocationMemo, memoizeForInvocation } from '../utils/invocation';
+import { logger, setLogLevel } from '../utils/logger';
+
+const CONFIG_KEY = 'config:site';
+const HISTORY_PREFIX = 'config:site-history:';
+// Saved versions kept for the admin page's history
+const HISTORY_VERSIONS = 20;
+const LOGGING_KEY = 'config:logging';
+const DEBUG_LOGGING_HOURS = 24;
+
+const MAX_PROJECTS_IN_SCOPE = 200;
+const MAX_CACHE_TTL_HOURS = 7 * 24;
+// Below this, bucket counts can single people out
+const MIN_TEAM_BUCKET_SIZE = 3;
+
+/**
+ * Thrown when an update was edited from a version that is no longer current
+ */
+export class SiteConfigConflictError extends Error {
+  constructor(readonly currentVersion: number, readonly expectedVersion: number) {
+    super(
+      `Site configuration was changed by someone else (now version ${currentVersion}, ` +
+      `edited from version ${expectedVersion}). Reload and try again.`
+    );
+    this.name = 'SiteConfigConflictError';
+  }
+}
+
+/**
+ * The site configuration, with defaults for anything an admin hasn't set
+ */
+export async function getSiteConfig(): Promise<SiteConfig> {
+  return memoizeForInvocation('site-config', 'site', async () => {
+    const stored = await storage.get(CONFIG_KEY) as SiteConfig | undefined;
+    return stored ? mergeConfig(DEFAULT_SITE_CONFIG, stored) : DEFAULT_SITE_CONFIG;
+  });
+}
+
+/**
+ * Validate and save a partial update as the next version.
+ * Throws SiteConfigConflictError if expectedVersion isn't current, or an Error
+ * listing every invalid field.
+ */
+export async function updateSiteConfig(
+  update: SiteConfigUpdate,
+  expectedVersion: number,
+  updatedBy: string
+): Promise<SiteConfig> {
+  const unknownFields = Object.keys(update).filter(
+    field => !(field in DEFAULT_SITE_CONFIG) || ['version', 'updatedAt', 'updatedBy'].includes(field)
+  );
+  if (unknownFields.length > 0) {
+    throw new Error(`Unknown or read-only settings: ${unknownFields.join(', ')}`);
+  }
+
+  const current = await getSiteConfig();
+  if (expectedVersion !== current.version) {
+    throw new SiteConfigConflictError(current.version, expectedVersion);
+  }
+
+  const merged = mergeConfig(current, normalizeUpdate(update));
+  const errors = [...validateConfig(merged), ...await validateAgainstJira(merged, current)];
+  if (errors.length > 0) {
+    throw new Error(`Invalid site configuration: ${errors.join('; ')}`);
+  }
+
+  const config: SiteConfig = {
+    ...merged,
+    version: current.version + 1,
+    updatedAt: new Date(),
+    updatedBy
+  };
+
+  await storage.set(CONFIG_KEY, config);
+  await storage.set(historyKey(config.version), { version: config.version, config } as SiteConfigVersion);
+  if (config.version > HISTORY_VERSIONS) {
+    await storage.delete(historyKey(config.version - HISTORY_VERSIONS));
+  }
+  getInvocationMemo<Promise<SiteConfig>>('site-config').set('site', Promise.resolve(config));
+
+  logger.info('Site configuration saved', { version: config.version });
+  return config;
+}
+
+/**
+ * Saved versions, newest first
+ */
+export async function listSiteConfigHistory(): Promise<SiteConfigVersion[]> {
+  const entries = await listStorageEntries<SiteConfigVersion>(HISTORY_PREFIX);
+  return entries.map(entry => entry.value).sort((a, b) => b.version - a.version);
+}
+
+/**
+ * Remove a user's account ID from the configuration and its history, returning how many changed
+ */
+export async function forgetSiteConfigAuthor(accountId: string): Promise<number> {
+  let changed = 0;
+
+  const stored = await storage.get(CONFIG_KEY) as SiteConfig | undefined;
+  if (stored?.updatedBy === accountId) {
+    const { updatedBy, ...config } = stored;
+    await storage.set(CONFIG_KEY, config);
+    getInvocationMemo('site-config').delete('site');
+    changed++;
+  }
+
+  const history = await listStorageEntries<SiteConfigVersion>(HISTORY_PREFIX);
+  const authored = history.filter(entry => entry.value.config.updatedBy === accountId);
+  await Promise.all(authored.map(({ key, value }) => {
+    const { updatedBy, ...config } = value.config;
+    return storage.set(key, { ...value, config });
+  }));
+
+  return changed + authored.length;
+}
+
+/**
+ * The debug logging switch; expired debug periods read as off
+ */
+export async function getLoggingConfig(): Promise<LoggingConfig> {
+  return memoizeForInvocation('site-config', 'logging', async () => {
+    const stored = await storage.get(LOGGING_KEY) as LoggingConfig | undefined;
+    const debugUntil = stored?.debugUntil ? new Date(stored.debugUntil) : null;
+    return { debugUntil: debugUntil && debugUntil > new Date() ? debugUntil : null };
+  });
+}
+
+/**
+ * Switch debug logging on for the next DEBUG_LOGGING_HOURS, or off
+ */
+export async function setDebugLogging(enabled: boolean): Promise<LoggingConfig> {
+  const config: LoggingConfig = {
+    debugUntil: enabled ? new Date(Date.now() + DEBUG_LOGGING_HOURS * 60 * 60 * 1000) : null
+  };
+  await storage.set(LOGGING_KEY, config);
+  getInvocationMemo<Promise<LoggingConfig>>('site-config').set('logging', Promise.resolve(config));
+  setLogLevel(enabled ? 'debug' : 'info');
+
+  logger.info('Debug logging switched', { enabled, debugUntil: config.debugUntil });
+  return config;
+}
+
+/**
+ * Wrap a handler so its invocation logs at the level the admin page sets.
+ * Must run inside an invocation scope.
+ */
+export function withSiteLogLevel<A extends any[], R>(
+  handler: (...args: A) => Promise<R>
+): (...args: A) => Promise<R> {
+  return async (...args: A) => {
+    try {
+      const { debugUntil } = await getLoggingConfig();
+      setLogLevel(debugUntil ? 'debug' : 'info');
+    } catch (error) {
+      logger.warn('Could not read the logging configuration', { error });
+    }
+    return handler(...args);
+  };
+}
+
+/**
+ * Whether a project is analyzed; every project is when no scope is set
+ */
+export function isProjectInScope(projectKey: string, config: SiteConfig): boolean {
+  return config.projectsInScope.length === 0 || config.projectsInScope.includes(projectKey);
+}
+
+/**
+ * Data points an analysis needs before it reports results
+ */
+export async function getMinDataPoints(analysis: ThresholdAnalysis): Promise<number> {
+  return (await getSiteConfig()).minDataPoints[analysis];
+}
+
+/**
+ * How long a namespace's cached analyses stay fresh
+ */
+export async function getCacheTtlHours(namespace: CacheKey['namespace']): Promise<number> {
+  return (await getSiteConfig()).cacheTtlHours[namespace];
+}
+
+function historyKey(version: number): string {
+  // Zero-padded so keys sort by version
+  return `${HISTORY_PREFIX}${String(version).padStart(8, '0')}`;
+}
+
+function mergeConfig(base: SiteConfig, update: Partial<SiteConfig>): SiteConfig {
+  return {
+    ...base,
+    ...update,
+    minDataPoints: { ...base.minDataPoints, ...update.minDataPoints },
+    cacheTtlHours: { ...base.cacheTtlHours, ...update.cacheTtlHours },
+    team: { ...base.team, ...update.team }
+  };
+}
+
+// Tidy admin input before validation: trim, dedupe, upper-case project keys, lower-case status names
+function normalizeUpdate(update: SiteConfigUpdate): SiteConfigUpdate {
+  const normalized: SiteConfigUpdate = { ...update };
+
+  if (Array.isArray(update.projectsInScope)) {
+    normalized.projectsInScope = Array.from(new Set(
+      update.projectsInScope.map(key => String(key).trim().toUpperCase()).filter(Boolean)
+    ));
+  }
+  if (update.workflowStatuses && typeof update.workflowStatuses === 'object') {
+    normalized.workflowStatuses = {};
+    for (const [name, stage] of Object.entries(update.workflowStatuses)) {
+      if (name.trim()) {
+        normalized.workflowStatuses[name.trim().toLowerCase()] = stage;
+      }
+    }
+  }
+  if (update.storyPointFieldId === '') {
+    normalized.storyPointFieldId = null;
+  }
+  return normalized;
+}
+
+function validateConfig(config: SiteConfig): string[] {
+  const errors: string[] = [];
+  const isWholeNumber = (value: unknown, min: number, max: number) =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+  if (!config.workflowStatuses || typeof config.workflowStatuses !== 'object' ||
+      !Object.values(config.workflowStatuses).every(stage => WORKFLOW_STAGES.includes(stage as WorkflowStage))) {
+    errors.push(`workflowStatuses must map status names to one of: ${WORKFLOW_STAGES.join(', ')}`);
+  }
+
+  if (config.storyPointFieldId !== null && typeof config.storyPointFieldId !== 'string') {
+    errors.push('storyPointFieldId must be a field ID or null');
+  }
+
+  if (!Array.isArray(config.projectsInScope) || config.projectsInScope.length > MAX_PROJECTS_IN_SCOPE ||
+      !config.projectsInScope.every(key => /^[A-Z][A-Z0-9_]{0,49}$/.test(key))) {
+    errors.push(`projectsInScope must be up to ${MAX_PROJECTS_IN_SCOPE} Jira project keys`);
+  }
+
+  const invalidThresholds = Object.entries(config.minDataPoints)
+    .filter(([analysis, value]) => !(analysis in DEFAULT_SITE_CONFIG.minDataPoints) || !isWholeNumber(value, 1, 500))
+    .map(([analysis]) => analysis);
+  if (invalidThresholds.length > 0) {
+    errors.push(`minDataPoints must be whole numbers from 1 to 500 (invalid: ${invalidThresholds.join(', ')})`);
+  }
+
+  const invalidTtls = Object.entries(config.cacheTtlHours)
+    .filter(([namespace, hours]) =>
+      !(namespace in DEFAULT_SITE_CONFIG.cacheTtlHours) ||
+      typeof hours !== 'number' || !(hours > 0) || hours > MAX_CACHE_TTL_HOURS)
+    .map(([namespace]) => namespace);
+  if (invalidTtls.length > 0) {
+    errors.push(`cacheTtlHours must be above 0 and at most ${MAX_CACHE_TTL_HOURS} (invalid: ${invalidTtls.join(', ')})`);
+  }
+
+  if (typeof config.team.enabled !== 'boolean') {
+    errors.push('team.enabled must be true or false');
+  }
+  if (!isWholeNumber(config.team.minBucketSize, MIN_TEAM_BUCKET_SIZE, 50)) {
+    errors.push(`team.minBucketSize must be a whole number from ${MIN_TEAM_BUCKET_SIZE} to 50`);
+  }
+
+  return errors;
+}
+
+/**
+ * Checks that need Jira: mapped statuses must exist (they end up in JQL) and the
+ * story point field must be a number field. Only changed values are checked.
+ */
+async function validateAgainstJira(config: SiteConfig, current: SiteConfig): Promise<string[]> {
+  const errors: string[] = [];
+
+  const newStatuses = Object.keys(config.workflowStatuses).filter(name => !(name in current.workflowStatuses));
+  if (newStatuses.length > 0) {
+    const siteStatuses = new Set((await jiraClient.getStatuses()).map(status => String(status.name).toLowerCase()));
+    const unknown = newStatuses.filter(name => !siteStatuses.has(name));
+    if (unknown.length > 0) {
+      errors.push(`workflowStatuses names statuses that don't exist: ${unknown.join(', ')}`);
+    }
+  }
+
+  if (config.storyPointFieldId && config.storyPointFieldId !== current.storyPointFieldId) {
+    const field = (await jiraClient.getFields()).find(f => f.id === config.storyPointFieldId);
+    if (!field) {
+      errors.push(`storyPointFieldId ${config.storyPointFieldId} does not exist`);
+    } else if (field.schema?.type !== 'number') {
+      errors.push(`storyPointFieldId ${config.storyPointFieldId} (${field.name}) is not a number field`);
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,187 @@
+/**
+ * Snapshot Store
+ * Append-only daily history of each analysis in Forge storage
+ *
+ * Keys are `snapshot:{accountId}:{analysis}:{YYYY-MM-DD}`, so one user's history
+ * for one analysis is a single prefix scan. Past days are never rewritten; the
+ * current day's record is replaced as analyses rerun, so it ends up holding the
+ * day's last reading. Records older than the retention window are pruned when
+ * the first record of a new day is written.
+ *
+ * Analyses record a snapshot whenever they are computed, and from their cached
+ * entry on the first read of a day that has none.
+ */
+
+import { storage } from '@forge/api';
+import { listStorageEntries, deleteStorageByPrefix } from './storageScan';
+import { getDaysAgo } from '../utils/dateHelpers';
+import {
+  AnalysisSnapshot,
+  SnapshotAnalysis,
+  SnapshotMetricName,
+  SnapshotMetrics,
+  SnapshotPoint
+} from '../models/snapshot';
+import { logger } from '../utils/logger';
+
+const SNAPSHOT_PREFIX = 'snapshot:';
+
+export const SNAPSHOT_RETENTION_DAYS = 365;
+export const DEFAULT_SNAPSHOT_DAYS = 90;
+
+// Chartable metrics per analysis, for validating history queries
+export const SNAPSHOT_METRICS: { [A in SnapshotAnalysis]: SnapshotMetricName<A>[] } = {
+  timing: ['peakStart', 'peakEnd', 'dangerStart', 'dangerEnd'],
+  load: ['optimalMin', 'optimalMax', 'currentLoad'],
+  strengths: ['expertComponents'],
+  trends: ['issuesCompleted', 'storyPoints', 'avgCycleTime', 'qualityScore'],
+  pitcrew: ['totalCollaborations', 'avgCollaborationCycleTime'],
+  burnout: ['burnoutScore', 'completedLastWeek', 'afterHoursShare']
+};
+
+/**
+ * Record today's snapshot of an analysis. Failures are logged, never thrown,
+ * so history can't break the analysis that produced it.
+ */
+export async function recordSnapshot<A extends SnapshotAnalysis>(
+  accountId: string,
+  analysis: A,
+  metrics: SnapshotMetrics[A],
+  confidence: AnalysisSnapshot['confidence']
+): Promise<void> {
+  try {
+    const date = toSnapshotDate(new Date());
+    const key = `${snapshotPrefix(accountId, analysis)}${date}`;
+    const firstToday = !(await storage.get(key));
+
+    const snapshot: AnalysisSnapshot<A> = {
+      accountId,
+      analysis,
+      date,
+      recordedAt: new Date(),
+      confidence,
+      metrics
+    };
+    await storage.set(key, snapshot);
+
+    if (firstToday) {
+      await pruneSnapshots(accountId, analysis);
+    }
+  } catch (error) {
+    logger.error('Error recording snapshot', { analysis, error });
+  }
+}
+
+/**
+ * Record today's snapshot from a cached analysis unless the day already has one,
+ * so history keeps a reading for every day the user is seen, not only the days
+ * their cache entry expires. Entries computed today recorded theirs already.
+ */
+export async function recordSnapshotIfMissing<A extends SnapshotAnalysis>(
+  accountId: string,
+  analysis: A,
+  cached: { lastUpdated: Date | string; confidence: AnalysisSnapshot['confidence'] },
+  toMetrics: () => SnapshotMetrics[A]
+): Promise<void> {
+  const today = toSnapshotDate(new Date());
+  if (toSnapshotDate(new Date(cached.lastUpdated)) === today) {
+    return;
+  }
+
+  try {
+    if (await storage.get(`${snapshotPrefix(accountId, analysis)}${today}`)) {
+      return;
+    }
+  } catch (error) {
+    logger.error('Error reading snapshot', { analysis, error });
+    return;
+  }
+  await recordSnapshot(accountId, analysis, toMetrics(), cached.confidence);
+}
+
+/**
+ * Snapshots of an analysis for the last `days` days, oldest first
+ */
+export async function getSnapshots<A extends SnapshotAnalysis>(
+  accountId: string,
+  analysis: A,
+  days: number = DEFAULT_SNAPSHOT_DAYS
+): Promise<AnalysisSnapshot<A>[]> {
+  const since = toSnapshotDate(getDaysAgo(days - 1));
+  const entries = await listStorageEntries<AnalysisSnapshot<A>>(snapshotPrefix(accountId, analysis));
+
+  return entries
+    .map(entry => entry.value)
+    .filter(snapshot => snapshot.date >= since)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * A user's most recent snapshot of an analysis, if one was recorded in the last
+ * `maxAgeDays` days. Reads day keys directly instead of scanning the history.
+ */
+export async function getLatestSnapshot<A extends SnapshotAnalysis>(
+  accountId: string,
+  analysis: A,
+  maxAgeDays: number
+): Promise<AnalysisSnapshot<A> | null> {
+  for (let daysAgo = 0; daysAgo < maxAgeDays; daysAgo++) {
+    const key = `${snapshotPrefix(accountId, analysis)}${toSnapshotDate(getDaysAgo(daysAgo))}`;
+    const snapshot = await storage.get(key) as AnalysisSnapshot<A> | undefined;
+    if (snapshot) {
+      return snapshot;
+    }
+  }
+  return null;
+}
+
+/**
+ * One numeric metric over the last `days` days, e.g. burnout score for the last 90 days
+ */
+export async function getSnapshotSeries<A extends SnapshotAnalysis>(
+  accountId: string,
+  analysis: A,
+  metric: SnapshotMetricName<A>,
+  days: number = DEFAULT_SNAPSHOT_DAYS
+): Promise<SnapshotPoint[]> {
+  const snapshots = await getSnapshots(accountId, analysis, days);
+  const points: SnapshotPoint[] = [];
+
+  for (const snapshot of snapshots) {
+    const value = (snapshot.metrics as Record<string, unknown>)[metric];
+    if (typeof value === 'number') {
+      points.push({ date: snapshot.date, value });
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Calendar day (UTC) a snapshot is filed under
+ */
+export function toSnapshotDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Delete a user's whole history, returning how many snapshots were deleted
+ */
+export async function deleteSnapshots(accountId: string): Promise<number> {
+  return deleteStorageByPrefix(`${SNAPSHOT_PREFIX}${accountId}:`);
+}
+
+async function pruneSnapshots(accountId: string, analysis: SnapshotAnalysis): Promise<void> {
+  const cutoff = toSnapshotDate(getDaysAgo(SNAPSHOT_RETENTION_DAYS));
+  const entries = await listStorageEntries<AnalysisSnapshot>(snapshotPrefix(accountId, analysis));
+  const expired = entries.filter(entry => entry.value.date < cutoff);
+
+  await Promise.all(expired.map(entry => storage.delete(entry.key)));
+  if (expired.length > 0) {
+    logger.debug('Pruned snapshots', { analysis, accountId, pruned: expired.length });
+  }
+}
+
+function snapshotPrefix(accountId: string, analysis: SnapshotAnalysis): string {
+  return `${SNAPSHOT_PREFIX}${accountId}:${analysis}:`;
+}
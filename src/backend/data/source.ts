@@ -0,0 +1,72 @@
+/**
+ * Telemetry Data Source
+ * The data access contract analyzers depend on, and the registry that selects a provider
+ *
+ * Providers:
+ * - 'jira' (default): live Jira and Bitbucket data through Forge APIs
+ * - 'fixture': recorded JSON payloads from TELEMETRY_FIXTURE_DIR, for offline development,
+ *   demos and deterministic analyzer regression runs
+ *
+ * Whichever provider is active is wrapped in a ScopedDataSource, which applies
+ * each user's settings (exclusions, timezone override) to what analyzers read.
+ */
+
+import { JiraIssue, IssueWithMetrics, IssueProgress, SprintScope } from '../models/issue';
+import { UserActivity } from '../models/metrics';
+import { ReviewHistory } from './bitbucket/pullRequests';
+import { JiraDataSource } from './providers/jira';
+import { FixtureDataSource } from './providers/fixture';
+import { ScopedDataSource } from './providers/scoped';
+
+export interface TelemetryDataSource {
+  readonly name: string;
+
+  getUserIssues(accountId?: string, daysBack?: number): Promise<JiraIssue[]>;
+  getUserIssuesWithMetrics(accountId?: string, daysBack?: number): Promise<IssueWithMetrics[]>;
+  getActiveIssues(accountId?: string): Promise<JiraIssue[]>;
+  getCompletedIssues(accountId?: string, daysBack?: number): Promise<JiraIssue[]>;
+  getTeamIssues(projectKeys: string[], daysBack?: number): Promise<JiraIssue[]>;
+  getIssueProgress(accountId: string | undefined, issueKey: string): Promise<IssueProgress | null>;
+  getActiveIssueProgress(accountId?: string): Promise<IssueProgress[]>;
+  countActiveTickets(accountId?: string): Promise<number>;
+  getCurrentSprintScope(accountId?: string, sprintId?: string): Promise<SprintScope | null>;
+  getProjectSprintScope(projectKey: string): Promise<SprintScope | null>;
+  getUserTimeZone(accountId?: string): Promise<string>;
+  getUserActivity(accountId?: string, daysBack?: number): Promise<UserActivity>;
+
+  isReviewDataAvailable(): boolean;
+  getReviewHistory(accountId?: string, daysBack?: number): Promise<ReviewHistory>;
+}
+
+let activeSource: TelemetryDataSource | null = null;
+
+/**
+ * Get the active data source, creating it from TELEMETRY_DATA_SOURCE on first use
+ */
+export function getDataSource(): TelemetryDataSource {
+  if (!activeSource) {
+    activeSource = new ScopedDataSource(createDataSourceFromEnv());
+  }
+  return activeSource;
+}
+
+/**
+ * Replace the active data source (e.g. a fixture provider in a local harness)
+ */
+export function setDataSource(source: TelemetryDataSource): void {
+  activeSource = new ScopedDataSource(source);
+}
+
+function createDataSourceFromEnv(): TelemetryDataSource {
+  const provider = (process.env.TELEMETRY_DATA_SOURCE || 'jira').toLowerCase();
+
+  if (provider === 'fixture') {
+    const directory = process.env.TELEMETRY_FIXTURE_DIR;
+    if (!directory) {
+      throw new Error('TELEMETRY_FIXTURE_DIR must be set when TELEMETRY_DATA_SOURCE=fixture');
+    }
+    return new FixtureDataSource(directory);
+  }
+
+  return new JiraDataSource();
+}
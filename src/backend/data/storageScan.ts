@@ -0,0 +1,40 @@
+/**
+ * Storage Scans
+ * Prefix queries over Forge storage, following cursors to the end
+ */
+
+import { storage, startsWith } from '@forge/api';
+
+export interface StorageEntry<T> {
+  key: string;
+  value: T;
+}
+
+/**
+ * Every entry whose key starts with the prefix
+ */
+export async function listStorageEntries<T>(prefix: string): Promise<StorageEntry<T>[]> {
+  const entries: StorageEntry<T>[] = [];
+  let cursor: string | undefined;
+
+  do {
+    let query = storage.query().where('key', startsWith(prefix)).limit(100);
+    if (cursor) {
+      query = query.cursor(cursor);
+    }
+    const page = await query.getMany();
+    entries.push(...page.results.map(result => ({ key: result.key, value: result.value as T })));
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return entries;
+}
+
+/**
+ * Delete every entry whose key starts with the prefix, returning how many were deleted
+ */
+export async function deleteStorageByPrefix(prefix: string): Promise<number> {
+  const entries = await listStorageEntries<unknown>(prefix);
+  await Promise.all(entries.map(entry => storage.delete(entry.key)));
+  return entries.length;
+}
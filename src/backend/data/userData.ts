@@ -0,0 +1,91 @@
+/**
+ * User Data
+ * Everything the app stores about one user, for "delete all my data" and
+ * Atlassian personal data reporting
+ *
+ * Per-user keys:
+ * - `consent:{accountId}` and `settings:{accountId}`
+ * - `user:{accountId}:*` cached analyses, and their `lock:user:{accountId}:*` refresh locks
+ * - `snapshot:{accountId}:*` daily history
+ * - `issues:{accountId}:*`, `issues-meta:{accountId}` and `issues-owners:*:{accountId}`
+ * - `precompute:optin:{accountId}` and `precompute:result:*:{accountId}`
+ * Admin overrides (`config:workflow:*`, `config:estimation:*`) and the site
+ * configuration (`config:site`, `config:site-history:*`) also name the admin
+ * who saved them; that account ID is removed, the configuration kept.
+ *
+ * Consent and the precompute opt-in go first, so nothing new is analyzed for the
+ * user while the rest is deleted.
+ */
+
+import { DataDeletionResult } from '../models/consent';
+import { deleteConsentRecord, listConsentRecords } from './consent';
+import { deleteUserCache } from './cache';
+import { deleteUserSettings } from './settings';
+import { deleteSnapshots } from './snapshots';
+import { deleteIssueStore, listIssueStoreAccounts } from './issueStore';
+import { deletePrecomputeData, listPrecomputeOptIns } from './precompute';
+import { forgetWorkflowOverrideAuthor } from './jira/workflow';
+import { forgetEstimationOverrideAuthor } from './jira/estimation';
+import { forgetSiteConfigAuthor } from './siteConfig';
+import { logger } from '../utils/logger';
+
+/**
+ * Delete every stored key for a user
+ */
+export async function deleteAllUserData(accountId: string): Promise<DataDeletionResult> {
+  logger.info('Deleting all stored data', { accountId });
+
+  const consent = await deleteConsentRecord(accountId);
+  const precompute = await deletePrecomputeData(accountId);
+  const issueStore = await deleteIssueStore(accountId);
+  const [settings, cache, snapshots, workflowAuthorship, estimationAuthorship, siteAuthorship] = await Promise.all([
+    deleteUserSettings(accountId),
+    deleteUserCache(accountId),
+    deleteSnapshots(accountId),
+    forgetWorkflowOverrideAuthor(accountId),
+    forgetEstimationOverrideAuthor(accountId),
+    forgetSiteConfigAuthor(accountId)
+  ]);
+
+  const deleted: DataDeletionResult['deleted'] = {
+    consent,
+    settings,
+    cache,
+    snapshots,
+    issueStore,
+    precompute,
+    configAuthorship: workflowAuthorship + estimationAuthorship + siteAuthorship
+  };
+  const totalDeleted = Object.values(deleted).reduce((sum, count) => sum + count, 0);
+
+  logger.info('Deleted all stored data', { accountId, totalDeleted });
+  return { accountId, deletedAt: new Date(), deleted, totalDeleted };
+}
+
+/**
+ * Every account the app holds data for, with when that data was last stored.
+ * Analyses only run with consent, so anyone with stored results has a consent
+ * record, an issue store or a precompute opt-in.
+ */
+export async function listAccountsWithData(): Promise<Map<string, Date>> {
+  const [consents, issueStores, optIns] = await Promise.all([
+    listConsentRecords(),
+    listIssueStoreAccounts(),
+    listPrecomputeOptIns()
+  ]);
+
+  const accounts = new Map<string, Date>();
+  const add = (accountId: string, updatedAt: Date) => {
+    const date = new Date(updatedAt);
+    const existing = accounts.get(accountId);
+    if (!existing || existing < date) {
+      accounts.set(accountId, date);
+    }
+  };
+
+  consents.forEach(record => add(record.accountId, record.updatedAt));
+  issueStores.forEach(store => add(store.accountId, store.backfilledAt));
+  optIns.forEach(optIn => add(optIn.accountId, optIn.optedInAt));
+
+  return accounts;
+}
@@ -13,6 +13,37 @@ import { getRecommendation } from '../analyzers/recommendation';
 import { analyzeBurnoutRisk } from '../analyzers/burnout';
 import { analyzePitCrewPatterns } from '../analyzers/pitcrew';
 import { predictSprintCompletion } from '../analyzers/predictions';
+import { analyzeWipAging } from '../analyzers/aging';
+import { analyzeFlowEfficiency } from '../analyzers/flow';
+import { isJiraDataUnavailable, describeDataUnavailable } from '../data/jira/errors';
+import { resolveAccountId } from '../data/jira/users';
+import { isConsentRequired, requireActiveConsent } from '../data/consent';
+import { logger } from '../utils/logger';
+
+// A Rovo action's inputs, as declared for the action in manifest.yml
+export type ActionPayload = Record<string, unknown>;
+
+// Invocation context Forge passes a Rovo action's function
+export interface ActionContext {
+  accountId?: string; // who asked the agent
+  installContext?: string;
+}
+
+type ActionHandler<P extends ActionPayload> = (payload: P, context: ActionContext) => Promise<unknown>;
+
+/**
+ * Wrap an action handler so it only runs for users with active consent
+ */
+export function withTelemetryConsent<P extends ActionPayload>(handler: ActionHandler<P>): ActionHandler<P> {
+  return async (payload, context) => {
+    try {
+      await requireActiveConsent(await resolveAccountId(context?.accountId));
+    } catch (error) {
+      return createErrorResponse(error);
+    }
+    return handler(payload, context);
+  };
+}
 
 /**
  * Handler for analyze-timing action
@@ -29,11 +60,8 @@ export async function analyzeTimingPatternsHandler(payload: any, context: any) {
       data: analysis
     };
   } catch (error) {
-    console.error('Error in analyzeTimingPatternsHandler:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
-    };
+    logger.error('Error in analyzeTimingPatternsHandler', { error });
+    return createErrorResponse(error);
   }
 }
 
@@ -52,11 +80,8 @@ export async function analyzeStrengthPatternsHandler(payload: any, context: any)
       data: analysis
     };
   } catch (error) {
-    console.error('Error in analyzeStrengthPatternsHandler:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
-    };
+    logger.error('Error in analyzeStrengthPatternsHandler', { error });
+    return createErrorResponse(error);
   }
 }
 
@@ -75,11 +100,8 @@ export async function analyzeCollaborationPatternsHandler(payload: any, context:
       data: analysis
     };
   } catch (error) {
-    console.error('Error in analyzeCollaborationPatternsHandler:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
-    };
+    logger.error('Error in analyzeCollaborationPatternsHandler', { error });
+    return createErrorResponse(error);
   }
 }
 
@@ -97,11 +119,8 @@ export async function analyzeLoadPatternsHandler(payload: any, context: any) {
       data: analysis
     };
   } catch (error) {
-    console.error('Error in analyzeLoadPatternsHandler:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
-    };
+    logger.error('Error in analyzeLoadPatternsHandler', { error });
+    return createErrorResponse(error);
   }
 }
 
@@ -111,7 +130,7 @@ export async function analyzeLoadPatternsHandler(payload: any, context: any) {
 export async function analyzeTrendsHandler(payload: any, context: any) {
   try {
     const accountId = context.accountId;
-    const { months = 6 } = payload;
+    const { months } = payload;
 
     const analysis = await analyzeTrends(accountId, months);
 
@@ -120,11 +139,8 @@ export async function analyzeTrendsHandler(payload: any, context: any) {
       data: analysis
     };
   } catch (error) {
-    console.error('Error in analyzeTrendsHandler:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
-    };
+    logger.error('Error in analyzeTrendsHandler', { error });
+    return createErrorResponse(error);
   }
 }
 
@@ -142,11 +158,8 @@ export async function getCurrentStatusHandler(payload: any, context: any) {
       data: status
     };
   } catch (error) {
-    console.error('Error in getCurrentStatusHandler:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
-    };
+    logger.error('Error in getCurrentStatusHandler', { error });
+    return createErrorResponse(error);
   }
 }
 
@@ -172,11 +185,8 @@ export async function getRecommendationHandler(payload: any, context: any) {
       data: recommendations
     };
   } catch (error) {
-    console.error('Error in getRecommendationHandler:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
-    };
+    logger.error('Error in getRecommendationHandler', { error });
+    return createErrorResponse(error);
   }
 }
 
@@ -194,11 +204,8 @@ export async function analyzeBurnoutRiskHandler(payload: any, context: any) {
       data: analysis
     };
   } catch (error) {
-    console.error('Error in analyzeBurnoutRiskHandler:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
-    };
+    logger.error('Error in analyzeBurnoutRiskHandler', { error });
+    return createErrorResponse(error);
   }
 }
 
@@ -216,11 +223,8 @@ export async function analyzePitCrewHandler(payload: any, context: any) {
       data: analysis
     };
   } catch (error) {
-    console.error('Error in analyzePitCrewHandler:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
-    };
+    logger.error('Error in analyzePitCrewHandler', { error });
+    return createErrorResponse(error);
   }
 }
 
@@ -230,18 +234,102 @@ export async function analyzePitCrewHandler(payload: any, context: any) {
 export async function predictSprintHandler(payload: any, context: any) {
   try {
     const accountId = context.accountId;
+    const { sprintId, horizonWeeks } = payload || {};
 
-    const prediction = await predictSprintCompletion(accountId);
+    if (sprintId !== undefined && !/^\d+$/.test(String(sprintId))) {
+      return {
+        success: false,
+        error: 'sprintId must be a numeric Jira sprint id'
+      };
+    }
+
+    const weeks = horizonWeeks !== undefined ? Number(horizonWeeks) : undefined;
+    if (weeks !== undefined && (!Number.isInteger(weeks) || weeks < 1 || weeks > 12)) {
+      return {
+        success: false,
+        error: 'horizonWeeks must be a whole number between 1 and 12'
+      };
+    }
+
+    const prediction = await predictSprintCompletion(
+      accountId,
+      sprintId !== undefined ? String(sprintId) : undefined,
+      weeks
+    );
 
     return {
       success: true,
       data: prediction
     };
   } catch (error) {
-    console.error('Error in predictSprintHandler:', error);
+    logger.error('Error in predictSprintHandler', { error });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * Handler for analyze-aging action
+ */
+export async function analyzeWipAgingHandler(payload: any, context: any) {
+  try {
+    const accountId = context.accountId;
+
+    const analysis = await analyzeWipAging(accountId);
+
+    return {
+      success: true,
+      data: analysis
+    };
+  } catch (error) {
+    logger.error('Error in analyzeWipAgingHandler', { error });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * Handler for analyze-flow action
+ */
+export async function analyzeFlowEfficiencyHandler(payload: any, context: any) {
+  try {
+    const accountId = context.accountId;
+
+    const analysis = await analyzeFlowEfficiency(accountId);
+
+    return {
+      success: true,
+      data: analysis
+    };
+  } catch (error) {
+    logger.error('Error in analyzeFlowEfficiencyHandler', { error });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * Build a failed handler response. Rate limits and outages are flagged so the
+ * agent can say data is temporarily unavailable rather than reporting zero scores,
+ * and missing consent so it can point the user to the dashboard.
+ */
+function createErrorResponse(error: unknown) {
+  if (isConsentRequired(error)) {
+    return {
+      success: false,
+      error: error.message,
+      consentRequired: true
+    };
+  }
+
+  if (isJiraDataUnavailable(error)) {
+    const unavailable = describeDataUnavailable(error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
+      error: unavailable.message,
+      dataUnavailable: unavailable
     };
   }
+
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : 'Unknown error occurred'
+  };
 }
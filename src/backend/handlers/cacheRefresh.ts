@@ -0,0 +1,66 @@
+/**
+ * Cache Refresh Handler
+ * Async event consumer that recomputes cache entries served stale
+ */
+
+import Resolver from '@forge/resolver';
+import { analyzeTimingPatterns } from '../analyzers/timing';
+import { analyzeLoadPatterns } from '../analyzers/load';
+import { analyzeStrengthPatterns } from '../analyzers/strengths';
+import { analyzeCollaborationPatterns } from '../analyzers/collaboration';
+import { analyzeTrends } from '../analyzers/trends';
+import { analyzePitCrewPatterns } from '../analyzers/pitcrew';
+import { analyzeContextSwitching } from '../analyzers/contextSwitching';
+import { bypassCacheForInvocation, releaseCacheLock } from '../data/cache';
+import { actAsAppForUser } from '../data/jira/principal';
+import { hasActiveConsent } from '../data/consent';
+import { CacheKey } from '../models/cache';
+import { logger } from '../utils/logger';
+
+type Refresher = (accountId: string, suffix?: string) => Promise<unknown>;
+
+// Namespaces read with staleWhileRevalidate, and how to recompute each
+const REFRESHERS: Partial<Record<CacheKey['namespace'], Refresher>> = {
+  timing: accountId => analyzeTimingPatterns(accountId),
+  load: accountId => analyzeLoadPatterns(accountId),
+  strengths: accountId => analyzeStrengthPatterns(accountId),
+  collaboration: (accountId, suffix) => analyzeCollaborationPatterns(accountId, suffix),
+  trends: accountId => analyzeTrends(accountId),
+  pitcrew: accountId => analyzePitCrewPatterns(accountId),
+  focus: accountId => analyzeContextSwitching(accountId)
+};
+
+const resolver = new Resolver();
+
+/**
+ * Recompute one cache entry
+ * Payload: { namespace, accountId, suffix? } as queued by the cache layer
+ */
+resolver.define('refresh', async ({ payload }) => {
+  const key = payload as CacheKey;
+  const refresher = REFRESHERS[key.namespace];
+
+  if (!refresher || !key.accountId) {
+    logger.error('Unknown cache refresh request', { payload });
+    return;
+  }
+
+  try {
+    if (!(await hasActiveConsent(key.accountId))) {
+      logger.info('Skipping refresh; telemetry is off', { namespace: key.namespace, accountId: key.accountId });
+      return;
+    }
+    // Queue consumers run without a user; query Jira as the app on their behalf
+    actAsAppForUser(key.accountId);
+    bypassCacheForInvocation(key);
+    await refresher(key.accountId, key.suffix);
+    logger.info('Refreshed cache', { namespace: key.namespace, accountId: key.accountId });
+  } catch (error) {
+    logger.error('Error refreshing cache', { namespace: key.namespace, accountId: key.accountId, error });
+  } finally {
+    // Analyzers skip the cache write when data is insufficient; let the next read retry
+    await releaseCacheLock(key);
+  }
+});
+
+export const handler = resolver.getDefinitions();
@@ -0,0 +1,204 @@
+/**
+ * Issue Sync Handler
+ * Product trigger for Jira issue and sprint events that keeps each user's issue
+ * store current (see data/issueStore.ts), and a daily reconcile that catches
+ * stores up with anything the events missed
+ *
+ * Only users whose store is already backfilled are updated, so events for issues
+ * nobody here has looked at cost no Jira requests. Analyses that depend on
+ * current work are invalidated for affected users; long-horizon ones (timing,
+ * strengths, trends, pit crew) catch up through their TTL.
+ */
+
+import Resolver from '@forge/resolver';
+import { Queue } from '@forge/events';
+import { getIssuesWithMetricsByKeys, getSprintIssueAssignees } from '../data/jira/issues';
+import { actAsApp, actAsAppForUser } from '../data/jira/principal';
+import {
+  getIssueOwners,
+  isIssueStoreReady,
+  listIssueStoreAccounts,
+  reconcileIssueStore,
+  removeStoredIssue,
+  upsertStoredIssue
+} from '../data/issueStore';
+import { invalidateCacheNamespace } from '../data/cache';
+import { hasActiveConsent } from '../data/consent';
+import { CacheKey } from '../models/cache';
+import { logger } from '../utils/logger';
+
+// Analyses that change as soon as an issue moves
+const ISSUE_DEPENDENT_NAMESPACES: CacheKey['namespace'][] = ['status', 'load', 'burnout', 'predictions', 'issue', 'aging'];
+const SPRINT_DEPENDENT_NAMESPACES: CacheKey['namespace'][] = ['status', 'predictions'];
+
+export const RECONCILE_QUEUE = 'issue-store-reconcile';
+
+// Stores per pushed batch; batches are staggered to spread Jira load
+const STORES_PER_BATCH = 10;
+const BATCH_STAGGER_SECONDS = 60;
+const MAX_PUSH_DELAY_SECONDS = 900;
+
+const reconcileQueue = new Queue({ key: RECONCILE_QUEUE });
+
+export interface IssueEvent {
+  eventType: string;
+  issue: {
+    id: string;
+    key: string;
+    fields?: { assignee?: { accountId?: string } | null };
+  };
+  changelog?: {
+    items?: Array<{ field?: string; fieldId?: string; from?: string | null; to?: string | null }>;
+  };
+}
+
+export interface SprintEvent {
+  eventType: string;
+  sprint: { id: number | string };
+}
+
+/**
+ * Product trigger: apply one issue or sprint event
+ */
+export async function handleIssueSyncEvent(event: IssueEvent | SprintEvent): Promise<void> {
+  // Product triggers have no user context
+  actAsApp();
+
+  try {
+    if ('sprint' in event && event.sprint) {
+      await syncSprint(String(event.sprint.id));
+    } else if ('issue' in event && event.issue) {
+      await syncIssue(event);
+    } else {
+      logger.error('Unknown issue sync event', { eventType: event.eventType });
+    }
+  } catch (error) {
+    logger.error('Error handling issue sync event', { eventType: event.eventType, error });
+  }
+}
+
+async function syncIssue(event: IssueEvent): Promise<void> {
+  const issueKey = event.issue.key;
+
+  if (event.eventType.endsWith(':deleted:issue')) {
+    const owners = await removeStoredIssue(issueKey);
+    await invalidate(owners, ISSUE_DEPENDENT_NAMESPACES);
+    logger.info('Removed issue from issue stores', { issueKey, stores: owners.length });
+    return;
+  }
+
+  // Anyone who holds it, holds it now, or just lost it
+  const candidates = new Set(await getIssueOwners(issueKey));
+  const assigneeId = event.issue.fields?.assignee?.accountId;
+  if (assigneeId) {
+    candidates.add(assigneeId);
+  }
+  for (const item of event.changelog?.items || []) {
+    if (item.fieldId === 'assignee' || item.field === 'assignee') {
+      for (const accountId of [item.from, item.to]) {
+        if (accountId) {
+          candidates.add(accountId);
+        }
+      }
+    }
+  }
+
+  const owners = await filterReadyStores(Array.from(candidates));
+  if (owners.length === 0) {
+    return;
+  }
+
+  const [issue] = await getIssuesWithMetricsByKeys([issueKey]);
+  if (!issue) {
+    logger.info('Issue no longer visible to the app; leaving stores unchanged', { issueKey });
+    return;
+  }
+
+  await Promise.all(owners.map(accountId => upsertStoredIssue(accountId, issue)));
+  await invalidate(owners, ISSUE_DEPENDENT_NAMESPACES);
+  logger.info('Synced issue into issue stores', { issueKey, stores: owners.length });
+}
+
+async function syncSprint(sprintId: string): Promise<void> {
+  let issues: Array<{ key: string; assigneeAccountId: string }>;
+  try {
+    issues = await getSprintIssueAssignees(sprintId);
+  } catch (error) {
+    // Deleted sprints can no longer be searched
+    logger.info('Could not list issues of sprint', { sprintId, error });
+    return;
+  }
+
+  const candidates = new Set(issues.map(issue => issue.assigneeAccountId).filter(Boolean));
+  const owners = await filterReadyStores(Array.from(candidates));
+  await invalidate(owners, SPRINT_DEPENDENT_NAMESPACES);
+  logger.info('Sprint changed; refreshed sprint analyses', { sprintId, users: owners.length });
+}
+
+// Stores that are backfilled and whose owners haven't paused telemetry
+async function filterReadyStores(accountIds: string[]): Promise<string[]> {
+  const ready = await Promise.all(accountIds.map(async accountId =>
+    (await isIssueStoreReady(accountId)) && (await hasActiveConsent(accountId))
+  ));
+  return accountIds.filter((_, index) => ready[index]);
+}
+
+async function invalidate(accountIds: string[], namespaces: CacheKey['namespace'][]): Promise<void> {
+  await Promise.all(accountIds.flatMap(accountId =>
+    namespaces.map(namespace => invalidateCacheNamespace(accountId, namespace))
+  ));
+}
+
+/**
+ * Scheduled trigger: queue a reconcile of every issue store whose owner has active consent
+ */
+export async function startIssueStoreReconcile(): Promise<void> {
+  const stores = await listIssueStoreAccounts();
+  const consented = await Promise.all(stores.map(store => hasActiveConsent(store.accountId)));
+  const accountIds = stores.map(store => store.accountId).filter((_, index) => consented[index]);
+
+  for (let i = 0; i < accountIds.length; i += STORES_PER_BATCH) {
+    const batch = accountIds.slice(i, i + STORES_PER_BATCH);
+    const delayInSeconds = Math.min(MAX_PUSH_DELAY_SECONDS, (i / STORES_PER_BATCH) * BATCH_STAGGER_SECONDS);
+
+    try {
+      await reconcileQueue.push(
+        batch.map(accountId => ({ accountId })),
+        delayInSeconds > 0 ? { delayInSeconds } : undefined
+      );
+    } catch (error) {
+      // Those stores catch up on the next run
+      logger.error('Error queueing issue store reconcile batch', { batch: i / STORES_PER_BATCH, error });
+    }
+  }
+
+  logger.info('Issue store reconcile queued', { stores: accountIds.length });
+}
+
+const resolver = new Resolver();
+
+/**
+ * Reconcile one user's issue store
+ * Payload: { accountId }
+ */
+resolver.define('reconcile-user', async ({ payload }) => {
+  const { accountId } = payload as { accountId: string };
+
+  try {
+    // Telemetry may have been paused since the reconcile was queued
+    if (!(await hasActiveConsent(accountId))) {
+      return;
+    }
+
+    actAsAppForUser(accountId);
+    const result = await reconcileIssueStore(accountId);
+    if (result.issues > 0) {
+      await invalidate([accountId], ISSUE_DEPENDENT_NAMESPACES);
+    }
+    logger.info('Reconciled issue store', { accountId, ...result });
+  } catch (error) {
+    logger.error('Error reconciling issue store', { accountId, error });
+  }
+});
+
+export const reconcileConsumerHandler = resolver.getDefinitions();
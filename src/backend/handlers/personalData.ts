@@ -0,0 +1,55 @@
+/**
+ * Personal Data Reporting Handler
+ * Weekly scheduled trigger that reports every account the app stores data for
+ * to Atlassian's personal data reporting API, and deletes the data of accounts
+ * reported back as closed
+ *
+ * Atlassian expects each stored account to be reported at least every 15 days.
+ * Accounts reported as updated need nothing: the app doesn't store profile data.
+ */
+
+import { privacy } from '@forge/api';
+import { deleteAllUserData, listAccountsWithData } from '../data/userData';
+import { logger } from '../utils/logger';
+
+// Accounts per request, the API's limit
+const REPORT_BATCH_SIZE = 90;
+
+/**
+ * Scheduled trigger: report stored accounts and erase closed ones
+ */
+export async function reportPersonalData(): Promise<void> {
+  const accounts = Array.from(await listAccountsWithData());
+  logger.info('Personal data reporting started', { accounts: accounts.length });
+
+  let closed = 0;
+  for (let i = 0; i < accounts.length; i += REPORT_BATCH_SIZE) {
+    const batch = accounts.slice(i, i + REPORT_BATCH_SIZE).map(([accountId, updatedAt]) => ({
+      accountId,
+      updatedAt: updatedAt.toISOString()
+    }));
+
+    let updates: Awaited<ReturnType<typeof privacy.reportPersonalData>>;
+    try {
+      updates = await privacy.reportPersonalData(batch);
+    } catch (error) {
+      // The next weekly run reports the batch again
+      logger.error('Error reporting personal data batch', { batch: i / REPORT_BATCH_SIZE, error });
+      continue;
+    }
+
+    for (const update of updates) {
+      if (update.status !== 'closed') {
+        continue;
+      }
+      try {
+        await deleteAllUserData(update.accountId);
+        closed++;
+      } catch (error) {
+        logger.error('Error deleting data of closed account', { accountId: update.accountId, error });
+      }
+    }
+  }
+
+  logger.info('Personal data reporting finished', { erasedClosedAccounts: closed });
+}
@@ -0,0 +1,151 @@
+/**
+ * Nightly Precompute Handlers
+ * Scheduled trigger that fans out one async event per opted-in user, and the
+ * consumer that recomputes that user's analyses into the cache
+ *
+ * Scheduled triggers have no user context, so the consumer runs Jira requests
+ * as the app on the user's behalf (see data/jira/principal.ts).
+ */
+
+import Resolver from '@forge/resolver';
+import { Queue } from '@forge/events';
+import { analyzeTimingPatterns } from '../analyzers/timing';
+import { analyzeLoadPatterns } from '../analyzers/load';
+import { analyzeStrengthPatterns } from '../analyzers/strengths';
+import { analyzeTrends } from '../analyzers/trends';
+import { analyzePitCrewPatterns } from '../analyzers/pitcrew';
+import { analyzeContextSwitching } from '../analyzers/contextSwitching';
+import { analyzeBurnoutRisk } from '../analyzers/burnout';
+import { bypassCacheForInvocation } from '../data/cache';
+import { actAsAppForUser } from '../data/jira/principal';
+import { hasActiveConsent } from '../data/consent';
+import {
+  listPrecomputeUsers,
+  recordPrecomputeResult,
+  startPrecomputeRun,
+  updatePrecomputeRun
+} from '../data/precompute';
+import { PrecomputedAnalysis, PrecomputeRun, PrecomputeUserResult } from '../models/precompute';
+import { logger } from '../utils/logger';
+
+export const PRECOMPUTE_QUEUE = 'nightly-precompute';
+
+// Users per pushed batch; batches are staggered to spread Jira load across the night
+const USERS_PER_BATCH = 10;
+const BATCH_STAGGER_SECONDS = 60;
+const MAX_PUSH_DELAY_SECONDS = 900;
+
+// Burnout runs last so it reads the fresh timing, load and focus entries
+const ANALYSES: Array<[PrecomputedAnalysis, (accountId: string) => Promise<unknown>]> = [
+  ['timing', accountId => analyzeTimingPatterns(accountId)],
+  ['load', accountId => analyzeLoadPatterns(accountId)],
+  ['strengths', accountId => analyzeStrengthPatterns(accountId)],
+  ['trends', accountId => analyzeTrends(accountId)],
+  ['pitcrew', accountId => analyzePitCrewPatterns(accountId)],
+  ['focus', accountId => analyzeContextSwitching(accountId)],
+  ['burnout', accountId => analyzeBurnoutRisk(accountId)]
+];
+
+const queue = new Queue({ key: PRECOMPUTE_QUEUE });
+
+/**
+ * Scheduled trigger: start a run and queue every opted-in user with active consent
+ */
+export async function startNightlyPrecompute(): Promise<void> {
+  const optedIn = await listPrecomputeUsers();
+  const consented = await Promise.all(optedIn.map(hasActiveConsent));
+  const accountIds = optedIn.filter((_, index) => consented[index]);
+  const run: PrecomputeRun = {
+    runId: `nightly-${new Date().toISOString()}`,
+    startedAt: new Date(),
+    totalUsers: accountIds.length,
+    jobIds: []
+  };
+
+  await startPrecomputeRun(run);
+  logger.info('Precompute run started', { runId: run.runId, users: accountIds.length });
+
+  for (let i = 0; i < accountIds.length; i += USERS_PER_BATCH) {
+    const batch = accountIds.slice(i, i + USERS_PER_BATCH);
+    const delayInSeconds = Math.min(MAX_PUSH_DELAY_SECONDS, (i / USERS_PER_BATCH) * BATCH_STAGGER_SECONDS);
+
+    try {
+      const jobId = await queue.push(
+        batch.map(accountId => ({ runId: run.runId, accountId })),
+        delayInSeconds > 0 ? { delayInSeconds } : undefined
+      );
+      run.jobIds.push(jobId);
+    } catch (error) {
+      // Record the batch as failed so progress still adds up
+      logger.error('Error queueing precompute batch', { runId: run.runId, batch: i / USERS_PER_BATCH, error });
+      const message = error instanceof Error ? error.message : String(error);
+      await Promise.all(batch.map(accountId => recordPrecomputeResult({
+        runId: run.runId,
+        accountId,
+        status: 'failed',
+        startedAt: new Date(),
+        finishedAt: new Date(),
+        completed: [],
+        failures: ANALYSES.map(([analysis]) => ({ analysis, error: `Not queued: ${message}` }))
+      })));
+    }
+  }
+
+  await updatePrecomputeRun(run);
+}
+
+const resolver = new Resolver();
+
+/**
+ * Recompute one user's analyses. Each analysis is isolated, so one failure
+ * doesn't skip the rest; the outcome is recorded for progress tracking.
+ * Payload: { runId, accountId }
+ */
+resolver.define('precompute-user', async ({ payload }) => {
+  const { runId, accountId } = payload as { runId: string; accountId: string };
+  const startedAt = new Date();
+
+  // Telemetry may have been paused since the run was queued
+  if (!(await hasActiveConsent(accountId))) {
+    await recordPrecomputeResult({
+      runId,
+      accountId,
+      status: 'failed',
+      startedAt,
+      finishedAt: new Date(),
+      completed: [],
+      failures: ANALYSES.map(([analysis]) => ({ analysis, error: 'Telemetry is paused or consent was withdrawn' }))
+    });
+    return;
+  }
+
+  actAsAppForUser(accountId);
+  for (const [analysis] of ANALYSES) {
+    bypassCacheForInvocation({ namespace: analysis, accountId });
+  }
+
+  const completed: PrecomputedAnalysis[] = [];
+  const failures: PrecomputeUserResult['failures'] = [];
+
+  for (const [analysis, run] of ANALYSES) {
+    try {
+      await run(accountId);
+      completed.push(analysis);
+    } catch (error) {
+      logger.error('Precompute failed', { analysis, accountId, error });
+      failures.push({ analysis, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  await recordPrecomputeResult({
+    runId,
+    accountId,
+    status: failures.length === 0 ? 'succeeded' : completed.length > 0 ? 'partial' : 'failed',
+    startedAt,
+    finishedAt: new Date(),
+    completed,
+    failures
+  });
+});
+
+export const consumerHandler = resolver.getDefinitions();
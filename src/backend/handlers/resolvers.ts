@@ -5,6 +5,7 @@
 
 import Resolver from '@forge/resolver';
 import { getCurrentStatus } from '../analyzers/currentStatus';
+import { logger } from '../utils/logger';
 
 const resolver = new Resolver();
 
@@ -18,7 +19,7 @@ resolver.define('getDashboardStatus', async (req) => {
     const status = await getCurrentStatus(accountId);
     return status;
   } catch (error) {
-    console.error('Error in getDashboardStatus:', error);
+    logger.error('Error in getDashboardStatus', { error });
     throw error;
   }
 });
@@ -33,7 +34,7 @@ resolver.define('getIssuePanelStatus', async (req) => {
     const status = await getCurrentStatus(accountId);
     return status;
   } catch (error) {
-    console.error('Error in getIssuePanelStatus:', error);
+    logger.error('Error in getIssuePanelStatus', { error });
     throw error;
   }
 });
@@ -4,23 +4,67 @@
  *
  * UI Kit 2 Structure:
  * - Rovo agent action handlers are exported from handlers/analyzers
- * - UI resolver (for getDashboardStatus, getIssuePanelStatus) is exported from resolvers/index
+ * - UI resolver (for getDashboardStatus, getIssueInsights) is exported from resolvers/index
+ * - Cache refresh queue consumer is exported from handlers/cacheRefresh
+ * - Nightly precompute trigger and queue consumer are exported from handlers/precompute
+ * - Jira issue/sprint event trigger and daily issue store reconcile are exported from handlers/issueSync
+ * - Weekly personal data reporting trigger is exported from handlers/personalData
  * - Frontend UI is in frontend/index.tsx (loaded via manifest resources)
+ *
+ * Every exported handler runs in its own invocation scope, so analyzers called
+ * from the same function invocation share fetched Jira data and log under one
+ * correlation ID, at the level set on the admin page.
  */
 
-// Export all Rovo agent action handlers
-export {
-  analyzeTimingPatternsHandler,
-  analyzeStrengthPatternsHandler,
-  analyzeCollaborationPatternsHandler,
-  analyzeLoadPatternsHandler,
-  analyzeTrendsHandler,
-  getCurrentStatusHandler,
-  getRecommendationHandler
-} from './handlers/analyzers';
+import * as analyzerHandlers from './handlers/analyzers';
+import { withTelemetryConsent } from './handlers/analyzers';
+import { handler as resolverHandler } from './resolvers/index';
+import { handler as cacheRefreshResolver } from './handlers/cacheRefresh';
+import { startNightlyPrecompute, consumerHandler as precomputeResolver } from './handlers/precompute';
+import { handleIssueSyncEvent, startIssueStoreReconcile, reconcileConsumerHandler } from './handlers/issueSync';
+import { reportPersonalData } from './handlers/personalData';
+import { withInvocationScope } from './utils/invocation';
+import { withSiteLogLevel } from './data/siteConfig';
+import { logger } from './utils/logger';
+
+// Fresh invocation scope per call, logging at the site's configured level
+function withLoggedInvocation<A extends any[], R>(handler: (...args: A) => Promise<R>): (...args: A) => Promise<R> {
+  return withInvocationScope(withSiteLogLevel(handler));
+}
+
+// Export all Rovo agent action handlers; each requires the user's active consent
+export const analyzeTimingPatternsHandler = withLoggedInvocation(withTelemetryConsent(analyzerHandlers.analyzeTimingPatternsHandler));
+export const analyzeStrengthPatternsHandler = withLoggedInvocation(withTelemetryConsent(analyzerHandlers.analyzeStrengthPatternsHandler));
+export const analyzeCollaborationPatternsHandler = withLoggedInvocation(withTelemetryConsent(analyzerHandlers.analyzeCollaborationPatternsHandler));
+export const analyzeLoadPatternsHandler = withLoggedInvocation(withTelemetryConsent(analyzerHandlers.analyzeLoadPatternsHandler));
+export const analyzeTrendsHandler = withLoggedInvocation(withTelemetryConsent(analyzerHandlers.analyzeTrendsHandler));
+export const getCurrentStatusHandler = withLoggedInvocation(withTelemetryConsent(analyzerHandlers.getCurrentStatusHandler));
+export const getRecommendationHandler = withLoggedInvocation(withTelemetryConsent(analyzerHandlers.getRecommendationHandler));
+export const analyzeBurnoutRiskHandler = withLoggedInvocation(withTelemetryConsent(analyzerHandlers.analyzeBurnoutRiskHandler));
+export const analyzePitCrewHandler = withLoggedInvocation(withTelemetryConsent(analyzerHandlers.analyzePitCrewHandler));
+export const predictSprintHandler = withLoggedInvocation(withTelemetryConsent(analyzerHandlers.predictSprintHandler));
+export const analyzeWipAgingHandler = withLoggedInvocation(withTelemetryConsent(analyzerHandlers.analyzeWipAgingHandler));
+export const analyzeFlowEfficiencyHandler = withLoggedInvocation(withTelemetryConsent(analyzerHandlers.analyzeFlowEfficiencyHandler));
 
 // Export UI resolver handler for UI Kit 2
 // This handles frontend invoke() calls from @forge/bridge
-export { handler } from './resolvers/index';
+export const handler = withLoggedInvocation(resolverHandler);
+
+// Async event consumer for background cache refreshes (stale-while-revalidate)
+export const cacheRefreshHandler = withLoggedInvocation(cacheRefreshResolver);
+
+// Nightly precompute: scheduled trigger fans out to a per-user queue consumer
+export const nightlyPrecomputeHandler = withLoggedInvocation(startNightlyPrecompute);
+export const precomputeConsumerHandler = withLoggedInvocation(precomputeResolver);
+
+// Jira issue and sprint events keep the per-user issue store current
+export const issueSyncHandler = withLoggedInvocation(handleIssueSyncEvent);
+
+// Daily reconcile: scheduled trigger fans out to a per-store queue consumer
+export const issueStoreReconcileHandler = withLoggedInvocation(startIssueStoreReconcile);
+export const issueStoreReconcileConsumerHandler = withLoggedInvocation(reconcileConsumerHandler);
+
+// Atlassian personal data reporting; closed accounts have their data erased
+export const personalDataReportHandler = withLoggedInvocation(reportPersonalData);
 
-console.log('🏎️ Driver Telemetry initialized');
+logger.info('Driver Telemetry initialized');
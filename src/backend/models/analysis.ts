@@ -4,6 +4,9 @@
  */
 
 import { DayPattern } from './metrics';
+import { TimeBreakdown } from './issue';
+import { SnapshotPoint } from './snapshot';
+import { WorkflowStage } from './workflow';
 
 // Re-export DayPattern for use in analyzers
 export { DayPattern };
@@ -22,13 +25,22 @@ export interface TimingAnalysis {
     revertMultiplier: number;
     description: string;
   };
+  issueTypeWindows: Record<string, TimingAnalysis['peakWindow']>; // types with enough activity to tell
   dayPatterns: Record<string, DayPattern>;
+  hourlyQuality: HourlyQuality[]; // all 24 hours, in timeZone
+  timeZone: string; // IANA zone the hours and days are bucketed in (user's Jira profile)
   recommendations: string[];
   confidence: 'high' | 'medium' | 'low';
   dataPoints: number;
   lastUpdated: Date;
 }
 
+export interface HourlyQuality {
+  hour: number; // 0-23
+  qualityScore: number; // 0-10, neutral when there's no activity
+  volume: number; // activity events in the hour
+}
+
 export interface StrengthAnalysis {
   accountId: string;
   ticketTypes: Record<string, StrengthMetric>;
@@ -169,12 +181,22 @@ export interface CurrentStatus {
     remaining: number;
     percentComplete: number;
     onTrack: boolean;
+    sprintId?: string;
+    sprintName?: string;
+    startDate?: Date;
+    endDate?: Date;
+    daysRemaining?: number;
+    committed?: number;       // issues in the sprint at start
+    addedMidSprint?: number;
+    completedPoints?: number;
+    totalPoints?: number;
   };
   todayRecommendations: string[];
   timestamp: Date;
   // Enhanced timing data for gauges
   timingData?: {
-    currentHour: number;
+    currentHour: number; // in timeZone
+    timeZone: string;
     peakWindow: {
       start: number;
       end: number;
@@ -189,19 +211,33 @@ export interface CurrentStatus {
     optimalMin: number;
     optimalMax: number;
     currentLoad: number;
+    history?: SnapshotPoint[]; // recorded daily active tickets, for the sparkline
   };
   // Velocity data for speed gauge
   velocityData?: {
-    current: number;        // tickets completed in last 7 days
-    weeklyAvg: number;      // 30-day rolling average
-    monthlyTotal: number;   // last 30 days total
+    current: number;        // completed in last 7 days, in `unit`
+    weeklyAvg: number;      // 30-day rolling average, in `unit`
+    monthlyTotal: number;   // last 30 days total, in `unit`
     status: 'below' | 'on-pace' | 'above';
+    unit: 'points' | 'tickets'; // points when most completed work is estimated
+    ticketsCurrent: number;
+    ticketsMonthlyTotal: number;
   };
   // Burnout data for engine temperature gauge
   burnoutData?: {
     burnoutScore: number;
     riskLevel: 'healthy' | 'warning' | 'high' | 'critical';
     topRiskFactors: string[];
+    scoreHistory?: SnapshotPoint[];
+  };
+  // Context switching data for the focus gauge
+  focusData?: {
+    fragmentationScore: number;
+    level: ContextSwitchingAnalysis['level'];
+    avgIssuesPerDay: number;
+    avgSwitchesPerDay: number;
+    medianFocusHours?: number;
+    weeklySwitches: number[];
   };
   // Pit crew data for collaboration
   pitCrewData?: {
@@ -214,6 +250,27 @@ export interface CurrentStatus {
     expectedCompleted: number;
     atRiskCount: number;
   };
+  // WIP aging for the stalled work card
+  agingData?: {
+    wipCount: number;
+    stuckCount: number;
+    oldest: AgingItem[]; // furthest past their norm first
+  };
+  // Flow efficiency for the time on track card
+  flowData?: {
+    efficiency: number;
+    issueCount: number;
+    hours: TimeBreakdown;
+    biggestWait: WaitCategory | null;
+  };
+  // Set when Jira rate limits or outages kept some sections from loading
+  dataUnavailable?: {
+    reason: 'rate_limited' | 'unavailable';
+    message: string;
+    retryAfterSeconds?: number;
+  };
+  // Set when some sections were served from expired cache while a refresh runs
+  stale?: boolean;
 }
 
 export interface RecommendationContext {
@@ -241,24 +298,57 @@ export interface BurnoutAnalysis {
   riskFactors: BurnoutRiskFactor[];
   trends: {
     weeklyOverload: number[]; // last 8 weeks, % of time overloaded
-    dangerHourWork: number[]; // last 8 weeks, % of work in danger hours
+    dangerHourWork: number[]; // last 8 weeks, % of the user's actions outside working hours
     velocityTrend: number[]; // last 8 weeks, tickets completed
   };
   recommendations: string[];
   recoveryPlan?: string[];
+  scoreHistory?: SnapshotPoint[]; // daily recorded scores, last 90 days
   confidence: 'high' | 'medium' | 'low';
   dataPoints: number;
   lastUpdated: Date;
 }
 
 export interface BurnoutRiskFactor {
-  factor: 'sustained_overload' | 'danger_hours' | 'declining_velocity' | 'long_cycles' | 'no_breaks';
+  factor: 'sustained_overload' | 'danger_hours' | 'declining_velocity' | 'long_cycles' | 'no_breaks' | 'context_switching';
   severity: 'low' | 'medium' | 'high' | 'critical';
   description: string;
   weeksAffected: number;
   impact: number; // contribution to burnout score (0-100)
 }
 
+// ============================================
+// CONTEXT SWITCHING
+// ============================================
+
+export interface ContextSwitchingAnalysis {
+  accountId: string;
+  fragmentationScore: number; // 0-100 (0=focused, 100=scattered)
+  level: 'focused' | 'moderate' | 'fragmented' | 'scattered';
+  daily: {
+    activeDays: number; // days with any of the user's own actions
+    avgIssues: number; // distinct issues touched per active day
+    avgProjects: number;
+    avgSwitches: number; // moves from one issue to another per active day
+    maxIssues: number;
+  };
+  inProgressBounces: {
+    total: number; // issues started while another started one was still in progress
+    perWeek: number;
+  };
+  focusStreaks: {
+    count: number;
+    medianHours?: number; // unset without any streaks
+    longestHours?: number;
+  };
+  weeklySwitches: number[]; // last 8 weeks, oldest first, switches per active day
+  timeZone: string; // days are the user's local days
+  recommendations: string[];
+  confidence: 'high' | 'medium' | 'low';
+  dataPoints: number; // active days
+  lastUpdated: Date;
+}
+
 // ============================================
 // PIT CREW ANALYTICS
 // ============================================
@@ -327,6 +417,15 @@ export interface SprintPrediction {
     daysRemaining: number;
     currentVelocity: number; // tickets per week
   };
+  // Present when the prediction is for a real sprint
+  sprint?: {
+    startDate?: Date;
+    endDate?: Date;
+    committedTickets: number; // in the sprint when it started
+    addedMidSprint: number;
+    completedPoints: number;
+    totalPoints: number;
+  };
   whatIfScenarios: WhatIfScenario[];
   recommendations: string[];
   confidence: 'high' | 'medium' | 'low';
@@ -348,3 +447,120 @@ export interface WhatIfScenario {
   completionProbability: number;
   recommendation: 'safe' | 'risky' | 'avoid';
 }
+
+// ============================================
+// ISSUE INSIGHTS
+// ============================================
+
+export interface IssueInsights {
+  accountId: string;
+  issueKey: string;
+  issueType: string;
+  components: string[];
+  status: string;
+  stage: WorkflowStage;
+  cycleTime: {
+    issueType: CycleTimeStats | null; // the user's completed issues of this type
+    component: CycleTimeStats | null; // the user's completed issues sharing a component
+  };
+  forecast: CompletionForecast | null; // null once done, or without comparable history
+  timeInStatus: StatusAge;
+  flow: {
+    hours: TimeBreakdown; // the current status isn't counted until the issue leaves it
+    efficiency?: number; // active share of those hours; unset until any are recorded
+    usualEfficiency?: number; // the user's on completed issues of this type
+  };
+  suggestedReviewers: SuggestedReviewer[];
+  timing: {
+    basis: 'issueType' | 'overall'; // overall when the type has too little activity
+    peakWindow: TimingAnalysis['peakWindow'];
+    inPeakWindow: boolean;
+    currentHour: number;
+    timeZone: string;
+  };
+  recommendations: string[];
+  confidence: 'high' | 'medium' | 'low';
+  dataPoints: number;
+  lastUpdated: Date;
+}
+
+export interface CycleTimeStats {
+  label: string; // issue type, or the components compared
+  count: number;
+  medianDays: number;
+  p85Days: number;
+}
+
+export interface CompletionForecast {
+  basis: 'typeAndComponent' | 'issueType' | 'all'; // which of the user's issues it was drawn from
+  sampleSize: number;
+  startedAt?: Date; // first moved into progress; unset while still to do
+  elapsedDays: number;
+  expectedDate: Date; // median of comparable cycle times
+  earliestDate: Date; // 15th percentile
+  latestDate: Date; // 85th percentile
+}
+
+export interface SuggestedReviewer {
+  accountId: string;
+  displayName: string;
+  componentIssues: number; // done by them in this component (or type) lately
+  reviewsForYou: number; // of the user's pull requests they reviewed
+  avgReviewTimeHours?: number;
+}
+
+// ============================================
+// WIP AGING
+// ============================================
+
+export interface WipAgingAnalysis {
+  accountId: string;
+  items: AgingItem[]; // started, unfinished work; furthest past its norm first
+  stuckCount: number;
+  recommendations: string[];
+  confidence: 'high' | 'medium' | 'low';
+  dataPoints: number; // the user's issues with time recorded in a started stage
+  lastUpdated: Date;
+}
+
+export interface AgingItem extends StatusAge {
+  issueKey: string;
+  summary: string;
+  issueType: string;
+  status: string;
+  stage: WorkflowStage;
+}
+
+export interface StatusAge {
+  hours: number; // since the issue entered its current status
+  basis: 'issueType' | 'all' | 'none'; // whose stays in the status it's compared with; none without enough history
+  sampleSize: number; // past stays in the status
+  p50Hours?: number;
+  p85Hours?: number;
+  stuck: boolean; // older than the 85th percentile
+}
+
+// ============================================
+// FLOW EFFICIENCY
+// ============================================
+
+export interface FlowEfficiencyAnalysis {
+  accountId: string;
+  overall: FlowGroup; // all the user's completed issues
+  byIssueType: FlowGroup[]; // most issues first
+  byComponent: FlowGroup[];
+  biggestWait: WaitCategory | null; // where most non-active time goes; null when nothing waited
+  recommendations: string[];
+  confidence: 'high' | 'medium' | 'low';
+  dataPoints: number; // completed issues with time recorded in their cycle
+  lastUpdated: Date;
+}
+
+export interface FlowGroup {
+  label: string; // issue type or component; 'All issues' overall
+  issueCount: number;
+  efficiency: number; // 0-1: active hours ÷ cycle hours, pooled over the group's issues
+  hours: TimeBreakdown; // summed over the group's issues
+}
+
+export type WaitCategory = Exclude<keyof TimeBreakdown, 'active'>;
@@ -8,10 +8,12 @@ export interface CacheEntry<T> {
   lastUpdated: Date;
   ttlHours: number;
   version: string;
+  // Site configuration version the entry was computed under
+  configVersion?: number;
 }
 
 export interface CacheKey {
-  namespace: 'timing' | 'strengths' | 'collaboration' | 'load' | 'trends' | 'status' | 'burnout' | 'pitcrew' | 'predictions';
+  namespace: 'timing' | 'strengths' | 'collaboration' | 'load' | 'trends' | 'status' | 'burnout' | 'pitcrew' | 'predictions' | 'focus' | 'issue' | 'aging';
   accountId: string;
   suffix?: string;
 }
@@ -24,6 +26,11 @@ export function buildCacheKey(key: CacheKey): string {
   return parts.join(':');
 }
 
-export const CACHE_VERSION = '1.2.0'; // Bumped to invalidate cache after burnout detection fix
+// Every cache key for a user starts with this
+export function buildUserCachePrefix(accountId: string): string {
+  return `user:${accountId}:`;
+}
+
+export const CACHE_VERSION = '1.7.0'; // Bumped for time in status measured per status
 export const DEFAULT_TTL_HOURS = 24;
 export const STATUS_TTL_HOURS = 0.25; // 15 minutes for real-time status
@@ -46,6 +46,14 @@ export interface Reviewer {
   reviewedAt?: Date;
 }
 
+export interface PullRequestActivity {
+  type: 'approval' | 'changes_request' | 'comment' | 'update';
+  accountId: string;
+  displayName: string;
+  timestamp: Date;
+  state?: string; // PR state reported by 'update' entries
+}
+
 export interface PullRequestMetrics {
   prId: number;
   reviewDurationHours: number;
@@ -57,6 +65,11 @@ export interface PullRequestMetrics {
   slowestReviewer?: string;
 }
 
+export interface PullRequestWithMetrics extends PullRequest {
+  metrics: PullRequestMetrics;
+  activity: PullRequestActivity[];
+}
+
 export interface CodeActivity {
   commits: Commit[];
   pullRequests: PullRequest[];
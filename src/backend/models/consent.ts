@@ -0,0 +1,40 @@
+/**
+ * Consent Models
+ * A user's agreement to be analyzed, and what deleting their data removed
+ */
+
+export interface ConsentRecord {
+  accountId: string;
+  version: string; // CONSENT_VERSION the user agreed to
+  consentedAt: Date;
+  paused: boolean; // telemetry switched off without withdrawing consent
+  pausedAt?: Date;
+  updatedAt: Date;
+}
+
+// What the UI shows about a user's consent
+export interface ConsentStatus {
+  currentVersion: string;
+  record: ConsentRecord | null;
+  // Agreed to the current version; older agreements must be renewed
+  consented: boolean;
+  paused: boolean;
+  // Consented and not paused: analyses may run and store results
+  active: boolean;
+}
+
+// Keys removed per store by a full deletion
+export interface DataDeletionResult {
+  accountId: string;
+  deletedAt: Date;
+  deleted: {
+    consent: number;
+    settings: number;
+    cache: number;
+    snapshots: number;
+    issueStore: number;
+    precompute: number;
+    configAuthorship: number; // admin overrides the user's ID was removed from
+  };
+  totalDeleted: number;
+}
@@ -0,0 +1,27 @@
+/**
+ * Estimation Models
+ * Which custom field holds story points for each project
+ */
+
+export interface EstimationField {
+  fieldId: string;
+  name: string;
+}
+
+export interface ProjectEstimation {
+  projectKey: string;
+  source: 'admin' | 'board' | 'site-default' | 'site';
+  // Ordered by preference; the first field with a numeric value wins
+  fieldIds: string[];
+  updatedAt: Date;
+}
+
+export interface EstimationOverride {
+  projectKey: string;
+  fieldId: string;
+  updatedBy?: string; // account ID; removed when that user's data is deleted
+  updatedAt: Date;
+}
+
+// Field used by Jira Cloud for "Story point estimate" on most sites
+export const DEFAULT_STORY_POINT_FIELDS = ['customfield_10016'];
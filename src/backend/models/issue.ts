@@ -3,12 +3,15 @@
  * Data structures for Jira issues, changelogs, and metrics
  */
 
+import { WorkflowStage } from './workflow';
+
 export interface JiraIssue {
   id: string;
   key: string;
   summary: string;
   issueType: string;
   status: string;
+  statusCategory?: 'new' | 'indeterminate' | 'done';
   assignee: string;
   assigneeAccountId: string;
   created: Date;
@@ -31,6 +34,16 @@ export interface IssueChangelog {
   field: string;
   fromValue: string;
   toValue: string;
+  fromId?: string; // raw value, e.g. account ID for assignee changes
+  toId?: string;
+}
+
+export interface IssueComment {
+  id: string;
+  issueKey: string;
+  author: string;
+  authorAccountId: string;
+  created: Date;
 }
 
 export interface IssueMetrics {
@@ -39,16 +52,42 @@ export interface IssueMetrics {
   leadTimeDays: number;
   inProgressDuration: number;
   reviewDuration: number;
+  testingDuration: number;
+  timeBreakdown: TimeBreakdown;
+  statusStays: Record<string, number[]>; // hours of each finished stay, by status name
   wasReopened: boolean;
   hadDefect: boolean;
   numberOfRevisions: number;
 }
 
+/**
+ * Hours of an issue's cycle (first started to first done) by kind of status.
+ * Flagged periods and blocked statuses count as blocked, whatever their stage.
+ * Unfinished issues only count time up to their latest status or flag change.
+ */
+export interface TimeBreakdown {
+  active: number; // in progress
+  review: number; // waiting for or in review
+  qa: number;
+  blocked: number;
+  queued: number; // moved back to a to-do status after starting
+}
+
 export interface IssueWithMetrics extends JiraIssue {
   metrics: IssueMetrics;
   concurrentLoad?: number;
 }
 
+/**
+ * One issue and where it stands in its workflow
+ */
+export interface IssueProgress {
+  issue: IssueWithMetrics;
+  stage: WorkflowStage;
+  statusEnteredAt: Date; // entered its current status; created when it never moved
+  startedAt?: Date; // first moved into an in-progress status
+}
+
 export interface SprintData {
   id: string;
   name: string;
@@ -57,6 +96,22 @@ export interface SprintData {
   endDate?: Date;
   completeDate?: Date;
   goal?: string;
+  boardId?: string;
+}
+
+/**
+ * A user's share of a sprint: their issues, split by completion and by
+ * whether they were committed at sprint start or added mid-sprint
+ */
+export interface SprintScope {
+  sprint: SprintData;
+  issues: JiraIssue[];
+  completed: JiraIssue[];
+  remaining: JiraIssue[];
+  committed: JiraIssue[];
+  addedMidSprint: JiraIssue[];
+  completedPoints: number;
+  totalPoints: number;
 }
 
 export interface UserWorkHistory {
@@ -3,6 +3,10 @@
  * Calculated metrics for quality, speed, and productivity
  */
 
+import { IssueWithMetrics, IssueChangelog, IssueComment } from './issue';
+import { Commit, PullRequestWithMetrics } from './commit';
+import { WorkflowStage } from './workflow';
+
 export interface QualityMetrics {
   defectRate: number;
   reopenRate: number;
@@ -40,6 +44,27 @@ export interface ActivityEvent {
   metadata?: Record<string, any>;
 }
 
+/**
+ * The user's own actions in a period: only events they authored, so bulk edits
+ * and automation touching their tickets don't count as their activity
+ */
+export interface UserActivity {
+  accountId: string;
+  issues: IssueWithMetrics[];      // the work the actions belong to
+  transitions: StatusTransition[]; // status changes made by the user
+  comments: IssueComment[];        // comments written by the user
+  commits: Commit[];
+  pullRequests: {
+    authored: PullRequestWithMetrics[];
+    reviewed: PullRequestWithMetrics[];
+  };
+}
+
+// A status change with the workflow stage it moved the issue into
+export interface StatusTransition extends IssueChangelog {
+  toStage: WorkflowStage;
+}
+
 export interface DayPattern {
   dayOfWeek: 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday' | 'Sunday';
   quality: number;
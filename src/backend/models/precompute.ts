@@ -0,0 +1,44 @@
+/**
+ * Precompute Models
+ * Opt-ins and progress for the nightly analysis precompute
+ */
+
+export type PrecomputedAnalysis = 'timing' | 'load' | 'strengths' | 'trends' | 'pitcrew' | 'focus' | 'burnout';
+
+export interface PrecomputeOptIn {
+  accountId: string;
+  optedInAt: Date;
+}
+
+export interface PrecomputeRun {
+  runId: string;
+  startedAt: Date;
+  totalUsers: number;
+  jobIds: string[]; // async event jobs, one per pushed batch
+}
+
+export interface PrecomputeUserResult {
+  runId: string;
+  accountId: string;
+  status: 'succeeded' | 'partial' | 'failed';
+  startedAt: Date;
+  finishedAt: Date;
+  completed: PrecomputedAnalysis[];
+  failures: Array<{ analysis: PrecomputedAnalysis; error: string }>;
+}
+
+export interface PrecomputeProgress {
+  run: PrecomputeRun;
+  succeeded: number;
+  partial: number;
+  failed: number;
+  pending: number;
+  finishedAt?: Date; // set once every user has a result
+}
+
+// What the UI shows about a user's precompute
+export interface PrecomputeStatus {
+  optedIn: boolean;
+  lastResult: PrecomputeUserResult | null;
+  progress: PrecomputeProgress | null;
+}
@@ -0,0 +1,71 @@
+/**
+ * Settings Models
+ * Personal preferences every analyzer reads instead of fixed windows and thresholds
+ */
+
+export type DashboardGauge =
+  | 'timing'
+  | 'load'
+  | 'velocity'
+  | 'burnout'
+  | 'focus'
+  | 'pitcrew'
+  | 'sprintPrediction'
+  | 'sprintProgress'
+  | 'aging'
+  | 'flow';
+
+export const DASHBOARD_GAUGES: DashboardGauge[] = [
+  'timing',
+  'load',
+  'velocity',
+  'burnout',
+  'focus',
+  'pitcrew',
+  'sprintPrediction',
+  'sprintProgress',
+  'aging',
+  'flow'
+];
+
+export interface UserSettings {
+  // History the long-horizon analyses look at; shorter windows (burnout, sprint) are capped by it
+  lookbackDays: number;
+  // Local hours, end exclusive (e.g. 9-17)
+  workingHours: { start: number; end: number };
+  workingDays: number[]; // 0 = Sunday
+  // IANA timezone used instead of the Jira profile's
+  timeZoneOverride: string | null;
+  excludedProjects: string[]; // project keys
+  excludedIssueTypes: string[]; // issue type names, matched case-insensitively
+  // Concurrent tickets: optimal range, and above criticalAbove is critical rather than over
+  load: { optimalMin: number; optimalMax: number; criticalAbove: number };
+  hiddenGauges: DashboardGauge[];
+  refreshIntervalSeconds: number;
+  // Alerts added to the daily briefing
+  notifications: {
+    burnoutAlerts: boolean;
+    sprintRiskAlerts: boolean;
+    afterHoursReminders: boolean;
+  };
+  updatedAt?: Date;
+}
+
+export type UserSettingsUpdate = Partial<Omit<UserSettings, 'updatedAt'>>;
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  lookbackDays: 180,
+  workingHours: { start: 9, end: 17 },
+  workingDays: [1, 2, 3, 4, 5],
+  timeZoneOverride: null,
+  excludedProjects: [],
+  excludedIssueTypes: [],
+  load: { optimalMin: 5, optimalMax: 9, criticalAbove: 12 },
+  hiddenGauges: [],
+  refreshIntervalSeconds: 30,
+  notifications: {
+    burnoutAlerts: true,
+    sprintRiskAlerts: true,
+    afterHoursReminders: true
+  }
+};
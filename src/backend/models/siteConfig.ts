@@ -0,0 +1,102 @@
+/**
+ * Site Configuration Models
+ * Site-wide defaults a Jira admin sets on the admin page, read by the backend
+ * on every invocation so changes apply without a redeploy
+ */
+
+import { WorkflowStage } from './workflow';
+import { EstimationField } from './estimation';
+import { CacheKey, DEFAULT_TTL_HOURS, STATUS_TTL_HOURS } from './cache';
+
+// Analyses that return an "insufficient data" response below a minimum
+export type ThresholdAnalysis =
+  | 'timing'
+  | 'strengths'
+  | 'collaboration'
+  | 'load'
+  | 'trends'
+  | 'burnout'
+  | 'pitcrew'
+  | 'predictions'
+  | 'focus';
+
+export interface SiteConfig {
+  // Incremented on every save; updates must name the version they were based on
+  version: number;
+  // Site-wide status mapping, between category defaults and per-project overrides.
+  // Keyed by lower-cased status name.
+  workflowStatuses: Record<string, WorkflowStage>;
+  // Story point field for projects without an override or board estimation field
+  storyPointFieldId: string | null;
+  // Project keys analyzed; empty means every project
+  projectsInScope: string[];
+  // Data points (issues, or PRs for collaboration) each analysis needs
+  minDataPoints: Record<ThresholdAnalysis, number>;
+  cacheTtlHours: Record<CacheKey['namespace'], number>;
+  team: {
+    enabled: boolean;
+    // Smallest bucket shown on the team page (k-anonymity)
+    minBucketSize: number;
+  };
+  updatedAt?: Date;
+  updatedBy?: string; // account ID; removed when that user's data is deleted
+}
+
+export type SiteConfigUpdate = Partial<Omit<SiteConfig, 'version' | 'updatedAt' | 'updatedBy'>>;
+
+// A saved version, kept so admins can see what changed when
+export interface SiteConfigVersion {
+  version: number;
+  config: SiteConfig;
+}
+
+// Debug logging, kept apart from the versioned config so switching it doesn't
+// invalidate cached analyses
+export interface LoggingConfig {
+  // Debug entries are written until then; null when off
+  debugUntil: Date | null;
+}
+
+// What the admin page loads: the current config, its history and the fields it can pick from
+export interface SiteConfigOverview {
+  config: SiteConfig;
+  history: SiteConfigVersion[];
+  siteFields: EstimationField[];
+  logging: LoggingConfig;
+}
+
+export const DEFAULT_SITE_CONFIG: SiteConfig = {
+  version: 0,
+  workflowStatuses: {},
+  storyPointFieldId: null,
+  projectsInScope: [],
+  minDataPoints: {
+    timing: 10,
+    strengths: 10,
+    collaboration: 5,
+    load: 10,
+    trends: 10,
+    burnout: 5,
+    pitcrew: 10,
+    predictions: 5,
+    focus: 10
+  },
+  cacheTtlHours: {
+    timing: DEFAULT_TTL_HOURS,
+    strengths: DEFAULT_TTL_HOURS,
+    collaboration: DEFAULT_TTL_HOURS,
+    load: DEFAULT_TTL_HOURS,
+    trends: DEFAULT_TTL_HOURS,
+    status: STATUS_TTL_HOURS,
+    burnout: 6,
+    pitcrew: DEFAULT_TTL_HOURS,
+    predictions: 1,
+    focus: 6,
+    issue: STATUS_TTL_HOURS,
+    aging: 1
+  },
+  team: {
+    enabled: true,
+    minBucketSize: 5
+  }
+};
@@ -0,0 +1,62 @@
+/**
+ * Snapshot Models
+ * Compact daily records of each analysis, kept as history
+ */
+
+export type SnapshotAnalysis = 'timing' | 'load' | 'strengths' | 'trends' | 'pitcrew' | 'burnout';
+
+// The handful of numbers worth charting from each analysis
+export interface SnapshotMetrics {
+  timing: {
+    peakStart: number;
+    peakEnd: number;
+    dangerStart?: number;
+    dangerEnd?: number;
+  };
+  load: {
+    optimalMin: number;
+    optimalMax: number;
+    currentLoad: number;
+    overloaded: boolean; // currentStatus was 'over' or 'critical'
+  };
+  strengths: {
+    expertComponents: number;
+    strongestType?: string; // most negative delta vs team
+  };
+  trends: {
+    issuesCompleted: number;
+    storyPoints: number;
+    avgCycleTime: number;
+    qualityScore: number;
+  };
+  pitcrew: {
+    totalCollaborations: number;
+    avgCollaborationCycleTime: number;
+  };
+  burnout: {
+    burnoutScore: number;
+    riskLevel: 'healthy' | 'warning' | 'high' | 'critical';
+    // The 7 days before the reading; absent from snapshots recorded before they were added
+    completedLastWeek?: number;
+    afterHoursShare?: number; // % of the user's actions outside their working hours
+  };
+}
+
+export interface AnalysisSnapshot<A extends SnapshotAnalysis = SnapshotAnalysis> {
+  accountId: string;
+  analysis: A;
+  date: string; // YYYY-MM-DD (UTC), one snapshot per day
+  recordedAt: Date;
+  confidence: 'high' | 'medium' | 'low';
+  metrics: SnapshotMetrics[A];
+}
+
+// Numeric metrics of an analysis, i.e. the ones that can be charted
+export type SnapshotMetricName<A extends SnapshotAnalysis> = {
+  [M in keyof SnapshotMetrics[A]]-?: SnapshotMetrics[A][M] extends number | undefined ? M : never;
+}[keyof SnapshotMetrics[A]] & string;
+
+export interface SnapshotPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
@@ -0,0 +1,48 @@
+/**
+ * Team Models
+ * Aggregate-only view of a project's team. Nothing here identifies a person:
+ * counts below the minimum bucket size are suppressed (k-anonymity).
+ */
+
+export type TeamLoadBucket = 'under' | 'optimal' | 'over';
+export type TeamBurnoutBucket = 'healthy' | 'warning' | 'high' | 'critical';
+export type TeamCollaborationBucket = 'isolated' | 'connected' | 'hub';
+
+/**
+ * How many team members fall into each bucket. A null count was suppressed,
+ * either for being under the minimum or to stop it being derived from the rest.
+ */
+export interface BucketDistribution<B extends string> {
+  buckets: Record<B, number | null>;
+  membersReported: number; // members with recent data for this section
+}
+
+export interface TeamAnalysis {
+  projectKey: string;
+  minBucketSize: number;
+  teamSize: number; // distinct assignees in the look-back window
+  // Set when the team is smaller than minBucketSize; no sections are returned then
+  tooSmall?: boolean;
+  load?: BucketDistribution<TeamLoadBucket>;
+  burnout?: BucketDistribution<TeamBurnoutBucket> & {
+    averageScore: number | null;
+  };
+  collaboration?: BucketDistribution<TeamCollaborationBucket> & {
+    avgCollaborationCycleTime: number | null; // days
+  };
+  sprint?: {
+    sprintId: string;
+    sprintName: string;
+    endDate?: Date;
+    daysRemaining: number;
+    totalTickets: number;
+    completedTickets: number;
+    addedMidSprint: number;
+    completedPoints: number;
+    totalPoints: number;
+    completionProbability: number; // 0-1, from team throughput
+    expectedCompleted: number;
+  };
+  recommendations: string[];
+  lastUpdated: Date;
+}
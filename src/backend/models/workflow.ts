@@ -0,0 +1,83 @@
+/**
+ * Workflow Models
+ * Maps each project's custom status names onto the stages our metrics understand
+ */
+
+export type WorkflowStage = 'todo' | 'in_progress' | 'review' | 'testing' | 'done';
+
+export const WORKFLOW_STAGES: WorkflowStage[] = ['todo', 'in_progress', 'review', 'testing', 'done'];
+
+export interface WorkflowMapping {
+  projectKey: string;
+  source: 'categories' | 'site' | 'admin' | 'default';
+  // Keyed by lower-cased status name
+  statuses: Record<string, WorkflowStage>;
+  updatedAt: Date;
+}
+
+/**
+ * Admin override: explicit stage assignments by status name.
+ * Statuses not listed fall back to the category-based mapping.
+ */
+export interface WorkflowOverride {
+  projectKey: string;
+  statuses: Record<string, WorkflowStage>;
+  updatedBy?: string; // account ID; removed when that user's data is deleted
+  updatedAt: Date;
+}
+
+/**
+ * Infer a stage from a status name alone.
+ * Used for statuses we have no category for, so the classic Jira names keep working.
+ */
+export function inferStageFromName(statusName: string): WorkflowStage {
+  const name = statusName.toLowerCase();
+
+  if (['done', 'closed', 'resolved', 'shipped', 'released', 'deployed', 'complete', 'completed'].includes(name)) {
+    return 'done';
+  }
+  if (name.includes('review')) {
+    return 'review';
+  }
+  if (name === 'qa' || name.includes('test') || name.includes('verif') || name.startsWith('qa ') || name.endsWith(' qa')) {
+    return 'testing';
+  }
+  if (['to do', 'todo', 'open', 'backlog', 'new', 'reopened', 'selected for development'].includes(name)) {
+    return 'todo';
+  }
+  return 'in_progress';
+}
+
+/**
+ * Map a Jira status category key to a stage, refining "in progress" statuses by name
+ */
+export function stageFromCategory(categoryKey: string | undefined, statusName: string): WorkflowStage {
+  switch (categoryKey) {
+    case 'new':
+      return 'todo';
+    case 'done':
+      return 'done';
+    case 'indeterminate': {
+      const inferred = inferStageFromName(statusName);
+      return inferred === 'review' || inferred === 'testing' ? inferred : 'in_progress';
+    }
+    default:
+      return inferStageFromName(statusName);
+  }
+}
+
+/**
+ * Look up the stage of a status in a mapping, falling back to name inference
+ */
+export function getStatusStage(mapping: WorkflowMapping | undefined, statusName: string): WorkflowStage {
+  const stage = mapping?.statuses[statusName.toLowerCase()];
+  return stage || inferStageFromName(statusName);
+}
+
+/**
+ * Whether a status name says the work is blocked, whichever stage it maps to
+ */
+export function isBlockedStatus(statusName: string): boolean {
+  const name = statusName.toLowerCase();
+  return name.includes('block') || name.includes('imped') || name.includes('on hold');
+}
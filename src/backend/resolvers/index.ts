@@ -5,6 +5,65 @@
 
 import Resolver from '@forge/resolver';
 import { getCurrentStatus } from '../analyzers/currentStatus';
+import { analyzeTimingPatterns } from '../analyzers/timing';
+import { analyzeLoadPatterns } from '../analyzers/load';
+import { analyzeBurnoutRisk } from '../analyzers/burnout';
+import { predictSprintCompletion } from '../analyzers/predictions';
+import { analyzeIssueInsights } from '../analyzers/issueInsights';
+import {
+  BurnoutAnalysis,
+  IssueInsights,
+  LoadAnalysis,
+  SprintPrediction,
+  TimingAnalysis
+} from '../models/analysis';
+import {
+  getWorkflowMapping,
+  getWorkflowOverride,
+  setWorkflowOverride,
+  clearWorkflowOverride
+} from '../data/jira/workflow';
+import {
+  getProjectEstimation,
+  getSiteStoryPointFields,
+  getEstimationOverride,
+  setEstimationOverride,
+  clearEstimationOverride
+} from '../data/jira/estimation';
+import { canAdministerProject, isJiraAdmin } from '../data/jira/permissions';
+import { invalidateIssueStores } from '../data/issueStore';
+import {
+  isPrecomputeOptedIn,
+  setPrecomputeOptIn,
+  getLatestPrecomputeResult,
+  getPrecomputeProgress
+} from '../data/precompute';
+import { PrecomputeStatus } from '../models/precompute';
+import { getSnapshotSeries, SNAPSHOT_METRICS, SNAPSHOT_RETENTION_DAYS, DEFAULT_SNAPSHOT_DAYS } from '../data/snapshots';
+import { SnapshotAnalysis } from '../models/snapshot';
+import { analyzeTeam } from '../analyzers/team';
+import { TeamAnalysis } from '../models/team';
+import {
+  getConsentStatus,
+  recordConsent,
+  requireActiveConsent,
+  setTelemetryPaused
+} from '../data/consent';
+import { deleteAllUserData } from '../data/userData';
+import { resolveAccountId } from '../data/jira/users';
+import { ConsentStatus, DataDeletionResult } from '../models/consent';
+import { getUserSettings, updateUserSettings } from '../data/settings';
+import { UserSettings } from '../models/settings';
+import {
+  getLoggingConfig,
+  getSiteConfig,
+  isProjectInScope,
+  listSiteConfigHistory,
+  setDebugLogging,
+  updateSiteConfig
+} from '../data/siteConfig';
+import { LoggingConfig, SiteConfig, SiteConfigOverview } from '../models/siteConfig';
+import { logger } from '../utils/logger';
 
 const resolver = new Resolver();
 
@@ -16,46 +75,419 @@ resolver.define('getDashboardStatus', async (req) => {
   try {
     // Use context.accountId if available, otherwise getCurrentStatus will use currentUser()
     const accountId = req.context?.accountId;
-    console.log('========================================');
-    console.log('getDashboardStatus CALLED');
-    console.log('Request context:', JSON.stringify(req.context, null, 2));
-    console.log('AccountId extracted:', accountId);
-    console.log('========================================');
+    logger.debug('getDashboardStatus called', {
+      accountId,
+      moduleKey: req.context?.moduleKey,
+      extensionType: req.context?.extension?.type
+    });
 
+    await requireActiveConsent(await resolveAccountId(accountId));
     const status = await getCurrentStatus(accountId);
 
-    console.log('========================================');
-    console.log('getDashboardStatus RESULT');
-    console.log('Status returned:', JSON.stringify(status, null, 2));
-    console.log('========================================');
-
+    logger.debug('getDashboardStatus result', {
+      activeTickets: status.activeTickets,
+      loadStatus: status.loadStatus,
+      burnoutRisk: status.burnoutData?.riskLevel,
+      stale: status.stale,
+      dataUnavailable: status.dataUnavailable?.reason
+    });
     return status;
   } catch (error) {
-    console.error('========================================');
-    console.error('ERROR in getDashboardStatus:', error);
-    console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace');
-    console.error('========================================');
+    logger.error('Error in getDashboardStatus', { error });
     // Return a basic error response instead of throwing
     return null;
   }
 });
 
 /**
- * Get issue panel status
- * Called by issue panel frontend via invoke('getIssuePanelStatus')
+ * Get telemetry for the issue the panel is open on
+ * Called by issue panel frontend via invoke('getIssueInsights'); the issue comes from
+ * the panel's Forge context, not the payload
  */
-resolver.define('getIssuePanelStatus', async (req) => {
+resolver.define('getIssueInsights', async (req): Promise<IssueInsights | null> => {
+  const issueKey = (req.context.extension as { issue?: { key?: string } } | undefined)?.issue?.key;
+  if (!issueKey) {
+    throw new Error('Issue insights are only available from the issue panel');
+  }
+
   try {
-    // Use context.accountId if available, otherwise getCurrentStatus will use currentUser()
-    const accountId = req.context?.accountId;
-    console.log('getIssuePanelStatus called for accountId:', accountId);
-    const status = await getCurrentStatus(accountId);
-    return status;
+    await requireActiveConsent(req.context.accountId);
+    const insights = await analyzeIssueInsights(req.context.accountId, issueKey);
+    logger.debug('getIssueInsights', {
+      issueKey,
+      found: Boolean(insights),
+      stage: insights?.stage,
+      forecastBasis: insights?.forecast?.basis,
+      reviewers: insights?.suggestedReviewers.length
+    });
+    return insights;
   } catch (error) {
-    console.error('Error in getIssuePanelStatus:', error);
+    logger.error('Error in getIssueInsights', { issueKey, error });
     // Return a basic error response instead of throwing
     return null;
   }
 });
 
+/**
+ * Get the full timing analysis behind the Track Conditions gauge
+ * Called via invoke('getTimingDetail')
+ */
+resolver.define('getTimingDetail', async (req): Promise<TimingAnalysis> => {
+  await requireActiveConsent(req.context.accountId);
+  return analyzeTimingPatterns(req.context.accountId);
+});
+
+/**
+ * Get the full load analysis behind the Workload Capacity gauge
+ * Called via invoke('getLoadDetail')
+ */
+resolver.define('getLoadDetail', async (req): Promise<LoadAnalysis> => {
+  await requireActiveConsent(req.context.accountId);
+  return analyzeLoadPatterns(req.context.accountId);
+});
+
+/**
+ * Get the full burnout analysis behind the Engine Temperature gauge
+ * Called via invoke('getBurnoutDetail')
+ */
+resolver.define('getBurnoutDetail', async (req): Promise<BurnoutAnalysis> => {
+  await requireActiveConsent(req.context.accountId);
+  return analyzeBurnoutRisk(req.context.accountId);
+});
+
+/**
+ * Get the full sprint prediction behind the Race Strategy gauge
+ * Called via invoke('getSprintPredictionDetail')
+ */
+resolver.define('getSprintPredictionDetail', async (req): Promise<SprintPrediction> => {
+  await requireActiveConsent(req.context.accountId);
+  return predictSprintCompletion(req.context.accountId);
+});
+
+/**
+ * Get the workflow mapping for a project, plus any admin override
+ * Called via invoke('getWorkflowMapping', { projectKey })
+ */
+resolver.define('getWorkflowMapping', async (req) => {
+  const { projectKey } = req.payload;
+  if (!projectKey) {
+    throw new Error('projectKey is required');
+  }
+
+  const [mapping, override] = await Promise.all([
+    getWorkflowMapping(projectKey),
+    getWorkflowOverride(projectKey)
+  ]);
+
+  return { mapping, override };
+});
+
+/**
+ * Override how a project's statuses map to workflow stages (project or Jira admins only)
+ * Called via invoke('setWorkflowOverride', { projectKey, statuses: { "Building": "in_progress", ... } })
+ */
+resolver.define('setWorkflowOverride', async (req) => {
+  const { projectKey, statuses } = req.payload;
+  if (!projectKey || !statuses || typeof statuses !== 'object') {
+    throw new Error('projectKey and statuses are required');
+  }
+
+  if (!(await canAdministerProject(projectKey))) {
+    throw new Error(`Only administrators of ${projectKey} can change its workflow mapping`);
+  }
+
+  const override = await setWorkflowOverride(projectKey, statuses, req.context.accountId);
+  // Stored issue metrics were derived with the old mapping
+  await invalidateIssueStores();
+  return override;
+});
+
+/**
+ * Remove a project's workflow override (project or Jira admins only)
+ * Called via invoke('clearWorkflowOverride', { projectKey })
+ */
+resolver.define('clearWorkflowOverride', async (req) => {
+  const { projectKey } = req.payload;
+  if (!projectKey) {
+    throw new Error('projectKey is required');
+  }
+
+  if (!(await canAdministerProject(projectKey))) {
+    throw new Error(`Only administrators of ${projectKey} can change its workflow mapping`);
+  }
+
+  await clearWorkflowOverride(projectKey);
+  await invalidateIssueStores();
+  return { success: true };
+});
+
+/**
+ * Get the story point field(s) used for a project and the site's candidate fields
+ * Called via invoke('getEstimationConfig', { projectKey })
+ */
+resolver.define('getEstimationConfig', async (req) => {
+  const { projectKey } = req.payload;
+  if (!projectKey) {
+    throw new Error('projectKey is required');
+  }
+
+  const [estimation, override, siteFields] = await Promise.all([
+    getProjectEstimation(projectKey),
+    getEstimationOverride(projectKey),
+    getSiteStoryPointFields()
+  ]);
+
+  return { estimation, override, siteFields };
+});
+
+/**
+ * Pin a project's story points to a specific field (project or Jira admins only)
+ * Called via invoke('setEstimationOverride', { projectKey, fieldId })
+ */
+resolver.define('setEstimationOverride', async (req) => {
+  const { projectKey, fieldId } = req.payload;
+  if (!projectKey || !fieldId) {
+    throw new Error('projectKey and fieldId are required');
+  }
+
+  if (!(await canAdministerProject(projectKey))) {
+    throw new Error(`Only administrators of ${projectKey} can change its story point field`);
+  }
+
+  const override = await setEstimationOverride(projectKey, fieldId, req.context.accountId);
+  // Stored story points were read from the old field
+  await invalidateIssueStores();
+  return override;
+});
+
+/**
+ * Remove a project's story point field override (project or Jira admins only)
+ * Called via invoke('clearEstimationOverride', { projectKey })
+ */
+resolver.define('clearEstimationOverride', async (req) => {
+  const { projectKey } = req.payload;
+  if (!projectKey) {
+    throw new Error('projectKey is required');
+  }
+
+  if (!(await canAdministerProject(projectKey))) {
+    throw new Error(`Only administrators of ${projectKey} can change its story point field`);
+  }
+
+  await clearEstimationOverride(projectKey);
+  await invalidateIssueStores();
+  return { success: true };
+});
+
+/**
+ * Get the user's nightly precompute opt-in and their result in the latest run
+ * Called via invoke('getPrecomputeStatus')
+ */
+resolver.define('getPrecomputeStatus', async (req) => {
+  const accountId = req.context.accountId;
+  const [optedIn, lastResult, progress] = await Promise.all([
+    isPrecomputeOptedIn(accountId),
+    getLatestPrecomputeResult(accountId),
+    getPrecomputeProgress()
+  ]);
+
+  const status: PrecomputeStatus = { optedIn, lastResult, progress };
+  return status;
+});
+
+/**
+ * Opt in to or out of nightly precompute
+ * Called via invoke('setPrecomputeOptIn', { enabled: true })
+ */
+resolver.define('setPrecomputeOptIn', async (req) => {
+  const { enabled } = req.payload;
+  if (typeof enabled !== 'boolean') {
+    throw new Error('enabled must be true or false');
+  }
+  if (enabled) {
+    await requireActiveConsent(req.context.accountId);
+  }
+
+  await setPrecomputeOptIn(req.context.accountId, enabled);
+  return { optedIn: enabled };
+});
+
+/**
+ * Get one metric's recorded daily history, e.g. burnout score for the last 90 days
+ * Called via invoke('getSnapshotHistory', { analysis: 'burnout', metric: 'burnoutScore', days: 90 })
+ */
+resolver.define('getSnapshotHistory', async (req) => {
+  const { analysis, metric, days = DEFAULT_SNAPSHOT_DAYS } = req.payload;
+
+  if (!Object.prototype.hasOwnProperty.call(SNAPSHOT_METRICS, analysis)) {
+    throw new Error(`analysis must be one of: ${Object.keys(SNAPSHOT_METRICS).join(', ')}`);
+  }
+  const metrics: string[] = SNAPSHOT_METRICS[analysis as SnapshotAnalysis];
+  if (!metrics.includes(metric)) {
+    throw new Error(`metric for ${analysis} must be one of: ${metrics.join(', ')}`);
+  }
+  if (!Number.isInteger(days) || days < 1 || days > SNAPSHOT_RETENTION_DAYS) {
+    throw new Error(`days must be a whole number from 1 to ${SNAPSHOT_RETENTION_DAYS}`);
+  }
+
+  await requireActiveConsent(req.context.accountId);
+  const points = await getSnapshotSeries(req.context.accountId, analysis, metric, days);
+  return { analysis, metric, days, points };
+});
+
+/**
+ * Get the user's consent record and whether telemetry is active
+ * Called via invoke('getConsentStatus')
+ */
+resolver.define('getConsentStatus', async (req): Promise<ConsentStatus> => {
+  return getConsentStatus(req.context.accountId);
+});
+
+/**
+ * Agree to the current consent version (also resumes paused telemetry)
+ * Called via invoke('giveConsent', { version: '1' })
+ */
+resolver.define('giveConsent', async (req): Promise<ConsentStatus> => {
+  const { version } = req.payload;
+  const status = await getConsentStatus(req.context.accountId);
+  // The user must have been shown the text of the version being recorded
+  if (version !== status.currentVersion) {
+    throw new Error(`Consent version ${version} is out of date; review version ${status.currentVersion}`);
+  }
+
+  await recordConsent(req.context.accountId);
+  return getConsentStatus(req.context.accountId);
+});
+
+/**
+ * Pause or resume telemetry without withdrawing consent
+ * Called via invoke('setTelemetryPaused', { paused: true })
+ */
+resolver.define('setTelemetryPaused', async (req): Promise<ConsentStatus> => {
+  const { paused } = req.payload;
+  if (typeof paused !== 'boolean') {
+    throw new Error('paused must be true or false');
+  }
+
+  await setTelemetryPaused(req.context.accountId, paused);
+  return getConsentStatus(req.context.accountId);
+});
+
+/**
+ * Delete every stored key for the user, including consent and history
+ * Called via invoke('deleteMyData')
+ */
+resolver.define('deleteMyData', async (req): Promise<DataDeletionResult> => {
+  return deleteAllUserData(req.context.accountId);
+});
+
+/**
+ * Get the user's settings, with defaults for anything they haven't set
+ * Called via invoke('getUserSettings')
+ */
+resolver.define('getUserSettings', async (req): Promise<UserSettings> => {
+  return getUserSettings(req.context.accountId);
+});
+
+/**
+ * Change some of the user's settings; rejects unknown or invalid values
+ * Called via invoke('updateUserSettings', { settings: { lookbackDays: 90 } })
+ */
+resolver.define('updateUserSettings', async (req): Promise<UserSettings> => {
+  const { settings } = req.payload;
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new Error('settings must be an object of the fields to change');
+  }
+
+  await requireActiveConsent(req.context.accountId);
+  return updateUserSettings(req.context.accountId, settings);
+});
+
+/**
+ * Get the aggregate-only team view for the project page it's opened from (project or Jira admins only)
+ * Called via invoke('getTeamStatus')
+ */
+resolver.define('getTeamStatus', async (req): Promise<TeamAnalysis> => {
+  // Taken from the page context so the view can't be pointed at another project
+  const projectKey = req.context.extension?.project?.key;
+  if (!projectKey) {
+    throw new Error('The team view must be opened from a project page');
+  }
+
+  const siteConfig = await getSiteConfig();
+  if (!siteConfig.team.enabled) {
+    throw new Error('The team view has been turned off by your Jira administrator');
+  }
+  if (!isProjectInScope(projectKey, siteConfig)) {
+    throw new Error(`${projectKey} is not one of the projects Driver Telemetry analyzes`);
+  }
+  if (!(await canAdministerProject(projectKey))) {
+    throw new Error(`Only administrators of ${projectKey} can view its team telemetry`);
+  }
+
+  return analyzeTeam(projectKey, siteConfig.team.minBucketSize);
+});
+
+/**
+ * Get the site configuration, its saved versions and the site's story point fields (Jira admins only)
+ * Called via invoke('getSiteConfig')
+ */
+resolver.define('getSiteConfig', async (): Promise<SiteConfigOverview> => {
+  if (!(await isJiraAdmin())) {
+    throw new Error('Only Jira administrators can view the site configuration');
+  }
+
+  const [config, history, siteFields, logging] = await Promise.all([
+    getSiteConfig(),
+    listSiteConfigHistory(),
+    getSiteStoryPointFields(),
+    getLoggingConfig()
+  ]);
+
+  return { config, history, siteFields, logging };
+});
+
+/**
+ * Save site-wide defaults as a new version (Jira admins only).
+ * Rejected if expectedVersion is no longer current.
+ * Called via invoke('updateSiteConfig', { config: { projectsInScope: ['DEV'] }, expectedVersion: 3 })
+ */
+resolver.define('updateSiteConfig', async (req): Promise<SiteConfig> => {
+  const { config, expectedVersion } = req.payload;
+  if (!config || typeof config !== 'object' || Array.isArray(config) || !Number.isInteger(expectedVersion)) {
+    throw new Error('config (the fields to change) and expectedVersion are required');
+  }
+
+  if (!(await isJiraAdmin())) {
+    throw new Error('Only Jira administrators can change the site configuration');
+  }
+
+  const previous = await getSiteConfig();
+  const saved = await updateSiteConfig(config, expectedVersion, req.context.accountId);
+
+  // Stored issue metrics and story points were derived with the old mapping and field
+  if (JSON.stringify(saved.workflowStatuses) !== JSON.stringify(previous.workflowStatuses) ||
+      saved.storyPointFieldId !== previous.storyPointFieldId) {
+    await invalidateIssueStores();
+  }
+  return saved;
+});
+
+/**
+ * Switch debug logging on for a day, or off (Jira admins only)
+ * Called via invoke('setDebugLogging', { enabled: true })
+ */
+resolver.define('setDebugLogging', async (req): Promise<LoggingConfig> => {
+  const { enabled } = req.payload;
+  if (typeof enabled !== 'boolean') {
+    throw new Error('enabled must be true or false');
+  }
+
+  if (!(await isJiraAdmin())) {
+    throw new Error('Only Jira administrators can change debug logging');
+  }
+
+  return setDebugLogging(enabled);
+});
+
 export const handler = resolver.getDefinitions();
@@ -9,13 +9,80 @@ export function getDaysAgo(days: number): Date {
   return date;
 }
 
-export function getHourOfDay(date: Date): number {
-  return date.getHours();
+// Used when the user's profile has no (valid) timezone
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const dateFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * True when the runtime recognises an IANA timezone name (e.g. "Europe/Berlin")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock hour (0-23) and weekday of an instant in a timezone.
+ * Intl applies the zone's DST rules for that date.
+ */
+function getZonedParts(date: Date, timeZone: string = DEFAULT_TIME_ZONE): { hour: number; day: number } {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour: 'numeric',
+      hourCycle: 'h23',
+      weekday: 'long'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(date);
+  const hour = Number(parts.find(part => part.type === 'hour')?.value);
+  const weekday = parts.find(part => part.type === 'weekday')?.value || '';
+
+  return { hour: hour % 24, day: DAY_NAMES.indexOf(weekday) };
 }
 
-export function getDayOfWeek(date: Date): string {
-  const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  return days[date.getDay()];
+export function getHourOfDay(date: Date, timeZone?: string): number {
+  return getZonedParts(date, timeZone).hour;
+}
+
+export function getDayOfWeek(date: Date, timeZone?: string): string {
+  return DAY_NAMES[getZonedParts(date, timeZone).day];
+}
+
+// 0 = Sunday, matching Date.getDay()
+export function getDayIndex(date: Date, timeZone?: string): number {
+  return getZonedParts(date, timeZone).day;
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function getLocalDate(date: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  let formatter = dateFormatters.get(timeZone);
+  if (!formatter) {
+    // en-CA formats dates as YYYY-MM-DD
+    formatter = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    dateFormatters.set(timeZone, formatter);
+  }
+  return formatter.format(date);
+}
+
+/**
+ * Current wall-clock hour in the user's timezone
+ */
+export function getCurrentHour(timeZone?: string): number {
+  return getHourOfDay(new Date(), timeZone);
 }
 
 export function daysBetween(start: Date, end: Date): number {
@@ -28,13 +95,13 @@ export function hoursBetween(start: Date, end: Date): number {
   return diffMs / (1000 * 60 * 60);
 }
 
-export function isWeekday(date: Date): boolean {
-  const day = date.getDay();
+export function isWeekday(date: Date, timeZone?: string): boolean {
+  const day = getZonedParts(date, timeZone).day;
   return day >= 1 && day <= 5;
 }
 
-export function isBusinessHours(date: Date): boolean {
-  const hour = date.getHours();
+export function isBusinessHours(date: Date, timeZone?: string): boolean {
+  const hour = getHourOfDay(date, timeZone);
   return hour >= 9 && hour < 17;
 }
 
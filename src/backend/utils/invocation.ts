@@ -0,0 +1,110 @@
+/**
+ * Invocation Scope
+ * Per-invocation state shared by every analyzer that runs inside one Forge function call
+ *
+ * Forge may reuse a warm module instance across invocations, so anything memoized
+ * at module level would leak data between users. State here lives only as long as
+ * the handler call that created it. Each scope also carries a correlation ID
+ * that ties together the log entries the call writes.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { logger } from './logger';
+
+interface InvocationScope {
+  correlationId: string;
+  memos: Map<string, Map<string, any>>;
+  cleanups: Array<() => Promise<void>>;
+}
+
+const storage = new AsyncLocalStorage<InvocationScope>();
+
+/**
+ * Wrap a Forge handler so each call runs in a fresh invocation scope
+ */
+export function withInvocationScope<A extends any[], R>(
+  handler: (...args: A) => Promise<R>
+): (...args: A) => Promise<R> {
+  return (...args: A) => runInInvocationScope(() => handler(...args));
+}
+
+/**
+ * Run a function in a fresh invocation scope
+ */
+export function runInInvocationScope<T>(fn: () => Promise<T>): Promise<T> {
+  const scope: InvocationScope = { correlationId: randomUUID(), memos: new Map(), cleanups: [] };
+  return storage.run(scope, async () => {
+    try {
+      return await fn();
+    } finally {
+      await runCleanups(scope);
+    }
+  });
+}
+
+/**
+ * The current invocation's correlation ID, or undefined outside an invocation scope
+ */
+export function getCorrelationId(): string | undefined {
+  return storage.getStore()?.correlationId;
+}
+
+/**
+ * Run a cleanup once the current invocation finishes (e.g. releasing a storage lock).
+ * Outside an invocation scope the cleanup never runs.
+ */
+export function onInvocationEnd(cleanup: () => Promise<void>): void {
+  storage.getStore()?.cleanups.push(cleanup);
+}
+
+/**
+ * Get a named memo table for the current invocation.
+ * Outside an invocation scope this returns a throwaway map, so callers never share state.
+ */
+export function getInvocationMemo<T>(namespace: string): Map<string, T> {
+  const scope = storage.getStore();
+  if (!scope) {
+    return new Map<string, T>();
+  }
+
+  let memo = scope.memos.get(namespace);
+  if (!memo) {
+    memo = new Map<string, T>();
+    scope.memos.set(namespace, memo);
+  }
+  return memo;
+}
+
+/**
+ * Memoize an async load for the rest of the invocation.
+ * Concurrent callers share the in-flight promise; failures are not memoized.
+ */
+export function memoizeForInvocation<T>(
+  namespace: string,
+  key: string,
+  loader: () => Promise<T>
+): Promise<T> {
+  const memo = getInvocationMemo<Promise<T>>(namespace);
+  const existing = memo.get(key);
+  if (existing) {
+    return existing;
+  }
+
+  const pending = loader().catch(error => {
+    memo.delete(key);
+    throw error;
+  });
+  memo.set(key, pending);
+  return pending;
+}
+
+async function runCleanups(scope: InvocationScope): Promise<void> {
+  for (const cleanup of scope.cleanups) {
+    try {
+      await cleanup();
+    } catch (error) {
+      logger.error('Error in invocation cleanup', { error });
+    }
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Logger
+ * Structured, redacted logging for Forge logs
+ *
+ * Each entry is one JSON line with a level, a message, the invocation's
+ * correlation ID and any fields passed with it. Account IDs are replaced by a
+ * short stable hash (so one user's entries can still be followed), and names,
+ * emails, summaries and other free text are dropped before anything is written.
+ * Debug entries are only written while a Jira admin has debug logging switched on.
+ */
+
+import { createHash } from 'crypto';
+import { getCorrelationId, getInvocationMemo } from './invocation';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+const DEFAULT_LEVEL: LogLevel = 'info';
+
+// Fields whose values identify people or hold their text; never logged
+const REDACTED_FIELDS = new Set([
+  'assignee',
+  'author',
+  'body',
+  'comment',
+  'description',
+  'displayname',
+  'email',
+  'emailaddress',
+  'reporter',
+  'summary',
+  'text',
+  'title'
+]);
+
+// Atlassian account IDs: 24 hex characters, or the older "123456:uuid" form
+const ACCOUNT_ID_PATTERN = /\b(?:[0-9a-f]{24}|\d{1,10}:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\b/gi;
+
+// Keep entries small: deeper or longer values are summarized
+const MAX_DEPTH = 4;
+const MAX_ARRAY_ITEMS = 10;
+const MAX_STRING_LENGTH = 500;
+
+/**
+ * Set the lowest level written for the rest of the invocation
+ */
+export function setLogLevel(level: LogLevel): void {
+  getInvocationMemo<LogLevel>('logger').set('level', level);
+}
+
+/**
+ * Whether debug entries are written in this invocation, for skipping costly debug-only work
+ */
+export function isDebugEnabled(): boolean {
+  return getLogLevel() === 'debug';
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields)
+};
+
+/**
+ * Hash an account ID into a short stable token that can be matched across entries
+ */
+export function redactAccountId(accountId: string): string {
+  return `acct_${createHash('sha256').update(accountId).digest('hex').slice(0, 10)}`;
+}
+
+function getLogLevel(): LogLevel {
+  return getInvocationMemo<LogLevel>('logger').get('level') ?? DEFAULT_LEVEL;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[getLogLevel()]) {
+    return;
+  }
+
+  const entry = {
+    level,
+    message: redactString(message),
+    correlationId: getCorrelationId(),
+    ...(redactValue(fields, 0) as LogFields)
+  };
+
+  try {
+    const line = JSON.stringify(entry);
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  } catch {
+    console.error(JSON.stringify({ level: 'error', message: 'Unserializable log entry', correlationId: entry.correlationId }));
+  }
+}
+
+function redactValue(value: unknown, depth: number): unknown {
+  if (value === null || value === undefined || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(value.stack ? { stack: redactString(value.stack) } : {})
+    };
+  }
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? `[${value.length} items]` : '[object]';
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map(item => redactValue(item, depth + 1));
+    return value.length > MAX_ARRAY_ITEMS ? [...items, `… ${value.length - MAX_ARRAY_ITEMS} more`] : items;
+  }
+  if (value instanceof Map || value instanceof Set) {
+    return `[${value.constructor.name} of ${value.size}]`;
+  }
+  if (typeof value === 'object') {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value as Record<string, unknown>)) {
+      redacted[key] = redactField(key, field, depth);
+    }
+    return redacted;
+  }
+  return String(value);
+}
+
+function redactField(key: string, value: unknown, depth: number): unknown {
+  const name = key.toLowerCase();
+  if (REDACTED_FIELDS.has(name)) {
+    return value === null || value === undefined ? value : '[redacted]';
+  }
+  if (name.endsWith('accountid') && typeof value === 'string') {
+    return redactAccountId(value);
+  }
+  return redactValue(value, depth + 1);
+}
+
+function redactString(value: string): string {
+  const redacted = value.replace(ACCOUNT_ID_PATTERN, match => redactAccountId(match));
+  return redacted.length > MAX_STRING_LENGTH ? `${redacted.slice(0, MAX_STRING_LENGTH)}…` : redacted;
+}
@@ -2,7 +2,10 @@ import React, { useEffect, useState } from 'react';
 import { view } from '@forge/bridge';
 import { Dashboard } from './views/Dashboard';
 import { IssuePanel } from './views/IssuePanel';
+import { TeamDashboard } from './views/TeamDashboard';
+import { AdminPage } from './views/AdminPage';
 import { Spinner } from './components/ui/Spinner';
+import { ConsentGate } from './components/layout/ConsentGate';
 import type { ForgeContext } from './types';
 
 /**
@@ -40,11 +43,28 @@ const App: React.FC = () => {
   const extensionType = context?.extension?.type;
 
   if (extensionType === 'jira:issuePanel') {
-    return <IssuePanel />;
+    return (
+      <ConsentGate>
+        <IssuePanel />
+      </ConsentGate>
+    );
+  }
+
+  // Site-wide configuration; stores nothing about the admin beyond who saved it
+  if (extensionType === 'jira:adminPage') {
+    return <AdminPage />;
+  }
+
+  if (context?.moduleKey === 'driver-telemetry-team') {
+    return <TeamDashboard />;
   }
 
   // Default to Dashboard (for jira:projectPage or unknown)
-  return <Dashboard />;
+  return (
+    <ConsentGate>
+      <Dashboard />
+    </ConsentGate>
+  );
 };
 
 export default App;
@@ -0,0 +1,127 @@
+/**
+ * BurnoutDetail Component
+ * Engine Temperature drill-down: eight-week trends, score history and risk factors
+ */
+
+import React from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { DetailSection, RecommendationList } from './DetailSection';
+import { Badge } from '../ui/Badge';
+import { CHART_STYLE, F1_THEME } from '../../lib/constants';
+import type { BurnoutAnalysis } from '../../types';
+
+const SEVERITY_BADGES = {
+  low: 'primary',
+  medium: 'yellow',
+  high: 'red',
+  critical: 'red',
+} as const;
+
+const FACTOR_LABELS: Record<BurnoutAnalysis['riskFactors'][number]['factor'], string> = {
+  sustained_overload: 'Sustained overload',
+  danger_hours: 'Danger-hour work',
+  declining_velocity: 'Declining velocity',
+  long_cycles: 'Long cycles',
+  no_breaks: 'No breaks',
+  context_switching: 'Context switching',
+};
+
+// Trends hold the last eight weeks, oldest first
+const weekLabel = (index: number, count: number) =>
+  index === count - 1 ? 'This week' : `${count - 1 - index}w ago`;
+
+export const BurnoutDetail: React.FC<{ analysis: BurnoutAnalysis }> = ({ analysis }) => {
+  const { trends, riskFactors, scoreHistory = [] } = analysis;
+  const weeks = trends.weeklyOverload.map((overload, index) => ({
+    week: weekLabel(index, trends.weeklyOverload.length),
+    overload: Math.round(overload),
+    dangerHours: Math.round(trends.dangerHourWork[index] ?? 0),
+    tickets: trends.velocityTrend[index] ?? 0,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <DetailSection
+        title="Eight-Week Trends"
+        description="Share of each week spent overloaded and share of work done outside your working hours"
+      >
+        <ResponsiveContainer width="100%" height={240}>
+          <LineChart data={weeks}>
+            <CartesianGrid stroke={CHART_STYLE.grid} strokeDasharray="3 3" />
+            <XAxis dataKey="week" stroke={CHART_STYLE.axis} />
+            <YAxis domain={[0, 100]} unit="%" stroke={CHART_STYLE.axis} />
+            <Tooltip contentStyle={CHART_STYLE.tooltip} />
+            <Legend />
+            <Line type="monotone" dataKey="overload" name="Overloaded" stroke={F1_THEME.colors.red} strokeWidth={2} />
+            <Line type="monotone" dataKey="dangerHours" name="After hours" stroke={F1_THEME.colors.yellow} strokeWidth={2} />
+          </LineChart>
+        </ResponsiveContainer>
+        <ResponsiveContainer width="100%" height={180}>
+          <BarChart data={weeks}>
+            <CartesianGrid stroke={CHART_STYLE.grid} strokeDasharray="3 3" />
+            <XAxis dataKey="week" stroke={CHART_STYLE.axis} />
+            <YAxis allowDecimals={false} stroke={CHART_STYLE.axis} />
+            <Tooltip contentStyle={CHART_STYLE.tooltip} />
+            <Bar dataKey="tickets" name="Tickets completed" fill={F1_THEME.colors.mercedes} />
+          </BarChart>
+        </ResponsiveContainer>
+      </DetailSection>
+
+      {scoreHistory.length > 1 && (
+        <DetailSection title="Score History" description="Your daily burnout score (0 = healthy, 100 = critical)">
+          <ResponsiveContainer width="100%" height={200}>
+            <LineChart data={scoreHistory}>
+              <CartesianGrid stroke={CHART_STYLE.grid} strokeDasharray="3 3" />
+              <XAxis dataKey="date" stroke={CHART_STYLE.axis} minTickGap={24} />
+              <YAxis domain={[0, 100]} stroke={CHART_STYLE.axis} />
+              <Tooltip contentStyle={CHART_STYLE.tooltip} />
+              <Line type="monotone" dataKey="value" name="Burnout score" stroke={F1_THEME.colors.ferrari} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </DetailSection>
+      )}
+
+      <DetailSection title="Risk Factors" description="What is adding to your score, largest first">
+        {riskFactors.length > 0 ? (
+          <ul className="space-y-3">
+            {[...riskFactors].sort((a, b) => b.impact - a.impact).map((factor, index) => (
+              <li key={`${index}-${factor.factor}`} className="border-t border-f1-border pt-3 first:border-t-0 first:pt-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-bold text-f1-text-primary">{FACTOR_LABELS[factor.factor]}</span>
+                  <Badge variant={SEVERITY_BADGES[factor.severity]}>{factor.severity.toUpperCase()}</Badge>
+                </div>
+                <p className="text-sm text-f1-text-secondary">{factor.description}</p>
+                <p className="text-xs text-f1-text-muted">
+                  +{Math.round(factor.impact)} points · {factor.weeksAffected} of the last 8 weeks
+                </p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-center text-f1-text-muted py-4">No risk factors right now</div>
+        )}
+      </DetailSection>
+
+      {analysis.recoveryPlan && analysis.recoveryPlan.length > 0 && (
+        <DetailSection title="Recovery Plan">
+          <RecommendationList items={analysis.recoveryPlan} />
+        </DetailSection>
+      )}
+
+      <DetailSection title="Recommendations">
+        <RecommendationList items={analysis.recommendations} />
+      </DetailSection>
+    </div>
+  );
+};
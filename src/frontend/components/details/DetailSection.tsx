@@ -0,0 +1,39 @@
+/**
+ * DetailSection Component
+ * Titled block inside a gauge detail view
+ */
+
+import React from 'react';
+import { Card } from '../ui/Card';
+
+interface DetailSectionProps {
+  title: string;
+  description?: string;
+  children: React.ReactNode;
+}
+
+export const DetailSection: React.FC<DetailSectionProps> = ({ title, description, children }) => (
+  <Card animate={false}>
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-f1-text-primary">{title}</h3>
+        {description && <p className="text-sm text-f1-text-secondary">{description}</p>}
+      </div>
+      {children}
+    </div>
+  </Card>
+);
+
+/**
+ * Recommendations list shared by every detail view
+ */
+export const RecommendationList: React.FC<{ items: string[] }> = ({ items }) => (
+  <ul className="space-y-2 text-sm text-f1-text-secondary">
+    {items.map(item => (
+      <li key={item} className="flex gap-2">
+        <span>🏁</span>
+        <span>{item}</span>
+      </li>
+    ))}
+  </ul>
+);
@@ -0,0 +1,115 @@
+/**
+ * LoadDetail Component
+ * Workload Capacity drill-down: how each load level has performed for you
+ */
+
+import React from 'react';
+import {
+  CartesianGrid,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { DetailSection, RecommendationList } from './DetailSection';
+import { CHART_STYLE, F1_THEME } from '../../lib/constants';
+import type { LoadAnalysis } from '../../types';
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const LoadDetail: React.FC<{ analysis: LoadAnalysis }> = ({ analysis }) => {
+  const { optimalRange, currentLoad } = analysis;
+  const points = Object.values(analysis.loadCurve).sort((a, b) => a.load - b.load);
+  const bestScore = Math.max(0, ...points.map(point => point.score));
+
+  // Scores are only meaningful relative to each other, so chart them out of 100
+  const chartPoints = points.map(point => ({
+    load: point.load,
+    score: bestScore > 0 ? Math.round((point.score / bestScore) * 100) : 0,
+    cycleTime: Math.round(point.cycleTime * 10) / 10,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <DetailSection
+        title="Load Curve"
+        description="Relative performance (best load = 100) at each number of tickets in progress at once"
+      >
+        {chartPoints.length > 0 ? (
+          <>
+            <ResponsiveContainer width="100%" height={280}>
+              <ScatterChart>
+                <CartesianGrid stroke={CHART_STYLE.grid} strokeDasharray="3 3" />
+                <XAxis
+                  type="number"
+                  dataKey="load"
+                  name="Tickets in progress"
+                  allowDecimals={false}
+                  domain={[0, 'dataMax + 1']}
+                  stroke={CHART_STYLE.axis}
+                />
+                <YAxis type="number" dataKey="score" name="Performance" domain={[0, 100]} stroke={CHART_STYLE.axis} />
+                <Tooltip contentStyle={CHART_STYLE.tooltip} cursor={{ strokeDasharray: '3 3' }} />
+                <ReferenceArea
+                  x1={optimalRange.min}
+                  x2={optimalRange.max}
+                  fill={F1_THEME.loadStatus.colors.optimal}
+                  fillOpacity={0.12}
+                />
+                <ReferenceLine
+                  x={currentLoad}
+                  stroke={F1_THEME.colors.mclaren}
+                  strokeDasharray="4 4"
+                  label={{ value: 'Now', fill: F1_THEME.colors.mclaren, position: 'top' }}
+                />
+                <Scatter data={chartPoints} fill={F1_THEME.colors.mercedes} />
+              </ScatterChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-f1-text-secondary">
+              <span className="text-f1-green">■</span> Optimal range: {optimalRange.min}–{optimalRange.max} tickets
+              · current load: {currentLoad}
+            </p>
+          </>
+        ) : (
+          <div className="text-center text-f1-text-muted py-8">Not enough history at different loads yet</div>
+        )}
+      </DetailSection>
+
+      {points.length > 0 && (
+        <DetailSection title="By Load Level" description="What changed at each load level">
+          <table className="w-full text-sm text-f1-text-secondary">
+            <thead>
+              <tr className="text-left text-f1-text-muted">
+                <th className="py-1">Tickets</th>
+                <th>Cycle time</th>
+                <th>Defect rate</th>
+                <th>Completion rate</th>
+              </tr>
+            </thead>
+            <tbody>
+              {points.map(point => (
+                <tr
+                  key={point.load}
+                  className={`border-t border-f1-border ${point.load === currentLoad ? 'text-f1-text-primary font-bold' : ''}`}
+                >
+                  <td className="py-1">{point.load}</td>
+                  <td>{point.cycleTime > 0 ? `${point.cycleTime.toFixed(1)}d` : '–'}</td>
+                  <td>{percent(point.defectRate)}</td>
+                  <td>{percent(point.completionRate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </DetailSection>
+      )}
+
+      <DetailSection title="Recommendations">
+        <RecommendationList items={analysis.recommendations} />
+      </DetailSection>
+    </div>
+  );
+};
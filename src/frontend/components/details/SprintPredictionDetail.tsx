@@ -0,0 +1,131 @@
+/**
+ * SprintPredictionDetail Component
+ * Race Strategy drill-down: at-risk tickets and what-if scenarios
+ */
+
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { DetailSection, RecommendationList } from './DetailSection';
+import { Badge } from '../ui/Badge';
+import { CHART_STYLE, F1_THEME } from '../../lib/constants';
+import type { SprintPrediction } from '../../types';
+
+const RISK_BADGES = {
+  low: 'green',
+  medium: 'yellow',
+  high: 'red',
+  critical: 'red',
+} as const;
+
+const SCENARIO_BADGES = {
+  safe: 'green',
+  risky: 'yellow',
+  avoid: 'red',
+} as const;
+
+const SCENARIO_COLORS = {
+  safe: F1_THEME.colors.green,
+  risky: F1_THEME.colors.yellow,
+  avoid: F1_THEME.colors.red,
+};
+
+export const SprintPredictionDetail: React.FC<{ analysis: SprintPrediction }> = ({ analysis }) => {
+  const { predictions, currentState, whatIfScenarios } = analysis;
+  const scenarios = [
+    { scenario: 'As planned', probability: Math.round(predictions.completionProbability * 100), recommendation: null },
+    ...whatIfScenarios.map(scenario => ({
+      scenario: scenario.scenario,
+      probability: Math.round(scenario.completionProbability * 100),
+      recommendation: scenario.recommendation,
+    })),
+  ];
+
+  return (
+    <div className="space-y-6">
+      <DetailSection
+        title={analysis.sprintName || 'Current Work'}
+        description={`${currentState.completedTickets} of ${currentState.totalTickets} tickets done · ${currentState.daysRemaining} days left · ${currentState.currentVelocity.toFixed(1)} tickets/week`}
+      >
+        <div className="flex flex-wrap gap-8 text-sm text-f1-text-secondary">
+          <div>
+            <div className="text-3xl font-bold text-f1-text-primary">
+              {Math.round(predictions.completionProbability * 100)}%
+            </div>
+            chance of finishing everything
+          </div>
+          <div>
+            <div className="text-3xl font-bold text-f1-text-primary">{predictions.expectedTicketsCompleted}</div>
+            tickets expected ({predictions.confidenceInterval.low}–{predictions.confidenceInterval.high})
+          </div>
+        </div>
+      </DetailSection>
+
+      <DetailSection title="At-Risk Tickets" description="Tickets least likely to finish in time, with what to do about them">
+        {predictions.atRiskTickets.length > 0 ? (
+          <table className="w-full text-sm text-f1-text-secondary">
+            <thead>
+              <tr className="text-left text-f1-text-muted">
+                <th className="py-1">Ticket</th>
+                <th>Risk</th>
+                <th>Days left</th>
+                <th>Why</th>
+                <th>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {predictions.atRiskTickets.map(ticket => (
+                <tr key={ticket.issueKey} className="border-t border-f1-border align-top">
+                  <td className="py-2 pr-2">
+                    <div className="font-mono text-f1-text-primary">{ticket.issueKey}</div>
+                    <div className="text-xs">{ticket.summary}</div>
+                  </td>
+                  <td className="py-2 pr-2">
+                    <Badge variant={RISK_BADGES[ticket.riskLevel]}>{ticket.riskLevel.toUpperCase()}</Badge>
+                  </td>
+                  <td className="py-2 pr-2">{ticket.estimatedDaysRemaining.toFixed(1)}</td>
+                  <td className="py-2 pr-2 text-xs">{ticket.factors.join(' · ')}</td>
+                  <td className="py-2 text-xs">{ticket.recommendedAction}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-center text-f1-text-muted py-4">No tickets at risk</div>
+        )}
+      </DetailSection>
+
+      <DetailSection title="What-If Scenarios" description="How the chance of finishing changes with the scope">
+        <ResponsiveContainer width="100%" height={200}>
+          <BarChart data={scenarios} layout="vertical">
+            <CartesianGrid stroke={CHART_STYLE.grid} strokeDasharray="3 3" />
+            <XAxis type="number" domain={[0, 100]} unit="%" stroke={CHART_STYLE.axis} />
+            <YAxis type="category" dataKey="scenario" width={140} stroke={CHART_STYLE.axis} />
+            <Tooltip contentStyle={CHART_STYLE.tooltip} />
+            <Bar dataKey="probability" name="Chance of finishing">
+              {scenarios.map(scenario => (
+                <Cell
+                  key={scenario.scenario}
+                  fill={scenario.recommendation ? SCENARIO_COLORS[scenario.recommendation] : F1_THEME.colors.mercedes}
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+        <ul className="space-y-2 text-sm text-f1-text-secondary">
+          {whatIfScenarios.map(scenario => (
+            <li key={scenario.scenario} className="flex items-center justify-between gap-2">
+              <span>
+                <span className="text-f1-text-primary">{scenario.scenario}</span> – {scenario.impact}
+              </span>
+              <Badge variant={SCENARIO_BADGES[scenario.recommendation]}>{scenario.recommendation.toUpperCase()}</Badge>
+            </li>
+          ))}
+        </ul>
+      </DetailSection>
+
+      <DetailSection title="Recommendations">
+        <RecommendationList items={analysis.recommendations} />
+      </DetailSection>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+/**
+ * TimingDetail Component
+ * Track Conditions drill-down: the 24-hour quality curve and day-of-week patterns
+ */
+
+import React from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { DetailSection, RecommendationList } from './DetailSection';
+import { CHART_STYLE, F1_THEME } from '../../lib/constants';
+import type { TimingAnalysis } from '../../types';
+
+const DAY_ORDER = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+export const TimingDetail: React.FC<{ analysis: TimingAnalysis }> = ({ analysis }) => {
+  const { peakWindow, dangerZone, hourlyQuality, dayPatterns, timeZone } = analysis;
+
+  const days = DAY_ORDER
+    .filter(day => dayPatterns[day])
+    .map(day => ({
+      day: day.slice(0, 3),
+      quality: Math.round(dayPatterns[day].quality * 10) / 10,
+      volume: dayPatterns[day].volume,
+      // Speed is 1 / average cycle time; shown as days per ticket
+      cycleDays: dayPatterns[day].speed > 0 ? Math.round((1 / dayPatterns[day].speed) * 10) / 10 : null,
+    }));
+
+  return (
+    <div className="space-y-6">
+      <DetailSection
+        title="24-Hour Quality Curve"
+        description={`Average quality (0-10) of your work by hour, with activity volume, in ${timeZone}`}
+      >
+        {hourlyQuality.length > 0 ? (
+          <>
+            <ResponsiveContainer width="100%" height={280}>
+              <ComposedChart data={hourlyQuality}>
+                <CartesianGrid stroke={CHART_STYLE.grid} strokeDasharray="3 3" />
+                <XAxis dataKey="hour" tickFormatter={formatHour} stroke={CHART_STYLE.axis} interval={2} />
+                <YAxis yAxisId="quality" domain={[0, 10]} stroke={CHART_STYLE.axis} />
+                <YAxis yAxisId="volume" orientation="right" stroke={CHART_STYLE.axis} />
+                <Tooltip
+                  contentStyle={CHART_STYLE.tooltip}
+                  labelFormatter={hour => formatHour(Number(hour))}
+                  formatter={(value: number, name: string) =>
+                    name === 'qualityScore' ? [value.toFixed(1), 'Quality'] : [value, 'Activity']}
+                />
+                <ReferenceArea
+                  yAxisId="quality"
+                  x1={peakWindow.start}
+                  x2={Math.min(peakWindow.end, 23)}
+                  fill={F1_THEME.timeZone.colors.peak}
+                  fillOpacity={0.12}
+                />
+                {dangerZone && (
+                  <ReferenceArea
+                    yAxisId="quality"
+                    x1={dangerZone.start}
+                    x2={Math.min(dangerZone.end, 23)}
+                    fill={F1_THEME.timeZone.colors.danger}
+                    fillOpacity={0.12}
+                  />
+                )}
+                <Bar yAxisId="volume" dataKey="volume" fill={F1_THEME.colors.border.light} />
+                <Line
+                  yAxisId="quality"
+                  type="monotone"
+                  dataKey="qualityScore"
+                  stroke={F1_THEME.colors.mercedes}
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+            <div className="flex flex-wrap gap-4 text-xs text-f1-text-secondary">
+              <span className="text-f1-green">■ {peakWindow.description}</span>
+              {dangerZone && <span className="text-f1-red">■ {dangerZone.description}</span>}
+            </div>
+          </>
+        ) : (
+          <div className="text-center text-f1-text-muted py-8">{peakWindow.description}</div>
+        )}
+      </DetailSection>
+
+      <DetailSection title="Day-of-Week Patterns" description="Quality of your work and how quickly tickets move, by weekday">
+        {days.length > 0 ? (
+          <>
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={days}>
+                <CartesianGrid stroke={CHART_STYLE.grid} strokeDasharray="3 3" />
+                <XAxis dataKey="day" stroke={CHART_STYLE.axis} />
+                <YAxis domain={[0, 10]} stroke={CHART_STYLE.axis} />
+                <Tooltip contentStyle={CHART_STYLE.tooltip} />
+                <Bar dataKey="quality" name="Quality" fill={F1_THEME.colors.mercedes} />
+              </BarChart>
+            </ResponsiveContainer>
+            <table className="w-full text-sm text-f1-text-secondary">
+              <thead>
+                <tr className="text-left text-f1-text-muted">
+                  <th className="py-1">Day</th>
+                  <th>Quality</th>
+                  <th>Activity</th>
+                  <th>Days per ticket</th>
+                </tr>
+              </thead>
+              <tbody>
+                {days.map(day => (
+                  <tr key={day.day} className="border-t border-f1-border">
+                    <td className="py-1">{day.day}</td>
+                    <td>{day.quality}</td>
+                    <td>{day.volume}</td>
+                    <td>{day.cycleDays ?? '–'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        ) : (
+          <div className="text-center text-f1-text-muted py-8">No day-of-week data yet</div>
+        )}
+      </DetailSection>
+
+      <DetailSection title="Recommendations">
+        <RecommendationList items={analysis.recommendations} />
+      </DetailSection>
+    </div>
+  );
+};
@@ -7,17 +7,20 @@
 import React from 'react';
 import ReactSpeedometer from 'react-d3-speedometer';
 import { motion } from 'framer-motion';
+import { Sparkline } from './Sparkline';
 
 interface BurnoutGaugeProps {
   burnoutScore: number; // 0-100
   riskLevel: 'healthy' | 'warning' | 'high' | 'critical';
   topRiskFactors?: string[];
+  scoreHistory?: Array<{ date: string; value: number }>;
 }
 
 export const BurnoutGauge: React.FC<BurnoutGaugeProps> = ({
   burnoutScore,
   riskLevel,
-  topRiskFactors = []
+  topRiskFactors = [],
+  scoreHistory = []
 }) => {
   // Color zones for burnout
   const customSegmentStops = [0, 30, 50, 70, 100];
@@ -112,6 +115,15 @@ export const BurnoutGauge: React.FC<BurnoutGaugeProps> = ({
         </div>
       )}
 
+      {/* Recorded score history */}
+      <Sparkline
+        points={scoreHistory}
+        label="Engine temperature history"
+        color={getRiskColor()}
+        minValue={0}
+        maxValue={100}
+      />
+
       {/* Temperature Scale */}
       <div className="w-full text-xs text-f1-text-muted text-center">
         Engine Temperature Scale
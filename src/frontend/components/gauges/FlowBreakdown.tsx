@@ -0,0 +1,72 @@
+/**
+ * Flow Breakdown Component
+ * Share of cycle time spent on hands-on work versus each kind of waiting
+ * F1 Theme: Time on track vs time in the pits
+ */
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { F1_THEME } from '../../lib/constants';
+import type { TimeBreakdown } from '../../types';
+
+interface FlowBreakdownProps {
+  hours: TimeBreakdown;
+  efficiency: number; // 0-1
+  caption?: string;
+}
+
+const SEGMENTS: Array<{ key: keyof TimeBreakdown; label: string; color: string }> = [
+  { key: 'active', label: 'Active', color: F1_THEME.colors.green },
+  { key: 'review', label: 'Review', color: F1_THEME.colors.mercedes },
+  { key: 'qa', label: 'QA', color: F1_THEME.colors.mclaren },
+  { key: 'blocked', label: 'Blocked', color: F1_THEME.colors.red },
+  { key: 'queued', label: 'Queued', color: F1_THEME.colors.yellow },
+];
+
+const formatHours = (hours: number) => (hours < 24 ? `${Math.round(hours)}h` : `${(hours / 24).toFixed(1)}d`);
+
+export const FlowBreakdown: React.FC<FlowBreakdownProps> = ({ hours, efficiency, caption }) => {
+  const total = SEGMENTS.reduce((sum, segment) => sum + hours[segment.key], 0);
+  const shown = SEGMENTS.filter(segment => hours[segment.key] > 0);
+  const efficiencyColor = efficiency >= 0.7
+    ? 'text-f1-green'
+    : efficiency >= 0.4 ? 'text-f1-yellow' : 'text-f1-red';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-baseline justify-center gap-2">
+        <span className={`text-4xl font-bold ${efficiencyColor}`}>{Math.round(efficiency * 100)}%</span>
+        <span className="text-sm text-f1-text-secondary">on track</span>
+      </div>
+
+      <div className="flex h-3 w-full overflow-hidden rounded" style={{ backgroundColor: 'rgba(255, 255, 255, 0.05)' }}>
+        {shown.map(segment => (
+          <motion.div
+            key={segment.key}
+            initial={{ width: 0 }}
+            animate={{ width: `${(hours[segment.key] / total) * 100}%` }}
+            transition={{ duration: 0.8 }}
+            style={{ backgroundColor: segment.color }}
+          />
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        {shown.map(segment => (
+          <div key={segment.key} className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-1 text-f1-text-secondary">
+              <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: segment.color }} />
+              {segment.label}
+            </span>
+            <span className="text-f1-text-primary">
+              {formatHours(hours[segment.key])}
+              <span className="text-f1-text-muted"> · {Math.round((hours[segment.key] / total) * 100)}%</span>
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {caption && <div className="text-xs text-center text-f1-text-muted">{caption}</div>}
+    </div>
+  );
+};
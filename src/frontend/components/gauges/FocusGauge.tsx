@@ -0,0 +1,92 @@
+/**
+ * Focus Gauge Component
+ * How fragmented the user's days are by context switching
+ * F1 Theme: Clean air vs dirty air
+ */
+
+import React from 'react';
+import ReactSpeedometer from 'react-d3-speedometer';
+import { Badge } from '../ui/Badge';
+import { Sparkline } from './Sparkline';
+import { F1_THEME } from '../../lib/constants';
+import type { ContextSwitchingAnalysis } from '../../types';
+
+interface FocusGaugeProps {
+  fragmentationScore: number; // 0-100
+  level: ContextSwitchingAnalysis['level'];
+  avgIssuesPerDay: number;
+  avgSwitchesPerDay: number;
+  medianFocusHours?: number;
+  weeklySwitches?: number[]; // last 8 weeks, oldest first
+}
+
+const LEVELS = {
+  focused: { label: 'CLEAN AIR', variant: 'green' },
+  moderate: { label: 'SOME TRAFFIC', variant: 'primary' },
+  fragmented: { label: 'DIRTY AIR', variant: 'yellow' },
+  scattered: { label: 'PIT-LANE CHAOS', variant: 'red' },
+} as const;
+
+const formatStreak = (hours: number) => (hours < 1 ? `${Math.round(hours * 60)}m` : `${hours.toFixed(1)}h`);
+
+export const FocusGauge: React.FC<FocusGaugeProps> = ({
+  fragmentationScore,
+  level,
+  avgIssuesPerDay,
+  avgSwitchesPerDay,
+  medianFocusHours,
+  weeklySwitches = [],
+}) => {
+  // Zones match the analyzer's levels: focused, moderate, fragmented, scattered
+  const customSegmentStops = [0, 25, 45, 70, 100];
+  const segmentColors = [
+    F1_THEME.colors.green,
+    F1_THEME.colors.mercedes,
+    F1_THEME.colors.yellow,
+    F1_THEME.colors.red,
+  ];
+  const weeks = weeklySwitches.map((value, idx) => ({
+    date: idx === weeklySwitches.length - 1 ? 'this week' : `${weeklySwitches.length - 1 - idx}w ago`,
+    value,
+  }));
+
+  return (
+    <div className="flex flex-col items-center space-y-4">
+      <ReactSpeedometer
+        value={fragmentationScore}
+        minValue={0}
+        maxValue={100}
+        customSegmentStops={customSegmentStops}
+        segmentColors={segmentColors}
+        needleColor={F1_THEME.speedometer.needleColor}
+        currentValueText={`${Math.round(fragmentationScore)}`}
+        needleTransitionDuration={1000}
+        width={280}
+        height={180}
+        ringWidth={30}
+        textColor={F1_THEME.speedometer.textColor}
+      />
+
+      <Badge variant={LEVELS[level].variant}>{LEVELS[level].label}</Badge>
+
+      <div className="w-full grid grid-cols-3 gap-2 text-center text-xs text-f1-text-secondary">
+        <div>
+          <div className="text-lg font-bold text-f1-text-primary">{avgIssuesPerDay.toFixed(1)}</div>
+          issues/day
+        </div>
+        <div>
+          <div className="text-lg font-bold text-f1-text-primary">{avgSwitchesPerDay.toFixed(1)}</div>
+          switches/day
+        </div>
+        <div>
+          <div className="text-lg font-bold text-f1-text-primary">
+            {medianFocusHours !== undefined ? formatStreak(medianFocusHours) : '–'}
+          </div>
+          typical streak
+        </div>
+      </div>
+
+      <Sparkline points={weeks} label="Switches per day" color={F1_THEME.colors.mclaren} minValue={0} />
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+/**
+ * Sparkline Component
+ * Small line chart of a metric's recorded daily history
+ */
+
+import React from 'react';
+import { F1_THEME } from '../../lib/constants';
+
+interface SparklineProps {
+  points: Array<{ date: string; value: number }>;
+  label: string;
+  color?: string;
+  width?: number;
+  height?: number;
+  minValue?: number;
+  maxValue?: number;
+}
+
+export const Sparkline: React.FC<SparklineProps> = ({
+  points,
+  label,
+  color = F1_THEME.colors.mercedes,
+  width = 240,
+  height = 40,
+  minValue,
+  maxValue,
+}) => {
+  // A line needs two days of history
+  if (points.length < 2) {
+    return null;
+  }
+
+  const values = points.map(p => p.value);
+  const min = minValue ?? Math.min(...values);
+  const max = maxValue ?? Math.max(...values);
+  const range = max - min || 1;
+  const padding = 2;
+
+  const coordinates = points.map((point, idx) => {
+    const x = padding + (idx / (points.length - 1)) * (width - padding * 2);
+    const y = height - padding - ((point.value - min) / range) * (height - padding * 2);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  const [lastX, lastY] = coordinates[coordinates.length - 1].split(',');
+
+  return (
+    <div className="w-full space-y-1">
+      <div className="flex items-center justify-between text-xs text-f1-text-muted">
+        <span>{label}</span>
+        <span>{points[0].date} → {points[points.length - 1].date}</span>
+      </div>
+      <svg width="100%" height={height} viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none">
+        <polyline
+          points={coordinates.join(' ')}
+          fill="none"
+          stroke={color}
+          strokeWidth={2}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+        />
+        <circle cx={lastX} cy={lastY} r={3} fill={color} />
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+/**
+ * Stalled Work List Component
+ * Tickets in progress that have sat in their status the longest, relative to the user's norm
+ * F1 Theme: Cars stopped on track
+ */
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Badge } from '../ui/Badge';
+import type { AgingItem } from '../../types';
+
+interface StalledWorkListProps {
+  wipCount: number;
+  stuckCount: number;
+  oldest: AgingItem[];
+}
+
+const formatAge = (hours: number) => (hours < 24 ? `${Math.round(hours)}h` : `${(hours / 24).toFixed(1)}d`);
+
+export const StalledWorkList: React.FC<StalledWorkListProps> = ({ wipCount, stuckCount, oldest }) => {
+  if (wipCount === 0) {
+    return (
+      <div className="text-center text-f1-text-muted py-8">
+        <div className="text-4xl mb-2">🏁</div>
+        <div>No tickets in progress</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-baseline justify-center gap-2">
+        <span className={`text-4xl font-bold ${stuckCount > 0 ? 'text-f1-red' : 'text-f1-green'}`}>{stuckCount}</span>
+        <span className="text-sm text-f1-text-secondary">
+          of {wipCount} in progress stalled
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {oldest.map((item, idx) => (
+          <motion.div
+            key={item.issueKey}
+            initial={{ x: -20, opacity: 0 }}
+            animate={{ x: 0, opacity: 1 }}
+            transition={{ delay: idx * 0.1 }}
+            className="flex items-center justify-between gap-2 p-2 rounded"
+            style={{
+              backgroundColor: 'rgba(255, 255, 255, 0.05)',
+              border: '1px solid rgba(255, 255, 255, 0.1)',
+            }}
+          >
+            <div className="min-w-0">
+              <div className="text-sm font-mono text-f1-text-primary">{item.issueKey}</div>
+              <div className="text-xs text-f1-text-muted truncate">{item.summary}</div>
+            </div>
+            <div className="text-right shrink-0">
+              <Badge variant={item.stuck ? 'red' : 'green'}>{formatAge(item.hours)}</Badge>
+              <div className="text-xs text-f1-text-muted mt-1">
+                {item.p85Hours !== undefined ? `in ${item.status} · usual ≤${formatAge(item.p85Hours)}` : `in ${item.status}`}
+              </div>
+            </div>
+          </motion.div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 /**
  * Velocity Gauge Component
- * Shows ticket completion velocity vs personal average
+ * Shows completion velocity (story points or tickets) vs personal average
  */
 
 import React from 'react';
@@ -8,15 +8,17 @@ import ReactSpeedometer from 'react-d3-speedometer';
 import { F1_THEME } from '../../lib/constants';
 
 export interface VelocityGaugeProps {
-  current: number;      // Tickets completed in last 7 days
+  current: number;      // Completed in last 7 days
   weeklyAvg: number;    // 30-day rolling average
   status: 'below' | 'on-pace' | 'above';
+  unit?: 'points' | 'tickets';
 }
 
 export const VelocityGauge: React.FC<VelocityGaugeProps> = ({
   current,
   weeklyAvg,
-  status
+  status,
+  unit = 'tickets'
 }) => {
   // Calculate max value for gauge
   // Ensure maxValue can accommodate current value with 20% headroom
@@ -60,7 +62,7 @@ export const VelocityGauge: React.FC<VelocityGaugeProps> = ({
         needleColor={F1_THEME.speedometer.needleColor}
         needleTransition={F1_THEME.speedometer.needleTransition as any}
         needleTransitionDuration={F1_THEME.speedometer.needleTransitionDuration}
-        currentValueText={`${current} tickets`}
+        currentValueText={`${current} ${unit}`}
         width={280}
         height={180}
         ringWidth={40}
@@ -69,7 +71,7 @@ export const VelocityGauge: React.FC<VelocityGaugeProps> = ({
       />
       <div className="mt-2 text-center">
         <div className="text-xs text-f1-text-secondary">
-          Weekly Average: {weeklyAvg.toFixed(1)} tickets
+          Weekly Average: {weeklyAvg.toFixed(1)} {unit}
         </div>
       </div>
     </div>
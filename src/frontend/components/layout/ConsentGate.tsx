@@ -0,0 +1,219 @@
+/**
+ * ConsentGate Component
+ * Shows the consent screen or the paused notice until telemetry is active,
+ * then renders the view it wraps
+ */
+
+import React from 'react';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Spinner } from '../ui/Spinner';
+import { getConsentStatus, giveConsent, setTelemetryPaused, deleteMyData } from '../../lib/api';
+import type { ConsentStatus } from '../../types';
+
+interface ConsentGateProps {
+  children: React.ReactNode;
+}
+
+interface DeleteMyDataButtonProps {
+  disabled?: boolean;
+  onDeleted: (message: string) => void;
+}
+
+/**
+ * Delete everything stored about the user, after confirming in place.
+ * Custom UI runs in a sandboxed iframe where window.confirm can be blocked.
+ */
+export const DeleteMyDataButton: React.FC<DeleteMyDataButtonProps> = ({ disabled, onDeleted }) => {
+  const [confirming, setConfirming] = React.useState(false);
+  const [deleting, setDeleting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const remove = async () => {
+    setDeleting(true);
+    setError(null);
+    try {
+      const result = await deleteMyData();
+      onDeleted(`Deleted ${result.totalDeleted} stored records on ${new Date(result.deletedAt).toLocaleString()}.`);
+      setConfirming(false);
+    } catch (err) {
+      console.error('Error deleting data:', err);
+      setError('Your data could not be deleted. Please try again.');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  if (!confirming) {
+    return (
+      <Button onClick={() => setConfirming(true)} disabled={disabled}>
+        Delete All My Data
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-2 max-w-sm">
+      <p className="text-sm text-f1-text-secondary">
+        This removes your consent record, settings, cached insights, history, stored issues and
+        overnight setup. It cannot be undone.
+      </p>
+      {error && <p className="text-sm text-f1-red">{error}</p>}
+      <div className="flex gap-3">
+        <Button onClick={remove} disabled={deleting}>
+          {deleting ? 'Deleting...' : 'Delete Everything'}
+        </Button>
+        <Button variant="secondary" onClick={() => setConfirming(false)} disabled={deleting}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/** Lets the wrapped view hand the page back to the gate, e.g. after deleting data */
+const ConsentGateContext = React.createContext<{ recheck: (notice?: string) => Promise<void> }>({
+  recheck: async () => undefined
+});
+
+export const useConsentGate = () => React.useContext(ConsentGateContext);
+
+export const ConsentGate: React.FC<ConsentGateProps> = ({ children }) => {
+  const [status, setStatus] = React.useState<ConsentStatus | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [saving, setSaving] = React.useState(false);
+  const [notice, setNotice] = React.useState<string | null>(null);
+  const [loadError, setLoadError] = React.useState(false);
+
+  const recheck = React.useCallback(async (nextNotice?: string) => {
+    setLoading(true);
+    setLoadError(false);
+    try {
+      setStatus(await getConsentStatus());
+      setNotice(nextNotice ?? null);
+    } catch (err) {
+      console.error('Error fetching consent status:', err);
+      setLoadError(true);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    recheck();
+  }, [recheck]);
+
+  const gate = React.useMemo(() => ({ recheck }), [recheck]);
+
+  const run = async (action: () => Promise<ConsentStatus>) => {
+    setSaving(true);
+    try {
+      setStatus(await action());
+      setNotice(null);
+    } catch (err) {
+      console.error('Error updating consent:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Spinner size="large" />
+      </div>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen p-6 flex items-center justify-center">
+        <Card>
+          <div className="text-center space-y-4 max-w-lg">
+            <div className="text-4xl">📡</div>
+            <h2 className="text-xl font-bold text-f1-text-primary">Couldn't Reach the Pit Wall</h2>
+            <p className="text-f1-text-secondary">
+              Your consent status could not be loaded, so nothing has been analyzed.
+            </p>
+            <div className="flex justify-center">
+              <Button onClick={() => recheck(notice ?? undefined)}>Retry</Button>
+            </div>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  if (status?.active) {
+    return <ConsentGateContext.Provider value={gate}>{children}</ConsentGateContext.Provider>;
+  }
+
+  if (status?.consented && status.paused) {
+    return (
+      <div className="min-h-screen p-6 flex items-center justify-center">
+        <Card>
+          <div className="text-center space-y-4 max-w-lg">
+            <div className="text-4xl">⏸️</div>
+            <h2 className="text-xl font-bold text-f1-text-primary">Telemetry Paused</h2>
+            <p className="text-f1-text-secondary">
+              Nothing new is analyzed or recorded while telemetry is paused. Your existing
+              history is kept until you resume or delete it.
+            </p>
+            <div className="flex justify-center gap-3">
+              <Button onClick={() => run(() => setTelemetryPaused(false))} disabled={saving}>
+                Resume Telemetry
+              </Button>
+            </div>
+            <div className="flex justify-center">
+              <DeleteMyDataButton disabled={saving} onDeleted={recheck} />
+            </div>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-6 flex items-center justify-center">
+      <Card>
+        <div className="space-y-4 max-w-lg">
+          <div className="text-center text-4xl">🏎️</div>
+          <h2 className="text-xl font-bold text-f1-text-primary text-center">
+            Before We Start Your Telemetry
+          </h2>
+          {notice && (
+            <p className="text-sm text-f1-green text-center">{notice}</p>
+          )}
+          {status?.record && (
+            <p className="text-sm text-f1-yellow text-center">
+              What Driver Telemetry collects has changed since you agreed. Please review it again.
+            </p>
+          )}
+          <p className="text-f1-text-secondary text-sm">
+            Driver Telemetry analyzes your own Jira work (and Bitbucket activity, if connected)
+            to show when you work best, your load, strengths, collaborators, sprint pace and
+            burnout signals. It stores:
+          </p>
+          <ul className="text-f1-text-secondary text-sm list-disc pl-5 space-y-1">
+            <li>Your analysis results, refreshed as you use the app</li>
+            <li>A daily snapshot of key metrics, kept for up to a year</li>
+            <li>A copy of the issues you were assigned in the last 6 months</li>
+          </ul>
+          <p className="text-f1-text-secondary text-sm">
+            Only you see your insights. Team pages show counts for groups of 5 or more
+            people, never individual scores. You can pause telemetry or delete all of
+            your data at any time.
+          </p>
+          <div className="flex justify-center">
+            <Button onClick={() => run(() => giveConsent(status?.currentVersion || ''))} disabled={saving || !status}>
+              I Agree, Start Telemetry
+            </Button>
+          </div>
+          <p className="text-xs text-f1-text-muted text-center">
+            Consent version {status?.currentVersion}
+          </p>
+        </div>
+      </Card>
+    </div>
+  );
+};
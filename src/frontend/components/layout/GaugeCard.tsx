@@ -14,6 +14,7 @@ interface GaugeCardProps {
   children: React.ReactNode;
   className?: string;
   infoContent?: string | React.ReactNode;
+  onClick?: () => void; // opens the gauge's detail view
 }
 
 export const GaugeCard: React.FC<GaugeCardProps> = ({
@@ -23,6 +24,7 @@ export const GaugeCard: React.FC<GaugeCardProps> = ({
   children,
   className = '',
   infoContent,
+  onClick,
 }) => {
   return (
     <Card className={className}>
@@ -42,7 +44,25 @@ export const GaugeCard: React.FC<GaugeCardProps> = ({
         </div>
 
         {/* Content */}
-        <div>{children}</div>
+        {onClick ? (
+          <div
+            role="button"
+            tabIndex={0}
+            className="cursor-pointer"
+            onClick={onClick}
+            onKeyDown={e => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                onClick();
+              }
+            }}
+          >
+            {children}
+            <div className="text-right text-xs text-f1-text-muted mt-2">View details →</div>
+          </div>
+        ) : (
+          <div>{children}</div>
+        )}
       </div>
     </Card>
   );
@@ -0,0 +1,43 @@
+/**
+ * useAnalysisDetail Hook
+ * Fetches one analysis when a view opens: a gauge's detail view or the issue panel
+ */
+
+import { useState, useEffect } from 'react';
+
+export const useAnalysisDetail = <T>(fetchDetail: () => Promise<T>) => {
+  const [data, setData] = useState<T | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    fetchDetail()
+      .then(detail => {
+        if (!cancelled) {
+          setData(detail);
+          setError(null);
+        }
+      })
+      .catch(err => {
+        console.error('Error fetching analysis detail:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err : new Error('Failed to fetch details'));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    // A view closed mid-fetch must not update
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchDetail]);
+
+  return { data, loading, error };
+};
@@ -5,10 +5,10 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { getDashboardStatus } from '../lib/api';
-import { REFRESH_INTERVAL } from '../lib/constants';
+import { REFRESH_INTERVAL, STALE_REFRESH_INTERVAL } from '../lib/constants';
 import type { CurrentStatus } from '../types';
 
-export const useDashboardData = () => {
+export const useDashboardData = (refreshInterval: number = REFRESH_INTERVAL) => {
   const [data, setData] = useState<CurrentStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
@@ -26,21 +26,27 @@ export const useDashboardData = () => {
     }
   }, []);
 
+  // Stale data is shown at once; poll sooner until the background refresh lands
+  const stale = Boolean(data?.stale);
+
   useEffect(() => {
     // Initial fetch
     fetchData();
+  }, [fetchData]);
 
+  useEffect(() => {
     // Set up auto-refresh interval
-    const intervalId = setInterval(fetchData, REFRESH_INTERVAL);
+    const intervalId = setInterval(fetchData, stale ? STALE_REFRESH_INTERVAL : refreshInterval);
 
     // Cleanup on unmount
     return () => clearInterval(intervalId);
-  }, [fetchData]);
+  }, [fetchData, stale, refreshInterval]);
 
   return {
     data,
     loading,
     error,
+    refreshing: stale,
     refetch: fetchData,
   };
 };
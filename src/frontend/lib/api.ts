@@ -4,6 +4,24 @@
 
 import { invoke } from '@forge/bridge';
 import type { CurrentStatus } from '../../backend/models/analysis';
+import type {
+  BurnoutAnalysis,
+  ConsentStatus,
+  DataDeletionResult,
+  IssueInsights,
+  LoadAnalysis,
+  LoggingConfig,
+  PrecomputeStatus,
+  SiteConfig,
+  SiteConfigOverview,
+  SiteConfigUpdate,
+  SnapshotPoint,
+  SprintPrediction,
+  TeamAnalysis,
+  TimingAnalysis,
+  UserSettings,
+  UserSettingsUpdate
+} from '../types';
 
 /**
  * Get dashboard status (full telemetry data)
@@ -13,8 +31,138 @@ export const getDashboardStatus = async (): Promise<CurrentStatus> => {
 };
 
 /**
- * Get issue panel status (compact telemetry data)
+ * Get telemetry for the issue the panel is open on; null when it can't be analyzed
  */
-export const getIssuePanelStatus = async (): Promise<CurrentStatus> => {
-  return invoke<CurrentStatus>('getIssuePanelStatus');
+export const getIssueInsights = async (): Promise<IssueInsights | null> => {
+  return invoke<IssueInsights | null>('getIssueInsights');
+};
+
+/**
+ * Get the full timing analysis behind the Track Conditions gauge
+ */
+export const getTimingDetail = async (): Promise<TimingAnalysis> => {
+  return invoke<TimingAnalysis>('getTimingDetail');
+};
+
+/**
+ * Get the full load analysis behind the Workload Capacity gauge
+ */
+export const getLoadDetail = async (): Promise<LoadAnalysis> => {
+  return invoke<LoadAnalysis>('getLoadDetail');
+};
+
+/**
+ * Get the full burnout analysis behind the Engine Temperature gauge
+ */
+export const getBurnoutDetail = async (): Promise<BurnoutAnalysis> => {
+  return invoke<BurnoutAnalysis>('getBurnoutDetail');
+};
+
+/**
+ * Get the full sprint prediction behind the Race Strategy gauge
+ */
+export const getSprintPredictionDetail = async (): Promise<SprintPrediction> => {
+  return invoke<SprintPrediction>('getSprintPredictionDetail');
+};
+
+/**
+ * Get the user's nightly precompute opt-in and latest result
+ */
+export const getPrecomputeStatus = async (): Promise<PrecomputeStatus> => {
+  return invoke<PrecomputeStatus>('getPrecomputeStatus');
+};
+
+/**
+ * Opt in to or out of nightly precompute
+ */
+export const setPrecomputeOptIn = async (enabled: boolean): Promise<{ optedIn: boolean }> => {
+  return invoke<{ optedIn: boolean }>('setPrecomputeOptIn', { enabled });
+};
+
+interface SnapshotHistory {
+  analysis: string;
+  metric: string;
+  days: number;
+  points: SnapshotPoint[];
+}
+
+/**
+ * Get one metric's recorded daily history, e.g. ('burnout', 'burnoutScore', 90)
+ */
+export const getSnapshotHistory = async (
+  analysis: string,
+  metric: string,
+  days?: number
+): Promise<SnapshotHistory> => {
+  return invoke<SnapshotHistory>('getSnapshotHistory', { analysis, metric, days });
+};
+
+/**
+ * Get the aggregate-only team view for the current project page
+ */
+export const getTeamStatus = async (): Promise<TeamAnalysis> => {
+  return invoke<TeamAnalysis>('getTeamStatus');
+};
+
+/**
+ * Get the user's consent record and whether telemetry is active
+ */
+export const getConsentStatus = async (): Promise<ConsentStatus> => {
+  return invoke<ConsentStatus>('getConsentStatus');
+};
+
+/**
+ * Agree to a consent version (the one whose text was shown)
+ */
+export const giveConsent = async (version: string): Promise<ConsentStatus> => {
+  return invoke<ConsentStatus>('giveConsent', { version });
+};
+
+/**
+ * Pause or resume telemetry
+ */
+export const setTelemetryPaused = async (paused: boolean): Promise<ConsentStatus> => {
+  return invoke<ConsentStatus>('setTelemetryPaused', { paused });
+};
+
+/**
+ * Delete everything the app stores about the user
+ */
+export const deleteMyData = async (): Promise<DataDeletionResult> => {
+  return invoke<DataDeletionResult>('deleteMyData');
+};
+
+/**
+ * Get the user's settings, with defaults for anything not set
+ */
+export const getUserSettings = async (): Promise<UserSettings> => {
+  return invoke<UserSettings>('getUserSettings');
+};
+
+/**
+ * Change some of the user's settings; rejects with the invalid fields
+ */
+export const updateUserSettings = async (settings: UserSettingsUpdate): Promise<UserSettings> => {
+  return invoke<UserSettings>('updateUserSettings', { settings });
+};
+
+/**
+ * Get the site configuration, its saved versions and story point fields (Jira admins only)
+ */
+export const getSiteConfig = async (): Promise<SiteConfigOverview> => {
+  return invoke<SiteConfigOverview>('getSiteConfig');
+};
+
+/**
+ * Save site-wide defaults; rejects if someone saved since expectedVersion
+ */
+export const updateSiteConfig = async (config: SiteConfigUpdate, expectedVersion: number): Promise<SiteConfig> => {
+  return invoke<SiteConfig>('updateSiteConfig', { config, expectedVersion });
+};
+
+/**
+ * Switch debug logging on for a day, or off (Jira admins only)
+ */
+export const setDebugLogging = async (enabled: boolean): Promise<LoggingConfig> => {
+  return invoke<LoggingConfig>('setDebugLogging', { enabled });
 };
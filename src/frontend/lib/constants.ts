@@ -98,3 +98,17 @@ export const LOAD_EMOJIS = {
 
 // Auto-refresh interval (milliseconds)
 export const REFRESH_INTERVAL = 30000; // 30 seconds
+
+// Poll sooner while the backend refreshes stale data
+export const STALE_REFRESH_INTERVAL = 10000; // 10 seconds
+
+// Recharts styling shared by the gauge detail views
+export const CHART_STYLE = {
+  grid: F1_THEME.colors.border.default,
+  axis: F1_THEME.colors.text.secondary,
+  tooltip: {
+    backgroundColor: F1_THEME.colors.background.card,
+    border: `1px solid ${F1_THEME.colors.border.light}`,
+    color: F1_THEME.colors.text.primary,
+  },
+};
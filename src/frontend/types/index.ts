@@ -11,13 +11,47 @@ export type {
   StrengthAnalysis,
   CollaborationAnalysis,
   TrendAnalysis,
+  BurnoutAnalysis,
+  ContextSwitchingAnalysis,
+  SprintPrediction,
+  HourlyQuality,
+  LoadPoint,
+  TicketRisk,
+  WhatIfScenario,
+  IssueInsights,
+  CompletionForecast,
+  CycleTimeStats,
+  SuggestedReviewer,
+  WipAgingAnalysis,
+  AgingItem,
+  StatusAge,
+  FlowEfficiencyAnalysis,
+  FlowGroup,
+  WaitCategory,
 } from '../../backend/models/analysis';
+export type { TimeBreakdown } from '../../backend/models/issue';
+export type { PrecomputeStatus } from '../../backend/models/precompute';
+export type { SnapshotPoint } from '../../backend/models/snapshot';
+export type { TeamAnalysis, BucketDistribution } from '../../backend/models/team';
+export type { ConsentStatus, DataDeletionResult } from '../../backend/models/consent';
+export type { DashboardGauge, UserSettings, UserSettingsUpdate } from '../../backend/models/settings';
+export type {
+  LoggingConfig,
+  SiteConfig,
+  SiteConfigOverview,
+  SiteConfigUpdate,
+  SiteConfigVersion,
+  ThresholdAnalysis
+} from '../../backend/models/siteConfig';
+export type { WorkflowStage } from '../../backend/models/workflow';
 
 // Frontend-specific types
 export interface ForgeContext {
   extension?: {
     type?: string;
+    project?: { key?: string };
   };
+  moduleKey?: string;
   accountId?: string;
   [key: string]: any;
 }
@@ -0,0 +1,344 @@
+/**
+ * Admin Page View
+ * Site-wide defaults for Jira admins: workflow status mapping, story point
+ * field, projects in scope, data thresholds, cache lifetimes and the team view,
+ * plus the debug logging switch
+ */
+
+import React from 'react';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Spinner } from '../components/ui/Spinner';
+import { getSiteConfig, setDebugLogging, updateSiteConfig } from '../lib/api';
+import type { SiteConfig, SiteConfigOverview, ThresholdAnalysis, WorkflowStage } from '../types';
+
+const STAGE_LABELS: Record<WorkflowStage, string> = {
+  todo: 'To do',
+  in_progress: 'In progress',
+  review: 'Review',
+  testing: 'Testing',
+  done: 'Done'
+};
+
+const ANALYSIS_LABELS: Record<ThresholdAnalysis, string> = {
+  timing: 'Timing (completed tickets)',
+  strengths: 'Strengths (tickets)',
+  collaboration: 'Collaboration (pull requests)',
+  load: 'Workload (tickets)',
+  trends: 'Trends (tickets)',
+  burnout: 'Burnout (tickets)',
+  pitcrew: 'Pit Crew (tickets)',
+  predictions: 'Sprint prediction (completed tickets)',
+  focus: 'Focus (active days)'
+};
+
+const HISTORY_SHOWN = 5;
+
+const inputClass = 'bg-f1-background-dark border border-f1-border rounded px-2 py-1 text-f1-text-primary';
+
+const Section: React.FC<{ title: string; description: string; children: React.ReactNode }> = ({
+  title,
+  description,
+  children
+}) => (
+  <div className="space-y-2">
+    <div>
+      <h4 className="font-bold text-f1-text-primary">{title}</h4>
+      <p className="text-xs text-f1-text-muted">{description}</p>
+    </div>
+    {children}
+  </div>
+);
+
+export const AdminPage: React.FC = () => {
+  const [overview, setOverview] = React.useState<SiteConfigOverview | null>(null);
+  const [draft, setDraft] = React.useState<SiteConfig | null>(null);
+  // Status rows and the project list are edited as text and cleaned up on save
+  const [statusRows, setStatusRows] = React.useState<[string, WorkflowStage][]>([]);
+  const [projects, setProjects] = React.useState('');
+  const [loading, setLoading] = React.useState(true);
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [saved, setSaved] = React.useState(false);
+  const [switchingDebug, setSwitchingDebug] = React.useState(false);
+
+  const load = React.useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getSiteConfig();
+      setOverview(result);
+      setDraft(result.config);
+      setStatusRows(Object.entries(result.config.workflowStatuses));
+      setProjects(result.config.projectsInScope.join(', '));
+    } catch (err) {
+      console.error('Error fetching site configuration:', err);
+      setError(err instanceof Error ? err.message : 'Site configuration could not be loaded');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    load();
+  }, [load]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-f1-background-dark">
+        <Spinner size="large" />
+      </div>
+    );
+  }
+
+  if (!overview || !draft) {
+    return (
+      <div className="min-h-screen p-6 flex items-center justify-center bg-f1-background-dark">
+        <Card>
+          <div className="text-center space-y-4">
+            <div className="text-4xl">⚠️</div>
+            <p className="text-f1-text-secondary">{error || 'Try again in a moment.'}</p>
+            <Button onClick={load}>Retry</Button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const update = <K extends keyof SiteConfig>(field: K, value: SiteConfig[K]) => {
+    setSaved(false);
+    setDraft(current => current && { ...current, [field]: value });
+  };
+
+  const updateStatusRow = (index: number, row: [string, WorkflowStage]) =>
+    setStatusRows(rows => rows.map((existing, i) => (i === index ? row : existing)));
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const { version, updatedAt, updatedBy, ...changes } = draft;
+      await updateSiteConfig({
+        ...changes,
+        workflowStatuses: Object.fromEntries(statusRows.filter(([name]) => name.trim())),
+        projectsInScope: projects.split(',').map(key => key.trim()).filter(Boolean)
+      }, version);
+      await load();
+      setSaved(true);
+    } catch (err) {
+      console.error('Error saving site configuration:', err);
+      setError(err instanceof Error ? err.message : 'Site configuration could not be saved');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Applies at once and isn't versioned, so it doesn't wait for Save
+  const toggleDebugLogging = async () => {
+    setSwitchingDebug(true);
+    setError(null);
+    try {
+      const logging = await setDebugLogging(!overview.logging.debugUntil);
+      setOverview(current => current && { ...current, logging });
+    } catch (err) {
+      console.error('Error switching debug logging:', err);
+      setError(err instanceof Error ? err.message : 'Debug logging could not be switched');
+    } finally {
+      setSwitchingDebug(false);
+    }
+  };
+
+  const fieldOptions = overview.siteFields.some(field => field.fieldId === draft.storyPointFieldId) || !draft.storyPointFieldId
+    ? overview.siteFields
+    : [{ fieldId: draft.storyPointFieldId, name: draft.storyPointFieldId }, ...overview.siteFields];
+
+  return (
+    <div className="min-h-screen p-6 bg-f1-background-dark">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <Card animate={false}>
+          <h1 className="text-2xl font-racing text-gradient-racing mb-1">🔧 Driver Telemetry – Site Setup</h1>
+          <p className="text-f1-text-secondary text-sm">
+            Defaults for everyone on this site. Project admins can still override workflow and story point
+            settings per project. Saving applies immediately; cached insights are recomputed on their next read.
+          </p>
+          <p className="text-xs text-f1-text-muted mt-2">
+            Version {draft.version}
+            {draft.updatedAt && ` · saved ${new Date(draft.updatedAt).toLocaleString()}`}
+          </p>
+        </Card>
+
+        <Card animate={false}>
+          <div className="space-y-6 text-sm text-f1-text-secondary">
+            <Section
+              title="Workflow Statuses"
+              description="Map status names to stages for every project; statuses not listed use their Jira category"
+            >
+              {statusRows.map(([name, stage], index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    className={`${inputClass} flex-1`}
+                    placeholder="Status name, e.g. Code Review"
+                    value={name}
+                    onChange={e => updateStatusRow(index, [e.target.value, stage])}
+                  />
+                  <select
+                    className={inputClass}
+                    value={stage}
+                    onChange={e => updateStatusRow(index, [name, e.target.value as WorkflowStage])}
+                  >
+                    {(Object.keys(STAGE_LABELS) as WorkflowStage[]).map(option => (
+                      <option key={option} value={option}>{STAGE_LABELS[option]}</option>
+                    ))}
+                  </select>
+                  <Button variant="secondary" onClick={() => setStatusRows(rows => rows.filter((_, i) => i !== index))}>
+                    Remove
+                  </Button>
+                </div>
+              ))}
+              <Button variant="secondary" onClick={() => setStatusRows(rows => [...rows, ['', 'in_progress']])}>
+                Add status
+              </Button>
+            </Section>
+
+            <Section
+              title="Story Points"
+              description="Used for projects whose board has no estimation field and no project override"
+            >
+              <select
+                className={`${inputClass} w-full`}
+                value={draft.storyPointFieldId || ''}
+                onChange={e => update('storyPointFieldId', e.target.value || null)}
+              >
+                <option value="">Detect automatically</option>
+                {fieldOptions.map(field => (
+                  <option key={field.fieldId} value={field.fieldId}>{field.name} ({field.fieldId})</option>
+                ))}
+              </select>
+            </Section>
+
+            <Section title="Projects in Scope" description="Comma-separated project keys; leave empty to analyze every project">
+              <input
+                type="text"
+                className={`${inputClass} w-full`}
+                placeholder="All projects"
+                value={projects}
+                onChange={e => {
+                  setSaved(false);
+                  setProjects(e.target.value);
+                }}
+              />
+            </Section>
+
+            <Section title="Minimum Data" description="How much history each analysis needs before it reports results">
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(ANALYSIS_LABELS) as ThresholdAnalysis[]).map(analysis => (
+                  <label key={analysis} className="flex items-center justify-between gap-2">
+                    {ANALYSIS_LABELS[analysis]}
+                    <input
+                      type="number"
+                      className={`${inputClass} w-20`}
+                      min={1}
+                      max={500}
+                      value={draft.minDataPoints[analysis]}
+                      onChange={e => update('minDataPoints', { ...draft.minDataPoints, [analysis]: Number(e.target.value) })}
+                    />
+                  </label>
+                ))}
+              </div>
+            </Section>
+
+            <Section title="Cache Lifetimes" description="Hours before each cached analysis is recomputed (up to 168)">
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(draft.cacheTtlHours) as (keyof SiteConfig['cacheTtlHours'])[]).map(namespace => (
+                  <label key={namespace} className="flex items-center justify-between gap-2 capitalize">
+                    {namespace}
+                    <input
+                      type="number"
+                      className={`${inputClass} w-20`}
+                      min={0.25}
+                      max={168}
+                      step={0.25}
+                      value={draft.cacheTtlHours[namespace]}
+                      onChange={e => update('cacheTtlHours', { ...draft.cacheTtlHours, [namespace]: Number(e.target.value) })}
+                    />
+                  </label>
+                ))}
+              </div>
+            </Section>
+
+            <Section title="Team View" description="The aggregate-only team page on project sidebars">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={draft.team.enabled}
+                  onChange={() => update('team', { ...draft.team, enabled: !draft.team.enabled })}
+                />
+                Enable the team view
+              </label>
+              <label className="flex items-center gap-2">
+                Hide buckets with fewer than
+                <input
+                  type="number"
+                  className={`${inputClass} w-20`}
+                  min={3}
+                  max={50}
+                  value={draft.team.minBucketSize}
+                  onChange={e => update('team', { ...draft.team, minBucketSize: Number(e.target.value) })}
+                />
+                people
+              </label>
+            </Section>
+
+            {error && (
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-sm text-f1-red">{error}</p>
+                <Button variant="secondary" onClick={load} disabled={saving}>Reload</Button>
+              </div>
+            )}
+            {saved && <p className="text-sm text-f1-green">Saved as version {draft.version}</p>}
+
+            <div className="flex justify-end">
+              <Button onClick={save} disabled={saving}>
+                {saving ? 'Saving…' : 'Save Configuration'}
+              </Button>
+            </div>
+          </div>
+        </Card>
+
+        <Card animate={false}>
+          <Section
+            title="Debug Logging"
+            description="Writes detailed, redacted entries to the app's Forge logs for troubleshooting; turns itself off after 24 hours"
+          >
+            <div className="flex items-center justify-between gap-3 text-sm text-f1-text-secondary">
+              <span>
+                {overview.logging.debugUntil
+                  ? `On until ${new Date(overview.logging.debugUntil).toLocaleString()}`
+                  : 'Off'}
+              </span>
+              <Button variant="secondary" onClick={toggleDebugLogging} disabled={switchingDebug}>
+                {overview.logging.debugUntil ? 'Turn off' : 'Turn on for 24 hours'}
+              </Button>
+            </div>
+          </Section>
+        </Card>
+
+        {overview.history.length > 0 && (
+          <Card animate={false}>
+            <Section title="Recent Versions" description="The last saved versions of the site configuration">
+              <ul className="text-sm text-f1-text-secondary space-y-1">
+                {overview.history.slice(0, HISTORY_SHOWN).map(({ version, config }) => (
+                  <li key={version}>
+                    Version {version}
+                    {config.updatedAt && ` · ${new Date(config.updatedAt).toLocaleString()}`}
+                  </li>
+                ))}
+              </ul>
+            </Section>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
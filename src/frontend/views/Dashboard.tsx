@@ -13,17 +13,78 @@ import { TimeZoneGauge } from '../components/gauges/TimeZoneGauge';
 import { ProgressRing } from '../components/gauges/ProgressRing';
 import { VelocityGauge } from '../components/gauges/VelocityGauge';
 import { BurnoutGauge } from '../components/gauges/BurnoutGauge';
+import { FocusGauge } from '../components/gauges/FocusGauge';
+import { FlowBreakdown } from '../components/gauges/FlowBreakdown';
 import { TeamNetworkList } from '../components/gauges/TeamNetworkList';
 import { SprintPredictionGauge } from '../components/gauges/SprintPredictionGauge';
+import { Sparkline } from '../components/gauges/Sparkline';
+import { StalledWorkList } from '../components/gauges/StalledWorkList';
 import { Button } from '../components/ui/Button';
 import { Badge } from '../components/ui/Badge';
 import { Spinner } from '../components/ui/Spinner';
 import { Card } from '../components/ui/Card';
 import { RACING_FLAGS, LOAD_EMOJIS } from '../lib/constants';
+import { getPrecomputeStatus, getUserSettings, setPrecomputeOptIn, setTelemetryPaused } from '../lib/api';
+import { DeleteMyDataButton, useConsentGate } from '../components/layout/ConsentGate';
+import { Settings } from './Settings';
+import { GaugeDetail, DetailGauge } from './GaugeDetail';
+import type { DashboardGauge, PrecomputeStatus, UserSettings } from '../types';
 
 export const Dashboard: React.FC = () => {
-  const { data, loading, error } = useDashboardData();
+  const [settings, setSettings] = React.useState<UserSettings | null>(null);
+  const [showSettings, setShowSettings] = React.useState(false);
+  const [detailGauge, setDetailGauge] = React.useState<DetailGauge | null>(null);
+  const { data, loading, error, refreshing, refetch } = useDashboardData(
+    settings ? settings.refreshIntervalSeconds * 1000 : undefined
+  );
   const [showSetupInstructions, setShowSetupInstructions] = React.useState(false);
+  const [precompute, setPrecompute] = React.useState<PrecomputeStatus | null>(null);
+  const [savingPrecompute, setSavingPrecompute] = React.useState(false);
+  const [savingPrivacy, setSavingPrivacy] = React.useState(false);
+  const { recheck: recheckConsent } = useConsentGate();
+
+  React.useEffect(() => {
+    getPrecomputeStatus()
+      .then(setPrecompute)
+      .catch(err => console.error('Error fetching precompute status:', err));
+    getUserSettings()
+      .then(setSettings)
+      .catch(err => console.error('Error fetching settings:', err));
+  }, []);
+
+  const isGaugeVisible = (gauge: DashboardGauge) => !settings?.hiddenGauges.includes(gauge);
+
+  // Saved settings invalidate the cached analyses, so fetch fresh status
+  const saveSettings = (saved: UserSettings) => {
+    setSettings(saved);
+    setShowSettings(false);
+    refetch();
+  };
+
+  const togglePrecompute = async () => {
+    if (!precompute) return;
+    setSavingPrecompute(true);
+    try {
+      const { optedIn } = await setPrecomputeOptIn(!precompute.optedIn);
+      setPrecompute({ ...precompute, optedIn });
+    } catch (err) {
+      console.error('Error updating precompute opt-in:', err);
+    } finally {
+      setSavingPrecompute(false);
+    }
+  };
+
+  // Pausing or deleting hands the page back to the consent gate
+  const pauseTelemetry = async () => {
+    setSavingPrivacy(true);
+    try {
+      await setTelemetryPaused(true);
+      window.location.reload();
+    } catch (err) {
+      console.error('Error pausing telemetry:', err);
+      setSavingPrivacy(false);
+    }
+  };
 
   // Open Rovo chat using Forge bridge API
   const openRovoChat = async (prompt?: string) => {
@@ -91,6 +152,14 @@ export const Dashboard: React.FC = () => {
     }
   };
 
+  if (showSettings && settings) {
+    return <Settings settings={settings} onSaved={saveSettings} onClose={() => setShowSettings(false)} />;
+  }
+
+  if (detailGauge) {
+    return <GaugeDetail gauge={detailGauge} onClose={() => setDetailGauge(null)} />;
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -134,8 +203,12 @@ export const Dashboard: React.FC = () => {
     loadData,
     velocityData,
     burnoutData,
+    focusData,
     pitCrewData,
     sprintPredictionData,
+    agingData,
+    flowData,
+    dataUnavailable,
   } = data;
 
   // Debug velocity data
@@ -179,281 +252,429 @@ export const Dashboard: React.FC = () => {
               </Badge>
               <div className="text-xs text-f1-text-muted mt-1">
                 Updated: {new Date(timestamp).toLocaleTimeString()}
+                {refreshing && <span className="ml-1 animate-pulse">• Refreshing…</span>}
               </div>
+              {settings && (
+                <Button variant="secondary" className="mt-2" onClick={() => setShowSettings(true)}>
+                  ⚙️ Settings
+                </Button>
+              )}
             </div>
           </div>
         </Card>
 
+        {/* Data availability notice */}
+        {dataUnavailable && (
+          <Card animate={false}>
+            <div className="flex items-center gap-3">
+              <div className="text-2xl">🟡</div>
+              <div>
+                <div className="font-bold text-f1-text-primary">Data temporarily unavailable</div>
+                <div className="text-sm text-f1-text-secondary">
+                  {dataUnavailable.message} Some gauges may be missing until Jira responds again.
+                </div>
+              </div>
+            </div>
+          </Card>
+        )}
+
         {/* Gauge Cluster */}
         <DashboardGrid>
           {/* Track Conditions */}
-          <GaugeCard
-            title="Track Conditions"
-            subtitle="When you perform best"
-            icon="🏁"
-            infoContent={
-              <div>
-                <strong>Timing Analysis</strong>
-                <br />
-                Analyzes your last 84 days of work to identify:
-                <br />• Peak Performance Window: Hours when you complete work fastest and with highest quality
-                <br />• Danger Zone: Hours with slower completion and higher defect rates
-                <br />
-                <br />Based on 8-week pattern analysis of cycle times and quality metrics.
-              </div>
-            }
-          >
-            {timingData ? (
-              <TimeZoneGauge
-                currentHour={timingData.currentHour}
-                peakStart={timingData.peakWindow.start}
-                peakEnd={timingData.peakWindow.end}
-                dangerStart={timingData.dangerZone?.start}
-                dangerEnd={timingData.dangerZone?.end}
-              />
-            ) : (
-              <div className="text-center text-f1-text-muted py-8">
-                Complete more tickets to enable timing analysis
-              </div>
-            )}
-          </GaugeCard>
+          {isGaugeVisible('timing') && (
+            <GaugeCard
+              title="Track Conditions"
+              onClick={() => setDetailGauge('timing')}
+              subtitle={timingData ? `When you perform best (${timingData.timeZone})` : 'When you perform best'}
+              icon="🏁"
+              infoContent={
+                <div>
+                  <strong>Timing Analysis</strong>
+                  <br />
+                  Analyzes your last 84 days of work to identify:
+                  <br />• Peak Performance Window: Hours when you complete work fastest and with highest quality
+                  <br />• Danger Zone: Hours with slower completion and higher defect rates
+                  <br />
+                  <br />Based on 8-week pattern analysis of cycle times and quality metrics.
+                  <br />Hours use the timezone from your Jira profile, or the one set in Settings.
+                </div>
+              }
+            >
+              {timingData ? (
+                <TimeZoneGauge
+                  currentHour={timingData.currentHour}
+                  peakStart={timingData.peakWindow.start}
+                  peakEnd={timingData.peakWindow.end}
+                  dangerStart={timingData.dangerZone?.start}
+                  dangerEnd={timingData.dangerZone?.end}
+                />
+              ) : (
+                <div className="text-center text-f1-text-muted py-8">
+                  Complete more tickets to enable timing analysis
+                </div>
+              )}
+            </GaugeCard>
+          )}
 
           {/* Workload Capacity */}
-          <GaugeCard
-            title="Workload Capacity"
-            subtitle="Current vs optimal load"
-            icon="⛽"
-            infoContent={
-              <div>
-                <strong>Optimal Load Calculation</strong>
-                <br />
-                Industry research shows individual contributors perform best with 5-9 concurrent tickets.
-                <br />
-                <br />Status zones:
-                <br />• Under (&lt;5): Room for more work
-                <br />• Optimal (5-9): Sweet spot for quality and speed
-                <br />• Over (10-12): Quality may suffer
-                <br />• Critical (13+): High risk of delays and defects
-              </div>
-            }
-          >
-            {loadData ? (
-              <div className="space-y-4">
-                <Speedometer
-                  value={activeTickets}
-                  maxValue={loadData.optimalMax * 2}
-                  optimalMin={loadData.optimalMin}
-                  optimalMax={loadData.optimalMax}
-                  label="Active Tickets"
-                />
-                <div className="space-y-2 text-sm">
-                  <div className="flex items-center justify-between">
-                    <span className="text-f1-text-secondary">Current Load:</span>
-                    <Badge variant={getLoadVariant()}>
-                      {LOAD_EMOJIS[loadStatus]} {loadStatus.toUpperCase()}
-                    </Badge>
-                  </div>
-                  <div className="text-f1-text-secondary text-center">
-                    Optimal: {loadData.optimalMin}-{loadData.optimalMax} concurrent tickets
+          {isGaugeVisible('load') && (
+            <GaugeCard
+              title="Workload Capacity"
+              onClick={() => setDetailGauge('load')}
+              subtitle="Current vs optimal load"
+              icon="⛽"
+              infoContent={
+                <div>
+                  <strong>Optimal Load Calculation</strong>
+                  <br />
+                  Industry research shows individual contributors perform best with 5-9 concurrent tickets.
+                  You can tune the zones in Settings.
+                  <br />
+                  <br />Status zones{settings ? '' : ' (defaults)'}:
+                  <br />• Under (&lt;{settings?.load.optimalMin ?? 5}): Room for more work
+                  <br />• Optimal ({settings?.load.optimalMin ?? 5}-{settings?.load.optimalMax ?? 9}): Sweet spot for quality and speed
+                  <br />• Over (up to {settings?.load.criticalAbove ?? 12}): Quality may suffer
+                  <br />• Critical (above {settings?.load.criticalAbove ?? 12}): High risk of delays and defects
+                </div>
+              }
+            >
+              {loadData ? (
+                <div className="space-y-4">
+                  <Speedometer
+                    value={activeTickets}
+                    maxValue={loadData.optimalMax * 2}
+                    optimalMin={loadData.optimalMin}
+                    optimalMax={loadData.optimalMax}
+                    label="Active Tickets"
+                  />
+                  <div className="space-y-2 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="text-f1-text-secondary">Current Load:</span>
+                      <Badge variant={getLoadVariant()}>
+                        {LOAD_EMOJIS[loadStatus]} {loadStatus.toUpperCase()}
+                      </Badge>
+                    </div>
+                    <div className="text-f1-text-secondary text-center">
+                      Optimal: {loadData.optimalMin}-{loadData.optimalMax} concurrent tickets
+                    </div>
                   </div>
+                  {loadData.history && (
+                    <Sparkline points={loadData.history} label="Active tickets, last 30 days" />
+                  )}
                 </div>
-              </div>
-            ) : (
-              <div className="text-center text-f1-text-muted py-8">
-                Complete more tickets to enable load analysis
-              </div>
-            )}
-          </GaugeCard>
+              ) : (
+                <div className="text-center text-f1-text-muted py-8">
+                  Complete more tickets to enable load analysis
+                </div>
+              )}
+            </GaugeCard>
+          )}
 
           {/* Velocity Gauge */}
-          <GaugeCard
-            title="Velocity"
-            subtitle="Completion rate vs your average"
-            icon="🏎️"
-            infoContent={
-              <div>
-                <strong>Velocity Calculation</strong>
-                <br />
-                Tracks your ticket completion rate over time:
-                <br />• Current: Tickets completed in last 7 days
-                <br />• Weekly Avg: Monthly total ÷ 4.3 weeks
-                <br />
-                <br />Status determination:
-                <br />• Below: &gt;20% under average
-                <br />• On-Pace: Within 20% of average
-                <br />• Above: &gt;20% over average
-              </div>
-            }
-          >
-            {velocityData ? (
-              <div className="space-y-4">
-                <VelocityGauge
-                  current={velocityData.current}
-                  weeklyAvg={velocityData.weeklyAvg}
-                  status={velocityData.status}
-                />
-                <div className="space-y-2 text-sm text-center">
-                  <div className="text-f1-text-secondary">
-                    Last 7 days: <span className="font-bold text-f1-text-primary">{velocityData.current}</span> tickets
-                  </div>
-                  <div className="text-f1-text-secondary">
-                    Last 30 days: <span className="font-bold text-f1-text-primary">{velocityData.monthlyTotal}</span> tickets
-                  </div>
-                  <div className="text-f1-text-muted text-xs">
-                    {velocityData.status === 'below' && '📉 Below your usual pace'}
-                    {velocityData.status === 'on-pace' && '✅ Maintaining steady velocity'}
-                    {velocityData.status === 'above' && '📈 Moving faster than average'}
+          {isGaugeVisible('velocity') && (
+            <GaugeCard
+              title="Velocity"
+              subtitle="Completion rate vs your average"
+              icon="🏎️"
+              infoContent={
+                <div>
+                  <strong>Velocity Calculation</strong>
+                  <br />
+                  Tracks your ticket completion rate over time:
+                  <br />• Current: Work completed in last 7 days
+                  <br />• Weekly Avg: Monthly total ÷ 4.3 weeks
+                  <br />• Measured in story points when most of your completed tickets are estimated
+                  <br />
+                  <br />Status determination:
+                  <br />• Below: &gt;20% under average
+                  <br />• On-Pace: Within 20% of average
+                  <br />• Above: &gt;20% over average
+                </div>
+              }
+            >
+              {velocityData ? (
+                <div className="space-y-4">
+                  <VelocityGauge
+                    current={velocityData.current}
+                    weeklyAvg={velocityData.weeklyAvg}
+                    status={velocityData.status}
+                    unit={velocityData.unit}
+                  />
+                  <div className="space-y-2 text-sm text-center">
+                    <div className="text-f1-text-secondary">
+                      Last 7 days: <span className="font-bold text-f1-text-primary">{velocityData.current}</span> {velocityData.unit}
+                      {velocityData.unit === 'points' && ` (${velocityData.ticketsCurrent} tickets)`}
+                    </div>
+                    <div className="text-f1-text-secondary">
+                      Last 30 days: <span className="font-bold text-f1-text-primary">{velocityData.monthlyTotal}</span> {velocityData.unit}
+                      {velocityData.unit === 'points' && ` (${velocityData.ticketsMonthlyTotal} tickets)`}
+                    </div>
+                    <div className="text-f1-text-muted text-xs">
+                      {velocityData.status === 'below' && '📉 Below your usual pace'}
+                      {velocityData.status === 'on-pace' && '✅ Maintaining steady velocity'}
+                      {velocityData.status === 'above' && '📈 Moving faster than average'}
+                    </div>
                   </div>
                 </div>
-              </div>
-            ) : (
-              <div className="text-center text-f1-text-muted py-8">
-                Complete more tickets to enable velocity tracking
-              </div>
-            )}
-          </GaugeCard>
+              ) : (
+                <div className="text-center text-f1-text-muted py-8">
+                  Complete more tickets to enable velocity tracking
+                </div>
+              )}
+            </GaugeCard>
+          )}
 
           {/* Burnout Risk Gauge */}
-          <GaugeCard
-            title="Engine Temperature"
-            subtitle="Burnout risk monitoring"
-            icon="🌡️"
-            infoContent={
-              <div>
-                <strong>Burnout Risk Calculation</strong>
-                <br />
-                Analyzes 5 risk factors from last 84 days:
-                <br />1. Sustained Overload (20-40 pts): Creating more tickets than completing for 2+ weeks
-                <br />2. Current Load Status (5-25 pts): Working at upper end of optimal range
-                <br />3. Declining Velocity (15-30 pts): 20%+ drop in completion rate
-                <br />4. Danger Hour Work (10 pts): Working during low-performance hours
-                <br />5. High-Velocity Weeks (15 pts): 3+ weeks with 8+ tickets completed
-                <br />
-                <br />Total score (0-100) determines risk level:
-                <br />• Healthy (&lt;30), Warning (30-49), High (50-69), Critical (70+)
-              </div>
-            }
-          >
-            {burnoutData ? (
-              <BurnoutGauge
-                burnoutScore={burnoutData.burnoutScore}
-                riskLevel={burnoutData.riskLevel}
-                topRiskFactors={burnoutData.topRiskFactors}
+          {isGaugeVisible('burnout') && (
+            <GaugeCard
+              title="Engine Temperature"
+              onClick={() => setDetailGauge('burnout')}
+              subtitle="Burnout risk monitoring"
+              icon="🌡️"
+              infoContent={
+                <div>
+                  <strong>Burnout Risk Calculation</strong>
+                  <br />
+                  Analyzes 5 risk factors from last 84 days:
+                  <br />1. Sustained Overload (20-40 pts): Creating more tickets than completing for 2+ weeks
+                  <br />2. Current Load Status (5-25 pts): Working at upper end of optimal range
+                  <br />3. Declining Velocity (15-30 pts): 20%+ drop in completion rate
+                  <br />4. Danger Hour Work (10 pts): Working during low-performance hours
+                  <br />5. High-Velocity Weeks (15 pts): 3+ weeks with 8+ tickets completed
+                  <br />
+                  <br />Total score (0-100) determines risk level:
+                  <br />• Healthy (&lt;30), Warning (30-49), High (50-69), Critical (70+)
+                </div>
+              }
+            >
+              {burnoutData ? (
+                <BurnoutGauge
+                  burnoutScore={burnoutData.burnoutScore}
+                  riskLevel={burnoutData.riskLevel}
+                  topRiskFactors={burnoutData.topRiskFactors}
+                  scoreHistory={burnoutData.scoreHistory}
+                />
+              ) : (
+                <div className="text-center text-f1-text-muted py-8">
+                  Burnout analysis loading...
+                </div>
+              )}
+            </GaugeCard>
+          )}
+
+          {/* Focus / Context Switching */}
+          {isGaugeVisible('focus') && focusData && (
+            <GaugeCard
+              title="Clean Air"
+              subtitle="Focus and context switching"
+              icon="🔀"
+              infoContent={
+                <div>
+                  <strong>Fragmentation Score (0-100)</strong>
+                  <br />
+                  Built from your own transitions, comments and linked commits over the last 8 weeks:
+                  <br />• Issues and projects touched per day
+                  <br />• Switches: moving from one issue to another within a day
+                  <br />• Bounces: starting a ticket while another is still in progress
+                  <br />• Focus streaks: time on one issue before switching or a 2h+ break
+                  <br />
+                  <br />0-25 focused, 25-45 moderate, 45-70 fragmented, 70+ scattered.
+                  <br />Fragmented and scattered days add to your burnout score.
+                </div>
+              }
+            >
+              <FocusGauge
+                fragmentationScore={focusData.fragmentationScore}
+                level={focusData.level}
+                avgIssuesPerDay={focusData.avgIssuesPerDay}
+                avgSwitchesPerDay={focusData.avgSwitchesPerDay}
+                medianFocusHours={focusData.medianFocusHours}
+                weeklySwitches={focusData.weeklySwitches}
               />
-            ) : (
-              <div className="text-center text-f1-text-muted py-8">
-                Burnout analysis loading...
-              </div>
-            )}
-          </GaugeCard>
+            </GaugeCard>
+          )}
 
           {/* Pit Crew Analytics */}
-          <GaugeCard
-            title="Pit Crew"
-            subtitle="Team collaboration and chemistry"
-            icon="👥"
-            infoContent={
-              <div>
-                <strong>Pit Crew Chemistry Calculation</strong>
-                <br />
-                Analyzes team collaboration patterns from last 180 days:
-                <br />• Collaboration Detection: Tracks assignee changes and ticket interactions
-                <br />• Chemistry Score: Compares cycle times when working with vs without teammate
-                <br />• Speedup Calculation: (Solo Avg - Team Avg) ÷ Solo Avg × 100%
-                <br />
-                <br />Top 3 teammates ranked by collaboration count.
-                <br />Best chemistry highlighted when speedup &gt; 0.
-              </div>
-            }
-          >
-            <TeamNetworkList
-              topTeammates={
-                pitCrewData && pitCrewData.topTeammates.length > 0
-                  ? pitCrewData.topTeammates
-                  : [
-                      { name: 'Sarah Chen', collaborations: 24 },
-                      { name: 'Marcus Rodriguez', collaborations: 18 },
-                      { name: 'Aisha Patel', collaborations: 12 }
-                    ]
+          {isGaugeVisible('pitcrew') && (
+            <GaugeCard
+              title="Pit Crew"
+              subtitle="Team collaboration and chemistry"
+              icon="👥"
+              infoContent={
+                <div>
+                  <strong>Pit Crew Chemistry Calculation</strong>
+                  <br />
+                  Analyzes team collaboration patterns over your lookback window (180 days by default):
+                  <br />• Collaboration Detection: Tracks assignee changes and ticket interactions
+                  <br />• Chemistry Score: Compares cycle times when working with vs without teammate
+                  <br />• Speedup Calculation: (Solo Avg - Team Avg) ÷ Solo Avg × 100%
+                  <br />
+                  <br />Top 3 teammates ranked by collaboration count.
+                  <br />Best chemistry highlighted when speedup &gt; 0.
+                </div>
               }
-              bestChemistry={
-                pitCrewData?.bestChemistry || {
-                  name: 'Sarah Chen',
-                  speedup: 32
+            >
+              <TeamNetworkList
+                topTeammates={
+                  pitCrewData && pitCrewData.topTeammates.length > 0
+                    ? pitCrewData.topTeammates
+                    : [
+                        { name: 'Sarah Chen', collaborations: 24 },
+                        { name: 'Marcus Rodriguez', collaborations: 18 },
+                        { name: 'Aisha Patel', collaborations: 12 }
+                      ]
                 }
-              }
-            />
-          </GaugeCard>
+                bestChemistry={
+                  pitCrewData?.bestChemistry || {
+                    name: 'Sarah Chen',
+                    speedup: 32
+                  }
+                }
+              />
+            </GaugeCard>
+          )}
 
           {/* Sprint Prediction */}
-          <GaugeCard
-            title="Race Strategy"
-            subtitle="Sprint completion prediction"
-            icon="🎯"
-            infoContent={
-              <div>
-                <strong>Sprint Prediction Algorithm</strong>
-                <br />
-                Uses Monte Carlo simulation (1000 iterations) to predict sprint outcomes:
-                <br />• Samples historical cycle times randomly
-                <br />• Simulates ticket completion within sprint timeframe
-                <br />• Calculates probability distribution
-                <br />
-                <br />Outputs:
-                <br />• Completion Probability: % chance of finishing all tickets
-                <br />• Expected Completed: Average tickets finished across simulations
-                <br />• At-Risk Tickets: Those unlikely to complete
-              </div>
-            }
-          >
-            <SprintPredictionGauge
-              completionProbability={
-                sprintPredictionData && sprintPredictionData.expectedCompleted > 0
-                  ? sprintPredictionData.completionProbability
-                  : 0.78
-              }
-              expectedCompleted={
-                sprintPredictionData && sprintPredictionData.expectedCompleted > 0
-                  ? sprintPredictionData.expectedCompleted
-                  : 7
-              }
-              atRiskCount={
-                sprintPredictionData && sprintPredictionData.expectedCompleted > 0
-                  ? sprintPredictionData.atRiskCount
-                  : 2
+          {isGaugeVisible('sprintPrediction') && (
+            <GaugeCard
+              title="Race Strategy"
+              onClick={() => setDetailGauge('sprintPrediction')}
+              subtitle="Sprint completion prediction"
+              icon="🎯"
+              infoContent={
+                <div>
+                  <strong>Sprint Prediction Algorithm</strong>
+                  <br />
+                  Uses Monte Carlo simulation (1000 iterations) to predict sprint outcomes:
+                  <br />• Samples historical cycle times randomly
+                  <br />• Simulates ticket completion within sprint timeframe
+                  <br />• Calculates probability distribution
+                  <br />
+                  <br />Outputs:
+                  <br />• Completion Probability: % chance of finishing all tickets
+                  <br />• Expected Completed: Average tickets finished across simulations
+                  <br />• At-Risk Tickets: Those unlikely to complete
+                </div>
               }
-            />
-          </GaugeCard>
+            >
+              <SprintPredictionGauge
+                completionProbability={
+                  sprintPredictionData && sprintPredictionData.expectedCompleted > 0
+                    ? sprintPredictionData.completionProbability
+                    : 0.78
+                }
+                expectedCompleted={
+                  sprintPredictionData && sprintPredictionData.expectedCompleted > 0
+                    ? sprintPredictionData.expectedCompleted
+                    : 7
+                }
+                atRiskCount={
+                  sprintPredictionData && sprintPredictionData.expectedCompleted > 0
+                    ? sprintPredictionData.atRiskCount
+                    : 2
+                }
+              />
+            </GaugeCard>
+          )}
 
-          {/* Sprint Progress */}
-          {sprintProgress && sprintProgress.percentComplete > 0 && (
+          {/* Stalled Work */}
+          {isGaugeVisible('aging') && agingData && (
             <GaugeCard
-              title="Sprint Progress"
-              subtitle="Current sprint completion"
-              icon="🏁"
+              title="Stalled Work"
+              subtitle="Tickets sitting in their status too long"
+              icon="🧊"
               infoContent={
                 <div>
-                  <strong>Sprint Progress Calculation</strong>
+                  <strong>WIP Aging Calculation</strong>
                   <br />
-                  Simple completion tracking:
-                  <br />• Completed: Tickets marked as Done
-                  <br />• Remaining: Active tickets in sprint
-                  <br />• Percent: (Completed ÷ Total) × 100%
+                  For each ticket in progress, review or testing:
+                  <br />• Age: Time since it entered its current status
+                  <br />• Norm: How long your past tickets of the same type spent in that status
+                  <br />• Stalled: Older than 85% of them
                   <br />
-                  <br />Note: This tracks active tickets. For predictive analysis, see Race Strategy gauge.
+                  <br />Falls back to all your tickets when a type has fewer than 5 to compare with.
                 </div>
               }
             >
-              <div className="flex justify-center py-4">
-                <div className="relative w-32 h-32">
-                  <ProgressRing percentage={sprintProgress.percentComplete} size={120} />
+              <StalledWorkList
+                wipCount={agingData.wipCount}
+                stuckCount={agingData.stuckCount}
+                oldest={agingData.oldest}
+              />
+            </GaugeCard>
+          )}
+
+          {/* Flow Efficiency */}
+          {isGaugeVisible('flow') && flowData && (
+            <GaugeCard
+              title="Time on Track"
+              subtitle="Hands-on work vs waiting"
+              icon="⏱️"
+              infoContent={
+                <div>
+                  <strong>Flow Efficiency Calculation</strong>
+                  <br />
+                  Each completed ticket's cycle time, from first in progress to done, split into:
+                  <br />• Active: In progress
+                  <br />• Review, QA: Waiting for or in review and testing
+                  <br />• Blocked: Flagged, or in a blocked / on hold status
+                  <br />• Queued: Moved back to to do after starting
+                  <br />
+                  <br />Flow efficiency = active time ÷ cycle time.
                 </div>
-              </div>
-              <div className="text-center text-sm text-f1-text-secondary">
-                {sprintProgress.completed} completed • {sprintProgress.remaining} remaining
-              </div>
+              }
+            >
+              <FlowBreakdown
+                hours={flowData.hours}
+                efficiency={flowData.efficiency}
+                caption={`Across ${flowData.issueCount} completed ticket${flowData.issueCount !== 1 ? 's' : ''}`}
+              />
             </GaugeCard>
           )}
+
+          {/* Sprint Progress */}
+          {isGaugeVisible('sprintProgress') && sprintProgress && sprintProgress.sprintName && (
+              <GaugeCard
+                title="Sprint Progress"
+                subtitle={sprintProgress.sprintName}
+                icon="🏁"
+                infoContent={
+                  <div>
+                    <strong>Sprint Progress Calculation</strong>
+                    <br />
+                    Your tickets in the current sprint (from the Jira Software board):
+                    <br />• Completed: Tickets in a Done status
+                    <br />• Remaining: Sprint tickets not yet done
+                    <br />• Percent: (Completed ÷ Total) × 100%
+                    <br />• On track: Completion keeps pace with elapsed sprint time
+                    <br />
+                    <br />Added mid-sprint counts tickets that joined after the sprint started.
+                  </div>
+                }
+              >
+                <div className="flex justify-center py-4">
+                  <div className="relative w-32 h-32">
+                    <ProgressRing percentage={sprintProgress.percentComplete} size={120} />
+                  </div>
+                </div>
+                <div className="text-center text-sm text-f1-text-secondary">
+                  {sprintProgress.completed} completed • {sprintProgress.remaining} remaining
+                </div>
+                <div className="flex justify-center gap-2 mt-2">
+                  <Badge variant={sprintProgress.onTrack ? 'green' : 'yellow'}>
+                    {sprintProgress.onTrack ? 'On track' : 'Behind pace'}
+                  </Badge>
+                  {sprintProgress.daysRemaining !== undefined && (
+                    <Badge variant="primary">{sprintProgress.daysRemaining} days left</Badge>
+                  )}
+                </div>
+                {!!sprintProgress.addedMidSprint && (
+                  <div className="text-center text-xs text-f1-text-secondary mt-2">
+                    {sprintProgress.addedMidSprint} added mid-sprint ({sprintProgress.committed} committed)
+                  </div>
+                )}
+              </GaugeCard>
+          )}
         </DashboardGrid>
 
         {/* Recommendations */}
@@ -485,6 +706,79 @@ export const Dashboard: React.FC = () => {
           </div>
         </Card>
 
+        {/* Nightly Precompute */}
+        {precompute && (
+          <Card>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <span className="text-2xl">🌙</span>
+                  <div>
+                    <h3 className="text-lg font-bold text-f1-text-primary">Overnight Setup</h3>
+                    <p className="text-sm text-f1-text-secondary">
+                      Precompute your analyses nightly so the dashboard opens instantly
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant={precompute.optedIn ? 'secondary' : 'primary'}
+                  onClick={togglePrecompute}
+                  disabled={savingPrecompute}
+                >
+                  {precompute.optedIn ? 'Turn Off' : 'Turn On'}
+                </Button>
+              </div>
+              {precompute.optedIn && (
+                <div className="flex items-center gap-2 text-sm text-f1-text-secondary">
+                  {precompute.lastResult ? (
+                    <>
+                      <Badge
+                        variant={
+                          precompute.lastResult.status === 'succeeded' ? 'green'
+                            : precompute.lastResult.status === 'partial' ? 'yellow'
+                            : 'red'
+                        }
+                      >
+                        {precompute.lastResult.status}
+                      </Badge>
+                      <span>
+                        Last run {new Date(precompute.lastResult.finishedAt).toLocaleString()}
+                        {precompute.lastResult.failures.length > 0 &&
+                          ` · ${precompute.lastResult.failures.map(f => f.analysis).join(', ')} failed`}
+                      </span>
+                    </>
+                  ) : precompute.progress && precompute.progress.pending > 0 ? (
+                    <span>Tonight's run in progress ({precompute.progress.pending} drivers queued)</span>
+                  ) : (
+                    <span>First run tonight</span>
+                  )}
+                </div>
+              )}
+            </div>
+          </Card>
+        )}
+
+        {/* Privacy Controls */}
+        <Card>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <span className="text-2xl">🔒</span>
+              <div>
+                <h3 className="text-lg font-bold text-f1-text-primary">Your Data</h3>
+                <p className="text-sm text-f1-text-secondary">
+                  Pause telemetry to stop new analysis, or delete everything stored about you
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <Button variant="secondary" onClick={pauseTelemetry} disabled={savingPrivacy}>
+                Pause
+              </Button>
+              <DeleteMyDataButton disabled={savingPrivacy} onDeleted={recheckConsent} />
+            </div>
+          </div>
+        </Card>
+
         {/* Team Radio (Rovo Chat) */}
         <Card>
           <div className="space-y-4">
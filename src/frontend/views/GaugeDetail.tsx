@@ -0,0 +1,99 @@
+/**
+ * Gauge Detail View
+ * Full analysis behind one dashboard gauge, opened by clicking the gauge
+ */
+
+import React from 'react';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Spinner } from '../components/ui/Spinner';
+import { TimingDetail } from '../components/details/TimingDetail';
+import { LoadDetail } from '../components/details/LoadDetail';
+import { BurnoutDetail } from '../components/details/BurnoutDetail';
+import { SprintPredictionDetail } from '../components/details/SprintPredictionDetail';
+import { useAnalysisDetail } from '../hooks/useAnalysisDetail';
+import { getBurnoutDetail, getLoadDetail, getSprintPredictionDetail, getTimingDetail } from '../lib/api';
+import type { DashboardGauge } from '../types';
+
+// Gauges with a detail view
+export type DetailGauge = Extract<DashboardGauge, 'timing' | 'load' | 'burnout' | 'sprintPrediction'>;
+
+interface GaugeDetailProps {
+  gauge: DetailGauge;
+  onClose: () => void;
+}
+
+const GAUGE_TITLES: Record<DetailGauge, { title: string; subtitle: string }> = {
+  timing: { title: '🏁 Track Conditions', subtitle: 'Your quality through the day and across the week' },
+  load: { title: '⛽ Workload Capacity', subtitle: 'How you perform at each load level' },
+  burnout: { title: '🌡️ Engine Temperature', subtitle: 'Eight-week trends and what is driving your burnout risk' },
+  sprintPrediction: { title: '🎯 Race Strategy', subtitle: 'Ticket-by-ticket risk and what-if scenarios' }
+};
+
+interface DetailLoaderProps<T> {
+  fetchDetail: () => Promise<T>;
+  render: (analysis: T) => React.ReactNode;
+}
+
+const DetailLoader = <T,>({ fetchDetail, render }: DetailLoaderProps<T>) => {
+  const { data, loading, error } = useAnalysisDetail(fetchDetail);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Spinner size="large" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card animate={false}>
+        <div className="text-center space-y-2">
+          <div className="text-4xl">⚠️</div>
+          <p className="text-f1-text-secondary">{error?.message || 'Details are not available yet.'}</p>
+        </div>
+      </Card>
+    );
+  }
+
+  return <>{render(data)}</>;
+};
+
+export const GaugeDetail: React.FC<GaugeDetailProps> = ({ gauge, onClose }) => {
+  const { title, subtitle } = GAUGE_TITLES[gauge];
+
+  return (
+    <div className="min-h-screen p-6 bg-f1-background-dark">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Card animate={false}>
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-racing text-gradient-racing mb-1">{title}</h1>
+              <p className="text-f1-text-secondary text-sm">{subtitle}</p>
+            </div>
+            <Button variant="secondary" onClick={onClose}>
+              Back
+            </Button>
+          </div>
+        </Card>
+
+        {gauge === 'timing' && (
+          <DetailLoader fetchDetail={getTimingDetail} render={analysis => <TimingDetail analysis={analysis} />} />
+        )}
+        {gauge === 'load' && (
+          <DetailLoader fetchDetail={getLoadDetail} render={analysis => <LoadDetail analysis={analysis} />} />
+        )}
+        {gauge === 'burnout' && (
+          <DetailLoader fetchDetail={getBurnoutDetail} render={analysis => <BurnoutDetail analysis={analysis} />} />
+        )}
+        {gauge === 'sprintPrediction' && (
+          <DetailLoader
+            fetchDetail={getSprintPredictionDetail}
+            render={analysis => <SprintPredictionDetail analysis={analysis} />}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
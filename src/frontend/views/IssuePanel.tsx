@@ -1,19 +1,46 @@
 /**
  * IssuePanel View
- * Compact telemetry view for issue sidebar
+ * Compact telemetry for the open issue: how similar work has gone for the user,
+ * when this one should land, and who could review it
  */
 
 import React from 'react';
 import { rovo, router } from '@forge/bridge';
-import { useDashboardData } from '../hooks/useDashboardData';
+import { useAnalysisDetail } from '../hooks/useAnalysisDetail';
 import { Card } from '../components/ui/Card';
 import { Badge } from '../components/ui/Badge';
 import { Button } from '../components/ui/Button';
 import { Spinner } from '../components/ui/Spinner';
-import { RACING_FLAGS, LOAD_EMOJIS } from '../lib/constants';
+import { FlowBreakdown } from '../components/gauges/FlowBreakdown';
+import { RACING_FLAGS } from '../lib/constants';
+import { getIssueInsights } from '../lib/api';
+import type { CompletionForecast, CycleTimeStats } from '../types';
+
+const FORECAST_BASIS: Record<CompletionForecast['basis'], string> = {
+  typeAndComponent: 'same type and component',
+  issueType: 'same type',
+  all: 'all your issues'
+};
+
+const formatDays = (days: number) => (days < 1 ? '<1d' : `${days.toFixed(1)}d`);
+
+const formatHours = (hours: number) => (hours < 24 ? `${Math.round(hours)}h` : `${(hours / 24).toFixed(1)}d`);
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const CycleTimeRow: React.FC<{ stats: CycleTimeStats }> = ({ stats }) => (
+  <div className="flex items-center justify-between text-sm">
+    <span className="text-f1-text-secondary truncate">{stats.label}</span>
+    <span className="text-f1-text-primary">
+      {formatDays(stats.medianDays)}
+      <span className="text-xs text-f1-text-muted"> · 85% ≤ {formatDays(stats.p85Days)} · {stats.count}</span>
+    </span>
+  </div>
+);
 
 export const IssuePanel: React.FC = () => {
-  const { data, loading, error } = useDashboardData();
+  const { data, loading, error } = useAnalysisDetail(getIssueInsights);
 
   const openRovoChat = async (prompt?: string) => {
     console.log('🏎️ Opening Team Radio from Issue Panel...');
@@ -88,78 +115,151 @@ export const IssuePanel: React.FC = () => {
       <div className="p-4">
         <Card>
           <p className="text-sm text-f1-text-secondary">
-            Ask "Driver Telemetry" in Rovo chat for insights.
+            No telemetry for this issue. Ask "Driver Telemetry" in Rovo chat for insights.
           </p>
         </Card>
       </div>
     );
   }
 
-  const { activeTickets, currentTimeZone, loadStatus, todayRecommendations, timingData, loadData } = data;
+  const { cycleTime, forecast, timeInStatus, flow, suggestedReviewers, timing, recommendations } = data;
 
-  const getZoneVariant = (): 'green' | 'yellow' | 'red' => {
-    return currentTimeZone === 'peak' ? 'green' :
-           currentTimeZone === 'danger' ? 'red' : 'yellow';
-  };
-
-  const getLoadVariant = (): 'green' | 'yellow' | 'red' => {
-    return loadStatus === 'optimal' ? 'green' :
-           loadStatus === 'critical' || loadStatus === 'over' ? 'red' : 'yellow';
+  const getStatusVariant = (): 'green' | 'yellow' | 'red' => {
+    if (timeInStatus.stuck) return 'red';
+    return timeInStatus.p50Hours !== undefined && timeInStatus.hours > timeInStatus.p50Hours ? 'yellow' : 'green';
   };
 
   return (
     <div className="p-4 space-y-4 bg-f1-background-dark">
       {/* Header */}
       <Card>
-        <h3 className="text-lg font-racing text-gradient-racing mb-2">
+        <h3 className="text-lg font-racing text-gradient-racing mb-1">
           🏎️ Telemetry
         </h3>
+        <div className="text-xs text-f1-text-muted">
+          {data.issueKey} · {data.issueType} · {data.status}
+        </div>
       </Card>
 
-      {/* Quick Status */}
+      {/* Track Status */}
       <Card>
         <div className="space-y-3">
           <div>
             <div className="text-xs font-bold text-f1-text-secondary mb-1">TRACK STATUS</div>
             <div className="flex items-center gap-2">
-              <Badge variant={getZoneVariant()}>
-                {RACING_FLAGS[currentTimeZone === 'peak' ? 'green' : currentTimeZone === 'danger' ? 'red' : 'yellow']} {currentTimeZone.toUpperCase()}
+              <Badge variant={timing.inPeakWindow ? 'green' : 'yellow'}>
+                {RACING_FLAGS[timing.inPeakWindow ? 'green' : 'yellow']} {timing.inPeakWindow ? 'PEAK' : 'OFF PEAK'}
               </Badge>
-              {timingData && (
-                <span className="text-xs text-f1-text-muted">
-                  Now: {timingData.currentHour}:00
-                </span>
-              )}
+              <span className="text-xs text-f1-text-muted">
+                Now: {timing.currentHour}:00
+              </span>
+            </div>
+            <div className="text-xs text-f1-text-muted mt-1">
+              Best hours for {timing.basis === 'issueType' ? `${data.issueType} work` : 'your work'}:{' '}
+              {timing.peakWindow.start}:00–{timing.peakWindow.end}:00 ({timing.timeZone})
             </div>
           </div>
 
-          <div>
-            <div className="text-xs font-bold text-f1-text-secondary mb-1">WORKLOAD</div>
-            <div className="space-y-1">
+          {data.stage !== 'done' && (
+            <div>
+              <div className="text-xs font-bold text-f1-text-secondary mb-1">TIME IN STATUS</div>
               <div className="flex items-center gap-2">
-                <span className="text-2xl font-bold text-f1-text-primary">{activeTickets}</span>
-                <span className="text-sm text-f1-text-secondary">tickets</span>
+                <span className="text-2xl font-bold text-f1-text-primary">{formatHours(timeInStatus.hours)}</span>
+                {timeInStatus.p50Hours !== undefined && (
+                  <Badge variant={getStatusVariant()}>
+                    {timeInStatus.stuck ? 'STUCK' : `usual ${formatHours(timeInStatus.p50Hours)}`}
+                  </Badge>
+                )}
               </div>
-              {loadData && (
-                <div className="text-xs text-f1-text-muted">
-                  Optimal: {loadData.optimalMin}-{loadData.optimalMax}
+              {timeInStatus.stuck && timeInStatus.p85Hours !== undefined && (
+                <div className="text-xs text-f1-red mt-1">
+                  Past the {formatHours(timeInStatus.p85Hours)} most of your{' '}
+                  {timeInStatus.basis === 'issueType' ? `${data.issueType}s` : 'tickets'} spend here
                 </div>
               )}
-              <Badge variant={getLoadVariant()}>
-                {LOAD_EMOJIS[loadStatus]} {loadStatus.toUpperCase()}
-              </Badge>
             </div>
-          </div>
+          )}
         </div>
       </Card>
 
+      {/* Forecast */}
+      {data.stage !== 'done' && (
+        <Card>
+          <div className="space-y-1">
+            <div className="text-xs font-bold text-f1-text-secondary">🏁 FORECAST FINISH</div>
+            {forecast ? (
+              <>
+                <div className="text-xl font-bold text-f1-text-primary">{formatDate(forecast.expectedDate)}</div>
+                <div className="text-xs text-f1-text-muted">
+                  Likely {formatDate(forecast.earliestDate)} – {formatDate(forecast.latestDate)}
+                </div>
+                <div className="text-xs text-f1-text-muted">
+                  From {forecast.sampleSize} completed issues ({FORECAST_BASIS[forecast.basis]})
+                </div>
+              </>
+            ) : (
+              <div className="text-sm text-f1-text-secondary">Not enough similar completed work yet</div>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {/* Cycle Time History */}
+      {(cycleTime.issueType || cycleTime.component) && (
+        <Card>
+          <div className="space-y-2">
+            <div className="text-xs font-bold text-f1-text-secondary">⏱️ YOUR CYCLE TIME (MEDIAN)</div>
+            {cycleTime.issueType && <CycleTimeRow stats={cycleTime.issueType} />}
+            {cycleTime.component && <CycleTimeRow stats={cycleTime.component} />}
+          </div>
+        </Card>
+      )}
+
+      {/* Flow */}
+      {flow.efficiency !== undefined && (
+        <Card>
+          <div className="space-y-2">
+            <div className="text-xs font-bold text-f1-text-secondary">⏱️ WHERE THE TIME WENT</div>
+            <FlowBreakdown
+              hours={flow.hours}
+              efficiency={flow.efficiency}
+              caption={[
+                data.stage !== 'done' ? 'So far, not counting the current status' : '',
+                flow.usualEfficiency !== undefined
+                  ? `usually ${Math.round(flow.usualEfficiency * 100)}% for your ${data.issueType}s`
+                  : '',
+              ].filter(Boolean).join(' · ')}
+            />
+          </div>
+        </Card>
+      )}
+
+      {/* Suggested Reviewers */}
+      {suggestedReviewers.length > 0 && (
+        <Card>
+          <div className="space-y-2">
+            <div className="text-xs font-bold text-f1-text-secondary">👥 SUGGESTED REVIEWERS</div>
+            {suggestedReviewers.map(reviewer => (
+              <div key={reviewer.accountId} className="text-sm">
+                <div className="text-f1-text-primary">{reviewer.displayName}</div>
+                <div className="text-xs text-f1-text-muted">
+                  {reviewer.componentIssues > 0 && `${reviewer.componentIssues} similar done`}
+                  {reviewer.componentIssues > 0 && reviewer.reviewsForYou > 0 && ' · '}
+                  {reviewer.reviewsForYou > 0 && `reviewed ${reviewer.reviewsForYou} of your PRs`}
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       {/* Top Recommendation */}
-      {todayRecommendations && todayRecommendations.length > 0 && (
+      {recommendations.length > 0 && (
         <Card>
           <div className="space-y-2">
             <div className="text-xs font-bold text-f1-text-secondary">💡 TOP RECOMMENDATION</div>
             <div className="text-sm text-f1-text-secondary">
-              {todayRecommendations[0]}
+              {recommendations[0]}
             </div>
           </div>
         </Card>
@@ -0,0 +1,283 @@
+/**
+ * Settings View
+ * Personal preferences every analysis reads: lookback window, working time,
+ * exclusions, load thresholds, gauge visibility and briefing alerts
+ */
+
+import React from 'react';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { updateUserSettings } from '../lib/api';
+import type { DashboardGauge, UserSettings } from '../types';
+
+interface SettingsProps {
+  settings: UserSettings;
+  onSaved: (settings: UserSettings) => void;
+  onClose: () => void;
+}
+
+const GAUGE_LABELS: Record<DashboardGauge, string> = {
+  timing: '🏁 Track Conditions',
+  load: '⛽ Workload Capacity',
+  velocity: '🏎️ Velocity',
+  burnout: '🌡️ Engine Temperature',
+  focus: '🔀 Clean Air',
+  pitcrew: '👥 Pit Crew',
+  sprintPrediction: '🎯 Race Strategy',
+  sprintProgress: '🏁 Sprint Progress',
+  aging: '🧊 Stalled Work',
+  flow: '⏱️ Time on Track'
+};
+
+const NOTIFICATION_LABELS: Record<keyof UserSettings['notifications'], string> = {
+  burnoutAlerts: 'Burnout alerts when risk is high or critical',
+  sprintRiskAlerts: 'Sprint risk alerts when finishing looks unlikely',
+  afterHoursReminders: 'Reminders when you work outside your working hours'
+};
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const inputClass = 'bg-f1-background-dark border border-f1-border rounded px-2 py-1 text-f1-text-primary';
+
+const toList = (text: string) => text.split(',').map(value => value.trim()).filter(Boolean);
+
+const Section: React.FC<{ title: string; description: string; children: React.ReactNode }> = ({
+  title,
+  description,
+  children
+}) => (
+  <div className="space-y-2">
+    <div>
+      <h4 className="font-bold text-f1-text-primary">{title}</h4>
+      <p className="text-xs text-f1-text-muted">{description}</p>
+    </div>
+    {children}
+  </div>
+);
+
+export const Settings: React.FC<SettingsProps> = ({ settings, onSaved, onClose }) => {
+  const [draft, setDraft] = React.useState<UserSettings>(settings);
+  // Lists are edited as comma-separated text and split on save
+  const [excludedProjects, setExcludedProjects] = React.useState(settings.excludedProjects.join(', '));
+  const [excludedIssueTypes, setExcludedIssueTypes] = React.useState(settings.excludedIssueTypes.join(', '));
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const update = <K extends keyof UserSettings>(field: K, value: UserSettings[K]) =>
+    setDraft(current => ({ ...current, [field]: value }));
+
+  const toggleDay = (day: number) =>
+    update('workingDays', draft.workingDays.includes(day)
+      ? draft.workingDays.filter(d => d !== day)
+      : [...draft.workingDays, day]);
+
+  const toggleGauge = (gauge: DashboardGauge) =>
+    update('hiddenGauges', draft.hiddenGauges.includes(gauge)
+      ? draft.hiddenGauges.filter(g => g !== gauge)
+      : [...draft.hiddenGauges, gauge]);
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const { updatedAt, ...changes } = draft;
+      const saved = await updateUserSettings({
+        ...changes,
+        excludedProjects: toList(excludedProjects),
+        excludedIssueTypes: toList(excludedIssueTypes)
+      });
+      onSaved(saved);
+    } catch (err) {
+      console.error('Error saving settings:', err);
+      setError(err instanceof Error ? err.message : 'Settings could not be saved');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen p-6 bg-f1-background-dark">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <Card animate={false}>
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-racing text-gradient-racing mb-1">⚙️ Settings</h1>
+              <p className="text-f1-text-secondary text-sm">
+                Tune your telemetry. Saving recomputes your insights with the new values.
+              </p>
+            </div>
+            <Button variant="secondary" onClick={onClose} disabled={saving}>
+              Back
+            </Button>
+          </div>
+        </Card>
+
+        <Card animate={false}>
+          <div className="space-y-6 text-sm text-f1-text-secondary">
+            <Section title="Lookback Window" description="How much history your analyses read (30-180 days)">
+              <label className="flex items-center gap-2">
+                <input
+                  type="number"
+                  className={`${inputClass} w-24`}
+                  min={30}
+                  max={180}
+                  value={draft.lookbackDays}
+                  onChange={e => update('lookbackDays', Number(e.target.value))}
+                />
+                days
+              </label>
+            </Section>
+
+            <Section title="Working Time" description="Used for after-hours alerts and burnout signals">
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  className={`${inputClass} w-20`}
+                  min={0}
+                  max={23}
+                  value={draft.workingHours.start}
+                  onChange={e => update('workingHours', { ...draft.workingHours, start: Number(e.target.value) })}
+                />
+                :00 to
+                <input
+                  type="number"
+                  className={`${inputClass} w-20`}
+                  min={1}
+                  max={24}
+                  value={draft.workingHours.end}
+                  onChange={e => update('workingHours', { ...draft.workingHours, end: Number(e.target.value) })}
+                />
+                :00
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {DAY_LABELS.map((label, day) => (
+                  <label key={label} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={draft.workingDays.includes(day)}
+                      onChange={() => toggleDay(day)}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <label className="flex items-center gap-2">
+                Timezone
+                <input
+                  type="text"
+                  className={`${inputClass} w-56`}
+                  placeholder="From your Jira profile"
+                  value={draft.timeZoneOverride || ''}
+                  onChange={e => update('timeZoneOverride', e.target.value.trim() || null)}
+                />
+              </label>
+            </Section>
+
+            <Section title="Exclusions" description="Comma-separated; excluded work is left out of every analysis">
+              <label className="flex items-center gap-2">
+                Projects
+                <input
+                  type="text"
+                  className={`${inputClass} flex-1`}
+                  placeholder="e.g. OPS, SUPPORT"
+                  value={excludedProjects}
+                  onChange={e => setExcludedProjects(e.target.value)}
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                Issue types
+                <input
+                  type="text"
+                  className={`${inputClass} flex-1`}
+                  placeholder="e.g. Sub-task, Epic"
+                  value={excludedIssueTypes}
+                  onChange={e => setExcludedIssueTypes(e.target.value)}
+                />
+              </label>
+            </Section>
+
+            <Section title="Workload Zones" description="Concurrent tickets; above the critical threshold counts as critical">
+              <div className="flex flex-wrap items-center gap-2">
+                Optimal
+                <input
+                  type="number"
+                  className={`${inputClass} w-20`}
+                  min={1}
+                  value={draft.load.optimalMin}
+                  onChange={e => update('load', { ...draft.load, optimalMin: Number(e.target.value) })}
+                />
+                to
+                <input
+                  type="number"
+                  className={`${inputClass} w-20`}
+                  min={1}
+                  value={draft.load.optimalMax}
+                  onChange={e => update('load', { ...draft.load, optimalMax: Number(e.target.value) })}
+                />
+                , critical above
+                <input
+                  type="number"
+                  className={`${inputClass} w-20`}
+                  min={1}
+                  value={draft.load.criticalAbove}
+                  onChange={e => update('load', { ...draft.load, criticalAbove: Number(e.target.value) })}
+                />
+              </div>
+            </Section>
+
+            <Section title="Dashboard" description="Gauges to show, and how often the dashboard refreshes">
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(GAUGE_LABELS) as DashboardGauge[]).map(gauge => (
+                  <label key={gauge} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={!draft.hiddenGauges.includes(gauge)}
+                      onChange={() => toggleGauge(gauge)}
+                    />
+                    {GAUGE_LABELS[gauge]}
+                  </label>
+                ))}
+              </div>
+              <label className="flex items-center gap-2">
+                Refresh every
+                <input
+                  type="number"
+                  className={`${inputClass} w-24`}
+                  min={15}
+                  max={3600}
+                  value={draft.refreshIntervalSeconds}
+                  onChange={e => update('refreshIntervalSeconds', Number(e.target.value))}
+                />
+                seconds
+              </label>
+            </Section>
+
+            <Section title="Notifications" description="Alerts added to the top of your recommendations">
+              {(Object.keys(NOTIFICATION_LABELS) as (keyof UserSettings['notifications'])[]).map(key => (
+                <label key={key} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={draft.notifications[key]}
+                    onChange={() => update('notifications', { ...draft.notifications, [key]: !draft.notifications[key] })}
+                  />
+                  {NOTIFICATION_LABELS[key]}
+                </label>
+              ))}
+            </Section>
+
+            {error && <p className="text-sm text-f1-red">{error}</p>}
+
+            <div className="flex justify-end gap-3">
+              <Button variant="secondary" onClick={onClose} disabled={saving}>
+                Cancel
+              </Button>
+              <Button onClick={save} disabled={saving}>
+                {saving ? 'Saving…' : 'Save Settings'}
+              </Button>
+            </div>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,260 @@
+/**
+ * TeamDashboard View
+ * Aggregate-only team telemetry for a project page. Shows how many people fall
+ * into each bucket, never who; small buckets arrive suppressed from the backend.
+ */
+
+import React from 'react';
+import { DashboardGrid } from '../components/layout/DashboardGrid';
+import { GaugeCard } from '../components/layout/GaugeCard';
+import { ProgressRing } from '../components/gauges/ProgressRing';
+import { Badge } from '../components/ui/Badge';
+import { Button } from '../components/ui/Button';
+import { Spinner } from '../components/ui/Spinner';
+import { Card } from '../components/ui/Card';
+import { getTeamStatus } from '../lib/api';
+import type { BucketDistribution, TeamAnalysis } from '../types';
+
+interface BucketRowsProps<B extends string> {
+  distribution: BucketDistribution<B>;
+  labels: Record<B, { label: string; variant: 'green' | 'yellow' | 'red' | 'primary' }>;
+}
+
+// Hidden buckets aren't all small: one more is hidden when a single small one
+// could be worked out from the total, so the label gives no reason
+function BucketRows<B extends string>({ distribution, labels }: BucketRowsProps<B>) {
+  return (
+    <div className="space-y-2 text-sm">
+      {(Object.keys(labels) as B[]).map(bucket => {
+        const count = distribution.buckets[bucket];
+        return (
+          <div key={bucket} className="flex items-center justify-between">
+            <Badge variant={labels[bucket].variant}>{labels[bucket].label}</Badge>
+            <span className="text-f1-text-primary font-bold">
+              {count === null
+                ? <span className="text-f1-text-muted font-normal">Suppressed for privacy</span>
+                : count}
+            </span>
+          </div>
+        );
+      })}
+      <div className="text-xs text-f1-text-muted text-center pt-2">
+        Based on {distribution.membersReported} people with recent telemetry
+      </div>
+    </div>
+  );
+}
+
+const NotEnoughData: React.FC<{ minBucketSize: number }> = ({ minBucketSize }) => (
+  <div className="text-center text-f1-text-muted py-8">
+    Shown once at least {minBucketSize} team members have recent telemetry
+  </div>
+);
+
+export const TeamDashboard: React.FC = () => {
+  const [data, setData] = React.useState<TeamAnalysis | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<Error | null>(null);
+
+  React.useEffect(() => {
+    getTeamStatus()
+      .then(setData)
+      .catch(err => {
+        console.error('Error fetching team status:', err);
+        setError(err instanceof Error ? err : new Error(String(err)));
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center space-y-4">
+          <Spinner size="large" />
+          <div className="text-f1-text-secondary">Loading team telemetry...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen p-6 flex items-center justify-center">
+        <Card>
+          <div className="text-center space-y-4">
+            <div className="text-4xl">⚠️</div>
+            <h2 className="text-xl font-bold text-f1-text-primary">
+              Unable to Load Team Telemetry
+            </h2>
+            <p className="text-f1-text-secondary">
+              {error?.message || 'Try again in a moment.'}
+            </p>
+            <Button onClick={() => window.location.reload()}>
+              Retry
+            </Button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const { projectKey, minBucketSize, teamSize, tooSmall, load, burnout, collaboration, sprint } = data;
+
+  return (
+    <div className="min-h-screen p-6 bg-f1-background-dark">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <Card animate={false}>
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-4xl font-racing text-gradient-racing racing-glow mb-2">
+                🏆 Constructor Standings
+              </h1>
+              <p className="text-f1-text-secondary text-sm">
+                {projectKey} team • Aggregates only, groups under {minBucketSize} people and any that would reveal them are hidden
+              </p>
+            </div>
+            <div className="text-right">
+              <Badge variant="primary">👥 {teamSize} people</Badge>
+              <div className="text-xs text-f1-text-muted mt-1">
+                Updated: {new Date(data.lastUpdated).toLocaleTimeString()}
+              </div>
+            </div>
+          </div>
+        </Card>
+
+        {tooSmall ? (
+          <Card animate={false}>
+            <div className="text-center space-y-2 py-6">
+              <div className="text-4xl">👥</div>
+              <div className="font-bold text-f1-text-primary">Team too small for an anonymous view</div>
+              <div className="text-sm text-f1-text-secondary">
+                At least {minBucketSize} people need work assigned in {projectKey} before team telemetry is shown.
+              </div>
+            </div>
+          </Card>
+        ) : (
+          <DashboardGrid>
+            {/* Load distribution */}
+            <GaugeCard
+              title="Workload Spread"
+              subtitle="People per load status"
+              icon="⛽"
+              infoContent="Each person's latest workload status from their own telemetry in the last week."
+            >
+              {load ? (
+                <BucketRows
+                  distribution={load}
+                  labels={{
+                    under: { label: '🔵 UNDER', variant: 'yellow' },
+                    optimal: { label: '🟢 OPTIMAL', variant: 'green' },
+                    over: { label: '🔴 OVER', variant: 'red' },
+                  }}
+                />
+              ) : (
+                <NotEnoughData minBucketSize={minBucketSize} />
+              )}
+            </GaugeCard>
+
+            {/* Burnout heat */}
+            <GaugeCard
+              title="Team Heat"
+              subtitle={burnout?.averageScore != null ? `Average burnout score ${burnout.averageScore}/100` : 'People per burnout risk level'}
+              icon="🔥"
+              infoContent="Each person's latest burnout risk level. Only the team average score is shown."
+            >
+              {burnout ? (
+                <BucketRows
+                  distribution={burnout}
+                  labels={{
+                    healthy: { label: '🟢 HEALTHY', variant: 'green' },
+                    warning: { label: '🟡 WARNING', variant: 'yellow' },
+                    high: { label: '🟠 HIGH', variant: 'red' },
+                    critical: { label: '🔴 CRITICAL', variant: 'red' },
+                  }}
+                />
+              ) : (
+                <NotEnoughData minBucketSize={minBucketSize} />
+              )}
+            </GaugeCard>
+
+            {/* Sprint completion */}
+            <GaugeCard
+              title="Race Strategy"
+              subtitle={sprint ? `${sprint.sprintName} • ${sprint.daysRemaining} days left` : 'Active sprint forecast'}
+              icon="🏁"
+              infoContent="Chance of finishing the sprint, simulated from the team's daily completions over the last 6 weeks."
+            >
+              {sprint ? (
+                <div className="space-y-4">
+                  <div className="relative flex justify-center">
+                    <ProgressRing percentage={sprint.completionProbability * 100} />
+                  </div>
+                  <div className="space-y-2 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="text-f1-text-secondary">Tickets done:</span>
+                      <span className="text-f1-text-primary">{sprint.completedTickets} / {sprint.totalTickets}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-f1-text-secondary">Expected by sprint end:</span>
+                      <span className="text-f1-text-primary">{sprint.expectedCompleted}</span>
+                    </div>
+                    {sprint.totalPoints > 0 && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-f1-text-secondary">Points done:</span>
+                        <span className="text-f1-text-primary">{sprint.completedPoints} / {sprint.totalPoints}</span>
+                      </div>
+                    )}
+                    {sprint.addedMidSprint > 0 && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-f1-text-secondary">Added mid-sprint:</span>
+                        <span className="text-f1-text-primary">{sprint.addedMidSprint}</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ) : (
+                <div className="text-center text-f1-text-muted py-8">
+                  No active sprint for {projectKey}
+                </div>
+              )}
+            </GaugeCard>
+
+            {/* Collaboration network */}
+            <GaugeCard
+              title="Pit Crew Network"
+              subtitle={collaboration?.avgCollaborationCycleTime != null
+                ? `Collaborative tickets take ${collaboration.avgCollaborationCycleTime} days on average`
+                : 'People per collaboration level'}
+              icon="🤝"
+              infoContent="How connected people are, from comments, reviews and shared tickets over the last 6 months."
+            >
+              {collaboration ? (
+                <BucketRows
+                  distribution={collaboration}
+                  labels={{
+                    isolated: { label: '🏝️ ISOLATED', variant: 'yellow' },
+                    connected: { label: '🔗 CONNECTED', variant: 'green' },
+                    hub: { label: '🌐 HUB', variant: 'primary' },
+                  }}
+                />
+              ) : (
+                <NotEnoughData minBucketSize={minBucketSize} />
+              )}
+            </GaugeCard>
+          </DashboardGrid>
+        )}
+
+        {/* Recommendations */}
+        <Card>
+          <h3 className="text-lg font-bold text-f1-text-primary mb-4">📻 Team Briefing</h3>
+          <div className="space-y-2">
+            {data.recommendations.map((rec, idx) => (
+              <div key={idx} className="text-sm text-f1-text-secondary">{rec}</div>
+            ))}
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
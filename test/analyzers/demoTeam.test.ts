@@ -0,0 +1,156 @@
+import * as path from 'path';
+import { setDataSource } from '../../src/backend/data/source';
+import { FixtureDataSource } from '../../src/backend/data/providers/fixture';
+import { runInInvocationScope } from '../../src/backend/utils/invocation';
+import { analyzeTimingPatterns } from '../../src/backend/analyzers/timing';
+import { analyzeLoadPatterns } from '../../src/backend/analyzers/load';
+import { analyzeStrengthPatterns } from '../../src/backend/analyzers/strengths';
+import { analyzeCollaborationPatterns } from '../../src/backend/analyzers/collaboration';
+import { analyzeTrends } from '../../src/backend/analyzers/trends';
+import { analyzeBurnoutRisk } from '../../src/backend/analyzers/burnout';
+import { analyzeContextSwitching } from '../../src/backend/analyzers/contextSwitching';
+import { predictSprintCompletion } from '../../src/backend/analyzers/predictions';
+import { analyzeWipAging } from '../../src/backend/analyzers/aging';
+import { analyzeFlowEfficiency } from '../../src/backend/analyzers/flow';
+import { analyzeIssueInsights } from '../../src/backend/analyzers/issueInsights';
+import { getCurrentStatus } from '../../src/backend/analyzers/currentStatus';
+import { memoryStorage } from '../support/forgeStubs';
+
+// Analyzers cache in Forge storage and queue refreshes; both stay in memory here
+jest.mock('@forge/api', () => {
+  const stubs = jest.requireActual('../support/forgeStubs');
+  return { ...jest.requireActual('@forge/api'), storage: stubs.memoryStorage, startsWith: stubs.startsWith };
+});
+jest.mock('@forge/events', () => ({ Queue: jest.requireActual('../support/forgeStubs').RecordingQueue }));
+
+const DEMO_TEAM = path.join(__dirname, '../../fixtures/demo-team');
+const ALICE = '557058:alice';
+
+// The moment the demo team was recorded, so the fixture is not shifted and
+// hour-of-day results don't depend on when the tests run
+const RECORDED_AT = new Date('2025-06-02T16:00:00Z');
+
+const run = <T>(analyze: () => Promise<T>) => runInInvocationScope(analyze);
+
+describe('analyzers against the demo team fixture', () => {
+  beforeAll(() => {
+    jest.useFakeTimers({ now: RECORDED_AT, doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask'] });
+    setDataSource(new FixtureDataSource(DEMO_TEAM));
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    memoryStorage.clear();
+  });
+
+  it('finds a peak window and a pattern for every weekday', async () => {
+    const timing = await run(() => analyzeTimingPatterns(ALICE));
+
+    expect(timing.confidence).toBe('high');
+    expect(timing.peakWindow.start).toBeLessThan(timing.peakWindow.end);
+    expect(Object.keys(timing.dayPatterns)).toHaveLength(7);
+    expect(timing.hourlyQuality).toHaveLength(24);
+  });
+
+  it('places the current load inside the optimal range', async () => {
+    const load = await run(() => analyzeLoadPatterns(ALICE));
+
+    expect(load.currentLoad).toBe(6);
+    expect(load.optimalRange).toEqual({ min: 5, max: 9 });
+    expect(load.currentStatus).toBe('optimal');
+    expect(load.dataPoints).toBe(46);
+  });
+
+  it('compares ticket types and components against the team', async () => {
+    const strengths = await run(() => analyzeStrengthPatterns(ALICE));
+
+    expect(Object.keys(strengths.ticketTypes).sort()).toEqual(['Bug', 'Story', 'Task']);
+    expect(strengths.ticketTypes.Bug.delta).toBeLessThan(0);
+    expect(strengths.components.Backend.expertise).toBe('expert');
+    expect(strengths.recommendations[0]).toContain('Bug tickets');
+  });
+
+  it('ranks reviewers from pull request activity', async () => {
+    const collaboration = await run(() => analyzeCollaborationPatterns(ALICE));
+
+    expect(collaboration.bestReviewers.map(reviewer => reviewer.displayName)).toEqual(['Carol Cole', 'Bob Baker', 'Erin Evans']);
+    expect(collaboration.reviewerStats['557058:bob'].totalReviews).toBe(18);
+  });
+
+  it('buckets velocity by month', async () => {
+    const trends = await run(() => analyzeTrends(ALICE));
+
+    expect(trends.velocityTrend.map(point => point.period)).toEqual(['2025-02', '2025-03', '2025-04', '2025-05', '2025-06']);
+    expect(trends.velocityTrend.map(point => point.value)).toEqual([6, 13, 11, 15, 1]);
+  });
+
+  it('rates a sustainable pace as healthy', async () => {
+    const burnout = await run(() => analyzeBurnoutRisk(ALICE));
+
+    expect(burnout.riskLevel).toBe('healthy');
+    expect(burnout.trends.weeklyOverload).toHaveLength(8);
+    expect(burnout.trends.velocityTrend).toEqual([3, 2, 3, 2, 5, 2, 0, 2]);
+  });
+
+  it('measures fragmentation in the recorded time zone', async () => {
+    const focus = await run(() => analyzeContextSwitching(ALICE));
+
+    expect(focus.timeZone).toBe('Europe/Berlin');
+    expect(focus.level).toBe('focused');
+    expect(focus.inProgressBounces.total).toBe(15);
+    expect(focus.weeklySwitches).toHaveLength(8);
+  });
+
+  it('forecasts the active sprint and flags tickets that will not fit', async () => {
+    const sprint = await run(() => predictSprintCompletion(ALICE));
+
+    expect(sprint.sprintId).toBe('8');
+    expect(sprint.predictions.atRiskTickets.map(ticket => ticket.issueKey)).toContain('DT-44');
+    expect(sprint.predictions.atRiskTickets.find(ticket => ticket.issueKey === 'DT-44')?.riskLevel).toBe('critical');
+  });
+
+  it('flags work that has sat in its status longer than usual', async () => {
+    const aging = await run(() => analyzeWipAging(ALICE));
+
+    expect(aging.items[0]).toMatchObject({ issueKey: 'DT-43', status: 'Code Review', stuck: true });
+    expect(aging.items.filter(item => item.stuck).map(item => item.issueKey)).toEqual(['DT-43', 'DT-42', 'DT-44']);
+    // Compared with each past stay in the status, not the total time spent there
+    expect(aging.items.find(item => item.issueKey === 'DT-42')).toMatchObject({ basis: 'issueType', sampleSize: 27 });
+    // Furthest past their norm first
+    const overruns = aging.items.map(item => item.hours / (item.p85Hours ?? Infinity));
+    expect([...overruns].sort((a, b) => b - a)).toEqual(overruns);
+    expect(memoryStorage.entries.has(`user:${ALICE}:aging`)).toBe(true);
+  });
+
+  it('splits cycle time into active and waiting time', async () => {
+    const flow = await run(() => analyzeFlowEfficiency(ALICE));
+
+    expect(flow.overall.issueCount).toBe(40);
+    expect(flow.overall.efficiency).toBeCloseTo(0.353, 3);
+    expect(flow.byIssueType.map(group => group.label)).toEqual(['Story', 'Bug', 'Task']);
+    expect(flow.overall.hours.blocked).toBeGreaterThan(0);
+  });
+
+  it('builds issue insights with a forecast and reviewer suggestions', async () => {
+    const insights = await run(() => analyzeIssueInsights(ALICE, 'DT-42'));
+
+    expect(insights).toMatchObject({ issueKey: 'DT-42', issueType: 'Story', components: ['API'], stage: 'in_progress' });
+    expect(insights?.cycleTime.issueType).toMatchObject({ count: 19, medianDays: 5 });
+    expect(insights?.timeInStatus?.stuck).toBe(true);
+    expect(insights?.suggestedReviewers.map(reviewer => reviewer.displayName)).toEqual(['Bob Baker', 'Carol Cole', 'Erin Evans']);
+    expect(insights?.timing.basis).toBe('issueType');
+    expect(memoryStorage.entries.has(`user:${ALICE}:issue:DT-42`)).toBe(true);
+  });
+
+  it('summarizes the current status from the other analyses', async () => {
+    const status = await run(() => getCurrentStatus(ALICE));
+
+    expect(status.activeTickets).toBe(6);
+    expect(status.loadStatus).toBe('optimal');
+    expect(status.sprintProgress).toMatchObject({ sprintId: '8', completed: 2, remaining: 6, daysRemaining: 7 });
+    expect(status.todayRecommendations).toContain('🧊 STALLED: 3 tickets past your usual time in status');
+  });
+});
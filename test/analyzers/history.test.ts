@@ -0,0 +1,77 @@
+import * as path from 'path';
+import { setDataSource } from '../../src/backend/data/source';
+import { FixtureDataSource } from '../../src/backend/data/providers/fixture';
+import { runInInvocationScope } from '../../src/backend/utils/invocation';
+import { analyzeBurnoutRisk } from '../../src/backend/analyzers/burnout';
+import { analyzeLoadPatterns } from '../../src/backend/analyzers/load';
+import { getSnapshots } from '../../src/backend/data/snapshots';
+import { memoryStorage } from '../support/forgeStubs';
+
+jest.mock('@forge/api', () => {
+  const stubs = jest.requireActual('../support/forgeStubs');
+  return { ...jest.requireActual('@forge/api'), storage: stubs.memoryStorage, startsWith: stubs.startsWith };
+});
+jest.mock('@forge/events', () => ({ Queue: jest.requireActual('../support/forgeStubs').RecordingQueue }));
+
+const DEMO_TEAM = path.join(__dirname, '../../fixtures/demo-team');
+const ALICE = '557058:alice';
+const RECORDED_AT = new Date('2025-06-02T16:00:00Z');
+
+const run = <T>(analyze: () => Promise<T>) => runInInvocationScope(analyze);
+
+describe('analysis history', () => {
+  beforeAll(() => {
+    setDataSource(new FixtureDataSource(DEMO_TEAM));
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: RECORDED_AT, doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask'] });
+    memoryStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reads past weeks of burnout trends from the snapshot taken as each week ended', async () => {
+    // Last week ended 2025-05-26; its snapshot saw work that has since left the user's issues
+    await memoryStorage.set(`snapshot:${ALICE}:burnout:2025-05-26`, {
+      accountId: ALICE,
+      analysis: 'burnout',
+      date: '2025-05-26',
+      recordedAt: '2025-05-26T18:00:00.000Z',
+      confidence: 'high',
+      metrics: { burnoutScore: 20, riskLevel: 'healthy', completedLastWeek: 4, afterHoursShare: 35 }
+    });
+
+    const burnout = await run(() => analyzeBurnoutRisk(ALICE));
+
+    expect(burnout.trends.velocityTrend).toEqual([3, 2, 3, 2, 5, 2, 4, 2]);
+    expect(burnout.trends.dangerHourWork[6]).toBe(35);
+    // Weeks without a snapshot are measured from the user's actions
+    expect(burnout.trends.dangerHourWork.some((share, week) => week !== 6 && share > 0)).toBe(true);
+  });
+
+  it("records today's readings with the burnout score", async () => {
+    const burnout = await run(() => analyzeBurnoutRisk(ALICE));
+    const [snapshot] = await getSnapshots(ALICE, 'burnout', 1);
+
+    expect(snapshot.metrics).toEqual({
+      burnoutScore: burnout.burnoutScore,
+      riskLevel: burnout.riskLevel,
+      completedLastWeek: 2,
+      afterHoursShare: burnout.trends.dangerHourWork[7]
+    });
+  });
+
+  it('records a snapshot from the cached entry on the first read of a new day', async () => {
+    await run(() => analyzeLoadPatterns(ALICE));
+    jest.setSystemTime(new Date('2025-06-03T06:00:00Z'));
+
+    await run(() => analyzeLoadPatterns(ALICE));
+    const snapshots = await getSnapshots(ALICE, 'load', 2);
+
+    expect(snapshots.map(snapshot => snapshot.date)).toEqual(['2025-06-02', '2025-06-03']);
+    expect(snapshots[1].metrics.currentLoad).toBe(6);
+  });
+});
@@ -0,0 +1,126 @@
+import * as path from 'path';
+import { BitbucketClient, withClosingDate } from '../../src/backend/data/bitbucket/client';
+import { computePullRequestMetrics } from '../../src/backend/data/bitbucket/metrics';
+import { BitbucketStandIn, startBitbucketStandIn } from '../support/bitbucketStandIn';
+
+const RECORDING = path.join(__dirname, '../fixtures/bitbucket/acme-web.json');
+const ALICE = '557058:alice';
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Windows reaching back to a date in the recording, whenever the tests run
+const daysSince = (date: string) => Math.ceil((Date.now() - new Date(date).getTime()) / DAY_MS);
+
+describe('BitbucketClient against recorded payloads', () => {
+  let standIn: BitbucketStandIn;
+  let client: BitbucketClient;
+
+  beforeAll(async () => {
+    standIn = await startBitbucketStandIn(RECORDING);
+  });
+
+  afterAll(async () => {
+    await standIn.close();
+  });
+
+  beforeEach(() => {
+    standIn.requests.length = 0;
+    client = new BitbucketClient({ baseUrl: standIn.baseUrl, accessToken: 'recorded-token', fetch });
+  });
+
+  it('pages through pull requests and maps them to the model', async () => {
+    const pullRequests = await client.getUserPullRequests('acme', 'web', ALICE, { daysBack: daysSince('2025-05-01') });
+
+    expect(pullRequests.map(pr => pr.id)).toEqual([42, 43]);
+    expect(standIn.requests).toHaveLength(2);
+    expect(standIn.requests[0].authorization).toBe('Bearer recorded-token');
+    expect(standIn.requests[0].url.searchParams.get('q')).toContain(`author.account_id="${ALICE}"`);
+
+    const [merged, declined] = pullRequests;
+    expect(merged).toMatchObject({
+      title: 'DT-12 Fix login redirect',
+      authorAccountId: ALICE,
+      state: 'MERGED',
+      repository: 'acme/web',
+      sourceBranch: 'feature/DT-12-login',
+      destinationBranch: 'main',
+      linkedIssues: ['DT-12']
+    });
+    // The author is not their own reviewer
+    expect(merged.reviewers.map(r => r.accountId)).toEqual(['557058:bob', '557058:carol']);
+    expect(merged.reviewers[0]).toMatchObject({ approved: true, changesRequested: false });
+    expect(merged.reviewers[1]).toMatchObject({ approved: false, changesRequested: true });
+    expect(declined.state).toBe('DECLINED');
+  });
+
+  it('reads activity across pages, oldest first, skipping untracked entries', async () => {
+    const activity = await client.getPullRequestActivity('acme', 'web', 42);
+
+    expect(activity.map(event => event.type)).toEqual([
+      'update', 'comment', 'changes_request', 'update', 'approval', 'update', 'comment'
+    ]);
+    expect(activity[5]).toMatchObject({ type: 'update', state: 'MERGED', accountId: ALICE });
+  });
+
+  it('dates merges and declines from the closing update, not updated_on', async () => {
+    const [merged, declined] = await client.getUserPullRequests('acme', 'web', ALICE, { daysBack: daysSince('2025-05-01') });
+
+    // A comment two days after the merge moved updated_on
+    expect(merged.merged).toEqual(new Date('2025-05-14T16:00:00Z'));
+    const mergedActivity = await client.getPullRequestActivity('acme', 'web', 42);
+    expect(withClosingDate(merged, mergedActivity).merged).toEqual(new Date('2025-05-12T15:00:00Z'));
+
+    const declinedActivity = await client.getPullRequestActivity('acme', 'web', 43);
+    expect(withClosingDate(declined, declinedActivity).closed).toEqual(new Date('2025-05-21T12:00:00Z'));
+  });
+
+  it('keeps updated_on when the activity has no closing update', async () => {
+    const [merged] = await client.getUserPullRequests('acme', 'web', ALICE, { daysBack: daysSince('2025-05-01') });
+
+    expect(withClosingDate(merged, []).merged).toEqual(merged.updated);
+  });
+
+  it('computes review metrics from the activity stream', async () => {
+    const [merged] = await client.getUserPullRequests('acme', 'web', ALICE, { daysBack: daysSince('2025-05-01') });
+    const activity = await client.getPullRequestActivity('acme', 'web', 42);
+    const metrics = computePullRequestMetrics(withClosingDate(merged, activity), activity);
+
+    expect(metrics).toEqual({
+      prId: 42,
+      reviewDurationHours: 54,
+      timeToFirstReviewHours: 4,
+      numberOfReviewCycles: 2,
+      approved: true,
+      changesRequested: true,
+      fastestReviewer: 'Bob Baker',
+      slowestReviewer: 'Carol Cole'
+    });
+  });
+
+  it('collects one review per reviewer who acted', async () => {
+    const reviews = await client.getPullRequestReviews('acme', 'web', 42);
+
+    expect(reviews).toEqual([
+      expect.objectContaining({ accountId: '557058:bob', approved: true, commented: true, changesRequested: false }),
+      expect.objectContaining({ accountId: '557058:carol', approved: false, commented: true, changesRequested: true })
+    ]);
+  });
+
+  it("returns the user's commits and stops paging at the cutoff", async () => {
+    const commits = await client.getUserCommits('acme', 'web', ALICE, daysSince('2025-04-01'));
+
+    expect(commits.map(commit => commit.hash)).toEqual(['c0ffee1', 'face003']);
+    expect(commits[0]).toMatchObject({ authorEmail: 'alice@example.com', isFixCommit: true, linkedIssues: ['DT-12'] });
+    expect(commits[1]).toMatchObject({ isMergeCommit: true, linkedIssues: ['DT-9'] });
+    expect(standIn.requests.map(request => request.url.searchParams.get('page'))).toEqual([null, '2']);
+  });
+
+  it('matches commit authors by email as well as account ID', async () => {
+    const commits = await client.getUserCommits('acme', 'web', 'bob@example.com', daysSince('2025-04-01'));
+
+    expect(commits.map(commit => commit.hash)).toEqual(['bead002']);
+  });
+
+  it('reports API errors with their status', async () => {
+    await expect(client.getPullRequestActivity('acme', 'web', 999)).rejects.toThrow('Bitbucket API error: 404');
+  });
+});
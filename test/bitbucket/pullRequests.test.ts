@@ -0,0 +1,43 @@
+import * as path from 'path';
+import { getUserReviewHistory } from '../../src/backend/data/bitbucket/pullRequests';
+import { BitbucketStandIn, startBitbucketStandIn } from '../support/bitbucketStandIn';
+
+// Outside Forge, the client's egress goes through Node's own fetch
+jest.mock('@forge/api', () => ({
+  ...jest.requireActual('@forge/api'),
+  fetch: (url: string, init: RequestInit) => fetch(url, init)
+}));
+
+const RECORDING = path.join(__dirname, '../fixtures/bitbucket/acme-web.json');
+const ALICE = '557058:alice';
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+describe('getUserReviewHistory', () => {
+  let standIn: BitbucketStandIn;
+  const env = { ...process.env };
+
+  beforeAll(async () => {
+    standIn = await startBitbucketStandIn(RECORDING);
+    process.env.BITBUCKET_API_BASE_URL = standIn.baseUrl;
+    process.env.BITBUCKET_ACCESS_TOKEN = 'recorded-token';
+    process.env.BITBUCKET_REPOSITORIES = 'acme/web';
+  });
+
+  afterAll(async () => {
+    process.env = env;
+    await standIn.close();
+  });
+
+  it('attaches activity, closing dates and metrics to every pull request', async () => {
+    const daysBack = Math.ceil((Date.now() - new Date('2025-05-01').getTime()) / DAY_MS);
+    const history = await getUserReviewHistory(ALICE, daysBack);
+
+    expect(history.accountId).toBe(ALICE);
+    const [merged, declined] = history.authored;
+    expect(merged.merged).toEqual(new Date('2025-05-12T15:00:00Z'));
+    expect(merged.activity).toHaveLength(7);
+    expect(merged.metrics).toMatchObject({ timeToFirstReviewHours: 4, numberOfReviewCycles: 2 });
+    expect(declined.closed).toEqual(new Date('2025-05-21T12:00:00Z'));
+    expect(declined.metrics.reviewDurationHours).toBe(28);
+  });
+});
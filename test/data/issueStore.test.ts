@@ -0,0 +1,96 @@
+import { getStoredIssues, reconcileIssueStore } from '../../src/backend/data/issueStore';
+import { createDefaultMetrics, getUserIssuesForBackfill, getUserIssuesUpdatedSince } from '../../src/backend/data/jira/issues';
+import { IssueWithMetrics } from '../../src/backend/models/issue';
+import { runInInvocationScope } from '../../src/backend/utils/invocation';
+import { memoryStorage } from '../support/forgeStubs';
+
+jest.mock('@forge/api', () => {
+  const stubs = jest.requireActual('../support/forgeStubs');
+  return { ...jest.requireActual('@forge/api'), storage: stubs.memoryStorage, startsWith: stubs.startsWith };
+});
+jest.mock('../../src/backend/data/jira/issues', () => ({
+  ...jest.requireActual('../../src/backend/data/jira/issues'),
+  getUserIssuesForBackfill: jest.fn(),
+  getUserIssuesUpdatedSince: jest.fn()
+}));
+
+const ALICE = '557058:alice';
+const NOW = new Date('2025-06-02T16:00:00Z');
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function storedIssue(key: string, updated: Date): IssueWithMetrics {
+  return {
+    id: key,
+    key,
+    summary: key,
+    issueType: 'Story',
+    status: 'In Progress',
+    assignee: 'Alice Adams',
+    assigneeAccountId: ALICE,
+    created: new Date(updated.getTime() - DAY_MS),
+    updated,
+    components: [],
+    labels: [],
+    project: 'DT',
+    metrics: createDefaultMetrics(key)
+  };
+}
+
+async function seedStore(backfilledAt: Date, issues: IssueWithMetrics[]): Promise<void> {
+  jest.mocked(getUserIssuesForBackfill).mockResolvedValueOnce({ issues, truncated: false });
+  jest.setSystemTime(backfilledAt);
+  await runInInvocationScope(() => reconcileIssueStore(ALICE));
+  jest.setSystemTime(NOW);
+}
+
+const meta = () => memoryStorage.get(`issues-meta:${ALICE}`);
+
+describe('reconcileIssueStore', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask'] });
+    memoryStorage.clear();
+    jest.mocked(getUserIssuesForBackfill).mockReset();
+    jest.mocked(getUserIssuesUpdatedSince).mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('backfills a store that does not exist yet and records truncation', async () => {
+    jest.mocked(getUserIssuesForBackfill).mockResolvedValueOnce({ issues: [storedIssue('DT-1', NOW)], truncated: true });
+
+    const result = await runInInvocationScope(() => reconcileIssueStore(ALICE));
+
+    expect(result).toEqual({ mode: 'backfill', issues: 1 });
+    expect(await meta()).toMatchObject({ issueCount: 1, truncated: true });
+  });
+
+  it('syncs issues updated since the last sync, from the day before', async () => {
+    await seedStore(new Date('2025-05-30T09:00:00Z'), [storedIssue('DT-1', new Date('2025-05-29T09:00:00Z'))]);
+    jest.mocked(getUserIssuesUpdatedSince).mockResolvedValueOnce([storedIssue('DT-2', new Date('2025-06-01T09:00:00Z'))]);
+
+    const result = await runInInvocationScope(() => reconcileIssueStore(ALICE));
+    const issues = await runInInvocationScope(() => getStoredIssues(ALICE));
+
+    expect(result).toEqual({ mode: 'sync', issues: 1 });
+    expect(getUserIssuesUpdatedSince).toHaveBeenCalledWith(new Date('2025-05-29T09:00:00Z'));
+    expect(issues.map(issue => issue.key).sort()).toEqual(['DT-1', 'DT-2']);
+    expect(new Date((await meta()).syncedAt)).toEqual(NOW);
+  });
+
+  it('backfills again once the last backfill is a week old', async () => {
+    await seedStore(new Date('2025-05-25T09:00:00Z'), [storedIssue('DT-1', new Date('2025-05-24T09:00:00Z'))]);
+    jest.mocked(getUserIssuesForBackfill).mockResolvedValueOnce({ issues: [storedIssue('DT-3', NOW)], truncated: false });
+
+    const result = await runInInvocationScope(() => reconcileIssueStore(ALICE));
+    const issues = await runInInvocationScope(() => getStoredIssues(ALICE));
+
+    expect(result).toEqual({ mode: 'backfill', issues: 1 });
+    expect(getUserIssuesUpdatedSince).not.toHaveBeenCalled();
+    // Issues that left the user's history without an event are dropped
+    expect(issues.map(issue => issue.key)).toEqual(['DT-3']);
+    expect(await memoryStorage.get(`issues-owners:DT-1:${ALICE}`)).toBeUndefined();
+    expect(await memoryStorage.get(`issues-owners:DT-3:${ALICE}`)).toBe(ALICE);
+  });
+});
@@ -0,0 +1,35 @@
+import { getUserSettings, updateUserSettings } from '../../src/backend/data/settings';
+import { UserSettingsUpdate } from '../../src/backend/models/settings';
+import { runInInvocationScope } from '../../src/backend/utils/invocation';
+import { memoryStorage } from '../support/forgeStubs';
+
+jest.mock('@forge/api', () => {
+  const stubs = jest.requireActual('../support/forgeStubs');
+  return { ...jest.requireActual('@forge/api'), storage: stubs.memoryStorage, startsWith: stubs.startsWith };
+});
+
+const ALICE = '557058:alice';
+
+describe('updateUserSettings', () => {
+  beforeEach(() => {
+    memoryStorage.clear();
+  });
+
+  it('rejects unknown fields inside grouped settings without saving anything', async () => {
+    const update = {
+      workingHours: { start: 8, lunch: 12 },
+      notifications: { burnoutAlerts: false, digest: true }
+    } as unknown as UserSettingsUpdate;
+
+    await expect(runInInvocationScope(() => updateUserSettings(ALICE, update)))
+      .rejects.toThrow('Unknown settings: workingHours.lunch, notifications.digest');
+    expect(await memoryStorage.get(`settings:${ALICE}`)).toBeUndefined();
+  });
+
+  it('merges known grouped fields over the current values', async () => {
+    await runInInvocationScope(() => updateUserSettings(ALICE, { workingHours: { start: 8 } } as UserSettingsUpdate));
+
+    const settings = await runInInvocationScope(() => getUserSettings(ALICE));
+    expect(settings.workingHours).toEqual({ start: 8, end: 17 });
+  });
+});
@@ -0,0 +1,106 @@
+import { deleteAllUserData } from '../../src/backend/data/userData';
+import { recordConsent } from '../../src/backend/data/consent';
+import { updateUserSettings } from '../../src/backend/data/settings';
+import { setCache } from '../../src/backend/data/cache';
+import { recordSnapshot } from '../../src/backend/data/snapshots';
+import { backfillIssueStore, upsertStoredIssue } from '../../src/backend/data/issueStore';
+import { recordPrecomputeResult, setPrecomputeOptIn } from '../../src/backend/data/precompute';
+import { createDefaultMetrics, getUserIssuesForBackfill } from '../../src/backend/data/jira/issues';
+import { IssueWithMetrics } from '../../src/backend/models/issue';
+import { runInInvocationScope } from '../../src/backend/utils/invocation';
+import { memoryStorage } from '../support/forgeStubs';
+
+jest.mock('@forge/api', () => {
+  const stubs = jest.requireActual('../support/forgeStubs');
+  return { ...jest.requireActual('@forge/api'), storage: stubs.memoryStorage, startsWith: stubs.startsWith };
+});
+jest.mock('@forge/events', () => ({ Queue: jest.requireActual('../support/forgeStubs').RecordingQueue }));
+jest.mock('../../src/backend/data/jira/issues', () => ({
+  ...jest.requireActual('../../src/backend/data/jira/issues'),
+  getUserIssuesForBackfill: jest.fn()
+}));
+
+const ALICE = '557058:alice';
+const BOB = '557058:bob';
+const NOW = new Date('2025-06-02T16:00:00Z');
+
+function storedIssue(key: string, accountId: string): IssueWithMetrics {
+  return {
+    id: key,
+    key,
+    summary: key,
+    issueType: 'Story',
+    status: 'In Progress',
+    assignee: accountId,
+    assigneeAccountId: accountId,
+    created: NOW,
+    updated: NOW,
+    components: [],
+    labels: [],
+    project: 'DT',
+    metrics: createDefaultMetrics(key)
+  };
+}
+
+// Every stored key and value that names the account
+function entriesNaming(accountId: string): string[] {
+  return Array.from(memoryStorage.entries)
+    .filter(([key, value]) => key.includes(accountId) || value.includes(accountId))
+    .map(([key]) => key);
+}
+
+async function storeEverythingFor(accountId: string): Promise<void> {
+  await recordConsent(accountId);
+  await updateUserSettings(accountId, { lookbackDays: 90 });
+  await setCache({ namespace: 'timing', accountId }, { accountId }, 24);
+  await setCache({ namespace: 'issue', accountId, suffix: 'DT-1' }, { accountId }, 1);
+  // A background refresh in flight
+  await memoryStorage.set(`lock:user:${accountId}:timing`, { acquiredAt: NOW });
+  await recordSnapshot(accountId, 'load', { optimalMin: 5, optimalMax: 9, currentLoad: 6, overloaded: false }, 'high');
+  await setPrecomputeOptIn(accountId, true);
+  await recordPrecomputeResult({
+    runId: 'run-1',
+    accountId,
+    status: 'succeeded',
+    startedAt: NOW,
+    finishedAt: NOW,
+    completed: ['timing'],
+    failures: []
+  });
+}
+
+describe('deleteAllUserData', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask'] });
+    memoryStorage.clear();
+    jest.mocked(getUserIssuesForBackfill).mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('leaves no stored key or value naming the user, and keeps everyone else', async () => {
+    await runInInvocationScope(async () => {
+      await storeEverythingFor(ALICE);
+      await storeEverythingFor(BOB);
+
+      // DT-1 leaves Alice's history before the second backfill
+      jest.mocked(getUserIssuesForBackfill)
+        .mockResolvedValueOnce({ issues: [storedIssue('DT-1', ALICE), storedIssue('DT-2', ALICE)], truncated: false })
+        .mockResolvedValueOnce({ issues: [storedIssue('DT-2', ALICE)], truncated: true });
+      await backfillIssueStore(ALICE);
+      await backfillIssueStore(ALICE);
+      await upsertStoredIssue(BOB, storedIssue('DT-1', BOB));
+      // Indexed by an earlier version that kept dropped issues in the owners index
+      await memoryStorage.set(`issues-owners:DT-9:${ALICE}`, ALICE);
+    });
+    const bobsEntries = entriesNaming(BOB);
+
+    const result = await runInInvocationScope(() => deleteAllUserData(ALICE));
+
+    expect(entriesNaming(ALICE)).toEqual([]);
+    expect(entriesNaming(BOB)).toEqual(bobsEntries);
+    expect(result.deleted).toMatchObject({ consent: 1, settings: 1, precompute: 2, issueStore: 4 });
+  });
+});
@@ -0,0 +1,29 @@
+import { handler } from '../../src/backend/handlers/cacheRefresh';
+import { analyzeTimingPatterns } from '../../src/backend/analyzers/timing';
+import { getAppActingUser } from '../../src/backend/data/jira/principal';
+import { runInInvocationScope } from '../../src/backend/utils/invocation';
+
+jest.mock('@forge/api', () => {
+  const stubs = jest.requireActual('../support/forgeStubs');
+  return { ...jest.requireActual('@forge/api'), storage: stubs.memoryStorage, startsWith: stubs.startsWith };
+});
+jest.mock('@forge/events', () => ({ Queue: jest.requireActual('../support/forgeStubs').RecordingQueue }));
+jest.mock('../../src/backend/data/consent', () => ({ hasActiveConsent: async () => true }));
+jest.mock('../../src/backend/analyzers/timing', () => ({ analyzeTimingPatterns: jest.fn() }));
+
+const ALICE = '557058:alice';
+
+describe('cache refresh consumer', () => {
+  it('recomputes as the app on behalf of the entry owner', async () => {
+    let actingFor: string | undefined;
+    jest.mocked(analyzeTimingPatterns).mockImplementation(async () => {
+      actingFor = getAppActingUser();
+      return {} as never;
+    });
+
+    await runInInvocationScope(() => handler({ call: { functionKey: 'refresh', payload: { namespace: 'timing', accountId: ALICE } }, context: {} }));
+
+    expect(analyzeTimingPatterns).toHaveBeenCalledWith(ALICE);
+    expect(actingFor).toBe(ALICE);
+  });
+});
@@ -0,0 +1,41 @@
+import { privacy } from '@forge/api';
+import { reportPersonalData } from '../../src/backend/handlers/personalData';
+import { recordConsent } from '../../src/backend/data/consent';
+import { setPrecomputeOptIn } from '../../src/backend/data/precompute';
+import { runInInvocationScope } from '../../src/backend/utils/invocation';
+import { memoryStorage } from '../support/forgeStubs';
+
+jest.mock('@forge/api', () => {
+  const stubs = jest.requireActual('../support/forgeStubs');
+  return {
+    ...jest.requireActual('@forge/api'),
+    storage: stubs.memoryStorage,
+    startsWith: stubs.startsWith,
+    privacy: { reportPersonalData: jest.fn() }
+  };
+});
+
+const ALICE = '557058:alice';
+const BOB = '557058:bob';
+
+describe('reportPersonalData', () => {
+  beforeEach(() => {
+    memoryStorage.clear();
+  });
+
+  it('reports every stored account and erases the closed ones', async () => {
+    await runInInvocationScope(async () => {
+      await recordConsent(ALICE);
+      await setPrecomputeOptIn(ALICE, true);
+      await recordConsent(BOB);
+    });
+    jest.mocked(privacy.reportPersonalData).mockResolvedValueOnce([{ accountId: ALICE, status: 'closed' }]);
+
+    await runInInvocationScope(() => reportPersonalData());
+
+    const [[reported]] = jest.mocked(privacy.reportPersonalData).mock.calls;
+    expect(reported.map(account => account.accountId).sort()).toEqual([ALICE, BOB]);
+    expect(Array.from(memoryStorage.entries.keys()).filter(key => key.includes(ALICE))).toEqual([]);
+    expect(await memoryStorage.get(`consent:${BOB}`)).toMatchObject({ accountId: BOB });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Bitbucket Stand-in
+ * Local HTTP server that replays recorded Bitbucket Cloud payloads
+ *
+ * Recordings are keyed by request path, plus "?page=N" for later pages. Links
+ * to api.bitbucket.org inside them are rewritten to the stand-in, so `next`
+ * links are followed against it like they would be against Bitbucket.
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+const RECORDED_BASE_URL = 'https://api.bitbucket.org/2.0';
+
+export interface BitbucketStandIn {
+  baseUrl: string;
+  requests: Array<{ url: URL; authorization?: string }>;
+  close(): Promise<void>;
+}
+
+export async function startBitbucketStandIn(recordingPath: string): Promise<BitbucketStandIn> {
+  const recordings: Record<string, unknown> = JSON.parse(fs.readFileSync(recordingPath, 'utf8'));
+  const requests: BitbucketStandIn['requests'] = [];
+  let baseUrl = '';
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://stand-in');
+    requests.push({ url, authorization: req.headers.authorization });
+
+    const page = url.searchParams.get('page');
+    const recording = recordings[page ? `${url.pathname}?page=${page}` : url.pathname];
+    if (!recording) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ type: 'error', error: { message: `No recording for ${url.pathname}` } }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(recording).split(RECORDED_BASE_URL).join(baseUrl));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/2.0`;
+
+  return {
+    baseUrl,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  };
+}
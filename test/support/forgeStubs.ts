@@ -0,0 +1,94 @@
+/**
+ * Forge Stubs
+ * In-memory stand-ins for the Forge platform APIs the backend touches, so
+ * analyzers run on a laptop with no Forge runtime
+ *
+ * Storage values are serialized like Forge storage serializes them, so dates
+ * come back as strings exactly as they do in production.
+ */
+
+interface StartsWithCondition {
+  condition: 'STARTS_WITH';
+  value: string;
+}
+
+const PAGE_SIZE_LIMIT = 100;
+
+export class MemoryStorage {
+  readonly entries = new Map<string, string>();
+
+  async get(key: string): Promise<any> {
+    const value = this.entries.get(key);
+    return value === undefined ? undefined : JSON.parse(value);
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    this.entries.set(key, JSON.stringify(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  query() {
+    return new MemoryQuery(this);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+class MemoryQuery {
+  private prefix = '';
+  private pageSize = PAGE_SIZE_LIMIT;
+  private after?: string;
+
+  constructor(private readonly storage: MemoryStorage) {}
+
+  where(_field: 'key', condition: StartsWithCondition): this {
+    this.prefix = condition.value;
+    return this;
+  }
+
+  limit(size: number): this {
+    this.pageSize = size;
+    return this;
+  }
+
+  cursor(cursor: string): this {
+    this.after = cursor;
+    return this;
+  }
+
+  async getMany(): Promise<{ results: Array<{ key: string; value: any }>; nextCursor?: string }> {
+    const keys = Array.from(this.storage.entries.keys())
+      .filter(key => key.startsWith(this.prefix) && (!this.after || key > this.after))
+      .sort();
+    const page = keys.slice(0, this.pageSize);
+
+    return {
+      results: await Promise.all(page.map(async key => ({ key, value: await this.storage.get(key) }))),
+      nextCursor: keys.length > page.length ? page[page.length - 1] : undefined
+    };
+  }
+}
+
+export const memoryStorage = new MemoryStorage();
+
+export function startsWith(value: string): StartsWithCondition {
+  return { condition: 'STARTS_WITH', value };
+}
+
+/**
+ * Async event queue that records pushed events instead of delivering them
+ */
+export class RecordingQueue {
+  static readonly pushed: Array<{ queue: string; events: unknown }> = [];
+
+  constructor(private readonly options: { key: string }) {}
+
+  async push(events: unknown): Promise<void> {
+    RecordingQueue.pushed.push({ queue: this.options.key, events });
+  }
+}